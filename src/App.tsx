@@ -1,18 +1,26 @@
 import { useState, useEffect, useMemo, useCallback } from 'react';
-import { Task, TaskUpdate } from './types';
+import { Task, TaskUpdate, UserSettings, DEFAULT_USER_SETTINGS } from './types';
 import { isSupabaseConfigured } from './utils/supabase';
-import { isDateToday, isDateTomorrow, isDateOverdue, formatDate } from './utils/dateUtils';
-import { loadTagColors, saveTasks } from './utils/supabaseStorage';
+import { isDateToday, isDateTomorrow, isDateOverdue, formatDate, getNext5Days } from './utils/dateUtils';
+import { addCalendarDays, calendarDayToDate, getCalendarToday, getCalendarTodayDate, getDeviceTimeZone, getSupportedTimeZones, setCalendarTimeZone } from './utils/calendarDay';
+import { getStorageBackend, getTaskRepository } from './utils/taskRepository';
 import { useAuth } from './hooks/useAuth';
 import { useViewState } from './hooks/useViewState';
 import { useTaskManagement } from './hooks/useTaskManagement';
 import { useRecurringTasks } from './hooks/useRecurringTasks';
+import { useSyncStatus } from './hooks/useSyncStatus';
 import { logger } from './utils/logger';
+import { createBackup, getBackupFileName, importBackup, ImportMode, loadAllCompletedTasks, UserDataBackup } from './utils/backup';
+import { getCsvFileName, keepFirstOccurrences, mergeCompletedTasksForExport, tasksToCsv } from './utils/csv';
+import { downloadFile } from './utils/fileDownload';
+import { createIcsCalendar, getIcsFileName } from './utils/ics';
+import { CloudOff, RefreshCw } from 'lucide-react';
 import {
   getTodayTasks,
   getTomorrowTasks,
   getDayTasks,
   getWeekTasks,
+  getOpenTasks,
   getCompletedTasks,
 } from './utils/taskOperations';
 import TodayView from './components/TodayView';
@@ -22,23 +30,35 @@ import WeekView from './components/WeekView';
 import AllTasksView from './components/AllTasksView';
 import CompletedView from './components/CompletedView';
 import StatsView from './components/StatsView';
+import TrashView from './components/TrashView';
 import GlobalSearch from './components/GlobalSearch';
 import TaskForm from './components/TaskForm';
 import TagManager from './components/TagManager';
+import BackupDialog from './components/BackupDialog';
+import CsvImportDialog from './components/CsvImportDialog';
+import CalendarFeedDialog from './components/CalendarFeedDialog';
+import ExternalImportDialog from './components/ExternalImportDialog';
+import MarkdownImportDialog from './components/MarkdownImportDialog';
 import UndoNotification from './components/UndoNotification';
 import CompletionUndoNotification from './components/CompletionUndoNotification';
 import DeleteRecurringDialog from './components/DeleteRecurringDialog';
+import SeriesHistoryPanel from './components/SeriesHistoryPanel';
+import SyncConflictDialog from './components/SyncConflictDialog';
 import EditRecurringDialog from './components/EditRecurringDialog';
 import LoveMessageDialog from './components/LoveMessageDialog';
 import Auth from './components/Auth';
-import { findFirstInstance } from './utils/recurringTaskHelpers';
+import { copySeriesFrom, endSeriesBefore, hasRecurrenceSettingsChanged, isFirstOccurrence } from './utils/recurringTaskHelpers';
+import { findSeriesRow, resolveTask } from './utils/recurrenceExpansion';
 import { getTodayDateString, getLastLoveMessageDate, setLastLoveMessageDate } from './utils/storage';
 import { TARGET_USER_EMAIL, getDailyMessage } from './data/loveMessages';
 import './App.css';
 
+const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
 function App() {
   // Authentication
   const { user, loading, signOut } = useAuth();
+  const syncStatus = useSyncStatus();
   
   // View state
   const {
@@ -66,7 +86,9 @@ function App() {
     performDelete,
     undoDelete,
     undoCompletion,
+    resolveConflict,
     loadUserData,
+    hasLoadedTasks,
     deletedTask,
     setDeletedTask,
     completedTask,
@@ -81,6 +103,12 @@ function App() {
     completedTasksLoaded,
     completedTasksTotal,
     completedTasksLoadError,
+    trashedTasks,
+    isLoadingTrash,
+    trashLoadError,
+    loadTrash,
+    restoreFromTrash,
+    emptyTrash,
   } = useTaskManagement(user);
 
   // Recurring tasks
@@ -90,6 +118,8 @@ function App() {
     updateRecurringTask,
     extendRecurringTask,
     handleAutoRenewal,
+    pauseRecurringSeries,
+    resumeRecurringSeries,
   } = useRecurringTasks(tasks, setTasks, setAutoRenewNotification);
 
   // UI state
@@ -97,14 +127,22 @@ function App() {
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [initialDueDate, setInitialDueDate] = useState<string | null>(null);
   const [pendingDeleteTask, setPendingDeleteTask] = useState<Task | null>(null);
+  const [historyGroupId, setHistoryGroupId] = useState<string | null>(null);
   const [pendingRecurrenceEdit, setPendingRecurrenceEdit] = useState<{
     task: Task;
     updates: TaskUpdate;
   } | null>(null);
   const [showTagManager, setShowTagManager] = useState(false);
+  const [showBackupDialog, setShowBackupDialog] = useState(false);
+  const [showCsvImport, setShowCsvImport] = useState(false);
+  const [showCalendarFeed, setShowCalendarFeed] = useState(false);
+  const [showExternalImport, setShowExternalImport] = useState(false);
+  const [showMarkdownImport, setShowMarkdownImport] = useState(false);
   const [showUserMenu, setShowUserMenu] = useState(false);
   const [showLoveMessage, setShowLoveMessage] = useState(false);
   const [tagColors, setTagColors] = useState<Record<string, string>>({});
+  const [userSettings, setUserSettings] = useState<UserSettings>(DEFAULT_USER_SETTINGS);
+  const [hasLoadedUserSettings, setHasLoadedUserSettings] = useState(false);
   const [isMobile, setIsMobile] = useState<boolean>(() => {
     if (typeof window === 'undefined') return false;
     return window.matchMedia('(max-width: 768px)').matches;
@@ -121,12 +159,128 @@ function App() {
   // Load tag colors when user is authenticated
   useEffect(() => {
     if (user && !loading) {
-      loadTagColors().then(setTagColors);
+      getTaskRepository().loadTagColors().then(setTagColors);
     } else if (!user) {
       setTagColors({});
     }
   }, [user, loading]);
 
+  // Apply the user's time zone. Day views showing today (or tomorrow) follow it to the new date.
+  const applyUserSettings = useCallback((settings: UserSettings) => {
+    const previousToday = getCalendarToday();
+    setCalendarTimeZone(settings.timeZone);
+    setUserSettings(settings);
+
+    const today = getCalendarToday();
+    if (today === previousToday) return;
+    setTodayViewDate(current => formatDate(current) === previousToday ? calendarDayToDate(today) : current);
+    setTomorrowViewDate(current => formatDate(current) === addCalendarDays(previousToday, 1)
+      ? calendarDayToDate(addCalendarDays(today, 1))
+      : current);
+  }, [setTodayViewDate, setTomorrowViewDate]);
+
+  // Load user settings when user is authenticated
+  useEffect(() => {
+    if (user && !loading) {
+      getTaskRepository().loadUserSettings().then(settings => {
+        applyUserSettings(settings);
+        setHasLoadedUserSettings(true);
+      });
+    } else if (!user) {
+      applyUserSettings(DEFAULT_USER_SETTINGS);
+      setHasLoadedUserSettings(false);
+    }
+  }, [user, loading, applyUserSettings]);
+
+  const handleTimeZoneChange = useCallback(async (timeZone: string | null) => {
+    const settings = { ...userSettings, timeZone };
+    applyUserSettings(settings);
+    try {
+      await getTaskRepository().saveUserSettings(settings);
+    } catch (error) {
+      logger.error('[App] Failed to save time zone:', error);
+    }
+  }, [userSettings, applyUserSettings]);
+
+  const handleTrashRetentionChange = useCallback(async (trashRetentionDays: number) => {
+    const settings = { ...userSettings, trashRetentionDays };
+    applyUserSettings(settings);
+    try {
+      await getTaskRepository().saveUserSettings(settings);
+    } catch (error) {
+      logger.error('[App] Failed to save trash retention:', error);
+    }
+  }, [userSettings, applyUserSettings]);
+
+  // Errors go to the calendar feed dialog
+  const handleCalendarFeedTokenChange = useCallback(async (calendarFeedToken: string | null) => {
+    const settings = { ...userSettings, calendarFeedToken };
+    await getTaskRepository().saveUserSettings(settings);
+    applyUserSettings(settings);
+  }, [userSettings, applyUserSettings]);
+
+  const timeZoneOptions = useMemo(() => getSupportedTimeZones(), []);
+
+  // Load the trash once tasks and settings are in, and again on opening the Trash view.
+  // Loading it also purges tasks kept past the retention period.
+  const isTrashView = currentView === 'trash';
+  useEffect(() => {
+    if (!user || !hasLoadedTasks || !hasLoadedUserSettings) return;
+    loadTrash(userSettings.trashRetentionDays);
+  }, [user, hasLoadedTasks, hasLoadedUserSettings, userSettings.trashRetentionDays, isTrashView]);
+
+  const handleExportBackup = useCallback(async () => {
+    const backup = await createBackup();
+    downloadFile(getBackupFileName(backup), JSON.stringify(backup, null, 2), 'application/json');
+  }, []);
+
+  // Import a backup, then reload everything it may have changed
+  const handleImportBackup = useCallback(async (backup: UserDataBackup, mode: ImportMode) => {
+    const summary = await importBackup(backup, mode);
+    await loadUserData();
+    const repository = getTaskRepository();
+    const [colors, settings] = await Promise.all([repository.loadTagColors(), repository.loadUserSettings()]);
+    setTagColors(colors);
+    applyUserSettings(settings);
+    await loadTrash(settings.trashRetentionDays);
+    return summary;
+  }, [loadUserData, loadTrash, applyUserSettings]);
+
+  // Export every completed task, including those not loaded into the view yet
+  const handleExportCompletedCsv = useCallback(async () => {
+    try {
+      const loadedTasks = await loadAllCompletedTasks();
+      const csv = tasksToCsv(mergeCompletedTasksForExport(loadedTasks, tasks));
+      downloadFile(getCsvFileName('completed'), csv, 'text/csv');
+    } catch (error) {
+      logger.error('[App] Failed to export completed tasks:', error);
+      alert('Failed to export completed tasks. Please try again.');
+    }
+  }, [tasks]);
+
+  const handleExportOpenCsv = useCallback(() => {
+    downloadFile(getCsvFileName('open'), tasksToCsv(keepFirstOccurrences(getOpenTasks(tasks))), 'text/csv');
+  }, [tasks]);
+
+  // Export every due task, with completed occurrences of series that aren't loaded into the views yet
+  const handleDownloadCalendar = useCallback(async () => {
+    try {
+      const loadedIds = new Set(tasks.map(task => task.id));
+      const completedTasks = (await loadAllCompletedTasks()).filter(task => !loadedIds.has(task.id));
+      const calendar = createIcsCalendar([...tasks, ...completedTasks], { calendarName: 'Riley Tasks' });
+      downloadFile(getIcsFileName(), calendar, 'text/calendar');
+    } catch (error) {
+      logger.error('[App] Failed to export calendar:', error);
+      alert('Failed to export the calendar. Please try again.');
+    }
+  }, [tasks]);
+
+  // The save effect stores the imported tasks
+  const handleImportTasks = useCallback((importedTasks: Task[]) => {
+    logger.debug(`[App] Importing ${importedTasks.length} task(s)`);
+    setTasks(currentTasks => [...currentTasks, ...importedTasks]);
+  }, [setTasks]);
+
   // Show daily love message for target user
   useEffect(() => {
     if (!user?.email) return;
@@ -172,11 +326,11 @@ function App() {
 
   // Combined update task function (handles both recurring and non-recurring)
   const updateTask = useCallback((id: string, updates: TaskUpdate, editMode?: 'all' | 'thisAndFollowing') => {
-    const existingTask = tasks.find(t => t.id === id);
+    const existingTask = resolveTask(tasks, id);
     if (!existingTask) return;
 
     // Track this update to prevent race conditions with real-time reloads
-    trackRecentUpdate(id);
+    trackRecentUpdate(existingTask.id);
     
     // Also track any tasks that might be affected by recurring task updates
     if (existingTask.recurrenceGroupId && (existingTask.recurrence || updates.recurrence)) {
@@ -188,16 +342,10 @@ function App() {
 
     if (existingTask.recurrence || updates.recurrence) {
       // Check if recurrence settings are being changed
-      const recurrenceChanged = updates.recurrence !== undefined && updates.recurrence !== existingTask.recurrence;
-      const multiplierChanged = updates.recurrenceMultiplier !== undefined && updates.recurrenceMultiplier !== existingTask.recurrenceMultiplier;
-      const customFreqChanged = updates.customFrequency !== undefined && updates.customFrequency !== existingTask.customFrequency;
-      const recurrenceSettingsChanged = recurrenceChanged || multiplierChanged || customFreqChanged;
+      const recurrenceSettingsChanged = hasRecurrenceSettingsChanged(existingTask, updates);
       
       // Check if this is the first instance
-      const firstInstance = existingTask.recurrenceGroupId 
-        ? findFirstInstance(tasks, existingTask.recurrenceGroupId)
-        : null;
-      const isFirstInstance = firstInstance?.id === existingTask.id || !firstInstance;
+      const isFirstInstance = isFirstOccurrence(tasks, existingTask);
       
       // If recurrence settings changed on a non-first instance, show dialog (unless mode already specified)
       if (recurrenceSettingsChanged && !isFirstInstance && !editMode) {
@@ -213,7 +361,7 @@ function App() {
 
   // Delete task handler
   const deleteTask = useCallback(async (id: string) => {
-    const taskToDelete = tasks.find(task => task.id === id);
+    const taskToDelete = resolveTask(tasks, id);
     if (!taskToDelete) return;
 
     // If this is a recurring task, show dialog to choose deletion option
@@ -259,7 +407,19 @@ function App() {
       return taskDateStr >= selectedTaskDateStr;
     });
 
+    // A series that started before this occurrence is ended the day before it rather than deleted.
+    // The trash gets a copy of the ended part, with the removed exception rows in it, so it can be restored.
+    const series = findSeriesRow(tasks, pendingDeleteTask.recurrenceGroupId);
     setPendingDeleteTask(null);
+    if (series && series.dueDate && series.dueDate < selectedTaskDateStr) {
+      await performDelete(
+        tasksToDelete,
+        pendingDeleteTask,
+        [endSeriesBefore(series, selectedTaskDateStr)],
+        copySeriesFrom(series, selectedTaskDateStr, tasksToDelete)
+      );
+      return;
+    }
     await performDelete(tasksToDelete, pendingDeleteTask);
   }, [pendingDeleteTask, tasks, performDelete]);
 
@@ -300,7 +460,7 @@ function App() {
 
   // Toggle task complete
   const toggleTaskComplete = useCallback((id: string) => {
-    const task = tasks.find(t => t.id === id);
+    const task = resolveTask(tasks, id);
     if (!task) return;
     
     const newCompletedState = !task.completed;
@@ -340,10 +500,22 @@ function App() {
       handleAutoRenewal(task);
     } else {
       setCompletedTask(null);
-      updateTask(id, { completed: false });
+      updateTask(id, { completed: false, skipped: false });
     }
   }, [tasks, updateTask, handleAutoRenewal]);
 
+  // Skip a single occurrence of a recurring task
+  const skipOccurrence = useCallback((id: string) => {
+    const task = resolveTask(tasks, id);
+    if (!task || !task.recurrenceGroupId || task.completed) return;
+
+    // Skipped occurrences are resolved like completed ones, so they leave the open views
+    updateTask(id, { completed: true, skipped: true });
+
+    // Skipping the last instance keeps the series going, same as completing it
+    handleAutoRenewal(task);
+  }, [tasks, updateTask, handleAutoRenewal]);
+
   // Edit handler
   const handleEdit = useCallback((task: Task) => {
     setEditingTask(task);
@@ -372,8 +544,11 @@ function App() {
   }, [tasks]);
 
   const getWeekTasksFiltered = useMemo(() => {
-    return () => getWeekTasks(tasks);
-  }, [tasks]);
+    return () => {
+      const weekDates = getNext5Days(weekViewDate || getCalendarTodayDate());
+      return getWeekTasks(tasks, formatDate(weekDates[0]), formatDate(weekDates[weekDates.length - 1]));
+    };
+  }, [tasks, weekViewDate]);
 
   const getCompletedTasksFiltered = useMemo(() => {
     return () => getCompletedTasks(tasks);
@@ -391,6 +566,7 @@ function App() {
           onEdit={handleEdit}
           onDelete={deleteTask}
           onUpdateTask={updateTask}
+          onSkipOccurrence={skipOccurrence}
           onNavigateDate={(date) => setTodayViewDate(date)}
           onAddTask={handleAddTask}
         />;
@@ -403,6 +579,7 @@ function App() {
           onEdit={handleEdit}
           onDelete={deleteTask}
           onUpdateTask={updateTask}
+          onSkipOccurrence={skipOccurrence}
           onNavigateDate={(date) => setTomorrowViewDate(date)}
           onAddTask={handleAddTask}
         />;
@@ -416,6 +593,7 @@ function App() {
           onEdit={handleEdit}
           onDelete={deleteTask}
           onUpdateTask={updateTask}
+          onSkipOccurrence={skipOccurrence}
           onBackToWeek={() => { setCurrentView('week'); setSearchQuery(''); }}
           onNavigateDate={(date) => setSelectedDayDate(date)}
           onAddTask={handleAddTask}
@@ -431,17 +609,23 @@ function App() {
           onNavigateToDay={(date, weekDate) => { setSelectedDayDate(date); setWeekViewDate(weekDate); setCurrentView('day', { dayDate: date }); setSearchQuery(''); }}
           onAddTask={handleAddTask}
           onWeekDateChange={setWeekViewDate}
+          onDownloadCalendar={handleDownloadCalendar}
         />;
       case 'all':
         return <AllTasksView
-          tasks={tasks.filter(t => !t.completed)}
+          tasks={getOpenTasks(tasks)}
           tagColors={tagColors}
           onToggleComplete={toggleTaskComplete}
           onEdit={handleEdit}
           onDelete={deleteTask}
           onDeleteGroup={deleteGroup}
           onUpdateTask={updateTask}
+          onSkipOccurrence={skipOccurrence}
+          onPauseSeries={pauseRecurringSeries}
+          onResumeSeries={resumeRecurringSeries}
+          onShowHistory={setHistoryGroupId}
           onAddTask={handleAddTask}
+          onExportCsv={handleExportOpenCsv}
         />;
       case 'completed':
         return <CompletedView
@@ -451,6 +635,7 @@ function App() {
           onEdit={handleEdit}
           onDelete={deleteTask}
           onUpdateTask={updateTask}
+          onExportCsv={handleExportCompletedCsv}
           hasMore={hasMoreCompletedTasks}
           isLoadingMore={isLoadingCompletedTasks}
           onLoadMore={loadMoreCompletedTasks}
@@ -463,13 +648,22 @@ function App() {
           tasks={tasks}
           tagColors={tagColors}
         />;
+      case 'trash':
+        return <TrashView
+          tasks={trashedTasks}
+          retentionDays={userSettings.trashRetentionDays}
+          isLoading={isLoadingTrash}
+          loadError={trashLoadError}
+          onRestore={restoreFromTrash}
+          onEmptyTrash={emptyTrash}
+        />;
       default:
         return null;
     }
   };
 
-  // Show configuration error if Supabase is not configured
-  if (!isSupabaseConfigured()) {
+  // Show configuration error if Supabase is not configured (the local backends don't need it)
+  if (getStorageBackend() === 'supabase' && !isSupabaseConfigured()) {
     return (
       <div style={{
         minHeight: '100vh',
@@ -549,10 +743,7 @@ VITE_SUPABASE_ANON_KEY=your_supabase_anon_key`}
             <button 
               className={`nav-tab ${currentView === 'tomorrow' ? 'active' : ''}`}
               onClick={() => {
-                const tomorrow = new Date();
-                tomorrow.setDate(tomorrow.getDate() + 1);
-                tomorrow.setHours(0, 0, 0, 0);
-                setTomorrowViewDate(tomorrow);
+                setTomorrowViewDate(calendarDayToDate(addCalendarDays(getCalendarToday(), 1)));
                 setCurrentView('tomorrow');
                 setSearchQuery('');
               }}
@@ -583,6 +774,12 @@ VITE_SUPABASE_ANON_KEY=your_supabase_anon_key`}
             >
               Stats
             </button>
+            <button
+              className={`nav-tab ${currentView === 'trash' ? 'active' : ''}`}
+              onClick={() => { setCurrentView('trash'); setSearchQuery(''); }}
+            >
+              Trash
+            </button>
           </nav>
         </div>
 
@@ -590,6 +787,7 @@ VITE_SUPABASE_ANON_KEY=your_supabase_anon_key`}
           tasks={tasks}
           tagColors={tagColors}
           onSelectTask={handleEdit}
+          onShowHistory={setHistoryGroupId}
           query={searchQuery}
           setQuery={setSearchQuery}
           currentView={currentView}
@@ -602,6 +800,20 @@ VITE_SUPABASE_ANON_KEY=your_supabase_anon_key`}
         />
 
         <div className="header-right">
+          {(!syncStatus.isOnline || syncStatus.pendingCount > 0) && (
+            <div
+              className={`sync-status ${syncStatus.isOnline ? 'sync-status-pending' : 'sync-status-offline'}`}
+              title="Changes are saved on this device and sync once you're back online"
+            >
+              {syncStatus.isOnline ? <RefreshCw size={14} /> : <CloudOff size={14} />}
+              <span>
+                {!syncStatus.isOnline && 'Offline'}
+                {!syncStatus.isOnline && syncStatus.pendingCount > 0 && ' · '}
+                {syncStatus.pendingCount > 0 && `${syncStatus.pendingCount} pending change${syncStatus.pendingCount !== 1 ? 's' : ''}`}
+              </span>
+            </div>
+          )}
+
           <button 
             className="btn-new-task"
             onClick={() => { setEditingTask(null); setInitialDueDate(null); setShowTaskForm(true); }}
@@ -637,6 +849,79 @@ VITE_SUPABASE_ANON_KEY=your_supabase_anon_key`}
                   >
                     Manage Tags
                   </button>
+                  <button
+                    className="user-menu-item"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setShowBackupDialog(true);
+                      setShowUserMenu(false);
+                    }}
+                  >
+                    Backup & Restore
+                  </button>
+                  <button
+                    className="user-menu-item"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setShowCsvImport(true);
+                      setShowUserMenu(false);
+                    }}
+                  >
+                    Import from CSV
+                  </button>
+                  <button
+                    className="user-menu-item"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setShowExternalImport(true);
+                      setShowUserMenu(false);
+                    }}
+                  >
+                    Import from Todoist / To Do
+                  </button>
+                  <button
+                    className="user-menu-item"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setShowMarkdownImport(true);
+                      setShowUserMenu(false);
+                    }}
+                  >
+                    Import Markdown Checklist
+                  </button>
+                  <button
+                    className="user-menu-item"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setShowCalendarFeed(true);
+                      setShowUserMenu(false);
+                    }}
+                  >
+                    Calendar Feed
+                  </button>
+                  <label className="user-menu-setting" onClick={(e) => e.stopPropagation()}>
+                    <span>Time zone</span>
+                    <select
+                      value={userSettings.timeZone ?? ''}
+                      onChange={(e) => handleTimeZoneChange(e.target.value || null)}
+                    >
+                      <option value="">Device ({getDeviceTimeZone()})</option>
+                      {timeZoneOptions.map(timeZone => (
+                        <option key={timeZone} value={timeZone}>{timeZone}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="user-menu-setting" onClick={(e) => e.stopPropagation()}>
+                    <span>Keep deleted tasks</span>
+                    <select
+                      value={userSettings.trashRetentionDays}
+                      onChange={(e) => handleTrashRetentionChange(Number(e.target.value))}
+                    >
+                      {TRASH_RETENTION_OPTIONS.map(days => (
+                        <option key={days} value={days}>{days} days</option>
+                      ))}
+                    </select>
+                  </label>
                   <button 
                     className="user-menu-item logout"
                     onClick={(e) => {
@@ -673,10 +958,7 @@ VITE_SUPABASE_ANON_KEY=your_supabase_anon_key`}
           <button 
             className={currentView === 'tomorrow' ? 'active' : ''} 
             onClick={() => {
-              const tomorrow = new Date();
-              tomorrow.setDate(tomorrow.getDate() + 1);
-              tomorrow.setHours(0, 0, 0, 0);
-              setTomorrowViewDate(tomorrow);
+              setTomorrowViewDate(calendarDayToDate(addCalendarDays(getCalendarToday(), 1)));
               setCurrentView('tomorrow');
               setSearchQuery('');
             }}
@@ -712,6 +994,13 @@ VITE_SUPABASE_ANON_KEY=your_supabase_anon_key`}
             <span className="nav-icon">📊</span>
             <span className="nav-label">Stats</span>
           </button>
+          <button
+            className={currentView === 'trash' ? 'active' : ''}
+            onClick={() => { setCurrentView('trash'); setSearchQuery(''); }}
+          >
+            <span className="nav-icon">🗑️</span>
+            <span className="nav-label">Trash</span>
+          </button>
         </nav>
       )}
 
@@ -739,7 +1028,7 @@ VITE_SUPABASE_ANON_KEY=your_supabase_anon_key`}
             setEditingTask(null);
             setInitialDueDate(null);
           }}
-          onExtendRecurring={editingTask?.recurrenceGroupId ? () => {
+          onExtendRecurring={editingTask?.recurrenceGroupId && !findSeriesRow(tasks, editingTask.recurrenceGroupId) ? () => {
             if (editingTask) {
               extendRecurringTask(editingTask.id);
             }
@@ -771,6 +1060,24 @@ VITE_SUPABASE_ANON_KEY=your_supabase_anon_key`}
         />
       )}
 
+      {syncStatus.conflicts.length > 0 && (
+        <SyncConflictDialog
+          key={syncStatus.conflicts[0].local.id}
+          conflict={syncStatus.conflicts[0]}
+          onResolve={(choices) => resolveConflict(syncStatus.conflicts[0], choices)}
+        />
+      )}
+
+      {historyGroupId && (
+        <SeriesHistoryPanel
+          tasks={tasks}
+          recurrenceGroupId={historyGroupId}
+          hasMoreCompletedTasks={hasMoreCompletedTasks}
+          onLoadMoreCompleted={loadMoreCompletedTasks}
+          onClose={() => setHistoryGroupId(null)}
+        />
+      )}
+
       {pendingDeleteTask && (
         <DeleteRecurringDialog
           taskTitle={pendingDeleteTask.title}
@@ -818,21 +1125,58 @@ VITE_SUPABASE_ANON_KEY=your_supabase_anon_key`}
       {showTagManager && (
         <TagManager
           tasks={tasks}
-          onUpdateTasks={async (updatedTasks) => {
+          onUpdateTasks={(updatedTasks) => {
+            // The save effect persists the tasks whose tags changed
             setTasks(updatedTasks);
-            await saveTasks(updatedTasks);
           }}
           onTagColorsChange={(updatedColors) => {
             setTagColors(updatedColors);
           }}
           onClose={async () => {
             setShowTagManager(false);
-            const updatedColors = await loadTagColors();
+            const updatedColors = await getTaskRepository().loadTagColors();
             setTagColors(updatedColors);
           }}
         />
       )}
 
+      {showBackupDialog && (
+        <BackupDialog
+          onExport={handleExportBackup}
+          onImport={handleImportBackup}
+          onClose={() => setShowBackupDialog(false)}
+        />
+      )}
+
+      {showCsvImport && (
+        <CsvImportDialog
+          onImport={handleImportTasks}
+          onClose={() => setShowCsvImport(false)}
+        />
+      )}
+
+      {showExternalImport && (
+        <ExternalImportDialog
+          onImport={handleImportTasks}
+          onClose={() => setShowExternalImport(false)}
+        />
+      )}
+
+      {showMarkdownImport && (
+        <MarkdownImportDialog
+          onImport={handleImportTasks}
+          onClose={() => setShowMarkdownImport(false)}
+        />
+      )}
+
+      {showCalendarFeed && (
+        <CalendarFeedDialog
+          token={userSettings.calendarFeedToken}
+          onChangeToken={handleCalendarFeedTokenChange}
+          onClose={() => setShowCalendarFeed(false)}
+        />
+      )}
+
       {migrationNotification && (
         <div className="migration-notification">
           <div className="notification-content">
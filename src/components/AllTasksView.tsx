@@ -1,8 +1,12 @@
 import { useState, useMemo } from 'react';
+import { Download } from 'lucide-react';
 import { Task, TaskUpdate, getTagColor } from '../types';
 import TaskCard from './TaskCard';
 import RecurringTaskGroup from './RecurringTaskGroup';
+import CopyMarkdownButton from './CopyMarkdownButton';
 import { groupTasksByTag } from '../utils/taskUtils';
+import { keepFirstOccurrences } from '../utils/csv';
+import { tasksToMarkdown } from '../utils/markdown';
 
 interface AllTasksViewProps {
   tasks: Task[];
@@ -12,10 +16,15 @@ interface AllTasksViewProps {
   onDelete: (id: string) => void;
   onDeleteGroup?: (groupId: string) => void;
   onUpdateTask?: (id: string, updates: TaskUpdate) => void;
+  onSkipOccurrence?: (id: string) => void;
+  onPauseSeries?: (groupId: string) => void;
+  onResumeSeries?: (groupId: string) => void;
+  onShowHistory?: (groupId: string) => void;
   onAddTask?: (date: Date) => void;
+  onExportCsv?: () => void;
 }
 
-export default function AllTasksView({ tasks, tagColors, onToggleComplete, onEdit, onDelete, onDeleteGroup, onUpdateTask, onAddTask }: AllTasksViewProps) {
+export default function AllTasksView({ tasks, tagColors, onToggleComplete, onEdit, onDelete, onDeleteGroup, onUpdateTask, onSkipOccurrence, onPauseSeries, onResumeSeries, onShowHistory, onAddTask, onExportCsv }: AllTasksViewProps) {
   const [collapsedTags, setCollapsedTags] = useState<Set<string>>(new Set());
 
   const toggleTagCollapse = (tag: string) => {
@@ -93,6 +102,15 @@ export default function AllTasksView({ tasks, tagColors, onToggleComplete, onEdi
 
   return (
     <div className="task-list">
+      {onExportCsv && (
+        <div className="view-toolbar">
+          <button className="btn btn-secondary btn-small view-toolbar-btn" onClick={onExportCsv}>
+            <Download size={14} />
+            Export CSV
+          </button>
+        </div>
+      )}
+
       {sortedAllTags.map(tag => {
         const tagColor = tag === 'untagged' 
           ? getTagColor('default', tagColors)
@@ -122,6 +140,15 @@ export default function AllTasksView({ tasks, tagColors, onToggleComplete, onEdi
                 {tagDisplay}
               </span>
               <span className="tag-group-count" style={{ color: tagColor }}>{totalCount}</span>
+              <CopyMarkdownButton
+                iconOnly
+                className="tag-group-copy-btn"
+                getMarkdown={() => tasksToMarkdown(tagDisplay, [{
+                  // One entry per recurring series, like the group shows
+                  tasks: keepFirstOccurrences([...nonRecurringTagTasks, ...Array.from(recurringTagGroups.values()).flat()]),
+                  showDueDates: true,
+                }])}
+              />
             </div>
             {!isCollapsed && (
               <div className="tag-group-tasks">
@@ -130,8 +157,10 @@ export default function AllTasksView({ tasks, tagColors, onToggleComplete, onEdi
                   // Count incomplete tasks
                   const incompleteTasks = groupTasks.filter(task => !task.completed);
                   
-                  // If only 1 remaining, show as individual task card
-                  if (incompleteTasks.length === 1) {
+                  // If only 1 remaining, show as individual task card, unless the series goes on
+                  // (paused, or completion-based) and needs its group header for pause/resume
+                  const seriesContinues = incompleteTasks[0]?.pausedFrom || incompleteTasks[0]?.recurrenceFromCompletion;
+                  if (incompleteTasks.length === 1 && !seriesContinues) {
                     return (
                       <TaskCard
                         key={incompleteTasks[0].id}
@@ -141,6 +170,7 @@ export default function AllTasksView({ tasks, tagColors, onToggleComplete, onEdi
                         onEdit={onEdit}
                         onDelete={onDelete}
                         onUpdateTask={onUpdateTask}
+                        onSkipOccurrence={onSkipOccurrence}
                         showDate={true}
                         showTags={false}
                       />
@@ -158,6 +188,10 @@ export default function AllTasksView({ tasks, tagColors, onToggleComplete, onEdi
                       onDelete={onDelete}
                       onDeleteGroup={onDeleteGroup}
                       onUpdateTask={onUpdateTask}
+                      onSkipOccurrence={onSkipOccurrence}
+                      onPauseSeries={onPauseSeries}
+                      onResumeSeries={onResumeSeries}
+                      onShowHistory={onShowHistory}
                       hideActions={true}
                     />
                   );
@@ -172,6 +206,7 @@ export default function AllTasksView({ tasks, tagColors, onToggleComplete, onEdi
                     onEdit={onEdit}
                     onDelete={onDelete}
                     onUpdateTask={onUpdateTask}
+                    onSkipOccurrence={onSkipOccurrence}
                     showDate={true}
                     showTags={false}
                   />
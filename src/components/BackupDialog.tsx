@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Download, Upload } from 'lucide-react';
+import { BackupResult, ImportMode, ImportSummary, parseBackup, UserDataBackup } from '../utils/backup';
+import { logger } from '../utils/logger';
+
+interface BackupDialogProps {
+  onExport: () => Promise<void>;
+  onImport: (backup: UserDataBackup, mode: ImportMode) => Promise<ImportSummary>;
+  onClose: () => void;
+}
+
+export default function BackupDialog({ onExport, onImport, onClose }: BackupDialogProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [parsedBackup, setParsedBackup] = useState<BackupResult<UserDataBackup> | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await onExport();
+      setMessage('Backup downloaded.');
+    } catch (exportError) {
+      logger.error('[BackupDialog] Failed to export backup:', exportError);
+      setError('Failed to create the backup. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setMessage(null);
+    setError(null);
+    if (!file) {
+      setParsedBackup(null);
+      return;
+    }
+    setParsedBackup(parseBackup(await file.text()));
+  };
+
+  const handleImport = async () => {
+    if (!parsedBackup?.ok) return;
+    if (mode === 'replace') {
+      const confirmed = window.confirm(
+        'Replace all your tasks, tag colors and settings with this backup? Tasks not in the backup are deleted for good.'
+      );
+      if (!confirmed) return;
+    }
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      const { savedCount, deletedCount } = await onImport(parsedBackup.value, mode);
+      setMessage(
+        `Imported ${savedCount} task${savedCount !== 1 ? 's' : ''}`
+        + (deletedCount > 0 ? ` and removed ${deletedCount}.` : '.')
+      );
+      setParsedBackup(null);
+    } catch (importError) {
+      logger.error('[BackupDialog] Failed to import backup:', importError);
+      setError(`Failed to import the backup: ${importError instanceof Error ? importError.message : 'Unknown error'}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content backup-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Backup & Restore</h2>
+          <button className="modal-close" onClick={onClose}>×</button>
+        </div>
+
+        <div className="backup-body">
+          <section className="backup-section">
+            <h3>Export</h3>
+            <p className="backup-note">
+              Download all your tasks (including completed and deleted ones), tag colors and settings as a JSON file.
+            </p>
+            <button className="btn btn-secondary backup-action-btn" onClick={handleExport} disabled={isExporting}>
+              <Download size={16} />
+              {isExporting ? 'Exporting...' : 'Export Backup'}
+            </button>
+          </section>
+
+          <section className="backup-section">
+            <h3>Import</h3>
+            <input
+              type="file"
+              accept="application/json,.json"
+              aria-label="Backup file"
+              onChange={handleFileChange}
+              disabled={isImporting}
+            />
+
+            {parsedBackup && !parsedBackup.ok && (
+              <ul className="backup-errors">
+                {parsedBackup.errors.map(parseError => <li key={parseError}>{parseError}</li>)}
+              </ul>
+            )}
+
+            {parsedBackup?.ok && (
+              <>
+                <p className="backup-note">
+                  {parsedBackup.value.tasks.length} task{parsedBackup.value.tasks.length !== 1 ? 's' : ''}
+                  {' and '}
+                  {Object.keys(parsedBackup.value.tagColors).length} tag color{Object.keys(parsedBackup.value.tagColors).length !== 1 ? 's' : ''},
+                  exported {format(new Date(parsedBackup.value.exportedAt), 'MMM d, yyyy h:mm a')}
+                </p>
+                <label className="backup-mode-option">
+                  <input
+                    type="radio"
+                    name="backup-import-mode"
+                    checked={mode === 'merge'}
+                    onChange={() => setMode('merge')}
+                  />
+                  <span><strong>Merge</strong>: add the backup to your tasks, keeping the newer version of tasks in both</span>
+                </label>
+                <label className="backup-mode-option">
+                  <input
+                    type="radio"
+                    name="backup-import-mode"
+                    checked={mode === 'replace'}
+                    onChange={() => setMode('replace')}
+                  />
+                  <span><strong>Replace</strong>: delete everything first, then restore the backup</span>
+                </label>
+                <button
+                  className={`btn ${mode === 'replace' ? 'btn-danger' : 'btn-primary'} backup-action-btn`}
+                  onClick={handleImport}
+                  disabled={isImporting}
+                >
+                  <Upload size={16} />
+                  {isImporting ? 'Importing...' : 'Import Backup'}
+                </button>
+              </>
+            )}
+          </section>
+
+          {message && <div className="backup-message">{message}</div>}
+          {error && <div className="load-error-message">{error}</div>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { Copy, RefreshCw } from 'lucide-react';
+import { generateFeedToken, getCalendarFeedUrl } from '../utils/calendarFeed';
+import { logger } from '../utils/logger';
+
+interface CalendarFeedDialogProps {
+  token: string | null;
+  onChangeToken: (token: string | null) => Promise<void>;
+  onClose: () => void;
+}
+
+export default function CalendarFeedDialog({ token, onChangeToken, onClose }: CalendarFeedDialogProps) {
+  const [asTodos, setAsTodos] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseFeedUrl = token ? getCalendarFeedUrl(token) : null;
+  const feedUrl = baseFeedUrl && asTodos ? `${baseFeedUrl}&type=todo` : baseFeedUrl;
+
+  const changeToken = async (newToken: string | null, successMessage: string) => {
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await onChangeToken(newToken);
+      setMessage(successMessage);
+    } catch (saveError) {
+      logger.error('[CalendarFeedDialog] Failed to save feed token:', saveError);
+      setError('Failed to update the calendar feed. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    const confirmed = window.confirm(
+      'Reset the calendar link? Calendars subscribed to the current link stop getting updates.'
+    );
+    if (confirmed) changeToken(generateFeedToken(), 'New link created.');
+  };
+
+  const handleTurnOff = () => {
+    const confirmed = window.confirm(
+      'Turn off the calendar feed? Calendars subscribed to it stop getting updates.'
+    );
+    if (confirmed) changeToken(null, 'Calendar feed turned off.');
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setMessage('Link copied.');
+    } catch (copyError) {
+      logger.error('[CalendarFeedDialog] Failed to copy feed link:', copyError);
+      setError('Failed to copy the link. Select it and copy it instead.');
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content calendar-feed-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Calendar Feed</h2>
+          <button className="modal-close" onClick={onClose}>×</button>
+        </div>
+
+        <div className="backup-body">
+          <p className="backup-note">
+            Subscribe to your due tasks from a calendar app. The feed updates as you change tasks;
+            anyone with the link can see your tasks, so keep it private.
+          </p>
+
+          {!token ? (
+            <button
+              className="btn btn-primary backup-action-btn"
+              onClick={() => changeToken(generateFeedToken(), 'Calendar feed turned on.')}
+              disabled={isSaving}
+            >
+              Turn On Calendar Feed
+            </button>
+          ) : (
+            <>
+              {feedUrl ? (
+                <>
+                  <div className="calendar-feed-link">
+                    <input type="text" readOnly value={feedUrl} aria-label="Calendar feed link" onFocus={(e) => e.target.select()} />
+                    <button className="btn btn-secondary btn-small view-toolbar-btn" onClick={handleCopy}>
+                      <Copy size={14} />
+                      Copy
+                    </button>
+                  </div>
+                  <label className="backup-mode-option">
+                    <input type="checkbox" checked={asTodos} onChange={(e) => setAsTodos(e.target.checked)} />
+                    <span>Show tasks as to-dos instead of all-day events (not every calendar app supports this)</span>
+                  </label>
+                </>
+              ) : (
+                <p className="backup-note">
+                  The feed is on, but no feed server is configured for this app (VITE_CALENDAR_FEED_URL).
+                </p>
+              )}
+              <div className="calendar-feed-actions">
+                <button className="btn btn-secondary backup-action-btn" onClick={handleReset} disabled={isSaving}>
+                  <RefreshCw size={16} />
+                  Reset Link
+                </button>
+                <button className="btn btn-danger backup-action-btn" onClick={handleTurnOff} disabled={isSaving}>
+                  Turn Off
+                </button>
+              </div>
+            </>
+          )}
+
+          {message && <div className="backup-message">{message}</div>}
+          {error && <div className="load-error-message">{error}</div>}
+        </div>
+      </div>
+    </div>
+  );
+}
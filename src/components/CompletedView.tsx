@@ -1,4 +1,5 @@
 import { useMemo } from 'react';
+import { Download } from 'lucide-react';
 import { Task, TaskUpdate } from '../types';
 import TaskCard from './TaskCard';
 
@@ -9,6 +10,7 @@ interface CompletedViewProps {
   onEdit: (task: Task) => void;
   onDelete: (id: string) => void;
   onUpdateTask?: (id: string, updates: TaskUpdate) => void;
+  onExportCsv?: () => void;
   // Progressive loading props
   hasMore?: boolean;
   isLoadingMore?: boolean;
@@ -25,6 +27,7 @@ export default function CompletedView({
   onEdit,
   onDelete,
   onUpdateTask,
+  onExportCsv,
   hasMore,
   isLoadingMore,
   onLoadMore,
@@ -68,6 +71,15 @@ export default function CompletedView({
 
   return (
     <div className="task-list">
+      {onExportCsv && sortedTasks.length > 0 && (
+        <div className="view-toolbar">
+          <button className="btn btn-secondary btn-small view-toolbar-btn" onClick={onExportCsv}>
+            <Download size={14} />
+            Export CSV
+          </button>
+        </div>
+      )}
+
       {sortedTasks.length === 0 ? (
         // Empty state when search has no matches but more tasks can be loaded
         <div className="empty-state" style={{ marginBottom: '1rem' }}>
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { Check, ClipboardCopy } from 'lucide-react';
+import { logger } from '../utils/logger';
+
+interface CopyMarkdownButtonProps {
+  getMarkdown: () => string;
+  className?: string;
+  iconOnly?: boolean;
+}
+
+const COPIED_FEEDBACK_MS = 2000;
+
+export default function CopyMarkdownButton({ getMarkdown, className = 'btn btn-secondary btn-small view-toolbar-btn', iconOnly = false }: CopyMarkdownButtonProps) {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // Tag group headers collapse on click
+    e.stopPropagation();
+    try {
+      await navigator.clipboard.writeText(getMarkdown());
+      setCopied(true);
+    } catch (error) {
+      logger.error('[CopyMarkdownButton] Failed to copy Markdown:', error);
+      alert('Failed to copy to the clipboard.');
+    }
+  };
+
+  const label = copied ? 'Copied!' : 'Copy as Markdown';
+  return (
+    <button className={className} onClick={handleClick} title={label} aria-label={label}>
+      {copied ? <Check size={14} /> : <ClipboardCopy size={14} />}
+      {!iconOnly && label}
+    </button>
+  );
+}
@@ -0,0 +1,142 @@
+import { useMemo, useState } from 'react';
+import { Task } from '../types';
+import {
+  CSV_FIELD_LABELS,
+  CSV_FIELDS,
+  CsvColumnMapping,
+  CsvField,
+  createTasksFromCsvRows,
+  guessColumnMapping,
+  parseCsv,
+  readCsvRows,
+} from '../utils/csv';
+import { formatRecurrenceDisplay, getDateDisplay } from '../utils/dateUtils';
+
+interface CsvImportDialogProps {
+  onImport: (tasks: Task[]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROW_COUNT = 10;
+
+export default function CsvImportDialog({ onImport, onClose }: CsvImportDialogProps) {
+  const [rows, setRows] = useState<string[][] | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const importRows = useMemo(() => (rows ? readCsvRows(rows, mapping) : []), [rows, mapping]);
+  const validRows = importRows.filter(row => row.errors.length === 0);
+  const invalidRows = importRows.filter(row => row.errors.length > 0);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setFileError(null);
+    if (!file) {
+      setRows(null);
+      return;
+    }
+    const parsedRows = parseCsv(await file.text());
+    if (parsedRows.length < 2) {
+      setRows(null);
+      setFileError('The file needs a header row and at least one task row.');
+      return;
+    }
+    setRows(parsedRows);
+    setMapping(guessColumnMapping(parsedRows[0]));
+  };
+
+  const handleMappingChange = (field: CsvField, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: value === '' ? undefined : Number(value) }));
+  };
+
+  const handleImport = () => {
+    onImport(createTasksFromCsvRows(importRows));
+    onClose();
+  };
+
+  const headers = rows?.[0] ?? [];
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content csv-import-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Import from CSV</h2>
+          <button className="modal-close" onClick={onClose}>×</button>
+        </div>
+
+        <div className="csv-import-body">
+          <input type="file" accept=".csv,text/csv" aria-label="CSV file" onChange={handleFileChange} />
+          {fileError && <div className="load-error-message">{fileError}</div>}
+
+          {rows && (
+            <>
+              <div className="csv-import-mapping">
+                {CSV_FIELDS.map(field => (
+                  <label key={field} className="csv-import-mapping-row">
+                    <span>{CSV_FIELD_LABELS[field]}</span>
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => handleMappingChange(field, e.target.value)}
+                    >
+                      <option value="">Not imported</option>
+                      {headers.map((header, index) => (
+                        <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+
+              <div className="csv-import-preview">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Row</th>
+                      <th>Title</th>
+                      <th>Due</th>
+                      <th>Done</th>
+                      <th>Tags</th>
+                      <th>Repeats</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {importRows.slice(0, PREVIEW_ROW_COUNT).map(row => (
+                      <tr key={row.rowNumber} className={row.errors.length > 0 ? 'csv-import-row-invalid' : undefined}>
+                        <td>{row.rowNumber}</td>
+                        <td>{row.taskData.title}</td>
+                        <td>{row.taskData.dueDate ? getDateDisplay(row.taskData.dueDate) : ''}</td>
+                        <td>{row.taskData.completed ? '✓' : ''}</td>
+                        <td>{row.taskData.tags?.join(', ')}</td>
+                        <td>{row.taskData.recurrence ? formatRecurrenceDisplay(row.taskData as Task) : ''}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {importRows.length > PREVIEW_ROW_COUNT && (
+                  <p className="csv-import-note">…and {importRows.length - PREVIEW_ROW_COUNT} more rows</p>
+                )}
+              </div>
+
+              {invalidRows.length > 0 && (
+                <div className="csv-import-errors">
+                  <p className="csv-import-note">
+                    {invalidRows.length} row{invalidRows.length !== 1 ? 's' : ''} will be skipped:
+                  </p>
+                  <ul>
+                    {invalidRows.map(row => (
+                      <li key={row.rowNumber}>Row {row.rowNumber}: {row.errors.join('; ')}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <button className="btn btn-primary" onClick={handleImport} disabled={validRows.length === 0}>
+                Import {validRows.length} Task{validRows.length !== 1 ? 's' : ''}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,18 @@
 import { useState, useCallback } from 'react';
-import { Task, TaskUpdate } from '../types';
+import { Task, TaskUpdate, getTagColor } from '../types';
 import NavigationHeader from './NavigationHeader';
 import GroupedTaskList from './GroupedTaskList';
+import PriorityBadge from './PriorityBadge';
 import { startOfDay } from 'date-fns';
 import { formatFullDate } from '../utils/dateUtils';
+import {
+  formatTaskTime,
+  formatTimeOfDay,
+  getTimelineHours,
+  layoutTimedTasks,
+  SLOT_MINUTES,
+  toTimeOfDay,
+} from '../utils/daySchedule';
 
 interface DayViewProps {
   tasks: Task[];
@@ -13,15 +22,27 @@ interface DayViewProps {
   onEdit: (task: Task) => void;
   onDelete: (id: string) => void;
   onUpdateTask?: (id: string, updates: TaskUpdate) => void;
+  onSkipOccurrence?: (id: string) => void;
   onBackToWeek?: () => void;
   onNavigateDate?: (date: Date) => void;
   onAddTask?: (date: Date) => void;
 }
 
-export default function DayView({ tasks, date, tagColors, onToggleComplete, onEdit, onDelete, onUpdateTask, onBackToWeek, onNavigateDate, onAddTask }: DayViewProps) {
+const HOUR_HEIGHT = 48; // Pixels per hour on the timeline
+const MIN_TASK_HEIGHT = 22; // Short tasks still need room for their title
+
+export default function DayView({ tasks, date, tagColors, onToggleComplete, onEdit, onDelete, onUpdateTask, onSkipOccurrence, onBackToWeek, onNavigateDate, onAddTask }: DayViewProps) {
   const [collapsedTags, setCollapsedTags] = useState<Set<string>>(new Set());
+  const [dragOverMinutes, setDragOverMinutes] = useState<number | null>(null);
+  const [isDragOverAllDay, setIsDragOverAllDay] = useState(false);
   const fullDateDisplay = formatFullDate(date);
 
+  const allDayTasks = tasks.filter(task => !task.dueTime);
+  const timelineEntries = layoutTimedTasks(tasks);
+  const hours = getTimelineHours(timelineEntries);
+  const firstMinute = hours[0] * 60;
+  const lastMinute = (hours[hours.length - 1] + 1) * 60;
+
   const toggleTagCollapse = useCallback((tag: string) => {
     setCollapsedTags(prev => {
       const newSet = new Set(prev);
@@ -50,6 +71,40 @@ export default function DayView({ tasks, date, tagColors, onToggleComplete, onEd
     }
   };
 
+  const handleDragStart = (e: React.DragEvent, task: Task) => {
+    e.dataTransfer.setData('taskId', task.id);
+  };
+
+  // The slot under the pointer, in minutes since midnight
+  const getSlotMinutes = (e: React.DragEvent<HTMLElement>): number => {
+    const offset = e.clientY - e.currentTarget.getBoundingClientRect().top;
+    const minutes = firstMinute + Math.floor(offset / HOUR_HEIGHT * 60 / SLOT_MINUTES) * SLOT_MINUTES;
+    return Math.min(Math.max(minutes, firstMinute), lastMinute - SLOT_MINUTES);
+  };
+
+  const handleTimelineDragOver = (e: React.DragEvent<HTMLElement>) => {
+    e.preventDefault();
+    setDragOverMinutes(getSlotMinutes(e));
+  };
+
+  const handleTimelineDrop = (e: React.DragEvent<HTMLElement>) => {
+    e.preventDefault();
+    setDragOverMinutes(null);
+    const taskId = e.dataTransfer.getData('taskId');
+    if (!taskId || !onUpdateTask) return;
+    // Only this occurrence moves; see WeekView's drop handler
+    onUpdateTask(taskId, { dueTime: toTimeOfDay(getSlotMinutes(e)), _dragDrop: true });
+  };
+
+  const handleAllDayDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOverAllDay(false);
+    const taskId = e.dataTransfer.getData('taskId');
+    const task = tasks.find(t => t.id === taskId);
+    if (!task?.dueTime || !onUpdateTask) return;
+    onUpdateTask(taskId, { dueTime: undefined, _dragDrop: true });
+  };
+
   return (
     <div>
       {onNavigateDate && (
@@ -77,19 +132,97 @@ export default function DayView({ tasks, date, tagColors, onToggleComplete, onEd
         </div>
       ) : (
         <div className="task-list">
-          <GroupedTaskList
-            tasks={tasks}
-            tagColors={tagColors}
-            onToggleComplete={onToggleComplete}
-            onEdit={onEdit}
-            onDelete={onDelete}
-            onUpdateTask={onUpdateTask}
-            collapsedTags={collapsedTags}
-            onToggleTagCollapse={toggleTagCollapse}
-          />
+          <div
+            className={`day-all-day ${isDragOverAllDay ? 'drag-over' : ''}`}
+            onDragOver={(e) => { e.preventDefault(); setIsDragOverAllDay(true); }}
+            onDragLeave={() => setIsDragOverAllDay(false)}
+            onDrop={handleAllDayDrop}
+          >
+            <div className="day-section-label">All day</div>
+            {allDayTasks.length > 0 ? (
+              <GroupedTaskList
+                tasks={allDayTasks}
+                tagColors={tagColors}
+                onToggleComplete={onToggleComplete}
+                onEdit={onEdit}
+                onDelete={onDelete}
+                onUpdateTask={onUpdateTask}
+                onSkipOccurrence={onSkipOccurrence}
+                onTaskDragStart={onUpdateTask ? handleDragStart : undefined}
+                collapsedTags={collapsedTags}
+                onToggleTagCollapse={toggleTagCollapse}
+              />
+            ) : (
+              <div className="day-all-day-empty">No all-day tasks</div>
+            )}
+          </div>
+
+          <div className="day-timeline">
+            <div className="day-timeline-labels">
+              {hours.map(hour => (
+                <div key={hour} className="day-timeline-hour-label" style={{ height: HOUR_HEIGHT }}>
+                  {formatTimeOfDay(toTimeOfDay(hour * 60))}
+                </div>
+              ))}
+            </div>
+            <div
+              className="day-timeline-grid"
+              data-testid="day-timeline-grid"
+              style={{ height: hours.length * HOUR_HEIGHT, backgroundSize: `100% ${HOUR_HEIGHT}px` }}
+              onDragOver={handleTimelineDragOver}
+              onDragLeave={() => setDragOverMinutes(null)}
+              onDrop={handleTimelineDrop}
+            >
+              {dragOverMinutes !== null && (
+                <div
+                  className="day-timeline-drop-slot"
+                  style={{
+                    top: (dragOverMinutes - firstMinute) / 60 * HOUR_HEIGHT,
+                    height: SLOT_MINUTES / 60 * HOUR_HEIGHT,
+                  }}
+                >
+                  {formatTimeOfDay(toTimeOfDay(dragOverMinutes))}
+                </div>
+              )}
+              {timelineEntries.map(({ task, start, end, lane, laneCount }) => {
+                const tagColor = task.tags.length > 0 ? getTagColor(task.tags[0], tagColors) : getTagColor('default', tagColors);
+                return (
+                  <div
+                    key={task.id}
+                    className={`day-timeline-task ${task.completed ? 'completed' : ''}`}
+                    style={{
+                      top: (start - firstMinute) / 60 * HOUR_HEIGHT,
+                      height: Math.max((end - start) / 60 * HOUR_HEIGHT, MIN_TASK_HEIGHT),
+                      left: `${lane / laneCount * 100}%`,
+                      width: `${100 / laneCount}%`,
+                      borderLeftColor: tagColor,
+                    }}
+                    draggable={!!onUpdateTask && !task.completed}
+                    onDragStart={(e) => handleDragStart(e, task)}
+                    onClick={() => onEdit(task)}
+                  >
+                    <input
+                      type="checkbox"
+                      className="week-task-checkbox"
+                      checked={task.completed}
+                      onChange={(e) => {
+                        e.stopPropagation();
+                        onToggleComplete(task.id);
+                      }}
+                      onClick={(e) => e.stopPropagation()}
+                    />
+                    <div className="day-timeline-task-text">
+                      <span className="day-timeline-task-title">{task.title}</span>
+                      <span className="day-timeline-task-time">{formatTaskTime(task)}</span>
+                    </div>
+                    <PriorityBadge priority={task.priority} compact />
+                  </div>
+                );
+              })}
+            </div>
+          </div>
         </div>
       )}
     </div>
   );
 }
-
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Task } from '../types';
+import {
+  createTasksFromImportReport,
+  EXTERNAL_IMPORT_FORMAT_LABELS,
+  ExternalImportResult,
+  readExternalImportFile,
+} from '../utils/externalImport';
+import { formatRecurrenceDisplay, getDateDisplay } from '../utils/dateUtils';
+
+interface ExternalImportDialogProps {
+  onImport: (tasks: Task[]) => void;
+  onClose: () => void;
+}
+
+export default function ExternalImportDialog({ onImport, onClose }: ExternalImportDialogProps) {
+  const [result, setResult] = useState<ExternalImportResult | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setResult(file ? readExternalImportFile(file.name, await file.text()) : null);
+  };
+
+  const handleImport = () => {
+    if (!result?.ok) return;
+    onImport(createTasksFromImportReport(result.value));
+    onClose();
+  };
+
+  const report = result?.ok ? result.value : null;
+  const itemsWithNotes = report?.items.filter(item => item.unmapped.length > 0) ?? [];
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content csv-import-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Import from Todoist or To Do</h2>
+          <button className="modal-close" onClick={onClose}>×</button>
+        </div>
+
+        <div className="csv-import-body">
+          <p className="csv-import-note">
+            Choose a Todoist project export (CSV or JSON) or a Microsoft To Do export (JSON).
+            Nothing is saved until you click Import.
+          </p>
+          <input type="file" accept=".csv,.json,text/csv,application/json" aria-label="Export file" onChange={handleFileChange} />
+
+          {result && !result.ok && (
+            <ul className="backup-errors">
+              {result.errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          {report && (
+            <>
+              <p className="csv-import-note">
+                {EXTERNAL_IMPORT_FORMAT_LABELS[report.format]} export:
+                {' '}{report.items.length} task{report.items.length !== 1 ? 's' : ''} to import
+                {report.skipped.length > 0 && `, ${report.skipped.length} entr${report.skipped.length !== 1 ? 'ies' : 'y'} skipped`}
+              </p>
+
+              <div className="csv-import-preview external-import-preview">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Task</th>
+                      <th>Due</th>
+                      <th>Done</th>
+                      <th>Tags</th>
+                      <th>Repeats</th>
+                      <th>Subtasks</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.items.map((item, index) => (
+                      <tr key={index}>
+                        <td>{item.taskData.title}</td>
+                        <td>{item.taskData.dueDate ? getDateDisplay(item.taskData.dueDate) : ''}</td>
+                        <td>{item.taskData.completed ? '✓' : ''}</td>
+                        <td>{item.taskData.tags?.join(', ')}</td>
+                        <td>{item.taskData.recurrence ? formatRecurrenceDisplay(item.taskData as Task) : ''}</td>
+                        <td>{item.taskData.subtasks?.length || ''}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {(itemsWithNotes.length > 0 || report.skipped.length > 0) && (
+                <div className="csv-import-errors external-import-notes">
+                  <p className="csv-import-note">Not carried over:</p>
+                  <ul>
+                    {itemsWithNotes.map((item, index) => (
+                      <li key={`item-${index}`}>{item.label}: {item.unmapped.join('; ')}</li>
+                    ))}
+                    {report.skipped.map((skip, index) => (
+                      <li key={`skip-${index}`}>{skip.label}: {skip.reason}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <button className="btn btn-primary" onClick={handleImport} disabled={report.items.length === 0}>
+                Import {report.items.length} Task{report.items.length !== 1 ? 's' : ''}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,13 @@
 import { useState, useEffect, useRef, useMemo, Fragment } from 'react';
+import { History } from 'lucide-react';
 import { Task, ViewType } from '../types';
 import {
   filterTasksBySearch,
   getTodayTasks,
   getTomorrowTasks,
   getDayTasks,
+  getWeekTasks,
+  getOpenTasks,
   getCompletedTasks,
 } from '../utils/taskOperations';
 import {
@@ -15,11 +18,15 @@ import {
   isDateOverdue,
   getNext5Days,
 } from '../utils/dateUtils';
+import { getCalendarTodayDate } from '../utils/calendarDay';
+import { compareByPriority } from '../utils/taskUtils';
+import PriorityBadge from './PriorityBadge';
 
 interface GlobalSearchProps {
   tasks: Task[];
   tagColors: Record<string, string>;
   onSelectTask: (task: Task) => void;
+  onShowHistory?: (recurrenceGroupId: string) => void;
   query: string;
   setQuery: (query: string) => void;
   currentView: ViewType;
@@ -40,6 +47,7 @@ export default function GlobalSearch({
   tasks,
   tagColors,
   onSelectTask,
+  onShowHistory,
   query,
   setQuery,
   currentView,
@@ -70,10 +78,10 @@ export default function GlobalSearch({
           : [];
       case 'week': {
         // Filter to 5-day window starting from weekViewDate
-        const weekStart = weekViewDate || new Date();
+        const weekStart = weekViewDate || getCalendarTodayDate();
         const weekDates = getNext5Days(weekStart);
         const weekDateStrings = weekDates.map(d => formatDate(d));
-        return tasks.filter(t => {
+        return getWeekTasks(tasks, weekDateStrings[0], weekDateStrings[weekDateStrings.length - 1]).filter(t => {
           if (t.completed || !t.dueDate) return false;
           const taskDate = t.dueDate.split('T')[0];
           return weekDateStrings.includes(taskDate);
@@ -81,7 +89,7 @@ export default function GlobalSearch({
       }
       case 'all':
       default:
-        return tasks.filter(t => !t.completed);
+        return getOpenTasks(tasks);
     }
   }, [tasks, currentView, todayViewDate, tomorrowViewDate, selectedDayDate, weekViewDate]);
 
@@ -92,7 +100,7 @@ export default function GlobalSearch({
     // 1. Filter view-scoped tasks by search query
     const searchedTasks = filterTasksBySearch(viewScopedTasks, query);
 
-    // 2. Sort by due date (earliest first) for non-completed, by lastModified for completed
+    // 2. Sort by priority (highest first), then due date (earliest first) for non-completed, by lastModified for completed
     const sortedTasks = [...searchedTasks].sort((a, b) => {
       if (currentView === 'completed') {
         // Sort completed by lastModified (most recent first)
@@ -100,6 +108,8 @@ export default function GlobalSearch({
         const bDate = b.lastModified || '';
         return bDate.localeCompare(aDate);
       }
+      const priorityOrder = compareByPriority(a, b);
+      if (priorityOrder !== 0) return priorityOrder;
       // Sort by due date (earliest first)
       if (!a.dueDate) return 1;
       if (!b.dueDate) return -1;
@@ -250,6 +260,7 @@ export default function GlobalSearch({
                           <span className="search-result-recurrence-icon">🔄</span>
                         )}
                         <span className="search-result-title">{mainTask.title}</span>
+                        <PriorityBadge priority={mainTask.priority} />
                       </div>
                       <div className="search-result-meta">
                         {mainTask.dueDate && (
@@ -268,6 +279,20 @@ export default function GlobalSearch({
                         ))}
                       </div>
                     </div>
+                    {mainTask.recurrenceGroupId && onShowHistory && (
+                      <button
+                        className="search-result-history-btn"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onShowHistory(mainTask.recurrenceGroupId!);
+                          setIsOpen(false);
+                        }}
+                        title="Show history"
+                        aria-label="Show history"
+                      >
+                        <History className="icon-sm" />
+                      </button>
+                    )}
                     {otherInstances.length > 0 && (
                       <button 
                         className={`search-result-expand-btn ${isExpanded ? 'expanded' : ''}`}
@@ -9,6 +9,8 @@ interface GroupedTaskListProps {
   onEdit: (task: Task) => void;
   onDelete: (id: string) => void;
   onUpdateTask?: (id: string, updates: TaskUpdate) => void;
+  onSkipOccurrence?: (id: string) => void;
+  onTaskDragStart?: (e: React.DragEvent, task: Task) => void;
   collapsedTags: Set<string>;
   onToggleTagCollapse: (tag: string) => void;
   showDate?: boolean;
@@ -21,6 +23,8 @@ export default function GroupedTaskList({
   onEdit,
   onDelete,
   onUpdateTask,
+  onSkipOccurrence,
+  onTaskDragStart,
   collapsedTags,
   onToggleTagCollapse,
   showDate = false
@@ -63,6 +67,8 @@ export default function GroupedTaskList({
                     onEdit={onEdit}
                     onDelete={onDelete}
                     onUpdateTask={onUpdateTask}
+                    onSkipOccurrence={onSkipOccurrence}
+                    onDragStart={onTaskDragStart}
                     showTags={false}
                     showDate={showDate}
                   />
@@ -0,0 +1,88 @@
+import { useMemo, useState } from 'react';
+import { Task } from '../types';
+import { parseMarkdownChecklist } from '../utils/markdown';
+import { createImportedTasks } from '../utils/recurringTaskHelpers';
+import { getDateDisplay } from '../utils/dateUtils';
+
+interface MarkdownImportDialogProps {
+  onImport: (tasks: Task[]) => void;
+  onClose: () => void;
+}
+
+const PLACEHOLDER = `- [ ] Plan the trip #travel
+  - [ ] Book flights
+  - [ ] Find a hotel
+- [ ] Renew passport 📅 2025-06-01`;
+
+export default function MarkdownImportDialog({ onImport, onClose }: MarkdownImportDialogProps) {
+  const [text, setText] = useState('');
+  const parsed = useMemo(() => parseMarkdownChecklist(text), [text]);
+
+  const handleImport = () => {
+    if (parsed.length === 0) return;
+    onImport(createImportedTasks(parsed));
+    onClose();
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content csv-import-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Import Markdown Checklist</h2>
+          <button className="modal-close" onClick={onClose}>×</button>
+        </div>
+
+        <div className="csv-import-body">
+          <p className="csv-import-note">
+            Paste a checklist: each "- [ ]" item becomes a task, items indented under it become its
+            subtasks, and #words become tags. Other lines are ignored.
+          </p>
+          <textarea
+            className="markdown-import-input"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={PLACEHOLDER}
+            aria-label="Markdown checklist"
+            rows={10}
+            autoFocus
+          />
+
+          {text.trim() && parsed.length === 0 && (
+            <p className="csv-import-note">No checklist items found.</p>
+          )}
+
+          {parsed.length > 0 && (
+            <div className="csv-import-preview">
+              <table>
+                <thead>
+                  <tr>
+                    <th>Task</th>
+                    <th>Due</th>
+                    <th>Done</th>
+                    <th>Tags</th>
+                    <th>Subtasks</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {parsed.map((taskData, index) => (
+                    <tr key={index}>
+                      <td>{taskData.title}</td>
+                      <td>{taskData.dueDate ? getDateDisplay(taskData.dueDate) : ''}</td>
+                      <td>{taskData.completed ? '✓' : ''}</td>
+                      <td>{taskData.tags?.join(', ')}</td>
+                      <td>{taskData.subtasks?.length || ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <button className="btn btn-primary" onClick={handleImport} disabled={parsed.length === 0}>
+            Create {parsed.length} Task{parsed.length !== 1 ? 's' : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { PRIORITY_LABELS, TaskPriority } from '../types';
+
+interface PriorityBadgeProps {
+  priority?: TaskPriority;
+  compact?: boolean; // A colored dot instead of the label, for narrow task lists
+}
+
+export default function PriorityBadge({ priority, compact = false }: PriorityBadgeProps) {
+  if (!priority || priority === 'none') return null;
+
+  const label = `${PRIORITY_LABELS[priority]} priority`;
+  return (
+    <span
+      className={`priority-badge priority-${priority} ${compact ? 'priority-badge--compact' : ''}`}
+      title={label}
+      aria-label={label}
+    >
+      {!compact && PRIORITY_LABELS[priority]}
+    </span>
+  );
+}
@@ -2,7 +2,9 @@ import { useState } from 'react';
 import { Task, TaskUpdate, getTagColor } from '../types';
 import TaskCard from './TaskCard';
 import { formatRecurrenceDisplay, getDateDisplay } from '../utils/dateUtils';
-import { RefreshCw, Trash2 } from 'lucide-react';
+import { formatRRule } from '../utils/rrule';
+import { logger } from '../utils/logger';
+import { Check, Copy, History, Pause, Play, RefreshCw, Trash2 } from 'lucide-react';
 
 interface RecurringTaskGroupProps {
   tasks: Task[]; // All tasks in this recurrence group
@@ -12,6 +14,10 @@ interface RecurringTaskGroupProps {
   onDelete: (id: string) => void; // For individual task deletion (shows dialog)
   onDeleteGroup?: (groupId: string) => void; // For group header deletion (deletes all incomplete)
   onUpdateTask?: (id: string, updates: TaskUpdate) => void;
+  onSkipOccurrence?: (id: string) => void;
+  onPauseSeries?: (groupId: string) => void;
+  onResumeSeries?: (groupId: string) => void;
+  onShowHistory?: (groupId: string) => void;
   hideActions?: boolean; // If true, hide edit and delete buttons
 }
 
@@ -23,9 +29,14 @@ export default function RecurringTaskGroup({
   onDelete, 
   onDeleteGroup,
   onUpdateTask,
+  onSkipOccurrence,
+  onPauseSeries,
+  onResumeSeries,
+  onShowHistory,
   hideActions = false
 }: RecurringTaskGroupProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [rruleCopied, setRruleCopied] = useState(false);
 
   if (tasks.length === 0) return null;
 
@@ -52,11 +63,26 @@ export default function RecurringTaskGroup({
   const totalCount = tasks.length;
 
   // Get recurrence info
-  const recurrenceDisplay = formatRecurrenceDisplay(
-    representativeTask.recurrence!,
-    representativeTask.recurrenceMultiplier,
-    representativeTask.customFrequency
-  );
+  const recurrenceDisplay = formatRecurrenceDisplay(representativeTask);
+
+  // A paused series only has its rule row (and completed history) left, so there is nothing to expand
+  const pausedFrom = tasks.find(task => task.pausedFrom)?.pausedFrom;
+  const groupId = representativeTask.recurrenceGroupId;
+
+  // Export from the next occurrence onwards, for adding the rest of the series to a calendar
+  const rrule = formatRRule(representativeTask, nextDueDate);
+
+  const handleCopyRRule = async () => {
+    if (!rrule.ok) return;
+    try {
+      await navigator.clipboard.writeText(rrule.value);
+      setRruleCopied(true);
+      setTimeout(() => setRruleCopied(false), 2000);
+    } catch (error) {
+      logger.error('[RecurringTaskGroup] Failed to copy RRULE:', error);
+      window.alert(`Could not copy to the clipboard. The rule is:\n\n${rrule.value}`);
+    }
+  };
 
   return (
     <div className="recurring-task-group" style={{ marginBottom: '0.5rem' }}>
@@ -75,7 +101,7 @@ export default function RecurringTaskGroup({
           gap: '0.75rem',
           boxShadow: 'var(--shadow-sm)'
         }}
-        onClick={() => setIsExpanded(!isExpanded)}
+        onClick={() => !pausedFrom && setIsExpanded(!isExpanded)}
         onMouseEnter={(e) => {
           e.currentTarget.style.background = 'var(--bg-surface-hover)';
           e.currentTarget.style.borderColor = `${tagColor}60`;
@@ -88,7 +114,7 @@ export default function RecurringTaskGroup({
         }}
       >
         <span style={{ fontSize: '1rem', color: tagColor }}>
-          {isExpanded ? '▼' : '▶'}
+          {pausedFrom ? <Pause className="icon-sm" /> : isExpanded ? '▼' : '▶'}
         </span>
         <div style={{ flex: 1, minWidth: 0 }}>
           <div style={{ 
@@ -112,7 +138,11 @@ export default function RecurringTaskGroup({
             gap: '0.75rem',
             flexWrap: 'wrap'
           }}>
-            {nextDueDate && (
+            {pausedFrom ? (
+              <span className="recurring-group-paused">
+                Paused since {getDateDisplay(pausedFrom)}
+              </span>
+            ) : nextDueDate && (
               <span>
                 Next: <span style={{ color: nextIncompleteTask ? 'var(--secondary)' : 'var(--text-muted)' }}>
                   {getDateDisplay(nextDueDate)}
@@ -120,9 +150,11 @@ export default function RecurringTaskGroup({
               </span>
             )}
             <span>
-              {hideActions 
-                ? `${incompleteCount} remaining`
-                : `${incompleteCount} of ${totalCount} incomplete`}
+              {representativeTask.recurrenceFromCompletion
+                ? `${totalCount - incompleteCount} completed`
+                : hideActions 
+                  ? `${incompleteCount} remaining`
+                  : `${incompleteCount} of ${totalCount} incomplete`}
             </span>
           </div>
         </div>
@@ -131,7 +163,58 @@ export default function RecurringTaskGroup({
           gap: '0.5rem',
           alignItems: 'center'
         }}>
-          {!hideActions && (
+          {groupId && onShowHistory && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onShowHistory(groupId);
+              }}
+              className="recurring-group-history-btn"
+              title="Show history"
+              aria-label="Show history"
+            >
+              <History className="icon-sm" />
+            </button>
+          )}
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleCopyRRule();
+            }}
+            className="recurring-group-copy-btn"
+            disabled={!rrule.ok}
+            title={rrule.ok ? (rruleCopied ? 'Copied!' : 'Copy as RRULE') : rrule.errors.join('\n')}
+            aria-label="Copy as RRULE"
+          >
+            {rruleCopied ? <Check className="icon-sm" /> : <Copy className="icon-sm" />}
+          </button>
+          {groupId && pausedFrom && onResumeSeries && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onResumeSeries(groupId);
+              }}
+              className="recurring-group-pause-btn"
+              title="Resume series from today"
+              aria-label="Resume series"
+            >
+              <Play className="icon-sm" />
+            </button>
+          )}
+          {groupId && !pausedFrom && onPauseSeries && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onPauseSeries(groupId);
+              }}
+              className="recurring-group-pause-btn"
+              title="Pause series"
+              aria-label="Pause series"
+            >
+              <Pause className="icon-sm" />
+            </button>
+          )}
+          {!hideActions && !pausedFrom && (
             <button
               onClick={(e) => {
                 e.stopPropagation();
@@ -162,7 +245,7 @@ export default function RecurringTaskGroup({
           </button>
         </div>
       </div>
-      {isExpanded && (
+      {isExpanded && !pausedFrom && (
         <div style={{ 
           marginTop: '0.5rem', 
           marginLeft: '1rem',
@@ -181,6 +264,7 @@ export default function RecurringTaskGroup({
               onEdit={onEdit}
               onDelete={onDelete}
               onUpdateTask={onUpdateTask}
+              onSkipOccurrence={onSkipOccurrence}
               showDate={true}
               showTags={false}
             />
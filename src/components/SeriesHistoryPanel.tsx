@@ -0,0 +1,132 @@
+import { useMemo } from 'react';
+import { Task } from '../types';
+import { calculateSeriesAdherence, OccurrenceStatus } from '../utils/statsUtils';
+import { formatFullDate, formatRecurrenceDisplay } from '../utils/dateUtils';
+import { findSeriesRow } from '../utils/recurrenceExpansion';
+
+interface SeriesHistoryPanelProps {
+  tasks: Task[];
+  recurrenceGroupId: string;
+  hasMoreCompletedTasks?: boolean;
+  onLoadMoreCompleted?: () => void;
+  onClose: () => void;
+}
+
+// Number of past occurrences listed below the summary
+const RECENT_OCCURRENCE_COUNT = 20;
+
+const STATUS_LABELS: Record<OccurrenceStatus, string> = {
+  completed: 'Completed',
+  missed: 'Missed',
+  skipped: 'Skipped',
+};
+
+/**
+ * Formats a number of days as e.g. "1.5 days"
+ */
+const formatDays = (days: number): string => {
+  const rounded = Math.round(days * 10) / 10;
+  return `${rounded} day${rounded === 1 ? '' : 's'}`;
+};
+
+export default function SeriesHistoryPanel({
+  tasks,
+  recurrenceGroupId,
+  hasMoreCompletedTasks,
+  onLoadMoreCompleted,
+  onClose,
+}: SeriesHistoryPanelProps) {
+  const adherence = useMemo(
+    () => calculateSeriesAdherence(tasks, recurrenceGroupId),
+    [tasks, recurrenceGroupId]
+  );
+
+  const representativeTask = findSeriesRow(tasks, recurrenceGroupId)
+    ?? tasks.find(t => t.recurrenceGroupId === recurrenceGroupId);
+  if (!representativeTask) return null;
+
+  const recentOccurrences = adherence.occurrences.slice(0, RECENT_OCCURRENCE_COUNT);
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div
+        className="modal-content series-history-panel"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="modal-header">
+          <div>
+            <h2>{representativeTask.title}</h2>
+            {representativeTask.recurrence && (
+              <div className="series-history-recurrence">
+                {formatRecurrenceDisplay(representativeTask)}
+              </div>
+            )}
+          </div>
+          <button className="modal-close" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        <div className="series-history-body">
+          <div className="series-history-cards">
+            <div className="stats-card">
+              <div className="stats-card-value">{adherence.completed}</div>
+              <div className="stats-card-label">Completed</div>
+            </div>
+            <div className="stats-card stats-card-warning">
+              <div className="stats-card-value">{adherence.missed}</div>
+              <div className="stats-card-label">Missed</div>
+            </div>
+            <div className="stats-card">
+              <div className="stats-card-value">{adherence.skipped}</div>
+              <div className="stats-card-label">Skipped</div>
+            </div>
+          </div>
+
+          <dl className="series-history-summary">
+            <div>
+              <dt>Current streak</dt>
+              <dd>{adherence.currentStreak}</dd>
+            </div>
+            <div>
+              <dt>Longest streak</dt>
+              <dd>{adherence.longestStreak}</dd>
+            </div>
+            <div>
+              <dt>Average lateness</dt>
+              <dd>
+                {adherence.averageLatenessDays === null
+                  ? '—'
+                  : adherence.averageLatenessDays === 0
+                    ? 'On time'
+                    : formatDays(adherence.averageLatenessDays)}
+              </dd>
+            </div>
+          </dl>
+
+          {recentOccurrences.length > 0 ? (
+            <ul className="series-history-list">
+              {recentOccurrences.map(occurrence => (
+                <li key={occurrence.task.id} className="series-history-item">
+                  <span>{formatFullDate(occurrence.date)}</span>
+                  <span className={`series-history-status series-history-status-${occurrence.status}`}>
+                    {STATUS_LABELS[occurrence.status]}
+                    {occurrence.latenessDays ? ` · ${formatDays(occurrence.latenessDays)} late` : ''}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="series-history-empty">No past occurrences yet</p>
+          )}
+
+          {hasMoreCompletedTasks && onLoadMoreCompleted && (
+            <button className="search-load-more-btn" onClick={onLoadMoreCompleted}>
+              Load more completed tasks for a fuller history
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -62,6 +62,7 @@ export default function StatsView({ tasks, tagColors }: StatsViewProps) {
             </span>
             <span className="stats-completion-counts">
               {stats.totalCompleted} completed / {stats.totalActive + stats.totalCompleted} total
+              {stats.totalSkipped > 0 && ` · ${stats.totalSkipped} skipped`}
             </span>
           </div>
         </div>
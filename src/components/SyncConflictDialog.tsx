@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Task } from '../types';
+import { ConflictChoice, ConflictField, TaskConflict } from '../utils/taskMerge';
+import { getDateDisplay } from '../utils/dateUtils';
+
+interface SyncConflictDialogProps {
+  conflict: TaskConflict;
+  onResolve: (choices: Partial<Record<ConflictField, ConflictChoice>>) => void;
+}
+
+const FIELD_LABELS: Record<ConflictField, string> = {
+  title: 'Title',
+  dueDate: 'Due date',
+  completed: 'Status',
+  subtasks: 'Subtasks',
+  tags: 'Tags',
+};
+
+/**
+ * Formats a field's value of one side for display
+ */
+const formatFieldValue = (task: Task, field: ConflictField): string => {
+  switch (field) {
+    case 'title':
+      return task.title || '(untitled)';
+    case 'dueDate':
+      return task.dueDate ? getDateDisplay(task.dueDate) : 'No due date';
+    case 'completed':
+      return task.completed ? 'Completed' : 'Not completed';
+    case 'subtasks':
+      return task.subtasks.length > 0
+        ? task.subtasks.map(st => `${st.completed ? '☑' : '☐'} ${st.text}`).join('\n')
+        : 'No subtasks';
+    case 'tags':
+      return task.tags.length > 0 ? task.tags.join(', ') : 'No tags';
+  }
+};
+
+export default function SyncConflictDialog({ conflict, onResolve }: SyncConflictDialogProps) {
+  const [choices, setChoices] = useState<Partial<Record<ConflictField, ConflictChoice>>>({});
+
+  const renderOption = (field: ConflictField, choice: ConflictChoice) => {
+    const task = choice === 'local' ? conflict.local : conflict.remote;
+    const isSelected = (choices[field] ?? 'local') === choice;
+    return (
+      <button
+        type="button"
+        className={`sync-conflict-option${isSelected ? ' selected' : ''}`}
+        onClick={() => setChoices(prev => ({ ...prev, [field]: choice }))}
+      >
+        <span className="sync-conflict-option-label">
+          {choice === 'local' ? 'This device' : 'Other device'}
+        </span>
+        <span className="sync-conflict-option-value">{formatFieldValue(task, field)}</span>
+      </button>
+    );
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content sync-conflict-dialog">
+        <div className="modal-header">
+          <h2>Edited on Two Devices</h2>
+        </div>
+
+        <div className="sync-conflict-body">
+          <p className="sync-conflict-intro">
+            <strong>{conflict.merged.title}</strong> was changed here and on another device.
+            Other changes were combined; pick which version to keep for:
+          </p>
+
+          {conflict.fields.map(field => (
+            <div key={field} className="sync-conflict-field">
+              <div className="sync-conflict-field-label">{FIELD_LABELS[field]}</div>
+              <div className="sync-conflict-options">
+                {renderOption(field, 'local')}
+                {renderOption(field, 'remote')}
+              </div>
+            </div>
+          ))}
+
+          <button className="btn btn-primary sync-conflict-resolve-btn" onClick={() => onResolve(choices)}>
+            Keep Selected
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
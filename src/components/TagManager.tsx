@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { Task, getTagColor, DEFAULT_TAG_COLORS } from '../types';
-import { loadTags, saveTags, loadTagColors, saveTagColors, deleteTagColor } from '../utils/supabaseStorage';
+import { getTaskRepository } from '../utils/taskRepository';
 import { logger } from '../utils/logger';
 import { Trash2 } from 'lucide-react';
 
@@ -21,7 +21,7 @@ export default function TagManager({ tasks, onUpdateTasks, onTagColorsChange, on
   const [showAddTagForm, setShowAddTagForm] = useState(false);
 
   useEffect(() => {
-    loadTags()
+    getTaskRepository().loadTags()
       .then(tags => {
         // Sort tags alphabetically
         setAvailableTags(tags.sort());
@@ -31,7 +31,7 @@ export default function TagManager({ tasks, onUpdateTasks, onTagColorsChange, on
         setAvailableTags([]);
       });
     // Load stored tag colors
-    loadTagColors()
+    getTaskRepository().loadTagColors()
       .then(setTagColors)
       .catch(error => {
         logger.error('[TagManager] Failed to load tag colors:', error);
@@ -47,18 +47,21 @@ export default function TagManager({ tasks, onUpdateTasks, onTagColorsChange, on
     if (!confirmed) return;
 
     // Remove tag from all tasks
-    const updatedTasks = tasks.map(task => ({
-      ...task,
-      tags: task.tags.filter((tag: string) => tag.toLowerCase() !== tagToDelete.toLowerCase())
-    }));
+    // Tasks without the tag are kept as they are, so only the changed ones are saved
+    const updatedTasks = tasks.map(task => {
+      if (!task.tags.some((tag: string) => tag.toLowerCase() === tagToDelete.toLowerCase())) return task;
+      return {
+        ...task,
+        tags: task.tags.filter((tag: string) => tag.toLowerCase() !== tagToDelete.toLowerCase())
+      };
+    });
 
     // Delete tag color from database
-    await deleteTagColor(tagToDelete).catch((error) => logger.error('[TagManager] Failed to delete tag color:', error));
+    await getTaskRepository().deleteTagColor(tagToDelete).catch((error) => logger.error('[TagManager] Failed to delete tag color:', error));
 
     // Update available tags
     const updatedTags = availableTags.filter(tag => tag.toLowerCase() !== tagToDelete.toLowerCase());
     setAvailableTags(updatedTags);
-    saveTags(updatedTags).catch((error) => logger.error('[TagManager] Failed to save tags:', error));
 
     // Update tag colors state
     const normalizedTag = tagToDelete.toLowerCase();
@@ -86,7 +89,7 @@ export default function TagManager({ tasks, onUpdateTasks, onTagColorsChange, on
     const normalizedTag = tag.toLowerCase();
     const updatedColors = { ...tagColors, [normalizedTag]: color };
     setTagColors(updatedColors);
-    await saveTagColors(updatedColors);
+    await getTaskRepository().saveTagColors(updatedColors);
     // Notify parent component to update tag colors immediately
     if (onTagColorsChange) {
       onTagColorsChange(updatedColors);
@@ -136,14 +139,14 @@ export default function TagManager({ tasks, onUpdateTasks, onTagColorsChange, on
       // Add tag color to database (this will persist the tag even if not used by any tasks)
       const updatedColors = { ...tagColors, [normalizedTag]: defaultColor };
       setTagColors(updatedColors);
-      await saveTagColors(updatedColors);
+      await getTaskRepository().saveTagColors(updatedColors);
       // Notify parent component to update tag colors immediately
       if (onTagColorsChange) {
         onTagColorsChange(updatedColors);
       }
 
       // Reload tags from database to ensure consistency
-      const reloadedTags = await loadTags();
+      const reloadedTags = await getTaskRepository().loadTags();
       setAvailableTags(reloadedTags.sort());
       
       // Clear input and close form
@@ -200,12 +203,15 @@ export default function TagManager({ tasks, onUpdateTasks, onTagColorsChange, on
 
     try {
       // Update tag in all tasks
-      const updatedTasks = tasks.map(task => ({
-        ...task,
-        tags: task.tags.map((tag: string) =>
-          tag.toLowerCase() === normalizedOldTag ? normalizedNewTag : tag
-        )
-      }));
+      const updatedTasks = tasks.map(task => {
+        if (!task.tags.some((tag: string) => tag.toLowerCase() === normalizedOldTag)) return task;
+        return {
+          ...task,
+          tags: task.tags.map((tag: string) =>
+            tag.toLowerCase() === normalizedOldTag ? normalizedNewTag : tag
+          )
+        };
+      });
 
       // Update tag colors (transfer old color to new tag name)
       const oldColor = tagColors[normalizedOldTag];
@@ -213,7 +219,7 @@ export default function TagManager({ tasks, onUpdateTasks, onTagColorsChange, on
 
       // Delete old tag color entry
       delete updatedColors[normalizedOldTag];
-      await deleteTagColor(oldTag);
+      await getTaskRepository().deleteTagColor(oldTag);
 
       // Add new tag color entry (preserve the color if it existed)
       if (oldColor) {
@@ -222,7 +228,7 @@ export default function TagManager({ tasks, onUpdateTasks, onTagColorsChange, on
         updatedColors[normalizedNewTag] = DEFAULT_TAG_COLORS[normalizedNewTag] || DEFAULT_TAG_COLORS.default;
       }
 
-      await saveTagColors(updatedColors);
+      await getTaskRepository().saveTagColors(updatedColors);
       setTagColors(updatedColors);
 
       // Notify parent component
@@ -234,7 +240,7 @@ export default function TagManager({ tasks, onUpdateTasks, onTagColorsChange, on
       onUpdateTasks(updatedTasks);
 
       // Reload tags to ensure consistency
-      const reloadedTags = await loadTags();
+      const reloadedTags = await getTaskRepository().loadTags();
       setAvailableTags(reloadedTags.sort());
 
       // Clear editing state
@@ -1,6 +1,12 @@
+import { useState } from 'react';
 import { Task, TaskUpdate, getTagColor } from '../types';
 import { getDateDisplay, isDateOverdue, formatRecurrenceDisplay } from '../utils/dateUtils';
-import { Trash2, RefreshCw, AlertTriangle } from 'lucide-react';
+import { isSeriesEnd } from '../utils/recurringTaskHelpers';
+import { formatTaskTime } from '../utils/daySchedule';
+import { getNotesPreview } from '../utils/notes';
+import { Trash2, RefreshCw, AlertTriangle, Flag, SkipForward, Clock, StickyNote } from 'lucide-react';
+import PriorityBadge from './PriorityBadge';
+import TaskNotes from './TaskNotes';
 
 interface TaskCardProps {
   task: Task;
@@ -9,22 +15,28 @@ interface TaskCardProps {
   onEdit: (task: Task) => void;
   onDelete: (id: string) => void;
   onUpdateTask?: (id: string, updates: TaskUpdate) => void;
+  onSkipOccurrence?: (id: string) => void;
+  onDragStart?: (e: React.DragEvent, task: Task) => void; // Makes open tasks draggable
   showDate?: boolean;
   showTags?: boolean;
 }
 
-export default function TaskCard({ task, tagColors = {}, onToggleComplete, onEdit, onDelete, onUpdateTask, showDate = false, showTags = true }: TaskCardProps) {
+export default function TaskCard({ task, tagColors = {}, onToggleComplete, onEdit, onDelete, onUpdateTask, onSkipOccurrence, onDragStart, showDate = false, showTags = true }: TaskCardProps) {
   const completedSubtasks = task.subtasks.filter(st => st.completed).length;
   const totalSubtasks = task.subtasks.length;
   const tagColor = task.tags.length > 0 ? getTagColor(task.tags[0], tagColors) : getTagColor('default', tagColors);
+  const taskTime = formatTaskTime(task);
+  const [isNotesExpanded, setIsNotesExpanded] = useState(false);
 
   const handleCardClick = (e: React.MouseEvent) => {
-    // Don't trigger edit if clicking on checkbox, delete button, or subtask checkbox
+    // Don't trigger edit if clicking on checkbox, delete button, subtask checkbox, or notes
     const target = e.target as HTMLElement;
     if (
       target.closest('.task-checkbox') ||
       target.closest('.task-action-btn') ||
-      target.closest('.subtask-checkbox')
+      target.closest('.subtask-checkbox') ||
+      target.closest('.task-notes-toggle') ||
+      target.closest('a')
     ) {
       return;
     }
@@ -36,11 +48,20 @@ export default function TaskCard({ task, tagColors = {}, onToggleComplete, onEdi
     onDelete(task.id);
   };
 
+  const handleSkipClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onSkipOccurrence?.(task.id);
+  };
+
+  const canSkip = !!onSkipOccurrence && !!task.recurrenceGroupId && !task.completed;
+
   return (
     <div 
-      className={`task-card ${task.completed ? 'completed' : ''}`} 
+      className={`task-card ${task.completed ? 'completed' : ''} ${task.skipped ? 'skipped' : ''}`} 
       style={{ borderLeftColor: tagColor }}
       onClick={handleCardClick}
+      draggable={!!onDragStart && !task.completed}
+      onDragStart={onDragStart && !task.completed ? (e) => onDragStart(e, task) : undefined}
     >
       <div className="task-header">
         <input
@@ -54,7 +75,18 @@ export default function TaskCard({ task, tagColors = {}, onToggleComplete, onEdi
           onClick={(e) => e.stopPropagation()}
         />
         <div className="task-title">{task.title}</div>
+        <PriorityBadge priority={task.priority} />
+        {task.skipped && <span className="task-skipped-badge">Skipped</span>}
         <div className="task-actions">
+          {canSkip && (
+            <button
+              className="task-action-btn skip"
+              onClick={handleSkipClick}
+              title="Skip this occurrence"
+            >
+              <SkipForward className="icon-sm" />
+            </button>
+          )}
           <button
             className="task-action-btn delete"
             onClick={handleDeleteClick}
@@ -68,20 +100,31 @@ export default function TaskCard({ task, tagColors = {}, onToggleComplete, onEdi
       {showDate && task.dueDate && (
         <div className={`task-description ${isDateOverdue(task.dueDate) && !task.completed ? 'task-date--overdue' : ''}`}>
           Due: {getDateDisplay(task.dueDate)}
+          {taskTime && `, ${taskTime}`}
           {isDateOverdue(task.dueDate) && !task.completed && ' (Overdue)'}
           {task.recurrence && (
             <span className="task-recurrence-badge">
-              <RefreshCw className="icon-sm" /> {formatRecurrenceDisplay(task.recurrence, task.recurrenceMultiplier, task.customFrequency)}
+              <RefreshCw className="icon-sm" /> {formatRecurrenceDisplay(task)}
             </span>
           )}
         </div>
       )}
+      {!showDate && taskTime && (
+        <div className="task-description task-time">
+          <Clock className="icon-sm" /> {taskTime}
+        </div>
+      )}
       {!showDate && task.recurrence && (
         <div className="task-description task-recurrence-info">
-          <RefreshCw className="icon-sm" /> Repeats {formatRecurrenceDisplay(task.recurrence, task.recurrenceMultiplier, task.customFrequency)}
+          <RefreshCw className="icon-sm" /> Repeats {formatRecurrenceDisplay(task)}
+        </div>
+      )}
+      {task.isLastInstance && !task.completed && isSeriesEnd(task) && (
+        <div className="task-description task-series-end">
+          <Flag className="icon-sm" /> Final occurrence
         </div>
       )}
-      {task.isLastInstance && !task.completed && (
+      {task.isLastInstance && !task.completed && !isSeriesEnd(task) && (
         <div className="task-renewal-container" onClick={(e) => e.stopPropagation()}>
           <div className="task-description task-last-occurrence">
             <AlertTriangle className="icon-sm" /> LAST OCCURRENCE
@@ -115,6 +158,23 @@ export default function TaskCard({ task, tagColors = {}, onToggleComplete, onEdi
         </div>
       )}
 
+      {task.notes && (
+        <div className={`task-notes ${isNotesExpanded ? 'expanded' : ''}`}>
+          <button
+            type="button"
+            className="task-notes-toggle"
+            onClick={() => setIsNotesExpanded(!isNotesExpanded)}
+            aria-expanded={isNotesExpanded}
+          >
+            <StickyNote className="icon-sm" />
+            <span className="task-notes-preview">
+              {isNotesExpanded ? 'Hide notes' : getNotesPreview(task.notes)}
+            </span>
+          </button>
+          {isNotesExpanded && <TaskNotes notes={task.notes} />}
+        </div>
+      )}
+
       {task.subtasks.length > 0 && (
         <div className="subtasks">
           {task.subtasks.map(subtask => (
@@ -1,9 +1,27 @@
 import { useState, useEffect, useRef } from 'react';
-import { Task, Subtask, TaskUpdate, getTagColor, RecurrenceType } from '../types';
-import { generateId, loadTags, loadTagColors } from '../utils/supabaseStorage';
-import { formatDate } from '../utils/dateUtils';
+import { Task, Subtask, TaskUpdate, TaskVersion, getTagColor, RecurrenceType, MonthlyRule, TaskPriority, TASK_PRIORITIES, PRIORITY_LABELS } from '../types';
+import { generateId } from '../utils/supabaseStorage';
+import { getTaskRepository } from '../utils/taskRepository';
+import { formatDate, formatRecurrenceDisplay, formatOrdinal, generateRecurringDates, getWeekdayOrdinalInMonth, normalizeWeekdays, WEEKDAY_LABELS } from '../utils/dateUtils';
+import { parseRRule } from '../utils/rrule';
 import { logger } from '../utils/logger';
+import { formatDuration } from '../utils/daySchedule';
 import { Trash2 } from 'lucide-react';
+import TaskHistorySection from './TaskHistorySection';
+
+type MonthlyRuleChoice = 'dayOfMonth' | 'nthWeekday' | 'lastWeekday' | 'lastDay' | 'lastBusinessDay';
+
+const monthlyRuleToChoice = (rule: MonthlyRule | undefined): MonthlyRuleChoice => {
+  if (!rule) return 'dayOfMonth';
+  if (rule.type === 'nthWeekday') return rule.ordinal === -1 ? 'lastWeekday' : 'nthWeekday';
+  return rule.type;
+};
+
+type RecurrenceEndMode = 'never' | 'onDate' | 'afterCount';
+
+const MAX_RECURRENCE_COUNT = 999;
+
+const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120, 180, 240];
 
 interface TaskFormProps {
   task: Task | null;
@@ -16,19 +34,32 @@ interface TaskFormProps {
 export default function TaskForm({ task, onSave, onCancel, onExtendRecurring, initialDueDate }: TaskFormProps) {
   const [title, setTitle] = useState('');
   const [dueDate, setDueDate] = useState('');
+  const [dueTime, setDueTime] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState<number | null>(null);
   const [completed, setCompleted] = useState(false);
   const [tags, setTags] = useState<string[]>([]);
+  const [priority, setPriority] = useState<TaskPriority>('none');
   const [tagInput, setTagInput] = useState('');
   const [availableTags, setAvailableTags] = useState<string[]>([]);
   const [subtasks, setSubtasks] = useState<Subtask[]>([]);
   const [subtaskInput, setSubtaskInput] = useState('');
   const [editingSubtaskId, setEditingSubtaskId] = useState<string | null>(null);
   const [editingSubtaskText, setEditingSubtaskText] = useState('');
+  const [notes, setNotes] = useState('');
   const [recurrence, setRecurrence] = useState<RecurrenceType>(null);
   const [recurrenceMultiplier, setRecurrenceMultiplier] = useState<number>(1);
   const [recurrenceMultiplierInput, setRecurrenceMultiplierInput] = useState<string>('1');
   const [recurrenceMultiplierError, setRecurrenceMultiplierError] = useState<string>('');
   const [customFrequency, setCustomFrequency] = useState<'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly'>('weekly');
+  const [byWeekday, setByWeekday] = useState<number[]>([]);
+  const [monthlyRuleChoice, setMonthlyRuleChoice] = useState<MonthlyRuleChoice>('dayOfMonth');
+  const [recurrenceFromCompletion, setRecurrenceFromCompletion] = useState(false);
+  const [recurrenceEndMode, setRecurrenceEndMode] = useState<RecurrenceEndMode>('never');
+  const [recurrenceEndDate, setRecurrenceEndDate] = useState('');
+  const [recurrenceCountInput, setRecurrenceCountInput] = useState<string>('10');
+  const [recurrenceEndError, setRecurrenceEndError] = useState<string>('');
+  const [rruleInput, setRruleInput] = useState('');
+  const [rruleErrors, setRruleErrors] = useState<string[]>([]);
   const [tagColors, setTagColors] = useState<Record<string, string>>({});
   const [isLoadingTags, setIsLoadingTags] = useState(true);
   const [isTagDropdownOpen, setIsTagDropdownOpen] = useState(false);
@@ -39,7 +70,7 @@ export default function TaskForm({ task, onSave, onCancel, onExtendRecurring, in
     const loadTagsData = async () => {
       setIsLoadingTags(true);
       try {
-        const tags = await loadTags();
+        const tags = await getTaskRepository().loadTags();
         setAvailableTags(tags);
         logger.debug('[TaskForm] Loaded tags:', tags);
       } catch (error) {
@@ -52,7 +83,7 @@ export default function TaskForm({ task, onSave, onCancel, onExtendRecurring, in
     
     const loadColorsData = async () => {
       try {
-        const colors = await loadTagColors();
+        const colors = await getTaskRepository().loadTagColors();
         setTagColors(colors);
       } catch (error) {
         logger.error('[TaskForm] Failed to load tag colors:', error);
@@ -70,7 +101,7 @@ export default function TaskForm({ task, onSave, onCancel, onExtendRecurring, in
     const reloadTags = async () => {
       setIsLoadingTags(true);
       try {
-        const tags = await loadTags();
+        const tags = await getTaskRepository().loadTags();
         setAvailableTags(tags);
         logger.debug('[TaskForm] Reloaded tags:', tags);
       } catch (error) {
@@ -87,21 +118,36 @@ export default function TaskForm({ task, onSave, onCancel, onExtendRecurring, in
     if (task) {
       setTitle(task.title);
       setDueDate(task.dueDate ? formatDate(task.dueDate) : '');
+      setDueTime(task.dueTime ?? '');
+      setDurationMinutes(task.durationMinutes ?? null);
       setCompleted(task.completed);
       setTags([...task.tags]);
+      setPriority(task.priority ?? 'none');
       setSubtasks([...task.subtasks]);
+      setNotes(task.notes ?? '');
       setRecurrence(task.recurrence || null);
       const multiplier = task.recurrenceMultiplier ?? 1;
       setRecurrenceMultiplier(multiplier);
       setRecurrenceMultiplierInput(multiplier.toString());
       setCustomFrequency(task.customFrequency || 'weekly');
+      setByWeekday(normalizeWeekdays(task.byWeekday));
+      setMonthlyRuleChoice(monthlyRuleToChoice(task.monthlyRule));
+      setRecurrenceFromCompletion(!!task.recurrenceFromCompletion);
+      setRecurrenceEndMode(task.recurrenceCount ? 'afterCount' : task.recurrenceEndDate ? 'onDate' : 'never');
+      setRecurrenceEndDate(task.recurrenceCount ? '' : task.recurrenceEndDate || '');
+      setRecurrenceCountInput((task.recurrenceCount ?? 10).toString());
+      setRecurrenceEndError('');
     } else {
       // Reset form when creating new task
       setTitle('');
       setDueDate(initialDueDate || '');
+      setDueTime('');
+      setDurationMinutes(null);
       setCompleted(false);
       setTags([]);
+      setPriority('none');
       setSubtasks([]);
+      setNotes('');
       setTagInput('');
       setSubtaskInput('');
       setRecurrence(null);
@@ -109,11 +155,20 @@ export default function TaskForm({ task, onSave, onCancel, onExtendRecurring, in
       setRecurrenceMultiplierInput('1');
       setRecurrenceMultiplierError('');
       setCustomFrequency('weekly');
+      setByWeekday([]);
+      setMonthlyRuleChoice('dayOfMonth');
+      setRecurrenceFromCompletion(false);
+      setRecurrenceEndMode('never');
+      setRecurrenceEndDate('');
+      setRecurrenceCountInput('10');
+      setRecurrenceEndError('');
     }
     // Reset editing state when task changes
     setEditingSubtaskId(null);
     setEditingSubtaskText('');
     setIsTagDropdownOpen(false);
+    setRruleInput('');
+    setRruleErrors([]);
   }, [task, initialDueDate]);
 
   // Close dropdown when clicking outside
@@ -156,6 +211,103 @@ export default function TaskForm({ task, onSave, onCancel, onExtendRecurring, in
     setTags([]);
   };
 
+  // Weekday selection only applies to weekly schedules (plain weekly or custom "every N weeks")
+  const isWeeklySchedule = !recurrenceFromCompletion &&
+    (recurrence === 'weekly' || (recurrence === 'custom' && customFrequency === 'weekly'));
+
+  // Completion-based due dates are not known in advance, so those series can only end on a date
+  const handleRecurrenceBasisChange = (fromCompletion: boolean) => {
+    setRecurrenceFromCompletion(fromCompletion);
+    if (fromCompletion && recurrenceEndMode === 'afterCount') {
+      setRecurrenceEndMode('never');
+      setRecurrenceEndError('A series counted from completion can\'t end after a number of occurrences');
+    }
+  };
+
+  const handleToggleWeekday = (day: number) => {
+    setByWeekday(prev =>
+      prev.includes(day) ? prev.filter(d => d !== day) : normalizeWeekdays([...prev, day])
+    );
+  };
+
+  // Monthly rules apply to month-based schedules (monthly, quarterly, or custom months/quarters)
+  const isMonthlySchedule = !recurrenceFromCompletion && (recurrence === 'monthly' || recurrence === 'quarterly' ||
+    (recurrence === 'custom' && (customFrequency === 'monthly' || customFrequency === 'quarterly')));
+
+  // Which monthly rule options make sense depends on where the due date falls in its month
+  const dueDatePosition = dueDate ? getWeekdayOrdinalInMonth(dueDate) : null;
+  const availableMonthlyChoices: MonthlyRuleChoice[] = [
+    'dayOfMonth',
+    ...(dueDatePosition && dueDatePosition.ordinal <= 4 ? ['nthWeekday' as const] : []),
+    ...(dueDatePosition?.isLast ? ['lastWeekday' as const] : []),
+    'lastDay',
+    'lastBusinessDay',
+  ];
+  const effectiveMonthlyChoice = availableMonthlyChoices.includes(monthlyRuleChoice) ? monthlyRuleChoice : 'dayOfMonth';
+
+  const buildMonthlyRule = (): MonthlyRule | undefined => {
+    if (!isMonthlySchedule || !dueDatePosition) return undefined;
+    switch (effectiveMonthlyChoice) {
+      case 'nthWeekday':
+        return { type: 'nthWeekday', ordinal: dueDatePosition.ordinal, weekday: dueDatePosition.weekday };
+      case 'lastWeekday':
+        return { type: 'nthWeekday', ordinal: -1, weekday: dueDatePosition.weekday };
+      case 'lastDay':
+        return { type: 'lastDay' };
+      case 'lastBusinessDay':
+        return { type: 'lastBusinessDay' };
+      default:
+        return undefined;
+    }
+  };
+
+  // Fills in the recurrence fields from a pasted RRULE (e.g. copied from a calendar app)
+  const handleApplyRRule = () => {
+    const result = parseRRule(rruleInput, dueDate || undefined);
+    if (!result.ok) {
+      setRruleErrors(result.errors);
+      return;
+    }
+
+    const { settings, startDate } = result.value;
+    const anchorDate = startDate || dueDate;
+    if (!anchorDate || !settings.recurrence) {
+      setRruleErrors(['Set a due date first, or include a DTSTART line']);
+      return;
+    }
+
+    // Start on the first date the rule produces, so weekday and monthly rules line up with the due date
+    const [firstDate] = generateRecurringDates(
+      anchorDate,
+      settings.recurrence,
+      1,
+      settings.recurrenceMultiplier ?? 1,
+      settings.customFrequency,
+      { byWeekday: settings.byWeekday, monthlyRule: settings.monthlyRule, until: settings.recurrenceEndDate }
+    );
+    if (!firstDate) {
+      setRruleErrors(['The rule ends before its first occurrence']);
+      return;
+    }
+
+    const multiplier = settings.recurrenceMultiplier ?? 1;
+    setDueDate(firstDate);
+    setRecurrence(settings.recurrence);
+    setRecurrenceMultiplier(multiplier);
+    setRecurrenceMultiplierInput(multiplier.toString());
+    setRecurrenceMultiplierError('');
+    setCustomFrequency(settings.customFrequency || 'weekly');
+    setByWeekday(normalizeWeekdays(settings.byWeekday));
+    setMonthlyRuleChoice(monthlyRuleToChoice(settings.monthlyRule));
+    setRecurrenceFromCompletion(false);
+    setRecurrenceEndMode(settings.recurrenceCount ? 'afterCount' : settings.recurrenceEndDate ? 'onDate' : 'never');
+    setRecurrenceEndDate(settings.recurrenceEndDate || '');
+    setRecurrenceCountInput((settings.recurrenceCount ?? 10).toString());
+    setRecurrenceEndError('');
+    setRruleInput('');
+    setRruleErrors([]);
+  };
+
   const handleAddSubtask = () => {
     const trimmed = subtaskInput.trim();
     if (trimmed) {
@@ -164,6 +316,15 @@ export default function TaskForm({ task, onSave, onCancel, onExtendRecurring, in
     }
   };
 
+  // A time only applies with a due date, and a duration only with a time
+  const getTimeFields = (): Pick<Task, 'dueTime' | 'durationMinutes'> => ({
+    dueTime: dueDate && dueTime ? dueTime : undefined,
+    durationMinutes: dueDate && dueTime && durationMinutes ? durationMinutes : undefined,
+  });
+
+  // Blank notes are stored as no notes
+  const getNotesValue = (): string | undefined => notes.trim() ? notes : undefined;
+
   const handleRemoveSubtask = (id: string) => {
     setSubtasks(subtasks.filter(st => st.id !== id));
   };
@@ -179,14 +340,25 @@ export default function TaskForm({ task, onSave, onCancel, onExtendRecurring, in
       const taskData: Partial<Task> = {
         title: title.trim(),
         dueDate: dueDate || task.dueDate,
+        ...getTimeFields(),
         completed,
         tags,
+        priority,
         subtasks: updatedSubtasks,
       };
       onSave(taskData);
     }
   };
 
+  // Fill the form with a past version; saving the form makes it the current one
+  const handleRevertToVersion = (version: TaskVersion) => {
+    setTitle(version.title);
+    setDueDate(version.dueDate ? formatDate(version.dueDate) : '');
+    setCompleted(version.completed);
+    setTags([...version.tags]);
+    setSubtasks([...version.subtasks]);
+  };
+
   const handleStartEditingSubtask = (subtask: Subtask) => {
     setEditingSubtaskId(subtask.id);
     setEditingSubtaskText(subtask.text);
@@ -204,8 +376,10 @@ export default function TaskForm({ task, onSave, onCancel, onExtendRecurring, in
         const taskData: Partial<Task> = {
           title: title.trim(),
           dueDate: dueDate || task.dueDate,
+          ...getTimeFields(),
           completed,
           tags,
+          priority,
           subtasks: updatedSubtasks,
         };
         onSave(taskData);
@@ -268,29 +442,40 @@ export default function TaskForm({ task, onSave, onCancel, onExtendRecurring, in
       }
     }
 
-    // Check if we're editing a recurring task and subtasks have changed
+    // Check if we're editing a recurring task and subtasks or notes have changed
     if (task && task.recurrenceGroupId) {
       const subtasksChanged = JSON.stringify(subtasks) !== JSON.stringify(task.subtasks);
+      const notesChanged = getNotesValue() !== task.notes;
       
-      if (subtasksChanged) {
+      if (subtasksChanged || notesChanged) {
+        const changed = subtasksChanged && notesChanged ? 'subtasks and notes' : subtasksChanged ? 'subtasks' : 'notes';
         const confirmed = window.confirm(
-          `Update subtasks for all future instances of "${task.title}"?`
+          `Update ${changed} for all future instances of "${task.title}"?`
         );
         
         if (!confirmed) {
-          // User chose not to propagate - update current task only, don't propagate subtasks
+          // User chose not to propagate - update current task only, don't propagate subtasks or notes
           // We'll update the task directly without going through propagation logic
           const taskData: TaskUpdate = {
             title: title.trim(),
             dueDate: dueDate || task.dueDate || null,
+            ...getTimeFields(),
             completed,
             tags,
+            priority,
             subtasks,
+            notes: getNotesValue(),
             recurrence: task.recurrence,
             recurrenceMultiplier: task.recurrenceMultiplier,
             customFrequency: task.customFrequency,
+            byWeekday: task.byWeekday,
+            monthlyRule: task.monthlyRule,
+            recurrenceFromCompletion: task.recurrenceFromCompletion,
+            recurrenceEndDate: task.recurrenceEndDate,
+            recurrenceCount: task.recurrenceCount,
             autoRenew: task.autoRenew,
             _skipSubtaskPropagation: true, // Flag to skip subtask propagation
+            _skipNotesPropagation: true, // Flag to skip notes propagation
           };
           onSave(taskData);
           return;
@@ -316,16 +501,55 @@ export default function TaskForm({ task, onSave, onCancel, onExtendRecurring, in
       setRecurrenceMultiplierError(''); // Clear error if not using custom recurrence
     }
 
+    // Validate the end condition before submission
+    const recurrenceCount = parseInt(recurrenceCountInput, 10);
+    if (recurrence && recurrenceEndMode === 'onDate') {
+      if (!recurrenceEndDate) {
+        setRecurrenceEndError('Please choose an end date');
+        return; // Prevent submission
+      }
+      if (recurrenceEndDate < dueDate) {
+        setRecurrenceEndError('The end date must be on or after the due date');
+        return; // Prevent submission
+      }
+    } else if (recurrence && recurrenceEndMode === 'afterCount') {
+      if (recurrenceFromCompletion) {
+        setRecurrenceEndError('A series counted from completion can\'t end after a number of occurrences');
+        return; // Prevent submission
+      }
+      if (isNaN(recurrenceCount) || recurrenceCount < 1 || recurrenceCount > MAX_RECURRENCE_COUNT) {
+        setRecurrenceEndError(`Please enter a number between 1 and ${MAX_RECURRENCE_COUNT}`);
+        return; // Prevent submission
+      }
+    }
+    setRecurrenceEndError('');
+
+    // An occurrence count is stored together with the date of its last occurrence.
+    // Keep that date while the count is unchanged; it is recomputed when the series is regenerated.
+    const endsAfterCount = !!recurrence && recurrenceEndMode === 'afterCount';
+    const endDateForCount = endsAfterCount && task?.recurrenceCount === recurrenceCount
+      ? task.recurrenceEndDate
+      : undefined;
+
     const taskData: Partial<Task> = {
       title: title.trim(),
       dueDate: dueDate || null,
+      ...getTimeFields(),
       completed,
+      skipped: completed ? task?.skipped : false,
       tags,
+      priority,
       subtasks,
+      notes: getNotesValue(),
       recurrence: dueDate ? recurrence : null,
       recurrenceMultiplier: recurrence === 'custom' ? recurrenceMultiplier : undefined,
       customFrequency: recurrence === 'custom' ? customFrequency : undefined,
-      autoRenew: recurrence ? true : undefined, // Always auto-renew for recurring tasks
+      byWeekday: isWeeklySchedule && byWeekday.length > 0 ? byWeekday : undefined,
+      monthlyRule: buildMonthlyRule(),
+      recurrenceFromCompletion: recurrence && recurrenceFromCompletion ? true : undefined,
+      recurrenceEndDate: recurrence && recurrenceEndMode === 'onDate' ? recurrenceEndDate : endDateForCount,
+      recurrenceCount: endsAfterCount ? recurrenceCount : undefined,
+      autoRenew: recurrence ? true : undefined, // Auto-renew until the series reaches its end condition
     };
 
     onSave(taskData);
@@ -363,8 +587,10 @@ export default function TaskForm({ task, onSave, onCancel, onExtendRecurring, in
           const taskData: Partial<Task> = {
             title: title.trim(),
             dueDate: dueDate || task.dueDate,
+            ...getTimeFields(),
             completed: true,
             tags,
+            priority,
             subtasks: completedSubtasks,
           };
           onSave(taskData);
@@ -379,8 +605,11 @@ export default function TaskForm({ task, onSave, onCancel, onExtendRecurring, in
       const taskData: Partial<Task> = {
         title: title.trim(),
         dueDate: dueDate || task.dueDate,
+        ...getTimeFields(),
         completed: newCompletedState,
+        skipped: newCompletedState ? task.skipped : false, // Reopening a skipped occurrence clears the skip
         tags,
+        priority,
         subtasks,
       };
       onSave(taskData);
@@ -510,6 +739,38 @@ export default function TaskForm({ task, onSave, onCancel, onExtendRecurring, in
             </div>
           </div>
 
+          <div className="form-group">
+            <label>Time</label>
+            <div className="due-time-row">
+              <input
+                type="time"
+                value={dueTime}
+                disabled={!dueDate}
+                aria-label="Due time"
+                onChange={(e) => setDueTime(e.target.value)}
+              />
+              <select
+                className="duration-dropdown"
+                value={durationMinutes ?? ''}
+                disabled={!dueDate || !dueTime}
+                aria-label="Duration"
+                onChange={(e) => setDurationMinutes(e.target.value ? Number(e.target.value) : null)}
+              >
+                <option value="">No duration</option>
+                {[...new Set([...DURATION_OPTIONS, ...(durationMinutes ? [durationMinutes] : [])])]
+                  .sort((a, b) => a - b)
+                  .map(minutes => (
+                    <option key={minutes} value={minutes}>{formatDuration(minutes)}</option>
+                  ))}
+              </select>
+            </div>
+            {!dueTime && (
+              <div className="due-time-hint">
+                {dueDate ? 'Leave empty for an all-day task.' : 'Set a due date first to pick a time.'}
+              </div>
+            )}
+          </div>
+
           <div className="form-group">
             <label>Recurrence</label>
             <div className={`recurrence-selector ${!dueDate ? 'disabled' : ''}`}>
@@ -591,17 +852,169 @@ export default function TaskForm({ task, onSave, onCancel, onExtendRecurring, in
                     </div>
                   </div>
                   <div className="custom-recurrence-preview">
-                    Will create 10 instances: Every {recurrenceMultiplier} {
-                      customFrequency === 'daily' ? 'days' :
-                      customFrequency === 'weekly' ? 'weeks' :
-                      customFrequency === 'monthly' ? 'months' :
-                      customFrequency === 'quarterly' ? 'quarters' : 'years'
-                    }
+                    {recurrenceFromCompletion ? 'Next occurrence is scheduled on completion' : 'Repeats'}: {formatRecurrenceDisplay({
+                      recurrence,
+                      recurrenceMultiplier,
+                      customFrequency,
+                      byWeekday: isWeeklySchedule ? byWeekday : undefined,
+                      monthlyRule: buildMonthlyRule(),
+                      recurrenceFromCompletion,
+                    })}
                   </div>
                 </div>
               )}
 
-              {task && task.recurrenceGroupId && onExtendRecurring && (
+              {dueDate && recurrence && (
+                <div className="recurrence-basis-picker">
+                  <label className="custom-recurrence-label">Next due date</label>
+                  <select
+                    className="recurrence-dropdown"
+                    value={recurrenceFromCompletion ? 'completion' : 'schedule'}
+                    onChange={(e) => handleRecurrenceBasisChange(e.target.value === 'completion')}
+                  >
+                    <option value="schedule">On a fixed schedule</option>
+                    <option value="completion">Counted from when I complete it</option>
+                  </select>
+                </div>
+              )}
+
+              {dueDate && isWeeklySchedule && (
+                <div className="weekday-picker">
+                  <label className="custom-recurrence-label">Repeat on</label>
+                  <div className="recurrence-options">
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <button
+                        key={label}
+                        type="button"
+                        className={`recurrence-option ${byWeekday.includes(day) ? 'active' : ''}`}
+                        onClick={() => handleToggleWeekday(day)}
+                        aria-pressed={byWeekday.includes(day)}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  {byWeekday.length === 0 && (
+                    <div className="recurrence-helper-text weekday-picker-hint">
+                      Leave empty to repeat on the due date's weekday.
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {dueDate && isMonthlySchedule && dueDatePosition && (
+                <div className="monthly-rule-picker">
+                  <label className="custom-recurrence-label">Repeat on</label>
+                  <select
+                    className="recurrence-dropdown"
+                    value={effectiveMonthlyChoice}
+                    onChange={(e) => setMonthlyRuleChoice(e.target.value as MonthlyRuleChoice)}
+                  >
+                    <option value="dayOfMonth">Day {parseInt(dueDate.split('-')[2], 10)}</option>
+                    {availableMonthlyChoices.includes('nthWeekday') && (
+                      <option value="nthWeekday">
+                        The {formatOrdinal(dueDatePosition.ordinal)} {WEEKDAY_LABELS[dueDatePosition.weekday]}
+                      </option>
+                    )}
+                    {availableMonthlyChoices.includes('lastWeekday') && (
+                      <option value="lastWeekday">The last {WEEKDAY_LABELS[dueDatePosition.weekday]}</option>
+                    )}
+                    <option value="lastDay">The last day of the month</option>
+                    <option value="lastBusinessDay">The last business day of the month</option>
+                  </select>
+                </div>
+              )}
+
+              {dueDate && recurrence && (
+                <div className="recurrence-end-picker">
+                  <label className="custom-recurrence-label">Ends</label>
+                  <div className="recurrence-end-row">
+                    <select
+                      className="recurrence-dropdown"
+                      value={recurrenceEndMode}
+                      onChange={(e) => {
+                        setRecurrenceEndMode(e.target.value as RecurrenceEndMode);
+                        setRecurrenceEndError('');
+                      }}
+                    >
+                      <option value="never">Never</option>
+                      <option value="onDate">On date</option>
+                      <option value="afterCount" disabled={recurrenceFromCompletion}>
+                        {recurrenceFromCompletion
+                          ? 'After a number of occurrences (not when counted from completion)'
+                          : 'After a number of occurrences'}
+                      </option>
+                    </select>
+                    {recurrenceEndMode === 'onDate' && (
+                      <input
+                        type="date"
+                        value={recurrenceEndDate}
+                        min={dueDate}
+                        onChange={(e) => {
+                          setRecurrenceEndDate(e.target.value);
+                          setRecurrenceEndError('');
+                        }}
+                      />
+                    )}
+                    {recurrenceEndMode === 'afterCount' && (
+                      <div className="recurrence-end-count">
+                        <input
+                          type="number"
+                          min="1"
+                          max={MAX_RECURRENCE_COUNT}
+                          className="recurrence-multiplier-input"
+                          value={recurrenceCountInput}
+                          onChange={(e) => {
+                            setRecurrenceCountInput(e.target.value);
+                            setRecurrenceEndError('');
+                          }}
+                        />
+                        <span>occurrences</span>
+                      </div>
+                    )}
+                  </div>
+                  {recurrenceEndError && (
+                    <div className="form-error-message">
+                      {recurrenceEndError}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {!task && (
+                <div className="rrule-import">
+                  <label className="custom-recurrence-label">Import from calendar (RRULE)</label>
+                  <div className="rrule-import-row">
+                    <textarea
+                      className="rrule-import-input"
+                      rows={2}
+                      value={rruleInput}
+                      placeholder="RRULE:FREQ=WEEKLY;BYDAY=MO,WE"
+                      onChange={(e) => {
+                        setRruleInput(e.target.value);
+                        setRruleErrors([]);
+                      }}
+                    />
+                    <button
+                      type="button"
+                      className="btn btn-secondary btn-small"
+                      onClick={handleApplyRRule}
+                      disabled={!rruleInput.trim()}
+                    >
+                      Apply
+                    </button>
+                  </div>
+                  {rruleErrors.length > 0 && (
+                    <div className="form-error-message">
+                      {rruleErrors.map(error => (
+                        <div key={error}>{error}</div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {task && task.recurrenceGroupId && !task.recurrenceFromCompletion && onExtendRecurring && (
                 <div className="extend-recurring-section">
                   <button
                     type="button"
@@ -624,6 +1037,19 @@ export default function TaskForm({ task, onSave, onCancel, onExtendRecurring, in
             </div>
           </div>
 
+          <div className="form-group">
+            <label>Priority</label>
+            <select
+              className="priority-dropdown"
+              value={priority}
+              onChange={(e) => setPriority(e.target.value as TaskPriority)}
+            >
+              {TASK_PRIORITIES.map(level => (
+                <option key={level} value={level}>{PRIORITY_LABELS[level]}</option>
+              ))}
+            </select>
+          </div>
+
           <div className="form-group">
             <label>Tags</label>
             <div className="tag-selector-wrapper" ref={tagDropdownRef}>
@@ -840,6 +1266,21 @@ export default function TaskForm({ task, onSave, onCancel, onExtendRecurring, in
             )}
           </div>
 
+          <div className="form-group">
+            <label htmlFor="task-notes">Notes</label>
+            <textarea
+              id="task-notes"
+              className="notes-input"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Add notes, links or a checklist of context..."
+              rows={4}
+            />
+            <div className="notes-hint">Supports **bold**, *italic*, lists ("- item") and links.</div>
+          </div>
+
+          {task && <TaskHistorySection task={task} onRevert={handleRevertToVersion} />}
+
           <div className="form-actions">
             <button 
               type="button" 
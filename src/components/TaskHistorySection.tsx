@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { History, RotateCcw } from 'lucide-react';
+import { Task, TaskHistoryEntry, TaskHistoryField, TaskVersion } from '../types';
+import { getTaskRepository } from '../utils/taskRepository';
+import { getTaskVersionAt, HISTORY_FIELDS } from '../utils/taskHistory';
+import { getDateDisplay } from '../utils/dateUtils';
+import { getDeviceId } from '../utils/storage';
+import { logger } from '../utils/logger';
+
+interface TaskHistorySectionProps {
+  task: Task;
+  onRevert: (version: TaskVersion) => void;
+}
+
+/**
+ * Describes how one field changed, e.g. "Due date: 03/01/25 → 03/04/25"
+ */
+const describeChange = (field: TaskHistoryField, from: unknown, to: unknown): string => {
+  switch (field) {
+    case 'title':
+      return `Renamed from "${from}" to "${to}"`;
+    case 'dueDate':
+      return `Due date: ${getDateDisplay(from as string | null)} → ${getDateDisplay(to as string | null)}`;
+    case 'completed':
+      return to ? 'Marked complete' : 'Marked incomplete';
+    case 'subtasks': {
+      const before = from as Task['subtasks'];
+      const after = to as Task['subtasks'];
+      const doneBefore = before.filter(st => st.completed).length;
+      const doneAfter = after.filter(st => st.completed).length;
+      return `Subtasks: ${doneBefore}/${before.length} done → ${doneAfter}/${after.length} done`;
+    }
+    case 'tags': {
+      const formatTags = (tags: string[]) => (tags.length > 0 ? tags.join(', ') : 'none');
+      return `Tags: ${formatTags(from as string[])} → ${formatTags(to as string[])}`;
+    }
+  }
+};
+
+export default function TaskHistorySection({ task, onRevert }: TaskHistorySectionProps) {
+  const [entries, setEntries] = useState<TaskHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setLoadError(null);
+    getTaskRepository().loadTaskHistory(task.id)
+      .then(history => {
+        if (!cancelled) setEntries(history);
+      })
+      .catch(error => {
+        logger.error('[TaskHistorySection] Failed to load task history:', error);
+        if (!cancelled) setLoadError('Failed to load history.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [task.id]);
+
+  const thisDeviceId = getDeviceId();
+
+  return (
+    <div className="form-group task-history">
+      <button
+        type="button"
+        className="task-history-toggle"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <History size={14} />
+        History{!isLoading && entries.length > 0 && ` (${entries.length})`}
+      </button>
+
+      {isExpanded && (
+        <div className="task-history-body">
+          {isLoading && <div className="task-history-empty">Loading history...</div>}
+          {loadError && <div className="load-error-message">{loadError}</div>}
+          {!isLoading && !loadError && entries.length === 0 && (
+            <div className="task-history-empty">No changes recorded yet.</div>
+          )}
+
+          {/* Newest first; the newest entry is the current version */}
+          {!isLoading && [...entries.keys()].reverse().map(index => {
+            const entry = entries[index];
+            return (
+              <div key={entry.id} className="task-history-entry">
+                <div className="task-history-entry-header">
+                  <span className="task-history-entry-meta">
+                    {format(new Date(entry.changedAt), 'MMM d, yyyy h:mm a')}
+                    {' · '}
+                    {entry.deviceId === thisDeviceId ? 'This device' : entry.deviceName}
+                  </span>
+                  {index < entries.length - 1 && (
+                    <button
+                      type="button"
+                      className="task-history-revert-btn"
+                      onClick={() => onRevert(getTaskVersionAt(entries, index, task))}
+                      title="Fill the form with this version; save to keep it"
+                    >
+                      <RotateCcw size={12} />
+                      Revert to this version
+                    </button>
+                  )}
+                </div>
+                <ul className="task-history-changes">
+                  {HISTORY_FIELDS.filter(field => entry.changes[field]).map(field => (
+                    <li key={field}>
+                      {describeChange(field, entry.changes[field]!.from, entry.changes[field]!.to)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+
+          {!isLoading && entries.length > 0 && (
+            <div className="task-history-entry">
+              <div className="task-history-entry-header">
+                <span className="task-history-entry-meta">Before these changes</span>
+                <button
+                  type="button"
+                  className="task-history-revert-btn"
+                  onClick={() => onRevert(getTaskVersionAt(entries, -1, task))}
+                  title="Fill the form with this version; save to keep it"
+                >
+                  <RotateCcw size={12} />
+                  Revert to this version
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
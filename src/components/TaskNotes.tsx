@@ -0,0 +1,56 @@
+import { Fragment } from 'react';
+import { NoteInline, parseNoteBlocks } from '../utils/notes';
+
+interface TaskNotesProps {
+  notes: string;
+}
+
+const renderInline = (nodes: NoteInline[]) => nodes.map((node, index) => {
+  switch (node.type) {
+    case 'bold':
+      return <strong key={index}>{renderInline(node.children)}</strong>;
+    case 'italic':
+      return <em key={index}>{renderInline(node.children)}</em>;
+    case 'link':
+      return (
+        <a
+          key={index}
+          href={node.href}
+          target="_blank"
+          rel="noopener noreferrer"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {node.text}
+        </a>
+      );
+    default:
+      return <Fragment key={index}>{node.text}</Fragment>;
+  }
+});
+
+export default function TaskNotes({ notes }: TaskNotesProps) {
+  return (
+    <div className="task-notes-content">
+      {parseNoteBlocks(notes).map((block, index) => {
+        if (block.type === 'list') {
+          const ListTag = block.ordered ? 'ol' : 'ul';
+          return (
+            <ListTag key={index}>
+              {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)}
+            </ListTag>
+          );
+        }
+        return (
+          <p key={index}>
+            {block.lines.map((line, lineIndex) => (
+              <Fragment key={lineIndex}>
+                {lineIndex > 0 && <br />}
+                {renderInline(line)}
+              </Fragment>
+            ))}
+          </p>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import { useState, useMemo, useCallback } from 'react';
 import { Task, TaskUpdate } from '../types';
 import GroupedTaskList from './GroupedTaskList';
+import CopyMarkdownButton from './CopyMarkdownButton';
 import { isDateOverdue, formatDate, formatFullDate } from '../utils/dateUtils';
+import { tasksToMarkdown } from '../utils/markdown';
+import { getCalendarToday } from '../utils/calendarDay';
 
 interface TodayViewProps {
   tasks: Task[];
@@ -11,15 +14,16 @@ interface TodayViewProps {
   onEdit: (task: Task) => void;
   onDelete: (id: string) => void;
   onUpdateTask?: (id: string, updates: TaskUpdate) => void;
+  onSkipOccurrence?: (id: string) => void;
   onNavigateDate: (date: Date) => void;
   onAddTask?: (date: Date) => void;
 }
 
-export default function TodayView({ tasks, date, tagColors, onToggleComplete, onEdit, onDelete, onUpdateTask, onNavigateDate: _onNavigateDate, onAddTask }: TodayViewProps) {
+export default function TodayView({ tasks, date, tagColors, onToggleComplete, onEdit, onDelete, onUpdateTask, onSkipOccurrence, onNavigateDate: _onNavigateDate, onAddTask }: TodayViewProps) {
   const [collapsedTags, setCollapsedTags] = useState<Set<string>>(new Set());
 
   const fullDateDisplay = formatFullDate(date);
-  const isToday = useMemo(() => formatDate(date) === formatDate(new Date()), [date]);
+  const isToday = useMemo(() => formatDate(date) === getCalendarToday(), [date]);
 
   // Separate overdue and today tasks (only when viewing today) - memoized
   const { overdueTasks, todayTasks } = useMemo(() => {
@@ -68,6 +72,14 @@ export default function TodayView({ tasks, date, tagColors, onToggleComplete, on
   return (
     <div>
       <div className="task-list">
+        <div className="view-toolbar">
+          <CopyMarkdownButton
+            getMarkdown={() => tasksToMarkdown(isToday ? `Today (${fullDateDisplay})` : fullDateDisplay, [
+              { tasks: todayTasks },
+              { heading: 'Overdue', tasks: overdueTasks, showDueDates: true },
+            ])}
+          />
+        </div>
         {todayTasks.length > 0 && (
           <GroupedTaskList
             tasks={todayTasks}
@@ -76,6 +88,7 @@ export default function TodayView({ tasks, date, tagColors, onToggleComplete, on
             onEdit={onEdit}
             onDelete={onDelete}
             onUpdateTask={onUpdateTask}
+            onSkipOccurrence={onSkipOccurrence}
             collapsedTags={collapsedTags}
             onToggleTagCollapse={toggleTagCollapse}
           />
@@ -94,6 +107,7 @@ export default function TodayView({ tasks, date, tagColors, onToggleComplete, on
               onEdit={onEdit}
               onDelete={onDelete}
               onUpdateTask={onUpdateTask}
+              onSkipOccurrence={onSkipOccurrence}
               collapsedTags={collapsedTags}
               onToggleTagCollapse={toggleTagCollapse}
               showDate={true}
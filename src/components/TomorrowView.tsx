@@ -13,11 +13,12 @@ interface TomorrowViewProps {
   onEdit: (task: Task) => void;
   onDelete: (id: string) => void;
   onUpdateTask?: (id: string, updates: TaskUpdate) => void;
+  onSkipOccurrence?: (id: string) => void;
   onNavigateDate: (date: Date) => void;
   onAddTask?: (date: Date) => void;
 }
 
-export default function TomorrowView({ tasks, date, tagColors, onToggleComplete, onEdit, onDelete, onUpdateTask, onNavigateDate, onAddTask }: TomorrowViewProps) {
+export default function TomorrowView({ tasks, date, tagColors, onToggleComplete, onEdit, onDelete, onUpdateTask, onSkipOccurrence, onNavigateDate, onAddTask }: TomorrowViewProps) {
   const [collapsedTags, setCollapsedTags] = useState<Set<string>>(new Set());
 
   const goToPreviousDay = () => {
@@ -88,6 +89,7 @@ export default function TomorrowView({ tasks, date, tagColors, onToggleComplete,
           onEdit={onEdit}
           onDelete={onDelete}
           onUpdateTask={onUpdateTask}
+          onSkipOccurrence={onSkipOccurrence}
           collapsedTags={collapsedTags}
           onToggleTagCollapse={toggleTagCollapse}
         />
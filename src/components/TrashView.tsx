@@ -0,0 +1,100 @@
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { RefreshCw, RotateCcw, Trash2 } from 'lucide-react';
+import { Task } from '../types';
+import { getDaysUntilPurge, groupTrashedTasks } from '../utils/taskOperations';
+
+interface TrashViewProps {
+  tasks: Task[];
+  retentionDays: number;
+  isLoading: boolean;
+  loadError: string | null;
+  onRestore: (tasks: Task[]) => void;
+  onEmptyTrash: () => void;
+}
+
+export default function TrashView({
+  tasks,
+  retentionDays,
+  isLoading,
+  loadError,
+  onRestore,
+  onEmptyTrash,
+}: TrashViewProps) {
+  const entries = useMemo(() => groupTrashedTasks(tasks), [tasks]);
+
+  const handleEmptyTrash = () => {
+    const confirmed = window.confirm(
+      `Permanently delete ${tasks.length} task${tasks.length !== 1 ? 's' : ''} in the trash? This can't be undone.`
+    );
+    if (confirmed) {
+      onEmptyTrash();
+    }
+  };
+
+  if (isLoading && entries.length === 0) {
+    return (
+      <div className="load-more-section">
+        <div className="loading-indicator">
+          <span className="loading-spinner" />
+          Loading deleted tasks...
+        </div>
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="empty-state">
+        <h2>Trash is empty</h2>
+        <p>Deleted tasks stay here for {retentionDays} days before they're removed for good.</p>
+        {loadError && <div className="load-error-message">{loadError}</div>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="trash-view">
+      <div className="trash-header">
+        <p className="trash-note">
+          Deleted tasks are removed for good {retentionDays} days after they were deleted.
+        </p>
+        <button className="btn btn-danger btn-small" onClick={handleEmptyTrash}>
+          Empty Trash
+        </button>
+      </div>
+
+      {loadError && <div className="load-error-message">{loadError}</div>}
+
+      <div className="trash-list">
+        {entries.map(entry => {
+          const daysLeft = getDaysUntilPurge(entry.deletedAt, retentionDays);
+          return (
+            <div key={entry.id} className="trash-item">
+              <div className="trash-item-icon">
+                {entry.isRecurring ? <RefreshCw size={16} /> : <Trash2 size={16} />}
+              </div>
+              <div className="trash-item-info">
+                <div className="trash-item-title">{entry.title || '(untitled)'}</div>
+                <div className="trash-item-meta">
+                  {entry.isRecurring && `Recurring · ${entry.tasks.length} item${entry.tasks.length !== 1 ? 's' : ''} · `}
+                  Deleted {format(new Date(entry.deletedAt), 'MMM d, yyyy')}
+                  {' · '}
+                  {daysLeft > 0 ? `${daysLeft} day${daysLeft !== 1 ? 's' : ''} left` : 'Removed soon'}
+                </div>
+              </div>
+              <button
+                className="btn btn-secondary btn-small trash-restore-btn"
+                onClick={() => onRestore(entry.tasks)}
+                title="Restore"
+              >
+                <RotateCcw size={14} />
+                Restore
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,15 @@
 import { useState, useEffect } from 'react';
 import { Task, TaskUpdate, getTagColor as getTagColorUtil } from '../types';
 import NavigationHeader from './NavigationHeader';
-import { getNext5Days, formatDate, isSameDate, getDateDisplay, addDays, subDays, formatFullDate } from '../utils/dateUtils';
+import CopyMarkdownButton from './CopyMarkdownButton';
+import PriorityBadge from './PriorityBadge';
+import { getNext5Days, formatDate, isSameDate, getDateDisplay, addDays, subDays, formatFullDate, formatDateLong } from '../utils/dateUtils';
+import { tasksToMarkdown } from '../utils/markdown';
+import { compareByPriority } from '../utils/taskUtils';
+import { formatTimeOfDay } from '../utils/daySchedule';
 import { startOfDay } from 'date-fns';
+import { CalendarPlus } from 'lucide-react';
+import { getCalendarTodayDate } from '../utils/calendarDay';
 
 interface WeekViewProps {
   tasks: Task[];
@@ -14,16 +21,16 @@ interface WeekViewProps {
   initialWeekDate?: Date | null;
   onAddTask?: (date: Date) => void;
   onWeekDateChange?: (date: Date) => void;
+  onDownloadCalendar?: () => void;
 }
 
-export default function WeekView({ tasks, tagColors, onToggleComplete, onEdit, onUpdateTask, onNavigateToDay, initialWeekDate, onAddTask, onWeekDateChange }: WeekViewProps) {
+export default function WeekView({ tasks, tagColors, onToggleComplete, onEdit, onUpdateTask, onNavigateToDay, initialWeekDate, onAddTask, onWeekDateChange, onDownloadCalendar }: WeekViewProps) {
   const [currentWeekDate, setCurrentWeekDate] = useState(() => {
     // Use initialWeekDate if provided, otherwise use today
     if (initialWeekDate) {
       return startOfDay(initialWeekDate);
     }
-    // Use local timezone - normalize to start of day
-    return startOfDay(new Date());
+    return getCalendarTodayDate();
   });
 
   // Update week date when initialWeekDate changes (e.g., when navigating back from day view)
@@ -37,7 +44,8 @@ export default function WeekView({ tasks, tagColors, onToggleComplete, onEdit, o
   const [isDragging, setIsDragging] = useState(false);
   
   const weekDates = getNext5Days(currentWeekDate);
-  const today = startOfDay(new Date());
+  const weekTitle = `${formatFullDate(weekDates[0])} - ${formatFullDate(weekDates[weekDates.length - 1])}`;
+  const today = getCalendarTodayDate();
 
   const minSwipeDistance = 50;
 
@@ -99,8 +107,7 @@ export default function WeekView({ tasks, tagColors, onToggleComplete, onEdit, o
   };
 
   const goToToday = () => {
-    // Use local timezone - normalize to start of day
-    const newDate = startOfDay(new Date());
+    const newDate = getCalendarTodayDate();
     setCurrentWeekDate(newDate);
     onWeekDateChange?.(newDate);
   };
@@ -116,14 +123,14 @@ export default function WeekView({ tasks, tagColors, onToggleComplete, onEdit, o
       return taskDateStr === dateStr;
     });
     
-    // Sort tasks by tag: untagged last, others alphabetically
+    // Sort tasks by tag: untagged last, others alphabetically, then by priority within a tag
     return filteredTasks.sort((a, b) => {
       const tagA = a.tags.length > 0 ? a.tags[0].toLowerCase() : 'untagged';
       const tagB = b.tags.length > 0 ? b.tags[0].toLowerCase() : 'untagged';
       
       if (tagA === 'untagged' && tagB !== 'untagged') return 1;
       if (tagB === 'untagged' && tagA !== 'untagged') return -1;
-      return tagA.localeCompare(tagB);
+      return tagA.localeCompare(tagB) || compareByPriority(a, b);
     });
   };
 
@@ -164,13 +171,27 @@ export default function WeekView({ tasks, tagColors, onToggleComplete, onEdit, o
       onTouchEnd={handleTouchEnd}
     >
       <NavigationHeader
-        title={`${formatFullDate(weekDates[0])} - ${formatFullDate(weekDates[weekDates.length - 1])}`}
+        title={weekTitle}
         onPrev={goToPreviousWeek}
         onNext={goToNextWeek}
         onToday={goToToday}
         className="week-view-header"
         titleClassName="week-title"
       />
+      <div className="view-toolbar">
+        <CopyMarkdownButton
+          getMarkdown={() => tasksToMarkdown(weekTitle, weekDates.map(date => ({
+            heading: formatDateLong(date),
+            tasks: getTasksForDate(date),
+          })))}
+        />
+        {onDownloadCalendar && (
+          <button className="btn btn-secondary btn-small view-toolbar-btn" onClick={onDownloadCalendar}>
+            <CalendarPlus size={14} />
+            Add to Calendar (.ics)
+          </button>
+        )}
+      </div>
       <div className="week-view">
         {weekDates.map((date, index) => {
           const dayTasks = getTasksForDate(date);
@@ -250,8 +271,10 @@ export default function WeekView({ tasks, tagColors, onToggleComplete, onEdit, o
                         onClick={(e) => e.stopPropagation()}
                       />
                       <div className="week-task-title" style={{ textDecoration: task.completed ? 'line-through' : 'none', opacity: task.completed ? 0.6 : 1 }}>
+                        {task.dueTime && <span className="week-task-time">{formatTimeOfDay(task.dueTime)}</span>}
                         {task.title}
                       </div>
+                      <PriorityBadge priority={task.priority} compact />
                     </div>
                     );
                   })
@@ -130,4 +130,13 @@ describe('CompletedView', () => {
     expect(taskElements[1]).toHaveAttribute('data-testid', 'task-ccc');
     expect(taskElements[2]).toHaveAttribute('data-testid', 'task-aaa');
   });
+
+  it('exports to CSV when an export handler is given', () => {
+    const onExportCsv = vi.fn();
+    render(<CompletedView {...defaultProps} tasks={[createTask()]} onExportCsv={onExportCsv} />);
+
+    fireEvent.click(screen.getByText('Export CSV'));
+
+    expect(onExportCsv).toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import { render, screen, fireEvent, createEvent } from '@testing-library/react';
+import DayView from '../DayView';
+import { Task } from '../../types';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Test Task',
+  dueDate: '2025-03-05',
+  completed: false,
+  subtasks: [],
+  tags: [],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  lastModified: '2025-01-01T00:00:00.000Z',
+  recurrence: null,
+  recurrenceGroupId: null,
+  ...overrides,
+});
+
+const defaultProps = {
+  date: new Date(2025, 2, 5),
+  tagColors: {},
+  onToggleComplete: vi.fn(),
+  onEdit: vi.fn(),
+  onDelete: vi.fn(),
+};
+
+// Drag data of the task being dropped
+const dataTransfer = (taskId: string) => ({ getData: () => taskId, setData: vi.fn() });
+
+describe('DayView', () => {
+  it('pins all-day tasks above the timeline and places timed tasks on it', () => {
+    render(
+      <DayView
+        {...defaultProps}
+        tasks={[
+          createTask({ id: 'a', title: 'Pay rent' }),
+          createTask({ id: 'b', title: 'Dentist', dueTime: '09:30', durationMinutes: 45 }),
+        ]}
+      />
+    );
+
+    expect(screen.getByText('All day')).toBeInTheDocument();
+    expect(screen.getByText('Pay rent').closest('.day-all-day')).not.toBeNull();
+    expect(screen.getByText('Dentist').closest('.day-timeline-task')).not.toBeNull();
+    expect(screen.getByText('9:30 AM - 10:15 AM')).toBeInTheDocument();
+  });
+
+  it('sets the time of a task dropped onto a slot', () => {
+    const onUpdateTask = vi.fn();
+    render(<DayView {...defaultProps} tasks={[createTask({ id: 'a', title: 'Pay rent' })]} onUpdateTask={onUpdateTask} />);
+
+    // The timeline starts at 7 AM with 48px per hour, so 2.5 hours down is 9:30 AM
+    const grid = screen.getByTestId('day-timeline-grid');
+    const drop = createEvent.drop(grid, { dataTransfer: dataTransfer('a') });
+    Object.defineProperty(drop, 'clientY', { value: 48 * 2.5 + 5 }); // jsdom's drag events have no coordinates
+    fireEvent(grid, drop);
+
+    expect(onUpdateTask).toHaveBeenCalledWith('a', { dueTime: '09:30', _dragDrop: true });
+  });
+
+  it('makes a timed task all-day when it is dropped on the all-day area', () => {
+    const onUpdateTask = vi.fn();
+    render(
+      <DayView
+        {...defaultProps}
+        tasks={[createTask({ id: 'a', title: 'Pay rent' }), createTask({ id: 'b', title: 'Dentist', dueTime: '09:30' })]}
+        onUpdateTask={onUpdateTask}
+      />
+    );
+
+    fireEvent.drop(screen.getByText('All day'), { dataTransfer: dataTransfer('b') });
+
+    expect(onUpdateTask).toHaveBeenCalledWith('b', { dueTime: undefined, _dragDrop: true });
+  });
+});
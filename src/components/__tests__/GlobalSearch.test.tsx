@@ -471,6 +471,51 @@ describe('GlobalSearch', () => {
       expect(screen.queryByText('Task B')).not.toBeInTheDocument();
     });
 
+    it('filters by notes', () => {
+      const tasks = [
+        createTask({ id: '1', title: 'Task A', notes: 'Ask about the **warranty**' }),
+        createTask({ id: '2', title: 'Task B', notes: 'Bring the receipt' }),
+      ];
+
+      render(
+        <GlobalSearch
+          {...defaultProps}
+          tasks={tasks}
+          currentView="all"
+          query="warranty"
+        />
+      );
+
+      fireEvent.focus(screen.getByPlaceholderText('Search all tasks...'));
+
+      expect(screen.getByText('Task A')).toBeInTheDocument();
+      expect(screen.queryByText('Task B')).not.toBeInTheDocument();
+    });
+
+    it('lists higher priority tasks first, then by due date', () => {
+      const tasks = [
+        createTask({ id: '1', title: 'Task early', dueDate: '2024-01-15' }),
+        createTask({ id: '2', title: 'Task urgent', dueDate: '2024-01-20', priority: 'urgent' }),
+        createTask({ id: '3', title: 'Task later', dueDate: '2024-01-18' }),
+        createTask({ id: '4', title: 'Task high', dueDate: '2024-01-19', priority: 'high' }),
+      ];
+
+      render(
+        <GlobalSearch
+          {...defaultProps}
+          tasks={tasks}
+          currentView="all"
+          query="Task"
+        />
+      );
+
+      fireEvent.focus(screen.getByPlaceholderText('Search all tasks...'));
+
+      const titles = Array.from(document.querySelectorAll('.search-result-title')).map(el => el.textContent);
+      expect(titles).toEqual(['Task urgent', 'Task high', 'Task early', 'Task later']);
+      expect(screen.getByTitle('Urgent priority')).toBeInTheDocument();
+    });
+
     it('shows no results message when query matches nothing', () => {
       const tasks = [
         createTask({ id: '1', title: 'Task A' }),
@@ -547,6 +592,36 @@ describe('GlobalSearch', () => {
       // Should show expand button with count
       expect(screen.getByText('1+')).toBeInTheDocument();
     });
+
+    it('opens the series history from a recurring result without selecting it', () => {
+      const onSelectTask = vi.fn();
+      const onShowHistory = vi.fn();
+      const tasks = [
+        createTask({ id: '1', title: 'Weekly Meeting', recurrence: 'weekly', recurrenceGroupId: 'group-1' }),
+        createTask({ id: '2', title: 'Meeting notes' }),
+      ];
+
+      render(
+        <GlobalSearch
+          {...defaultProps}
+          tasks={tasks}
+          currentView="all"
+          query="Meeting"
+          onSelectTask={onSelectTask}
+          onShowHistory={onShowHistory}
+        />
+      );
+
+      fireEvent.focus(screen.getByPlaceholderText('Search all tasks...'));
+
+      // Only the recurring result gets a history button
+      const historyButtons = screen.getAllByLabelText('Show history');
+      expect(historyButtons).toHaveLength(1);
+
+      fireEvent.click(historyButtons[0]);
+      expect(onShowHistory).toHaveBeenCalledWith('group-1');
+      expect(onSelectTask).not.toHaveBeenCalled();
+    });
   });
 
   describe('keyboard navigation', () => {
@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import TrashView from '../TrashView';
+import { Task } from '../../types';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Test Task',
+  dueDate: '2024-01-01',
+  completed: false,
+  subtasks: [],
+  tags: [],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  lastModified: '2024-01-01T00:00:00.000Z',
+  recurrence: null,
+  recurrenceGroupId: null,
+  deletedAt: new Date().toISOString(),
+  ...overrides,
+});
+
+const defaultProps = {
+  tasks: [],
+  retentionDays: 30,
+  isLoading: false,
+  loadError: null,
+  onRestore: vi.fn(),
+  onEmptyTrash: vi.fn(),
+};
+
+describe('TrashView', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('shows the retention period when the trash is empty', () => {
+    render(<TrashView {...defaultProps} />);
+
+    expect(screen.getByText('Trash is empty')).toBeInTheDocument();
+    expect(screen.getByText(/stay here for 30 days/)).toBeInTheDocument();
+  });
+
+  it('restores every row of a deleted series together', () => {
+    const onRestore = vi.fn();
+    const series = createTask({ id: 'series', title: 'Water plants', recurrence: 'weekly', recurrenceGroupId: 'group-1', isSeries: true });
+    const exception = createTask({ id: 'exception', recurrence: 'weekly', recurrenceGroupId: 'group-1' });
+
+    render(<TrashView {...defaultProps} tasks={[series, exception]} onRestore={onRestore} />);
+
+    expect(screen.getByText('Water plants')).toBeInTheDocument();
+    expect(screen.getByText(/Recurring · 2 items/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Restore'));
+
+    expect(onRestore).toHaveBeenCalledWith([series, exception]);
+  });
+
+  it('empties the trash only once confirmed', () => {
+    const onEmptyTrash = vi.fn();
+    const confirm = vi.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true);
+
+    render(<TrashView {...defaultProps} tasks={[createTask()]} onEmptyTrash={onEmptyTrash} />);
+
+    fireEvent.click(screen.getByText('Empty Trash'));
+    expect(onEmptyTrash).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText('Empty Trash'));
+    expect(confirm).toHaveBeenCalledTimes(2);
+    expect(onEmptyTrash).toHaveBeenCalledTimes(1);
+  });
+});
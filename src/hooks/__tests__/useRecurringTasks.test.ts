@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useState } from 'react';
+import { useRecurringTasks } from '../useRecurringTasks';
+import { createRecurringSeries } from '../../utils/recurringTaskHelpers';
+import { expandRecurringTasks, getOccurrenceId } from '../../utils/recurrenceExpansion';
+import { Task } from '../../types';
+
+vi.mock('../../utils/supabase', () => ({
+  supabase: {},
+}));
+
+vi.mock('../../utils/logger', () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const renderRecurringTasks = (initialTasks: Task[]) => {
+  return renderHook(() => {
+    const [tasks, setTasks] = useState(initialTasks);
+    return { tasks, ...useRecurringTasks(tasks, setTasks, vi.fn()) };
+  });
+};
+
+const getOpenOccurrences = (tasks: Task[]): Task[] => {
+  return expandRecurringTasks(tasks, { start: '2025-03-01', end: '2025-03-31' }).filter(t => !t.completed);
+};
+
+describe('useRecurringTasks', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2025, 2, 10, 12));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('leaves one open occurrence after completing an occurrence of a completion-based series and undoing it', () => {
+    const series = createRecurringSeries(
+      { title: 'Water plants', recurrence: 'weekly', recurrenceFromCompletion: true },
+      '2025-03-10',
+      'weekly'
+    )!;
+    const { result } = renderRecurringTasks([series]);
+    const occurrenceId = getOccurrenceId(series.recurrenceGroupId!, '2025-03-10');
+
+    // Completing, the way the app does it: store the completion, then schedule the next occurrence
+    const [occurrence] = getOpenOccurrences(result.current.tasks);
+    act(() => result.current.updateRecurringTask(occurrenceId, { completed: true }));
+    act(() => result.current.handleAutoRenewal(occurrence));
+    expect(getOpenOccurrences(result.current.tasks).map(t => t.dueDate)).toEqual(['2025-03-17']);
+
+    // Undoing puts the stored occurrence back the way it was
+    const completedRow = result.current.tasks.find(t => t.occurrenceDate === '2025-03-10')!;
+    act(() => result.current.updateRecurringTask(completedRow.id, { completed: false, subtasks: occurrence.subtasks }));
+
+    const openOccurrences = getOpenOccurrences(result.current.tasks);
+    expect(openOccurrences).toHaveLength(1);
+    expect(openOccurrences[0].id).toBe(completedRow.id);
+  });
+});
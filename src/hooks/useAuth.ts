@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { supabase, isSupabaseConfigured } from '../utils/supabase';
 import type { User } from '@supabase/supabase-js';
 import { logger } from '../utils/logger';
+import { getStorageBackend, LOCAL_USER } from '../utils/taskRepository';
 
 const AUTH_CHECK_TIMEOUT_MS = 3000;
 const SAFETY_TIMEOUT_MS = 5000;
@@ -14,6 +15,13 @@ export const useAuth = () => {
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
+    // The local backends have no sign-in, so their single user is always signed in
+    if (getStorageBackend() !== 'supabase') {
+      setUser(LOCAL_USER);
+      setLoading(false);
+      return;
+    }
+
     let timeoutId: number | null = null;
     let safetyTimeoutId: number | null = null;
     let isMounted = true;
@@ -126,6 +134,10 @@ export const useAuth = () => {
   }, []);
 
   const signOut = async () => {
+    if (getStorageBackend() !== 'supabase') {
+      logger.debug('[useAuth] Sign-out does nothing with a local storage backend');
+      return;
+    }
     try {
       await supabase.auth.signOut();
     } catch (error) {
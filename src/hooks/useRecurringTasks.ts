@@ -1,14 +1,25 @@
 import { Task, TaskUpdate } from '../types';
-import { generateId, deleteTasks } from '../utils/supabaseStorage';
-import { normalizeTags } from '../utils/taskOperations';
+import { generateId } from '../utils/supabaseStorage';
+import { queueTaskDeletes, queueTaskSaves } from '../utils/syncQueue';
+import { moveTasksToTrash, normalizeTags } from '../utils/taskOperations';
 import {
   createRecurringTaskInstances,
   findFirstInstance,
   findLastInstance,
   getTasksToRemoveForRegeneration,
   extendRecurringTaskInstances,
+  hasRecurrenceSettingsChanged,
+  resolveRecurrenceEndDate,
+  createNextCompletionInstance,
+  createRecurringSeries,
+  materializeOccurrence,
+  isFirstOccurrence,
+  reopenCompletionOccurrence,
+  resumeSeries,
 } from '../utils/recurringTaskHelpers';
-import { formatDate } from '../utils/dateUtils';
+import { findSeriesRow, isSeriesRow, isVirtualOccurrence, resolveTask } from '../utils/recurrenceExpansion';
+import { getNextDueDateAfterCompletion } from '../utils/dateUtils';
+import { addCalendarDays, getCalendarToday } from '../utils/calendarDay';
 import { logger } from '../utils/logger';
 
 /**
@@ -19,9 +30,33 @@ export const useRecurringTasks = (
   setTasks: React.Dispatch<React.SetStateAction<Task[]>>,
   setAutoRenewNotification: (notification: { taskTitle: string; count: number } | null) => void
 ) => {
+
+  /**
+   * Moves stored rows a series no longer uses to the trash, so edits made to them can still be restored.
+   * A replaced series row is only a rule superseded by the new one, so it's deleted instead.
+   * The caller takes the rows out of the task list.
+   */
+  const trashReplacedRows = (rows: Task[], reason: string) => {
+    const storedIds = new Set(tasks.map(t => t.id));
+    const storedRows = rows.filter(t => storedIds.has(t.id));
+    const seriesIds = storedRows.filter(isSeriesRow).map(t => t.id);
+    const rowsToTrash = storedRows.filter(t => !isSeriesRow(t));
+
+    if (seriesIds.length > 0) {
+      queueTaskDeletes(seriesIds).catch(error => {
+        logger.error('[Recurring Task] Failed to delete replaced series rule from database:', error);
+      });
+    }
+    if (rowsToTrash.length > 0) {
+      logger.debug(`[Recurring Task] Moving ${rowsToTrash.length} task(s) to the trash ${reason}`);
+      queueTaskSaves(moveTasksToTrash(rowsToTrash, new Date().toISOString())).catch(error => {
+        logger.error('[Recurring Task] Failed to move replaced tasks to the trash:', error);
+      });
+    }
+  };
   
   /**
-   * Adds a recurring task by creating all instances
+   * Adds a recurring task by creating its series rule
    */
   const addRecurringTask = (taskData: Partial<Task>) => {
     if (!taskData.recurrence || !taskData.dueDate) {
@@ -29,16 +64,16 @@ export const useRecurringTasks = (
     }
 
     const recurrenceGroupId = generateId();
-    const newTasks = createRecurringTaskInstances(
-      { ...taskData, recurrenceGroupId },
+    const series = createRecurringSeries(
+      { ...resolveRecurrenceEndDate(taskData, taskData.dueDate), recurrenceGroupId },
       taskData.dueDate,
       taskData.recurrence
     );
+    if (!series) return;
 
-    logger.debug(`[Recurring Task] Creating ${newTasks.length} occurrences for "${taskData.title}" with ${taskData.recurrence} recurrence starting ${taskData.dueDate}`);
-    logger.debug(`[Recurring Task] Created ${newTasks.length} tasks. First: ${newTasks[0]?.dueDate}, Last: ${newTasks[newTasks.length - 1]?.dueDate}`);
+    logger.debug(`[Recurring Task] Creating series for "${taskData.title}" with ${taskData.recurrence} recurrence starting ${taskData.dueDate}`);
     
-    setTasks([...tasks, ...newTasks]);
+    setTasks([...tasks, series]);
   };
 
   /**
@@ -50,20 +85,26 @@ export const useRecurringTasks = (
     updates: TaskUpdate,
     editMode: 'all' | 'thisAndFollowing' = 'thisAndFollowing'
   ) => {
-    const existingTask = tasks.find(t => t.id === id);
-    if (!existingTask) return;
+    const resolvedTask = resolveTask(tasks, id);
+    if (!resolvedTask) return;
+
+    // Touching a virtual occurrence stores it as an exception row first
+    const { tasks: materializedTasks, task: existingTask } = isVirtualOccurrence(resolvedTask)
+      ? materializeOccurrence(tasks, resolvedTask)
+      : { tasks, task: resolvedTask };
+    // A reopened occurrence of a completion-based series is its open occurrence again
+    const workingTasks = updates.completed === false && existingTask.completed
+      ? reopenCompletionOccurrence(materializedTasks, existingTask)
+      : materializedTasks;
 
     // Check if recurrence settings are being changed
-    const recurrenceChanged = updates.recurrence !== undefined && updates.recurrence !== existingTask.recurrence;
-    const multiplierChanged = updates.recurrenceMultiplier !== undefined && updates.recurrenceMultiplier !== existingTask.recurrenceMultiplier;
-    const customFreqChanged = updates.customFrequency !== undefined && updates.customFrequency !== existingTask.customFrequency;
-    const recurrenceSettingsChanged = recurrenceChanged || multiplierChanged || customFreqChanged;
+    const recurrenceSettingsChanged = hasRecurrenceSettingsChanged(existingTask, updates);
     
     // Check if this is the first instance in the recurrence group
     const firstInstance = existingTask.recurrenceGroupId 
-      ? findFirstInstance(tasks, existingTask.recurrenceGroupId)
+      ? findFirstInstance(workingTasks, existingTask.recurrenceGroupId)
       : null;
-    const isFirstInstance = firstInstance?.id === existingTask.id || !firstInstance;
+    const isFirstInstance = isFirstOccurrence(workingTasks, existingTask);
     
     const dueDateChanged = updates.dueDate !== undefined && updates.dueDate !== existingTask.dueDate;
     const isDragDrop = updates._dragDrop === true;
@@ -79,14 +120,14 @@ export const useRecurringTasks = (
         // "All tasks" - regenerate from the first instance's date
         startDate = updates.dueDate || firstInstance.dueDate || existingTask.dueDate!;
         // Remove ALL tasks in the group (including completed past ones)
-        tasksToRemove = tasks.filter(t => t.recurrenceGroupId === existingTask.recurrenceGroupId);
+        tasksToRemove = workingTasks.filter(t => t.recurrenceGroupId === existingTask.recurrenceGroupId);
         logger.debug(`[Recurring Task] Edit mode 'all': regenerating from first instance date ${startDate}`);
       } else {
         // "This and following" - regenerate from the current instance's date
         startDate = updates.dueDate || existingTask.dueDate!;
         // Only remove future/incomplete tasks
         if (existingTask.recurrenceGroupId) {
-          tasksToRemove = getTasksToRemoveForRegeneration(tasks, existingTask.recurrenceGroupId);
+          tasksToRemove = getTasksToRemoveForRegeneration(workingTasks, existingTask.recurrenceGroupId);
         } else {
           tasksToRemove = [existingTask];
         }
@@ -94,29 +135,23 @@ export const useRecurringTasks = (
       }
       
       const taskIdsToRemove = new Set(tasksToRemove.map(t => t.id));
-      const remainingTasks = tasks.filter(task => !taskIdsToRemove.has(task.id));
+      const remainingTasks = workingTasks.filter(task => !taskIdsToRemove.has(task.id));
       
-      // Delete old tasks from database BEFORE creating new ones
+      // Trash old tasks in the database BEFORE creating new ones
       // This prevents race conditions with real-time sync
-      const taskIdsToDelete = Array.from(taskIdsToRemove);
-      if (taskIdsToDelete.length > 0) {
-        logger.debug(`[Recurring Task] Deleting ${taskIdsToDelete.length} old tasks from database before regeneration`);
-        deleteTasks(taskIdsToDelete).catch(error => {
-          logger.error('[Recurring Task] Failed to delete old tasks from database:', error);
-        });
-      }
+      trashReplacedRows(tasksToRemove, 'before regeneration');
       
-      // Create new recurring occurrences
+      // Create the new series rule; its occurrences are expanded on the fly
       // Keep the same recurrenceGroupId for 'thisAndFollowing' to maintain series continuity
       const recurrenceGroupId = editMode === 'thisAndFollowing' && existingTask.recurrenceGroupId
         ? existingTask.recurrenceGroupId
         : generateId();
       const recurrence = updates.recurrence || existingTask.recurrence!;
       
-      const newTasks = createRecurringTaskInstances(
+      // An occurrence count is re-counted from the regeneration start date
+      const series = createRecurringSeries(
         {
-          ...existingTask,
-          ...updates,
+          ...resolveRecurrenceEndDate({ ...existingTask, ...updates }, startDate),
           recurrenceGroupId,
           createdAt: existingTask.createdAt, // Preserve original creation date
         },
@@ -124,34 +159,25 @@ export const useRecurringTasks = (
         recurrence
       );
       
-      setTasks([...remainingTasks, ...newTasks]);
+      setTasks(series ? [...remainingTasks, series] : remainingTasks);
     } else if (!isDragDrop && dueDateChanged && existingTask.recurrence && existingTask.recurrenceGroupId && updates.dueDate && isFirstInstance) {
       // Only regenerate if editing the FIRST instance's due date
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const tasksToRemove = tasks.filter(task => {
+      const today = getCalendarToday();
+      const tasksToRemove = workingTasks.filter(task => {
         if (task.recurrenceGroupId !== existingTask.recurrenceGroupId) return false;
-        const taskDate = new Date(task.dueDate!);
-        taskDate.setHours(0, 0, 0, 0);
+        const taskDate = (task.dueDate || '').split('T')[0];
         return taskDate >= today || (!task.completed && taskDate < today);
       });
       const taskIdsToRemove = new Set(tasksToRemove.map(t => t.id));
-      const remainingTasks = tasks.filter(task => !taskIdsToRemove.has(task.id));
+      const remainingTasks = workingTasks.filter(task => !taskIdsToRemove.has(task.id));
       
-      // Delete old tasks from database BEFORE creating new ones
+      // Trash old tasks in the database BEFORE creating new ones
       // This prevents race conditions with real-time sync
-      const taskIdsToDelete = Array.from(taskIdsToRemove);
-      if (taskIdsToDelete.length > 0) {
-        logger.debug(`[Recurring Task] Deleting ${taskIdsToDelete.length} old tasks from database before due date regeneration`);
-        deleteTasks(taskIdsToDelete).catch(error => {
-          logger.error('[Recurring Task] Failed to delete old tasks from database:', error);
-        });
-      }
+      trashReplacedRows(tasksToRemove, 'before due date regeneration');
       
-      const newTasks = createRecurringTaskInstances(
+      const series = createRecurringSeries(
         {
-          ...existingTask,
-          ...updates,
+          ...resolveRecurrenceEndDate({ ...existingTask, ...updates }, updates.dueDate),
           recurrenceGroupId: existingTask.recurrenceGroupId, // Keep same group ID
           createdAt: existingTask.createdAt, // Preserve original creation date
         },
@@ -159,13 +185,12 @@ export const useRecurringTasks = (
         existingTask.recurrence
       );
       
-      setTasks([...remainingTasks, ...newTasks]);
+      setTasks(series ? [...remainingTasks, series] : remainingTasks);
     } else {
       // Regular update - check if this is a recurring task that should propagate updates
       if (existingTask.recurrenceGroupId && !isDragDrop) {
-        // For recurring tasks, propagate title, tags, and optionally subtasks to future instances
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
+        // For recurring tasks, propagate title, tags, priority, time, and optionally subtasks and notes to future instances
+        const today = getCalendarToday();
         const normalizedTags = updates.tags ? normalizeTags(updates.tags) : undefined;
         
         // Check if subtasks changed and should be propagated
@@ -173,6 +198,10 @@ export const useRecurringTasks = (
           JSON.stringify(updates.subtasks) !== JSON.stringify(existingTask.subtasks);
         const skipSubtaskPropagation = updates._skipSubtaskPropagation === true;
         
+        // Notes follow the same rule; they can be cleared with an explicit undefined
+        const notesChanged = 'notes' in updates && (updates.notes ?? '') !== (existingTask.notes ?? '');
+        const skipNotesPropagation = updates._skipNotesPropagation === true;
+        
         // Extract fields that should propagate
         const propagatingUpdates: Partial<Task> = {};
         if (updates.title !== undefined) {
@@ -181,24 +210,36 @@ export const useRecurringTasks = (
         if (normalizedTags) {
           propagatingUpdates.tags = normalizedTags;
         }
+        if (updates.priority !== undefined) {
+          propagatingUpdates.priority = updates.priority;
+        }
+        // A time can be cleared with an explicit undefined, so check for the key instead of the value
+        if ('dueTime' in updates) {
+          propagatingUpdates.dueTime = updates.dueTime;
+        }
+        if ('durationMinutes' in updates) {
+          propagatingUpdates.durationMinutes = updates.durationMinutes;
+        }
         // Only propagate subtasks if they changed AND user confirmed
         if (subtasksChanged && updates.subtasks && !skipSubtaskPropagation) {
           propagatingUpdates.subtasks = updates.subtasks.map(st => ({ ...st, completed: false }));
         }
+        if (notesChanged && !skipNotesPropagation) {
+          propagatingUpdates.notes = updates.notes;
+        }
         
-        setTasks(tasks.map(task => {
-          if (task.id === id) {
+        setTasks(workingTasks.map(task => {
+          if (task.id === existingTask.id) {
             // Update the specific task being edited
-            const { _dragDrop, _skipSubtaskPropagation, ...cleanUpdates } = updates;
+            const { _dragDrop, _skipSubtaskPropagation, _skipNotesPropagation, ...cleanUpdates } = updates;
             const updatedTask = { ...task, ...cleanUpdates, lastModified: new Date().toISOString() };
             if (normalizedTags) {
               updatedTask.tags = normalizedTags;
             }
             return updatedTask;
           } else if (task.recurrenceGroupId === existingTask.recurrenceGroupId) {
-            // For other instances in the group, propagate title, tags, and subtasks (if user confirmed)
-            const taskDate = new Date(task.dueDate!);
-            taskDate.setHours(0, 0, 0, 0);
+            // For other instances in the group, propagate title, tags, priority, time, subtasks and notes (if user confirmed)
+            const taskDate = (task.dueDate || '').split('T')[0];
             const isFuture = taskDate >= today || (!task.completed && taskDate < today);
             
             if (isFuture && Object.keys(propagatingUpdates).length > 0) {
@@ -211,9 +252,9 @@ export const useRecurringTasks = (
       } else {
         // Regular update - just update the single task
         const normalizedTags = updates.tags ? normalizeTags(updates.tags) : undefined;
-        setTasks(tasks.map(task => {
-          if (task.id === id) {
-            const { _dragDrop, _skipSubtaskPropagation, ...cleanUpdates } = updates;
+        setTasks(workingTasks.map(task => {
+          if (task.id === existingTask.id) {
+            const { _dragDrop, _skipSubtaskPropagation, _skipNotesPropagation, ...cleanUpdates } = updates;
             const updatedTask = { ...task, ...cleanUpdates, lastModified: new Date().toISOString() };
             if (normalizedTags) {
               updatedTask.tags = normalizedTags;
@@ -254,17 +295,61 @@ export const useRecurringTasks = (
   };
 
   /**
-   * Handles auto-renewal when the last instance is completed
+   * Creates the next instance of a completion-based series, due one interval after today
+   */
+  const createNextInstanceAfterCompletion = (task: Task) => {
+    // Completing, un-completing and completing again must not stack up open instances
+    const hasOpenInstance = tasks.some(t =>
+      t.recurrenceGroupId === task.recurrenceGroupId && t.id !== task.id && !t.completed
+    );
+    if (hasOpenInstance) return;
+
+    const nextInstance = createNextCompletionInstance(task, getCalendarToday());
+    if (!nextInstance) return;
+
+    logger.debug(`[Recurring Task] Completed "${task.title}", next occurrence due ${nextInstance.dueDate}`);
+    setTasks(currentTasks => [...currentTasks, nextInstance]);
+  };
+
+  /**
+   * Moves the open date of a completion-based series to one interval after today
+   */
+  const scheduleNextOccurrenceAfterCompletion = (series: Task) => {
+    const nextDueDate = getNextDueDateAfterCompletion(getCalendarToday(), series);
+    if (!nextDueDate) return;
+
+    logger.debug(`[Recurring Task] Completed "${series.title}", next occurrence due ${nextDueDate}`);
+    setTasks(currentTasks => currentTasks.map(t =>
+      t.id === series.id ? { ...t, seriesOpenFrom: nextDueDate, lastModified: new Date().toISOString() } : t
+    ));
+  };
+
+  /**
+   * Handles auto-renewal when the last instance is completed,
+   * and schedules the next instance of completion-based series
    */
   const handleAutoRenewal = (task: Task) => {
+    // Series expand their occurrences on the fly and never need renewing
+    const series = findSeriesRow(tasks, task.recurrenceGroupId);
+    if (series) {
+      // Paused series schedule nothing until they are resumed
+      if (series.recurrenceFromCompletion && !series.pausedFrom) {
+        scheduleNextOccurrenceAfterCompletion(series);
+      }
+      return;
+    }
+
+    if (task.recurrenceFromCompletion) {
+      createNextInstanceAfterCompletion(task);
+      return;
+    }
+
     if (!task.isLastInstance || !task.autoRenew || !task.recurrence || !task.dueDate || !task.recurrenceGroupId) {
       return;
     }
 
     // Calculate next start date (day after current due date)
-    const currentDate = new Date(task.dueDate);
-    currentDate.setDate(currentDate.getDate() + 1);
-    const nextStartDate = formatDate(currentDate);
+    const nextStartDate = addCalendarDays(task.dueDate.split('T')[0], 1);
     
     // Generate next batch of instances
     const newRecurrenceGroupId = generateId();
@@ -278,6 +363,8 @@ export const useRecurringTasks = (
       task.recurrence
     );
 
+    if (newTasks.length === 0) return;
+
     // Add new tasks
     setTasks(currentTasks => [...currentTasks, ...newTasks]);
 
@@ -288,11 +375,72 @@ export const useRecurringTasks = (
     }, 5000);
   };
 
+  /**
+   * Pauses a recurring series from today. Legacy groups are converted into a series rule first,
+   * so the group keeps its recurrenceGroupId and completed history; its open instances go to the trash.
+   */
+  const pauseRecurringSeries = (recurrenceGroupId: string) => {
+    const today = getCalendarToday();
+    const series = findSeriesRow(tasks, recurrenceGroupId);
+
+    if (series) {
+      logger.debug(`[Recurring Task] Pausing series "${series.title}" from ${today}`);
+      setTasks(currentTasks => currentTasks.map(t =>
+        t.id === series.id ? { ...t, pausedFrom: today, lastModified: new Date().toISOString() } : t
+      ));
+      return;
+    }
+
+    const openInstances = tasks
+      .filter(t => t.recurrenceGroupId === recurrenceGroupId && !t.completed && t.dueDate)
+      .sort((a, b) => a.dueDate!.localeCompare(b.dueDate!));
+    const firstOpenInstance = openInstances[0];
+    if (!firstOpenInstance?.recurrence) return;
+
+    const newSeries = createRecurringSeries(firstOpenInstance, firstOpenInstance.dueDate!, firstOpenInstance.recurrence);
+    if (!newSeries) return;
+
+    logger.debug(`[Recurring Task] Pausing legacy group "${newSeries.title}" from ${today}, converting it to a series`);
+    trashReplacedRows(openInstances, 'after converting the group to a series');
+    const openIds = new Set(openInstances.map(t => t.id));
+    setTasks(currentTasks => [
+      ...currentTasks.filter(t => !openIds.has(t.id)),
+      { ...newSeries, pausedFrom: today },
+    ]);
+  };
+
+  /**
+   * Resumes a paused series from today. Open occurrences from before today go to the trash.
+   */
+  const resumeRecurringSeries = (recurrenceGroupId: string) => {
+    const series = findSeriesRow(tasks, recurrenceGroupId);
+    if (!series?.pausedFrom) return;
+
+    const today = getCalendarToday();
+    const resumedSeries = resumeSeries(series, today);
+    const staleOccurrences = tasks.filter(t =>
+      t.recurrenceGroupId === recurrenceGroupId &&
+      t.id !== series.id &&
+      !t.completed &&
+      t.dueDate && t.dueDate < today
+    );
+
+    logger.debug(`[Recurring Task] Resuming series "${series.title}", next occurrence from ${resumedSeries.seriesOpenFrom}`);
+    trashReplacedRows(staleOccurrences, 'from before the series was resumed');
+    const staleIds = new Set(staleOccurrences.map(t => t.id));
+    setTasks(currentTasks => currentTasks
+      .filter(t => !staleIds.has(t.id))
+      .map(t => t.id === series.id ? resumedSeries : t)
+    );
+  };
+
   return {
     addRecurringTask,
     updateRecurringTask,
     extendRecurringTask,
     handleAutoRenewal,
+    pauseRecurringSeries,
+    resumeRecurringSeries,
   };
 };
 
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { getSyncStatus, subscribeSyncStatus, SyncStatus } from '../utils/syncQueue';
+
+/**
+ * Custom hook for whether the app is online and how many changes are waiting to sync
+ */
+export const useSyncStatus = (): SyncStatus => {
+  return useSyncExternalStore(subscribeSyncStatus, getSyncStatus);
+};
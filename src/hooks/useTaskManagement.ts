@@ -1,8 +1,11 @@
 import { useState, useEffect, useRef } from 'react';
 import { Task, TaskUpdate } from '../types';
-import { loadIncompleteTasks, loadCompletedTasks, loadTasksByIds, saveTasks, deleteTasks as deleteTasksFromDatabase, generateId } from '../utils/supabaseStorage';
-import { supabase } from '../utils/supabase';
-import { normalizeTags } from '../utils/taskOperations';
+import { generateId } from '../utils/supabaseStorage';
+import { getTaskRepository } from '../utils/taskRepository';
+import { loadLocalTasks, saveLocalTasks } from '../utils/localTaskStore';
+import { dismissSyncConflict, flushSyncQueue, getSyncStatus, hasPendingChange, queueTaskDeletes, queueTaskSaves, setSyncUser, subscribeMergedTasks } from '../utils/syncQueue';
+import { ConflictChoice, ConflictField, resolveTaskConflict, TaskConflict } from '../utils/taskMerge';
+import { applyRemoteTaskChange, getChangedTasks, getExpiredTrashTasks, moveTasksToTrash, normalizeTags, restoreTasksFromTrash } from '../utils/taskOperations';
 import { logger } from '../utils/logger';
 import type { User } from '@supabase/supabase-js';
 
@@ -11,13 +14,16 @@ const AUTH_DELAY_MS = 300;
 const LOAD_TIMEOUT_MS = 30000;
 export const UNDO_TIMEOUT_MS = 3000;
 const COMPLETED_TASKS_PAGE_SIZE = 25;
+// Counts the completed tasks paged in by loadCompletedTasks; completed occurrences of series are loaded in full instead
 const countCompletedTasks = (taskList: Task[]): number => {
-  return taskList.reduce((count, task) => count + (task.completed ? 1 : 0), 0);
+  return taskList.reduce((count, task) => count + (task.completed && !task.occurrenceDate ? 1 : 0), 0);
 };
 
 interface DeletedTaskState {
   task: Task;
   tasks: Task[];
+  previousVersions: Task[]; // Tasks changed (rather than removed) by the delete, as they were before it
+  trashOnlyIds: string[]; // Rows the delete added to the trash without removing them from the list
   timeoutId: number;
 }
 
@@ -44,11 +50,22 @@ export const useTaskManagement = (user: User | null) => {
   const [isLoadingCompletedTasks, setIsLoadingCompletedTasks] = useState(false);
   const [completedTasksLoadError, setCompletedTasksLoadError] = useState<string | null>(null);
 
+  // Trash (loaded on demand; trashed tasks are never part of the task list)
+  const [trashedTasks, setTrashedTasks] = useState<Task[]>([]);
+  const [isLoadingTrash, setIsLoadingTrash] = useState(false);
+  const [trashLoadError, setTrashLoadError] = useState<string | null>(null);
+
   const isSavingRef = useRef(false);
-  const lastSavedTasksRef = useRef<string>('');
+  const [finishedSaveCount, setFinishedSaveCount] = useState(0); // Re-runs the save effect for changes made while saving
+  const persistedTasksRef = useRef<Map<string, Task>>(new Map()); // The version of each task last handed to storage
   const isLoadingUserDataRef = useRef(false);
   const recentlyUpdatedTasksRef = useRef<Map<string, number>>(new Map()); // Track task IDs and timestamps
 
+  // Records a task list as matching what storage holds
+  const markPersisted = (taskList: Task[]) => {
+    persistedTasksRef.current = new Map(taskList.map(task => [task.id, task]));
+  };
+
   // Load user data when authenticated (split loading: incomplete first, then first page of completed)
   const loadUserData = async (showNotification = false) => {
     // Prevent multiple simultaneous calls
@@ -58,10 +75,31 @@ export const useTaskManagement = (user: User | null) => {
     }
 
     let timeoutId: number | null = null;
+    let localTasks: Task[] | null = null;
     isLoadingUserDataRef.current = true;
 
     try {
       setIsLoadingFromDatabase(true); // Prevent save effect from running
+
+      // Show the local copy straight away, so the app works before (or without) the network
+      if (user) {
+        await setSyncUser(user.id);
+        localTasks = await loadLocalTasks(user.id);
+        if (localTasks) {
+          logger.debug(`[loadUserData] Loaded ${localTasks.length} tasks from the local store`);
+          setTasks(localTasks);
+          markPersisted(localTasks);
+          setHasLoadedTasks(true);
+        }
+      }
+
+      // Send changes made offline first; while any are left, the local copy is newer than Supabase
+      const isSynced = await flushSyncQueue();
+      if (localTasks && !isSynced) {
+        logger.debug('[loadUserData] Offline or changes still pending, keeping local tasks');
+        return;
+      }
+
       logger.debug('[loadUserData] Loading tasks from Supabase (split loading)...');
 
       // Set a timeout to prevent infinite loading
@@ -77,7 +115,7 @@ export const useTaskManagement = (user: User | null) => {
       };
 
       // Load incomplete tasks first (all of them via internal pagination)
-      const incompleteTasks = await loadWithTimeout(loadIncompleteTasks(), 'Loading incomplete tasks');
+      const incompleteTasks = await loadWithTimeout(getTaskRepository().loadIncompleteTasks(), 'Loading incomplete tasks');
 
       // Clear timeout and reset for next load
       if (timeoutId) {
@@ -87,7 +125,7 @@ export const useTaskManagement = (user: User | null) => {
 
       // Load first page of completed tasks (get total count from this query)
       const { tasks: completedTasksPage, total: completedTotal } = await loadWithTimeout(
-        loadCompletedTasks(COMPLETED_TASKS_PAGE_SIZE, 0),
+        getTaskRepository().loadCompletedTasks(COMPLETED_TASKS_PAGE_SIZE, 0),
         'Loading completed tasks'
       );
 
@@ -97,10 +135,21 @@ export const useTaskManagement = (user: User | null) => {
         timeoutId = null;
       }
 
-      // Combine incomplete and first page of completed tasks
-      const allTasks = [...incompleteTasks, ...completedTasksPage];
+      // Every completed occurrence of a series, so none of them shows as open again once it's past the first page
+      const completedOccurrences = await loadWithTimeout(
+        getTaskRepository().loadCompletedOccurrences(),
+        'Loading completed occurrences'
+      );
+
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+        timeoutId = null;
+      }
+
+      // Combine incomplete tasks, completed occurrences and first page of completed tasks
+      const allTasks = [...incompleteTasks, ...completedOccurrences, ...completedTasksPage];
 
-      logger.debug(`[loadUserData] Loaded ${incompleteTasks.length} incomplete + ${completedTasksPage.length} of ${completedTotal} completed tasks`);
+      logger.debug(`[loadUserData] Loaded ${incompleteTasks.length} incomplete + ${completedOccurrences.length} completed occurrences + ${completedTasksPage.length} of ${completedTotal} completed tasks`);
       setTasks(allTasks);
 
       // Update completed tasks pagination state
@@ -108,10 +157,10 @@ export const useTaskManagement = (user: User | null) => {
       setCompletedTasksTotal(completedTotal);
       setHasMoreCompletedTasks(completedTasksPage.length < completedTotal);
 
-      // Update the last saved ref to prevent triggering save after initial load
-      lastSavedTasksRef.current = JSON.stringify(allTasks);
+      // Mark the loaded tasks as persisted to prevent triggering save after initial load
+      markPersisted(allTasks);
       if (showNotification) {
-        const totalLoaded = incompleteTasks.length + completedTasksPage.length;
+        const totalLoaded = allTasks.length;
         setMigrationNotification(`Refreshed! Loaded ${totalLoaded} task${totalLoaded !== 1 ? 's' : ''}`);
         setTimeout(() => {
           setMigrationNotification(null);
@@ -143,9 +192,13 @@ export const useTaskManagement = (user: User | null) => {
 
       // Still mark as loaded to prevent infinite retries
       setHasLoadedTasks(true);
+      if (localTasks) {
+        // Keep working from the local copy
+        return;
+      }
       // Set empty tasks so app can still function
       setTasks([]);
-      lastSavedTasksRef.current = JSON.stringify([]);
+      markPersisted([]);
       // Reset completed tasks pagination state
       setCompletedTasksLoaded(0);
       setCompletedTasksTotal(null);
@@ -173,18 +226,15 @@ export const useTaskManagement = (user: User | null) => {
       const offset = countCompletedTasks(tasks);
       logger.debug(`[loadMoreCompletedTasks] Loading more completed tasks (offset: ${offset})`);
 
-      const { tasks: newCompletedTasks, total } = await loadCompletedTasks(
+      const { tasks: newCompletedTasks, total } = await getTaskRepository().loadCompletedTasks(
         COMPLETED_TASKS_PAGE_SIZE,
         offset
       );
 
       if (newCompletedTasks.length > 0) {
         // Append new completed tasks to existing tasks
-        setTasks(currentTasks => {
-          const updatedTasks = [...currentTasks, ...newCompletedTasks];
-          lastSavedTasksRef.current = JSON.stringify(updatedTasks);
-          return updatedTasks;
-        });
+        newCompletedTasks.forEach(task => persistedTasksRef.current.set(task.id, task));
+        setTasks(currentTasks => [...currentTasks, ...newCompletedTasks]);
 
         const newLoaded = offset + newCompletedTasks.length;
         const effectiveTotal = Math.max(total, newLoaded);
@@ -214,7 +264,7 @@ export const useTaskManagement = (user: User | null) => {
   ): Task[] => {
     if (!Array.isArray(currentTasks)) {
       logger.warn(`[${source}] currentTasks is not an array, using reloaded incomplete tasks`);
-      lastSavedTasksRef.current = JSON.stringify(updatedIncompleteTasks);
+      markPersisted(updatedIncompleteTasks);
       return updatedIncompleteTasks;
     }
 
@@ -253,7 +303,13 @@ export const useTaskManagement = (user: User | null) => {
       ...currentCompletedTasks,
       ...remotelyCompletedTasks,
     ];
-    lastSavedTasksRef.current = JSON.stringify(finalTasks);
+    // Reloaded tasks match storage; local versions kept over them are only as persisted as before
+    const reloadedTasks = new Set([...updatedIncompleteTasks, ...remotelyModifiedTasks]);
+    const previouslyPersisted = persistedTasksRef.current;
+    persistedTasksRef.current = new Map(finalTasks.flatMap(task => {
+      const persistedTask = reloadedTasks.has(task) ? task : previouslyPersisted.get(task.id);
+      return persistedTask ? [[task.id, persistedTask] as const] : [];
+    }));
     return finalTasks;
   };
 
@@ -262,6 +318,11 @@ export const useTaskManagement = (user: User | null) => {
       logger.debug(`[${source}] Skipping refresh - full load in progress`);
       return;
     }
+    // Supabase doesn't have the pending changes yet, so reloading would undo them locally
+    if (getSyncStatus().pendingCount > 0) {
+      logger.debug(`[${source}] Skipping refresh - changes still pending`);
+      return;
+    }
 
     setIsLoadingFromDatabase(true);
     try {
@@ -270,7 +331,7 @@ export const useTaskManagement = (user: User | null) => {
       const currentTasksSnapshot = tasks;
       const recentlyUpdatedIds = Array.from(recentlyUpdatedTasksRef.current.keys());
 
-      const updatedIncompleteTasks = await loadIncompleteTasks();
+      const updatedIncompleteTasks = await getTaskRepository().loadIncompleteTasks();
       logger.debug(`[${source}] Reloaded ${updatedIncompleteTasks.length} incomplete tasks`);
 
       // Find tasks that were locally incomplete but missing from reload (and not recently updated locally)
@@ -284,7 +345,7 @@ export const useTaskManagement = (user: User | null) => {
       let remotelyModifiedTasks: Task[] = [];
       if (potentiallyRemotelyModifiedIds.length > 0) {
         logger.debug(`[${source}] Fetching ${potentiallyRemotelyModifiedIds.length} potentially remotely-modified tasks`);
-        remotelyModifiedTasks = await loadTasksByIds(potentiallyRemotelyModifiedIds);
+        remotelyModifiedTasks = await getTaskRepository().loadTasksByIds(potentiallyRemotelyModifiedIds);
       }
 
       setTasks(currentTasks => mergeIncompleteTasks(currentTasks, updatedIncompleteTasks, remotelyModifiedTasks, source));
@@ -323,123 +384,111 @@ export const useTaskManagement = (user: User | null) => {
       };
     } else {
       // Reset tasks when user logs out
+      setSyncUser(null);
       setTasks([]);
       setHasLoadedTasks(false);
-      lastSavedTasksRef.current = '';
+      markPersisted([]);
     }
   }, [user]);
 
+  // Keep the local store in step with the task list
+  useEffect(() => {
+    if (!user || !hasLoadedTasks) return;
+    saveLocalTasks(user.id, tasks);
+  }, [tasks, user, hasLoadedTasks]);
+
   // Save tasks to Supabase whenever they change
   useEffect(() => {
     if (!user || !hasLoadedTasks || isLoadingFromDatabase || isSavingRef.current) {
       return;
     }
 
-    // Check if tasks actually changed by comparing serialized versions
-    const currentTasksJson = JSON.stringify(tasks);
-    if (currentTasksJson === lastSavedTasksRef.current) {
+    // Only persist the tasks that changed since they were last persisted
+    const changedTasks = getChangedTasks(tasks, persistedTasksRef.current);
+    if (changedTasks.length === 0) {
       logger.debug('[Save Effect] Skipping save - tasks unchanged');
       return;
     }
 
-    logger.debug(`[Save Effect] Saving ${tasks.length} tasks to Supabase`);
+    logger.debug(`[Save Effect] Queueing save of ${changedTasks.length} changed of ${tasks.length} tasks`);
     isSavingRef.current = true;
-    lastSavedTasksRef.current = currentTasksJson;
-    
-    saveTasks(tasks)
+    // The persisted versions are what the changes were made from, to spot edits made elsewhere meanwhile
+    const bases: Record<string, Task> = {};
+    changedTasks.forEach(task => {
+      const base = persistedTasksRef.current.get(task.id);
+      if (base) bases[task.id] = base;
+    });
+    markPersisted(tasks);
+
+    // The queue keeps the change until Supabase has it, so a failed save is retried rather than lost
+    queueTaskSaves(changedTasks, bases)
       .then(() => {
-        logger.debug('[Save Effect] Successfully saved tasks');
+        logger.debug('[Save Effect] Queued tasks for saving');
       })
       .catch(error => {
-        logger.error('[Save Effect] Failed to save tasks:', error);
-        // Reset the ref on error so we can retry
-        lastSavedTasksRef.current = '';
+        logger.error('[Save Effect] Failed to queue tasks for saving:', error);
       })
       .finally(() => {
         isSavingRef.current = false;
+        // queueTaskSaves waits for the flush too, so changes made meanwhile were skipped above
+        setFinishedSaveCount(count => count + 1);
       });
-  }, [tasks, user, hasLoadedTasks, isLoadingFromDatabase]);
+  }, [tasks, user, hasLoadedTasks, isLoadingFromDatabase, finishedSaveCount]);
+
+  // Show tasks that were saved merged with edits from another device
+  useEffect(() => {
+    return subscribeMergedTasks(mergedTasks => {
+      const mergedById = new Map(mergedTasks.map(entry => [entry.local.id, entry]));
+      setTasks(currentTasks => currentTasks.map(task => {
+        const entry = mergedById.get(task.id);
+        // A task edited again since is merged on its own next save
+        if (!entry || entry.local.lastModified !== task.lastModified) return task;
+        persistedTasksRef.current.set(task.id, entry.merged);
+        return entry.merged;
+      }));
+    });
+  }, []);
 
   // Real-time subscription for task updates
   useEffect(() => {
     if (!user) return;
 
-    logger.debug('[Real-time] Setting up subscription for user:', user.id);
+    const unsubscribe = getTaskRepository().subscribeToChanges(user.id, {
+      onChange: change => {
+        const taskId = change.type === 'upsert' ? change.task.id : change.taskId;
+        if (isLoadingUserDataRef.current) {
+          logger.debug(`[Real-time] Skipping change to ${taskId} - full load in progress`);
+          return;
+        }
+        // This device's unsent change wins for now; it's merged with this one when it's saved
+        if (hasPendingChange(taskId)) {
+          logger.debug(`[Real-time] Skipping change to ${taskId} - local change still pending`);
+          return;
+        }
 
-    // Debounce reloads to avoid excessive queries
-    let reloadTimeout: number | null = null;
-    const debouncedReload = async () => {
-      if (reloadTimeout) {
-        clearTimeout(reloadTimeout);
-      }
-      reloadTimeout = window.setTimeout(async () => {
-        logger.debug('[Real-time] Debounced reload triggered');
-        await refreshIncompleteTasks('Real-time');
-      }, 1000); // Increased debounce to 1000ms to allow rapid completions to settle
-    };
-    
-    const channel = supabase
-      .channel('tasks-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'tasks',
-          filter: `user_id=eq.${user.id}`,
-        },
-        async (payload) => {
-          const newRecord = payload.new as { id?: string; title?: string; user_id?: string; completed?: boolean } | null;
-          const oldRecord = payload.old as { id?: string; user_id?: string } | null;
-          
-          logger.debug('[Real-time] Change detected:', {
-            eventType: payload.eventType,
-            table: payload.table,
-            new: newRecord ? {
-              id: newRecord.id,
-              title: newRecord.title,
-              user_id: newRecord.user_id,
-              completed: newRecord.completed,
-            } : null,
-            old: oldRecord ? {
-              id: oldRecord.id,
-              user_id: oldRecord.user_id,
-            } : null,
-          });
-          
-          // Check if the change is actually for this user
-          const changedUserId = newRecord?.user_id || oldRecord?.user_id;
-          if (changedUserId !== user.id) {
-            logger.warn(`[Real-time] Change detected for different user: ${changedUserId} vs ${user.id}`);
-            return;
+        setTasks(currentTasks => {
+          const localTask = currentTasks.find(t => t.id === taskId);
+          if (localTask && localTask !== persistedTasksRef.current.get(taskId)) {
+            logger.debug(`[Real-time] Skipping change to ${taskId} - edited locally`);
+            return currentTasks;
           }
-          
-          // Skip reload if we're currently saving (to prevent loop)
-          if (isSavingRef.current) {
-            logger.debug('[Real-time] Skipping reload - currently saving');
-            return;
+
+          const updatedTasks = applyRemoteTaskChange(currentTasks, change);
+          if (updatedTasks === currentTasks) return currentTasks;
+          if (change.type === 'upsert') {
+            persistedTasksRef.current.set(taskId, change.task);
+          } else {
+            persistedTasksRef.current.delete(taskId);
           }
-          
-          // Debounced reload to avoid excessive queries
-          debouncedReload();
-        }
-      )
-      .subscribe((status) => {
-        logger.debug('[Real-time] Subscription status:', status);
-        if (status === 'SUBSCRIBED') {
-          logger.debug('[Real-time] Successfully subscribed to task changes');
-        } else if (status === 'CHANNEL_ERROR') {
-          logger.error('[Real-time] Channel error - real-time updates may not work');
-        }
-      });
+          return updatedTasks;
+        });
+      },
+      onResync: () => {
+        refreshIncompleteTasks('Real-time');
+      },
+    });
 
-    return () => {
-      logger.debug('[Real-time] Cleaning up subscription');
-      if (reloadTimeout) {
-        clearTimeout(reloadTimeout);
-      }
-      supabase.removeChannel(channel);
-    };
+    return unsubscribe;
   }, [user]);
 
   // Reload tasks when page becomes visible (helps with mobile)
@@ -512,9 +561,13 @@ export const useTaskManagement = (user: User | null) => {
       id: generateId(),
       title: taskData.title || '',
       dueDate: taskData.dueDate || null,
+      dueTime: taskData.dueDate ? taskData.dueTime : undefined,
+      durationMinutes: taskData.dueDate ? taskData.durationMinutes : undefined,
       completed: false,
       subtasks: taskData.subtasks || [],
+      notes: taskData.notes,
       tags: normalizedTags,
+      priority: taskData.priority,
       createdAt: new Date().toISOString(),
       lastModified: new Date().toISOString(),
       recurrence: null,
@@ -567,7 +620,7 @@ export const useTaskManagement = (user: User | null) => {
     setTasks(tasks.map(task => {
       if (task.id === id) {
         // Remove internal flags before saving
-        const { _dragDrop, _skipSubtaskPropagation, ...cleanUpdates } = updates;
+        const { _dragDrop, _skipSubtaskPropagation, _skipNotesPropagation, ...cleanUpdates } = updates;
         const updatedTask = { ...task, ...cleanUpdates, lastModified: new Date().toISOString() };
         if (normalizedTags) {
           updatedTask.tags = normalizedTags;
@@ -578,22 +631,29 @@ export const useTaskManagement = (user: User | null) => {
     }));
   };
 
-  // Delete tasks
-  const performDelete = async (tasksToDelete: Task[], taskToDelete: Task) => {
+  // Delete tasks (updatedTasks are tasks changed by the delete, e.g. a series that now ends earlier).
+  // tasksToTrash replaces the removed tasks in the trash when they differ, e.g. to keep the ended part of that series.
+  const performDelete = async (
+    tasksToDelete: Task[],
+    taskToDelete: Task,
+    updatedTasks: Task[] = [],
+    tasksToTrash: Task[] = tasksToDelete
+  ) => {
     // Clear any existing undo timeout
     if (deletedTask) {
       clearTimeout(deletedTask.timeoutId);
     }
 
-    // Capture original tasks before modification for error recovery
-    const originalTasks = tasks;
-
     // Count completed tasks being deleted for pagination counter update
     const completedTasksBeingDeleted = tasksToDelete.filter(t => t.completed).length;
 
     // Remove tasks from list
     const taskIdsToDelete = new Set(tasksToDelete.map(t => t.id));
-    const remainingTasks = tasks.filter(task => !taskIdsToDelete.has(task.id));
+    const updatedTasksById = new Map(updatedTasks.map(t => [t.id, t]));
+    const previousVersions = tasks.filter(task => updatedTasksById.has(task.id));
+    const remainingTasks = tasks
+      .filter(task => !taskIdsToDelete.has(task.id))
+      .map(task => updatedTasksById.get(task.id) ?? task);
     setTasks(remainingTasks);
 
     // Update pagination counters for deleted completed tasks
@@ -603,21 +663,15 @@ export const useTaskManagement = (user: User | null) => {
       logger.debug(`[performDelete] Deleted ${completedTasksBeingDeleted} completed task(s), decremented pagination counters`);
     }
 
-    // Delete from database
-    try {
-      await deleteTasksFromDatabase(Array.from(taskIdsToDelete));
-      logger.debug(`[deleteTask] Successfully deleted ${taskIdsToDelete.size} task(s) from database`);
-    } catch (error) {
-      logger.error('[deleteTask] Failed to delete tasks from database:', error);
-      // Restore original tasks if database delete failed
-      setTasks(originalTasks);
-      // Restore pagination counters on error
-      if (completedTasksBeingDeleted > 0) {
-        setCompletedTasksLoaded(prev => prev + completedTasksBeingDeleted);
-        setCompletedTasksTotal(prev => prev !== null ? prev + completedTasksBeingDeleted : completedTasksBeingDeleted);
-        logger.debug(`[performDelete] Restored pagination counters after delete failure`);
-      }
-      return;
+    // Move to the trash in the database, so the tasks can still be restored after the undo window.
+    // The save is queued: a failed send stays in the sync queue and is retried, so there's nothing to roll back.
+    const trashedTasksToSave = moveTasksToTrash(tasksToTrash, new Date().toISOString());
+    const trashedIds = new Set(trashedTasksToSave.map(t => t.id));
+    const trashOnlyIds = Array.from(trashedIds).filter(id => !taskIdsToDelete.has(id));
+    if (trashedTasksToSave.length > 0) {
+      setTrashedTasks(prev => [...trashedTasksToSave, ...prev.filter(task => !trashedIds.has(task.id))]);
+      await queueTaskSaves(trashedTasksToSave);
+      logger.debug(`[deleteTask] Queued moving ${trashedTasksToSave.length} task(s) to the trash`);
     }
 
     // Set up undo with timeout
@@ -625,7 +679,7 @@ export const useTaskManagement = (user: User | null) => {
       setDeletedTask(null);
     }, UNDO_TIMEOUT_MS) as unknown as number;
 
-    setDeletedTask({ task: taskToDelete, tasks: tasksToDelete, timeoutId });
+    setDeletedTask({ task: taskToDelete, tasks: tasksToDelete, previousVersions, trashOnlyIds, timeoutId });
   };
 
   const undoDelete = async () => {
@@ -635,9 +689,12 @@ export const useTaskManagement = (user: User | null) => {
       // Count completed tasks being restored for pagination counter update
       const completedTasksBeingRestored = deletedTask.tasks.filter(t => t.completed).length;
 
-      // Restore all deleted tasks
-      const restoredTasks = [...tasks, ...deletedTask.tasks];
+      // Restore all deleted tasks, and changed tasks to how they were
+      const previousVersionsById = new Map(deletedTask.previousVersions.map(t => [t.id, t]));
+      const restoredTasks = [...tasks.map(task => previousVersionsById.get(task.id) ?? task), ...deletedTask.tasks];
       setTasks(restoredTasks);
+      const restoredIds = new Set([...deletedTask.tasks.map(t => t.id), ...deletedTask.trashOnlyIds]);
+      setTrashedTasks(prev => prev.filter(task => !restoredIds.has(task.id)));
 
       // Restore pagination counters for restored completed tasks
       if (completedTasksBeingRestored > 0) {
@@ -646,23 +703,69 @@ export const useTaskManagement = (user: User | null) => {
         logger.debug(`[undoDelete] Restored ${completedTasksBeingRestored} completed task(s), incremented pagination counters`);
       }
 
-      // Save restored tasks to database
-      try {
-        await saveTasks(restoredTasks);
-        logger.debug(`[undoDelete] Successfully restored ${deletedTask.tasks.length} task(s) to database`);
-      } catch (error) {
-        logger.error('[undoDelete] Failed to restore tasks to database:', error);
-        // Revert local state if save failed
-        setTasks(tasks.filter(task => !deletedTask.tasks.some(dt => dt.id === task.id)));
-        // Revert pagination counters on error
-        if (completedTasksBeingRestored > 0) {
-          setCompletedTasksLoaded(prev => Math.max(0, prev - completedTasksBeingRestored));
-          setCompletedTasksTotal(prev => prev !== null ? Math.max(0, prev - completedTasksBeingRestored) : null);
-          logger.debug(`[undoDelete] Reverted pagination counters after restore failure`);
-        }
+      // Save restored tasks to database (only the rows the undo brought back or changed). Like the
+      // trash save it undoes, this is queued and retried until it reaches the database.
+      const restoredRows = [...deletedTask.previousVersions, ...deletedTask.tasks];
+      restoredRows.forEach(task => persistedTasksRef.current.set(task.id, task));
+      setDeletedTask(null);
+      if (restoredRows.length > 0) {
+        await queueTaskSaves(restoredRows);
+        logger.debug(`[undoDelete] Queued restoring ${deletedTask.tasks.length} task(s)`);
+      }
+      if (deletedTask.trashOnlyIds.length > 0) {
+        await queueTaskDeletes(deletedTask.trashOnlyIds);
       }
+    }
+  };
 
-      setDeletedTask(null);
+  // Load the trash, removing tasks kept there longer than the retention period for good
+  const loadTrash = async (retentionDays: number) => {
+    setIsLoadingTrash(true);
+    setTrashLoadError(null);
+    try {
+      const deletedTasks = await getTaskRepository().loadDeletedTasks();
+      const expiredTasks = getExpiredTrashTasks(deletedTasks, retentionDays);
+      const expiredIds = new Set(expiredTasks.map(t => t.id));
+      setTrashedTasks(deletedTasks.filter(task => !expiredIds.has(task.id)));
+
+      if (expiredTasks.length > 0) {
+        logger.debug(`[loadTrash] Purging ${expiredTasks.length} task(s) deleted more than ${retentionDays} days ago`);
+        await queueTaskDeletes(Array.from(expiredIds));
+      }
+    } catch (error) {
+      logger.error('[loadTrash] Failed to load the trash:', error);
+      setTrashLoadError('Failed to load deleted tasks. Please try again.');
+    } finally {
+      setIsLoadingTrash(false);
+    }
+  };
+
+  // Put tasks from the trash back in the task list; the save effect stores them
+  const restoreFromTrash = (tasksToRestore: Task[]) => {
+    const restoredTasks = restoreTasksFromTrash(tasksToRestore, new Date().toISOString());
+    const restoredIds = new Set(restoredTasks.map(t => t.id));
+    setTasks(currentTasks => [...currentTasks.filter(task => !restoredIds.has(task.id)), ...restoredTasks]);
+    setTrashedTasks(prev => prev.filter(task => !restoredIds.has(task.id)));
+
+    const completedTasksBeingRestored = restoredTasks.filter(t => t.completed).length;
+    if (completedTasksBeingRestored > 0) {
+      setCompletedTasksTotal(prev => prev !== null ? prev + completedTasksBeingRestored : completedTasksBeingRestored);
+    }
+    logger.debug(`[restoreFromTrash] Restored ${restoredTasks.length} task(s)`);
+  };
+
+  // Delete every task in the trash for good
+  const emptyTrash = async () => {
+    const taskIds = trashedTasks.map(t => t.id);
+    if (taskIds.length === 0) return;
+
+    setTrashedTasks([]);
+    try {
+      await queueTaskDeletes(taskIds);
+      logger.debug(`[emptyTrash] Deleted ${taskIds.length} task(s) for good`);
+    } catch (error) {
+      logger.error('[emptyTrash] Failed to empty the trash:', error);
+      setTrashedTasks(trashedTasks);
     }
   };
 
@@ -686,6 +789,17 @@ export const useTaskManagement = (user: User | null) => {
     }
   };
 
+  // Resolve a task changed on this and another device, picking a side for each conflicting field
+  const resolveConflict = (conflict: TaskConflict, choices: Partial<Record<ConflictField, ConflictChoice>>) => {
+    const resolved = resolveTaskConflict(conflict, choices);
+    // The resolution is an edit of the other device's version, which is the stored one
+    persistedTasksRef.current.set(resolved.id, conflict.remote);
+    setTasks(currentTasks => currentTasks.some(task => task.id === resolved.id)
+      ? currentTasks.map(task => task.id === resolved.id ? resolved : task)
+      : [...currentTasks, resolved]);
+    dismissSyncConflict(resolved.id);
+  };
+
   // Expose function to track recent updates (for use by recurring tasks hook)
   const trackRecentUpdate = (id: string) => {
     recentlyUpdatedTasksRef.current.set(id, Date.now());
@@ -706,7 +820,9 @@ export const useTaskManagement = (user: User | null) => {
     performDelete,
     undoDelete,
     undoCompletion,
+    resolveConflict,
     loadUserData,
+    hasLoadedTasks,
     deletedTask,
     setDeletedTask,
     completedTask,
@@ -721,5 +837,12 @@ export const useTaskManagement = (user: User | null) => {
     completedTasksLoaded,
     completedTasksTotal,
     completedTasksLoadError,
+    // Trash
+    trashedTasks,
+    isLoadingTrash,
+    trashLoadError,
+    loadTrash,
+    restoreFromTrash,
+    emptyTrash,
   };
 };
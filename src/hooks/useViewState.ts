@@ -3,9 +3,11 @@ import { ViewType } from '../types';
 import { loadViewState, saveViewState } from '../utils/storage';
 import type { User } from '@supabase/supabase-js';
 import { logger } from '../utils/logger';
+import { formatDate } from '../utils/dateUtils';
+import { addCalendarDays, calendarDayToDate, getCalendarToday, getCalendarTodayDate } from '../utils/calendarDay';
 
 const VIEW_STATE_SAVE_DEBOUNCE_MS = 500;
-const VALID_VIEWS: ViewType[] = ['today', 'tomorrow', 'week', 'all', 'completed', 'day', 'stats'];
+const VALID_VIEWS: ViewType[] = ['today', 'tomorrow', 'week', 'all', 'completed', 'day', 'stats', 'trash'];
 
 /**
  * Parse URL hash to extract view and optional day date
@@ -18,10 +20,11 @@ const parseHash = (): { view: ViewType | null; dayDate: Date | null } => {
   // Check for day view with date: #day-2025-01-14
   if (hash.startsWith('day-')) {
     const dateStr = hash.slice(4);
-    const date = new Date(dateStr);
-    if (!isNaN(date.getTime())) {
-      date.setHours(0, 0, 0, 0);
-      return { view: 'day', dayDate: date };
+    if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+      const date = calendarDayToDate(dateStr);
+      if (!isNaN(date.getTime())) {
+        return { view: 'day', dayDate: date };
+      }
     }
   }
 
@@ -38,8 +41,7 @@ const parseHash = (): { view: ViewType | null; dayDate: Date | null } => {
  */
 const buildHash = (view: ViewType, dayDate: Date | null): string => {
   if (view === 'day' && dayDate) {
-    const dateStr = dayDate.toISOString().split('T')[0];
-    return `#day-${dateStr}`;
+    return `#day-${formatDate(dayDate)}`;
   }
   return `#${view}`;
 };
@@ -109,9 +111,7 @@ export const useViewState = (user: User | null) => {
       date.setHours(0, 0, 0, 0);
       return date;
     }
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    return today;
+    return getCalendarTodayDate();
   });
   const [tomorrowViewDate, setTomorrowViewDate] = useState<Date>(() => {
     if (savedViewState?.tomorrowViewDate) {
@@ -119,10 +119,7 @@ export const useViewState = (user: User | null) => {
       date.setHours(0, 0, 0, 0);
       return date;
     }
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    tomorrow.setHours(0, 0, 0, 0);
-    return tomorrow;
+    return calendarDayToDate(addCalendarDays(getCalendarToday(), 1));
   });
   const [searchQuery, setSearchQuery] = useState('');
   const saveTimeoutRef = useRef<number | null>(null);
@@ -221,9 +218,7 @@ export const useViewState = (user: User | null) => {
       // User logged out (was previously logged in)
       if (previousUserRef.current !== null) {
         logger.debug('[useViewState] User logged out, resetting to today');
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        setTodayViewDate(today);
+        setTodayViewDate(getCalendarTodayDate());
         setCurrentViewInternal('today');
         setSearchQuery('');
         window.history.replaceState({ view: 'today' }, '', '#today');
@@ -241,9 +236,7 @@ export const useViewState = (user: User | null) => {
     if (isActualLogin) {
       // User just logged in (not a refresh) - reset to today view
       logger.debug('[useViewState] User logged in, resetting to today');
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      setTodayViewDate(today);
+      setTodayViewDate(getCalendarTodayDate());
       setCurrentView('today');
       setSearchQuery('');
       window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -268,9 +261,7 @@ export const useViewState = (user: User | null) => {
   }, [currentView]);
 
   const resetToToday = useCallback(() => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    setTodayViewDate(today);
+    setTodayViewDate(getCalendarTodayDate());
     setCurrentView('today');
     setSearchQuery('');
   }, [setCurrentView]);
@@ -4,26 +4,101 @@ export interface Subtask {
   completed: boolean;
 }
 
+/**
+ * Day-of-month rule for monthly/quarterly recurrence.
+ * Without a rule, monthly series repeat on the due date's day of month (clamped to shorter months).
+ */
+export type MonthlyRule =
+  | { type: 'nthWeekday'; ordinal: number; weekday: number } // ordinal 1-4, or -1 for the last one in the month
+  | { type: 'lastDay' }
+  | { type: 'lastBusinessDay' }; // Last Monday-Friday of the month
+
 export type RecurrenceType = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly' | 'custom' | null;
 
+export type TaskPriority = 'none' | 'low' | 'medium' | 'high' | 'urgent';
+
+/** Priority levels from lowest to highest */
+export const TASK_PRIORITIES: TaskPriority[] = ['none', 'low', 'medium', 'high', 'urgent'];
+
+export const PRIORITY_LABELS: Record<TaskPriority, string> = {
+  none: 'None',
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  urgent: 'Urgent',
+};
+
 export interface Task {
   id: string;
   title: string;
   dueDate: string | null; // ISO date string or null for no due date
+  dueTime?: string; // Local time of day (HH:mm) on the due date; missing for all-day tasks
+  durationMinutes?: number; // Length of a timed task, e.g. an appointment
   completed: boolean;
+  skipped?: boolean; // True if this occurrence was skipped rather than done (skipped occurrences are also marked completed)
   subtasks: Subtask[];
+  notes?: string; // Free-form notes in lightweight Markdown (see utils/notes)
   tags: string[];
+  priority?: TaskPriority; // Missing means 'none'
   createdAt: string; // ISO datetime string
   lastModified: string; // ISO datetime string
   recurrence: RecurrenceType; // Recurrence pattern for the task
   recurrenceGroupId: string | null; // ID to group recurring tasks together
   recurrenceMultiplier?: number; // For custom recurrence: multiplier (1-50) with frequency
   customFrequency?: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly'; // For custom recurrence: the base frequency
+  byWeekday?: number[]; // For weekly recurrence: specific days of the week (0 = Sunday ... 6 = Saturday)
+  monthlyRule?: MonthlyRule; // For monthly/quarterly recurrence: e.g. "2nd Tuesday" or "last day of month"
+  recurrenceFromCompletion?: boolean; // If true, the next instance is due one interval after the previous one is completed
+  recurrenceEndDate?: string; // Last date (YYYY-MM-DD) a series may have an instance on
+  recurrenceCount?: number; // Total number of occurrences when the series ends after N occurrences
   isLastInstance?: boolean; // True if this is the last instance in a recurrence series
-  autoRenew?: boolean; // If true, automatically create next batch of instances when last instance is completed
+  autoRenew?: boolean; // If true, automatically create next batch of instances when last instance is completed (false on the final instance of an ending series)
+  isSeries?: boolean; // True for the stored rule row of a recurring series; its occurrences are expanded on the fly and the row itself is never shown
+  seriesOpenFrom?: string; // Series rows: date (YYYY-MM-DD) of the earliest occurrence that may still be open
+  pausedFrom?: string; // Series rows: date (YYYY-MM-DD) the series was paused on; no occurrences appear until it is resumed
+  occurrenceDate?: string; // Exception rows: scheduled date (YYYY-MM-DD) of the series occurrence this row replaces
+  deletedAt?: string; // ISO datetime the task was moved to the trash; trashed tasks are only loaded by the Trash view
+}
+
+/**
+ * Task fields whose changes are recorded in the task's history
+ */
+export type TaskHistoryField = 'title' | 'dueDate' | 'completed' | 'subtasks' | 'tags';
+
+/**
+ * The recorded fields of a task at some point in its history
+ */
+export type TaskVersion = Pick<Task, TaskHistoryField>;
+
+/**
+ * One saved change to a task: each recorded field it changed, with its value before and after
+ */
+export interface TaskHistoryEntry {
+  id: string;
+  taskId: string;
+  changedAt: string; // ISO datetime of the change (the task's lastModified after it)
+  deviceId: string; // Random ID of the browser that made the change
+  deviceName: string; // e.g. "Chrome on macOS"
+  changes: { [F in TaskHistoryField]?: { from: Task[F]; to: Task[F] } };
 }
 
-export type ViewType = 'today' | 'tomorrow' | 'week' | 'all' | 'completed' | 'day' | 'stats';
+/**
+ * Recurrence rule settings shared by every instance of a recurring series
+ */
+export type RecurrenceSettings = Pick<Task, 'recurrence' | 'recurrenceMultiplier' | 'customFrequency' | 'byWeekday' | 'monthlyRule' | 'recurrenceFromCompletion' | 'recurrenceEndDate' | 'recurrenceCount'>;
+
+/**
+ * Per-user settings, synced across devices
+ */
+export interface UserSettings {
+  timeZone: string | null; // IANA time zone name for calendar days; null follows the device
+  trashRetentionDays: number; // Days deleted tasks stay in the trash before they're removed for good
+  calendarFeedToken: string | null; // Secret token in the URL of the user's calendar feed; null while the feed is off
+}
+
+export const DEFAULT_USER_SETTINGS: UserSettings = { timeZone: null, trashRetentionDays: 30, calendarFeedToken: null };
+
+export type ViewType = 'today' | 'tomorrow' | 'week' | 'all' | 'completed' | 'day' | 'stats' | 'trash';
 
 /**
  * Internal flags used for task updates (not persisted to database)
@@ -33,6 +108,8 @@ export interface TaskUpdateFlags {
   _dragDrop?: boolean;
   /** Flag to skip subtask propagation to future recurring instances */
   _skipSubtaskPropagation?: boolean;
+  /** Flag to skip notes propagation to future recurring instances */
+  _skipNotesPropagation?: boolean;
 }
 
 /**
@@ -0,0 +1,227 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Task } from '../../types';
+import { BACKUP_FORMAT, BACKUP_VERSION, createBackup, importBackup, parseBackup, planTaskImport, UserDataBackup } from '../backup';
+import { createMemoryTaskRepository } from '../memoryTaskRepository';
+import { setTaskRepository, TaskRepository } from '../taskRepository';
+import { setSyncUser } from '../syncQueue';
+
+vi.mock('../supabase', () => ({
+  supabase: {},
+}));
+
+vi.mock('../localTaskStore', () => ({
+  loadPendingMutations: vi.fn().mockResolvedValue([]),
+  savePendingMutations: vi.fn().mockResolvedValue(undefined),
+  loadSyncConflicts: vi.fn().mockResolvedValue([]),
+  saveSyncConflicts: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Task',
+  dueDate: null,
+  completed: false,
+  subtasks: [],
+  tags: [],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  lastModified: '2025-01-01T00:00:00.000Z',
+  recurrence: null,
+  recurrenceGroupId: null,
+  ...overrides,
+});
+
+const createBackupData = (overrides: Partial<UserDataBackup> = {}): UserDataBackup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: '2025-03-01T12:00:00.000Z',
+  tasks: [createTask()],
+  tagColors: { work: '#F59E0B' },
+  settings: { timeZone: 'Europe/Berlin', trashRetentionDays: 14 },
+  ...overrides,
+});
+
+describe('createBackup', () => {
+  it('includes open, completed and trashed tasks with tag colors and settings except the feed token', async () => {
+    const repository = createMemoryTaskRepository();
+    await repository.saveTasks([
+      createTask({ id: 'open' }),
+      createTask({ id: 'done', completed: true }),
+      createTask({ id: 'trashed', deletedAt: '2025-02-01T00:00:00.000Z' }),
+    ]);
+    await repository.saveTagColors({ work: '#F59E0B' });
+    await repository.saveUserSettings({ timeZone: null, trashRetentionDays: 30, calendarFeedToken: 'feed-token' });
+
+    const backup = await createBackup(repository, new Date('2025-03-01T12:00:00.000Z'));
+
+    expect(backup.tasks.map(t => t.id).sort()).toEqual(['done', 'open', 'trashed']);
+    expect(backup.tagColors).toEqual({ work: '#F59E0B' });
+    expect(backup.settings).toEqual({ timeZone: null, trashRetentionDays: 30 });
+    expect(parseBackup(JSON.stringify(backup))).toEqual({ ok: true, value: backup });
+  });
+});
+
+describe('parseBackup', () => {
+  it('rejects files that are not backups', () => {
+    expect(parseBackup('not json')).toEqual({ ok: false, errors: ['The file is not valid JSON'] });
+    expect(parseBackup('{"tasks": []}')).toEqual({ ok: false, errors: ['The file is not a backup from this app'] });
+  });
+
+  it('rejects backups from a newer version', () => {
+    const result = parseBackup(JSON.stringify(createBackupData({ version: BACKUP_VERSION + 1 })));
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors[0]).toContain('newer version');
+  });
+
+  it('reports each invalid task', () => {
+    const result = parseBackup(JSON.stringify(createBackupData({
+      tasks: [
+        createTask({ id: 'a' }),
+        { ...createTask({ id: 'b' }), completed: 'yes' } as unknown as Task,
+        createTask({ id: 'a', recurrence: 'hourly' as Task['recurrence'] }),
+        createTask({ id: 'd', priority: 'critical' as Task['priority'] }),
+        createTask({ id: 'e', dueTime: '9:30', durationMinutes: 0 }),
+      ],
+    })));
+
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        'Task 2 has an invalid completed flag',
+        'Task 3 has an unknown recurrence',
+        'Task 3 has the same ID as an earlier task',
+        'Task 4 has an unknown priority',
+        'Task 5 has an invalid due time',
+        'Task 5 has an invalid duration',
+      ],
+    });
+  });
+});
+
+describe('parseBackup recurrence fields', () => {
+  it('rejects recurrence and series fields the views cannot expand', () => {
+    const result = parseBackup(JSON.stringify(createBackupData({
+      tasks: [
+        createTask({ id: 'a', recurrence: 'custom', customFrequency: 'hourly' as Task['customFrequency'], recurrenceMultiplier: 0 }),
+        createTask({ id: 'b', recurrence: 'weekly', byWeekday: [1, 7], recurrenceCount: -2 }),
+        createTask({ id: 'c', recurrence: 'monthly', monthlyRule: { type: 'nthWeekday', ordinal: 5, weekday: 1 }, recurrenceEndDate: 'soon' }),
+        createTask({ id: 'd', isSeries: true, seriesOpenFrom: '2025-13-40', occurrenceDate: '2025-03-03T00:00:00Z' }),
+      ],
+    })));
+
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        'Task 1 has an invalid recurrence multiplier',
+        'Task 1 has an unknown custom frequency',
+        'Task 1 has a custom recurrence without a frequency',
+        'Task 2 has invalid weekdays',
+        'Task 2 has an invalid occurrence count',
+        'Task 3 has an invalid monthly rule',
+        'Task 3 has an invalid recurrence end date',
+        'Task 4 has an invalid series open date',
+        'Task 4 has an invalid occurrence date',
+        'Task 4 is a series without a repeat rule, due date or group',
+      ],
+    });
+  });
+
+  it('keeps valid series fields and leaves out fields tasks do not have', () => {
+    const series = createTask({
+      dueDate: '2025-03-03',
+      recurrence: 'monthly',
+      recurrenceGroupId: 'group',
+      monthlyRule: { type: 'nthWeekday', ordinal: -1, weekday: 5 },
+      isSeries: true,
+      seriesOpenFrom: '2025-04-01',
+      pausedFrom: '2025-05-01',
+    });
+    const result = parseBackup(JSON.stringify(createBackupData({ tasks: [{ ...series, injected: '<script>' } as Task] })));
+
+    expect(result.ok && result.value.tasks[0]).toEqual(series);
+    expect(result.ok && 'injected' in result.value.tasks[0]).toBe(false);
+  });
+});
+
+describe('planTaskImport', () => {
+  const existing = [
+    createTask({ id: 'a', title: 'Existing A', lastModified: '2025-02-01T00:00:00.000Z' }),
+    createTask({ id: 'b', title: 'Existing B', lastModified: '2025-02-01T00:00:00.000Z' }),
+  ];
+  const imported = [
+    createTask({ id: 'a', title: 'Imported A', lastModified: '2025-01-01T00:00:00.000Z' }),
+    createTask({ id: 'b', title: 'Imported B', lastModified: '2025-03-01T00:00:00.000Z' }),
+    createTask({ id: 'c', title: 'Imported C' }),
+  ];
+
+  it('merges by keeping the newer version of tasks in both', () => {
+    const plan = planTaskImport(existing, imported, 'merge');
+
+    expect(plan.tasksToSave.map(t => t.title)).toEqual(['Imported B', 'Imported C']);
+    expect(plan.taskIdsToDelete).toEqual([]);
+  });
+
+  it('replaces by saving every imported task and deleting the rest', () => {
+    const plan = planTaskImport([...existing, createTask({ id: 'd' })], imported, 'replace');
+
+    expect(plan.tasksToSave).toEqual(imported);
+    expect(plan.taskIdsToDelete).toEqual(['d']);
+  });
+});
+
+describe('importBackup', () => {
+  let repository: TaskRepository;
+
+  beforeEach(async () => {
+    repository = createMemoryTaskRepository();
+    setTaskRepository(repository);
+    await setSyncUser('user-1');
+  });
+
+  it('gives non-UUID IDs UUIDs, keeping series linked to their instances', async () => {
+    await importBackup(createBackupData({
+      tasks: [
+        createTask({ id: 'series', recurrence: 'weekly', recurrenceGroupId: 'group', isSeries: true }),
+        createTask({ id: 'exception', recurrence: 'weekly', recurrenceGroupId: 'group', occurrenceDate: '2025-03-03' }),
+      ],
+    }), 'merge');
+
+    const tasks = await repository.loadIncompleteTasks();
+    expect(tasks).toHaveLength(2);
+    expect(tasks.every(t => UUID_PATTERN.test(t.id) && UUID_PATTERN.test(t.recurrenceGroupId!))).toBe(true);
+    expect(tasks[0].recurrenceGroupId).toBe(tasks[1].recurrenceGroupId);
+  });
+
+  it('keeps existing tag colors and settings when merging', async () => {
+    await repository.saveTagColors({ work: '#000000' });
+
+    await importBackup(createBackupData({ tagColors: { work: '#F59E0B', home: '#8B5CF6' } }), 'merge');
+
+    expect(await repository.loadTagColors()).toEqual({ work: '#000000', home: '#8B5CF6' });
+    expect((await repository.loadUserSettings()).timeZone).toBeNull();
+  });
+
+  it('replaces all tasks, tag colors and settings, keeping the calendar feed', async () => {
+    await repository.saveTasks([createTask({ id: '6a1f0c4e-2b3d-4e5f-8a9b-0c1d2e3f4a5b', title: 'Old' })]);
+    await repository.saveTagColors({ old: '#000000' });
+    await repository.saveUserSettings({ timeZone: null, trashRetentionDays: 30, calendarFeedToken: 'feed-token' });
+
+    const summary = await importBackup(createBackupData(), 'replace');
+
+    expect(summary).toEqual({ savedCount: 1, deletedCount: 1 });
+    expect((await repository.loadIncompleteTasks()).map(t => t.title)).toEqual(['Task']);
+    expect(await repository.loadTagColors()).toEqual({ work: '#F59E0B' });
+    expect(await repository.loadUserSettings()).toEqual({ timeZone: 'Europe/Berlin', trashRetentionDays: 14, calendarFeedToken: 'feed-token' });
+  });
+});
@@ -0,0 +1,116 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  addCalendarDays,
+  getCalendarToday,
+  setCalendarTimeZone,
+  toCalendarDay,
+  toCalendarTime,
+} from '../calendarDay';
+import { isDateOverdue, isDateToday, isDateTomorrow } from '../dateUtils';
+import { getTasksToRemoveForRegeneration } from '../recurringTaskHelpers';
+import { Task } from '../../types';
+
+vi.mock('../supabase', () => ({
+  supabase: {},
+}));
+
+// 7pm on Jan 14 in Los Angeles: the evening case that used to disagree with UTC
+const NOW = new Date('2025-01-15T03:00:00Z');
+
+// Today's calendar day at NOW, per device time zone
+const DEVICE_TODAY: Record<string, string> = {
+  'America/Los_Angeles': '2025-01-14',
+  'UTC': '2025-01-15',
+  'Asia/Tokyo': '2025-01-15',
+  'Pacific/Kiritimati': '2025-01-15',
+};
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Test Task',
+  dueDate: null,
+  completed: false,
+  subtasks: [],
+  tags: [],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  lastModified: '2025-01-01T00:00:00.000Z',
+  recurrence: 'daily',
+  recurrenceGroupId: 'group-1',
+  ...overrides,
+});
+
+describe.each(Object.keys(DEVICE_TODAY))('calendarDay with the device in %s', (deviceTimeZone) => {
+  const originalTZ = process.env.TZ;
+  const today = DEVICE_TODAY[deviceTimeZone];
+
+  beforeAll(() => {
+    process.env.TZ = deviceTimeZone;
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    setCalendarTimeZone(null);
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+    process.env.TZ = originalTZ;
+  });
+
+  it("follows the device's time zone by default", () => {
+    expect(getCalendarToday()).toBe(today);
+    expect(toCalendarDay(NOW.toISOString())).toBe(today);
+  });
+
+  it('uses the configured time zone over the device one', () => {
+    setCalendarTimeZone('Asia/Tokyo');
+    expect(getCalendarToday()).toBe('2025-01-15');
+
+    setCalendarTimeZone('America/Los_Angeles');
+    expect(getCalendarToday()).toBe('2025-01-14');
+  });
+
+  it('gets the time of day in the configured time zone', () => {
+    setCalendarTimeZone('Asia/Tokyo');
+    expect(toCalendarTime(NOW)).toBe('12:00');
+
+    setCalendarTimeZone('America/Los_Angeles');
+    expect(toCalendarTime(NOW.toISOString())).toBe('19:00');
+  });
+
+  it('falls back to the device time zone for unknown names', () => {
+    setCalendarTimeZone('Not/AZone');
+    expect(getCalendarToday()).toBe(today);
+  });
+
+  it('agrees with the today, tomorrow and overdue checks', () => {
+    setCalendarTimeZone('America/Los_Angeles');
+
+    expect(isDateToday('2025-01-14')).toBe(true);
+    expect(isDateTomorrow('2025-01-15')).toBe(true);
+    expect(isDateOverdue('2025-01-14')).toBe(false);
+    expect(isDateOverdue('2025-01-13')).toBe(true);
+  });
+
+  it('keeps completed past instances and removes today onwards when regenerating', () => {
+    setCalendarTimeZone('America/Los_Angeles');
+    const tasks = [
+      createTask({ id: 'done-yesterday', dueDate: '2025-01-13', completed: true }),
+      createTask({ id: 'open-yesterday', dueDate: '2025-01-13' }),
+      createTask({ id: 'done-today', dueDate: '2025-01-14', completed: true }),
+      createTask({ id: 'tomorrow', dueDate: '2025-01-15' }),
+    ];
+
+    const removed = getTasksToRemoveForRegeneration(tasks, 'group-1').map(t => t.id);
+
+    expect(removed).toEqual(['open-yesterday', 'done-today', 'tomorrow']);
+  });
+
+  it('adds days across daylight saving changes', () => {
+    expect(addCalendarDays('2025-03-08', 1)).toBe('2025-03-09');
+    expect(addCalendarDays('2025-03-09', 1)).toBe('2025-03-10');
+    expect(addCalendarDays('2025-11-02', -1)).toBe('2025-11-01');
+    expect(addCalendarDays('2024-12-31', 1)).toBe('2025-01-01');
+  });
+});
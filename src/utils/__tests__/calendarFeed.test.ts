@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Task } from '../../types';
+import { createRepositoryFeedLoader, generateFeedToken, getCalendarFeedUrl } from '../calendarFeed';
+import { createCalendarFeedHandler } from '../calendarFeedHandler';
+import { createMemoryTaskRepository } from '../memoryTaskRepository';
+
+vi.mock('../supabase', () => ({
+  supabase: {},
+}));
+
+vi.mock('../logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Task',
+  dueDate: '2025-03-03',
+  completed: false,
+  subtasks: [],
+  tags: [],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  lastModified: '2025-01-01T00:00:00.000Z',
+  recurrence: null,
+  recurrenceGroupId: null,
+  ...overrides,
+});
+
+const FEED_URL = 'https://example.supabase.co/functions/v1/calendar-feed';
+
+describe('generateFeedToken and getCalendarFeedUrl', () => {
+  it('creates distinct tokens and puts them in the feed URL', () => {
+    const token = generateFeedToken();
+
+    expect(token).toMatch(/^[0-9a-f]{48}$/);
+    expect(generateFeedToken()).not.toBe(token);
+    expect(getCalendarFeedUrl(token, FEED_URL)).toBe(`${FEED_URL}?token=${token}`);
+    expect(getCalendarFeedUrl(token, '')).toBeNull();
+  });
+});
+
+describe('createCalendarFeedHandler', () => {
+  const token = 'a'.repeat(48);
+  const loader = vi.fn(async (requestedToken: string) => (requestedToken === token ? [createTask()] : null));
+  const handler = createCalendarFeedHandler(loader, () => new Date('2025-03-01T12:00:00.000Z'));
+
+  it('serves the calendar of a known token', async () => {
+    const response = await handler(new Request(`${FEED_URL}?token=${token}`));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/calendar; charset=utf-8');
+    const body = await response.text();
+    expect(body).toContain('BEGIN:VEVENT');
+    expect(body).toContain('X-WR-CALNAME:Riley Tasks');
+  });
+
+  it('serves to-dos on request', async () => {
+    const response = await handler(new Request(`${FEED_URL}?token=${token}&type=todo`));
+
+    expect(await response.text()).toContain('BEGIN:VTODO');
+  });
+
+  it('answers unknown and malformed tokens with 404, without looking up malformed ones', async () => {
+    loader.mockClear();
+
+    expect((await handler(new Request(`${FEED_URL}?token=${'b'.repeat(48)}`))).status).toBe(404);
+    expect((await handler(new Request(`${FEED_URL}?token=nope`))).status).toBe(404);
+    expect((await handler(new Request(FEED_URL))).status).toBe(404);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('answers loader failures with 500', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failingHandler = createCalendarFeedHandler(async () => { throw new Error('database down'); });
+
+    expect((await failingHandler(new Request(`${FEED_URL}?token=${token}`))).status).toBe(500);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
+
+describe('createRepositoryFeedLoader', () => {
+  it('loads the tasks only for the stored token', async () => {
+    const repository = createMemoryTaskRepository();
+    await repository.saveTasks([createTask({ id: 'a' })]);
+    const loader = createRepositoryFeedLoader(repository);
+
+    expect(await loader('a'.repeat(48))).toBeNull();
+
+    await repository.saveUserSettings({ timeZone: null, trashRetentionDays: 30, calendarFeedToken: 'a'.repeat(48) });
+    expect((await loader('a'.repeat(48)))?.map(t => t.id)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Task } from '../../types';
+import {
+  createTasksFromCsvRows,
+  formatCsv,
+  guessColumnMapping,
+  keepFirstOccurrences,
+  parseCsv,
+  readCsvRows,
+  tasksToCsv,
+} from '../csv';
+
+vi.mock('../supabase', () => ({
+  supabase: {},
+}));
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Task',
+  dueDate: null,
+  completed: false,
+  subtasks: [],
+  tags: [],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  lastModified: '2025-01-01T00:00:00.000Z',
+  recurrence: null,
+  recurrenceGroupId: null,
+  ...overrides,
+});
+
+const HEADER = ['Title', 'Due Date', 'Completed', 'Completion Date', 'Tags', 'Recurrence', 'Subtasks'];
+
+describe('formatCsv and parseCsv', () => {
+  it('round-trips cells with commas, quotes and line breaks', () => {
+    const rows = [['a, b', 'say "hi"', 'line 1\nline 2', '']];
+
+    expect(formatCsv(rows)).toBe('"a, b","say ""hi""","line 1\nline 2",\r\n');
+    expect(parseCsv(formatCsv(rows))).toEqual(rows);
+  });
+
+  it('skips a byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFTitle\n\nBuy milk\n')).toEqual([['Title'], ['Buy milk']]);
+  });
+});
+
+describe('tasksToCsv', () => {
+  it('writes one row per task under the header', () => {
+    const csv = tasksToCsv([
+      createTask({
+        title: 'Report',
+        dueDate: '2025-03-03',
+        completed: true,
+        lastModified: '2025-03-04T12:00:00.000Z',
+        tags: ['work', 'q1'],
+        recurrence: 'weekly',
+        recurrenceGroupId: 'group-1',
+        subtasks: [
+          { id: 's1', text: 'Draft', completed: true },
+          { id: 's2', text: 'Send', completed: false },
+        ],
+      }),
+    ]);
+
+    expect(parseCsv(csv)).toEqual([
+      HEADER,
+      ['Report', '2025-03-03', 'Yes', '2025-03-04', 'work, q1', 'weekly', '[x] Draft\n[ ] Send'],
+    ]);
+  });
+
+  it('keeps cells from running as spreadsheet formulas', () => {
+    const csv = tasksToCsv([createTask({ title: '=HYPERLINK("http://evil.example")', tags: ['@home'] })]);
+
+    expect(parseCsv(csv)[1].slice(0, 5)).toEqual(['\'=HYPERLINK("http://evil.example")', '', 'No', '', '\'@home']);
+    expect(readCsvRows(parseCsv(csv), guessColumnMapping(HEADER))[0].taskData).toMatchObject({
+      title: '=HYPERLINK("http://evil.example")',
+      tags: ['@home'],
+    });
+  });
+
+  it('writes recurrences the import reads back', () => {
+    const task = createTask({
+      title: 'Standup',
+      dueDate: '2025-03-03',
+      recurrence: 'custom',
+      customFrequency: 'weekly',
+      recurrenceMultiplier: 2,
+      byWeekday: [1, 3],
+      recurrenceGroupId: 'group-1',
+    });
+    const rows = parseCsv(tasksToCsv([task]));
+
+    expect(rows[1][5]).toBe('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;WKST=SU');
+    const [row] = readCsvRows(rows, guessColumnMapping(HEADER));
+    expect(row.errors).toEqual([]);
+    expect(row.taskData).toMatchObject({ recurrence: 'custom', customFrequency: 'weekly', recurrenceMultiplier: 2, byWeekday: [1, 3] });
+  });
+});
+
+describe('keepFirstOccurrences', () => {
+  it('keeps only the earliest occurrence of each series', () => {
+    const tasks = [
+      createTask({ id: 'b', recurrenceGroupId: 'g', dueDate: '2025-03-10' }),
+      createTask({ id: 'a', recurrenceGroupId: 'g', dueDate: '2025-03-03' }),
+      createTask({ id: 'c' }),
+    ];
+
+    expect(keepFirstOccurrences(tasks).map(t => t.id)).toEqual(['a', 'c']);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('matches labels and common alternative names', () => {
+    expect(guessColumnMapping(['Notes', 'Task', 'Date', 'Completed On', 'Labels'])).toEqual({
+      title: 1,
+      dueDate: 2,
+      completionDate: 3,
+      tags: 4,
+    });
+  });
+});
+
+describe('readCsvRows', () => {
+  const mapping = guessColumnMapping(HEADER);
+
+  it('reads dates in either format, tags and ticked subtasks', () => {
+    const [row] = readCsvRows([HEADER, ['Pay rent', '3/1/2025', 'no', '', 'Home; Bills', '', '[x] Check amount\nTransfer']], mapping);
+
+    expect(row.errors).toEqual([]);
+    expect(row.taskData).toMatchObject({
+      title: 'Pay rent',
+      dueDate: '2025-03-01',
+      completed: false,
+      tags: ['home', 'bills'],
+      subtasks: [
+        { text: 'Check amount', completed: true },
+        { text: 'Transfer', completed: false },
+      ],
+    });
+  });
+
+  it('reports every problem of a row', () => {
+    const rows = readCsvRows([
+      HEADER,
+      ['', '2025-02-30', 'maybe', '', '', '', ''],
+      ['Standup', '', 'no', '', '', 'FREQ=WEEKLY;BYDAY=MO', ''],
+      ['Gym', '2025-03-03', 'no', '', '', 'every full moon', ''],
+    ], mapping);
+
+    expect(rows.map(row => [row.rowNumber, row.errors])).toEqual([
+      [2, ['Title is empty', 'Due date "2025-02-30" is not a date', 'Completed "maybe" is not yes or no']],
+      [3, ['Recurring tasks need a due date']],
+      [4, ['Recurrence "every full moon" is not supported (use daily, weekly, monthly, quarterly, yearly or an RRULE)']],
+    ]);
+  });
+});
+
+describe('createTasksFromCsvRows', () => {
+  const mapping = guessColumnMapping(HEADER);
+
+  it('creates recurring instances for open recurring rows and skips invalid rows', () => {
+    const rows = readCsvRows([
+      HEADER,
+      ['Standup', '2025-03-03', 'no', '', 'work', 'FREQ=WEEKLY;BYDAY=MO;COUNT=3', ''],
+      ['', '', '', '', '', '', ''],
+    ], mapping);
+
+    const tasks = createTasksFromCsvRows(rows);
+
+    expect(tasks.map(t => t.dueDate)).toEqual(['2025-03-03', '2025-03-10', '2025-03-17']);
+    expect(new Set(tasks.map(t => t.recurrenceGroupId)).size).toBe(1);
+    expect(tasks[0]).toMatchObject({ title: 'Standup', recurrence: 'weekly', byWeekday: [1], tags: ['work'] });
+  });
+
+  it('keeps the completion date of completed rows, without starting a series', () => {
+    const rows = readCsvRows([HEADER, ['Report', '2025-03-03', 'Yes', '2025-03-04', '', 'Weekly', '']], mapping);
+
+    const [task] = createTasksFromCsvRows(rows, new Date('2025-03-10T00:00:00.000Z'));
+
+    expect(task).toMatchObject({
+      title: 'Report',
+      completed: true,
+      lastModified: '2025-03-04T12:00:00.000Z',
+      createdAt: '2025-03-10T00:00:00.000Z',
+      recurrence: null,
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { generateRecurringDates, formatRecurrenceDisplay, getNextDueDateAfterCompletion } from '../dateUtils';
+
+describe('dateUtils', () => {
+  describe('generateRecurringDates', () => {
+    it('steps by a fixed interval for plain weekly recurrence', () => {
+      const dates = generateRecurringDates('2025-01-06', 'weekly', 3);
+
+      expect(dates).toEqual(['2025-01-06', '2025-01-13', '2025-01-20']);
+    });
+
+    it('generates dates on the selected weekdays', () => {
+      // 2025-01-06 is a Monday
+      const dates = generateRecurringDates('2025-01-06', 'weekly', 6, 1, undefined, { byWeekday: [1, 3, 5] });
+
+      expect(dates).toEqual([
+        '2025-01-06',
+        '2025-01-08',
+        '2025-01-10',
+        '2025-01-13',
+        '2025-01-15',
+        '2025-01-17',
+      ]);
+    });
+
+    it('skips selected weekdays that fall before the start date', () => {
+      // 2025-01-07 is a Tuesday, so Monday of that week is skipped
+      const dates = generateRecurringDates('2025-01-07', 'weekly', 3, 1, undefined, { byWeekday: [5, 1] });
+
+      expect(dates).toEqual(['2025-01-10', '2025-01-13', '2025-01-17']);
+    });
+
+    it('applies the week interval for custom weekly recurrence with weekdays', () => {
+      const dates = generateRecurringDates('2025-01-06', 'custom', 4, 2, 'weekly', { byWeekday: [1, 4] });
+
+      expect(dates).toEqual(['2025-01-06', '2025-01-09', '2025-01-20', '2025-01-23']);
+    });
+
+    it('clamps month-end dates instead of rolling into the next month', () => {
+      const dates = generateRecurringDates('2025-01-31', 'monthly', 4);
+
+      expect(dates).toEqual(['2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30']);
+    });
+
+    it('clamps leap days for yearly recurrence', () => {
+      const dates = generateRecurringDates('2024-02-29', 'yearly', 3);
+
+      expect(dates).toEqual(['2024-02-29', '2025-02-28', '2026-02-28']);
+    });
+
+    it('generates the nth weekday of each month', () => {
+      // 2nd Tuesday of each month
+      const dates = generateRecurringDates('2025-01-14', 'monthly', 3, 1, undefined, {
+        monthlyRule: { type: 'nthWeekday', ordinal: 2, weekday: 2 },
+      });
+
+      expect(dates).toEqual(['2025-01-14', '2025-02-11', '2025-03-11']);
+    });
+
+    it('generates the last weekday of each month', () => {
+      // Last Friday of each month
+      const dates = generateRecurringDates('2025-01-01', 'monthly', 3, 1, undefined, {
+        monthlyRule: { type: 'nthWeekday', ordinal: -1, weekday: 5 },
+      });
+
+      expect(dates).toEqual(['2025-01-31', '2025-02-28', '2025-03-28']);
+    });
+
+    it('generates the last day of each month', () => {
+      const dates = generateRecurringDates('2025-01-15', 'monthly', 3, 1, undefined, {
+        monthlyRule: { type: 'lastDay' },
+      });
+
+      expect(dates).toEqual(['2025-01-31', '2025-02-28', '2025-03-31']);
+    });
+
+    it('moves the last business day off weekends', () => {
+      // May 31 2025 is a Saturday, Aug 31 2025 is a Sunday
+      const dates = generateRecurringDates('2025-05-01', 'quarterly', 2, 1, undefined, {
+        monthlyRule: { type: 'lastBusinessDay' },
+      });
+
+      expect(dates).toEqual(['2025-05-30', '2025-08-29']);
+    });
+
+    it('ignores weekdays for non-weekly frequencies', () => {
+      const dates = generateRecurringDates('2025-01-06', 'daily', 3, 1, undefined, { byWeekday: [5] });
+
+      expect(dates).toEqual(['2025-01-06', '2025-01-07', '2025-01-08']);
+    });
+
+    it('stops at the until date', () => {
+      const dates = generateRecurringDates('2025-01-06', 'weekly', 10, 1, undefined, { until: '2025-01-20' });
+
+      expect(dates).toEqual(['2025-01-06', '2025-01-13', '2025-01-20']);
+    });
+  });
+
+  describe('formatRecurrenceDisplay', () => {
+    it('capitalizes simple recurrence types', () => {
+      expect(formatRecurrenceDisplay({ recurrence: 'weekly' })).toBe('Weekly');
+    });
+
+    it('formats custom intervals', () => {
+      expect(formatRecurrenceDisplay({ recurrence: 'custom', recurrenceMultiplier: 3, customFrequency: 'daily' }))
+        .toBe('Every 3 days');
+    });
+
+    it('lists selected weekdays in calendar order', () => {
+      expect(formatRecurrenceDisplay({ recurrence: 'weekly', byWeekday: [5, 1, 3] }))
+        .toBe('Every Mon, Wed, Fri');
+    });
+
+    it('includes the week interval for custom weekly recurrence with weekdays', () => {
+      expect(formatRecurrenceDisplay({
+        recurrence: 'custom',
+        recurrenceMultiplier: 2,
+        customFrequency: 'weekly',
+        byWeekday: [2, 4],
+      })).toBe('Every 2 weeks on Tue, Thu');
+    });
+
+    it('describes monthly rules', () => {
+      expect(formatRecurrenceDisplay({
+        recurrence: 'monthly',
+        monthlyRule: { type: 'nthWeekday', ordinal: 2, weekday: 2 },
+      })).toBe('Monthly on the 2nd Tue');
+      expect(formatRecurrenceDisplay({
+        recurrence: 'custom',
+        recurrenceMultiplier: 2,
+        customFrequency: 'monthly',
+        monthlyRule: { type: 'lastBusinessDay' },
+      })).toBe('Every 2 months on the last business day');
+    });
+
+    it('appends the end condition', () => {
+      expect(formatRecurrenceDisplay({ recurrence: 'daily', recurrenceCount: 5 })).toBe('Daily, 5 times');
+      expect(formatRecurrenceDisplay({ recurrence: 'weekly', recurrenceEndDate: '2025-03-31' }))
+        .toBe('Weekly, until 03/31/25');
+    });
+
+    it('describes completion-based intervals', () => {
+      expect(formatRecurrenceDisplay({
+        recurrence: 'custom',
+        recurrenceMultiplier: 3,
+        customFrequency: 'daily',
+        recurrenceFromCompletion: true,
+      })).toBe('Every 3 days after completion');
+      expect(formatRecurrenceDisplay({ recurrence: 'weekly', recurrenceFromCompletion: true }))
+        .toBe('Every week after completion');
+    });
+
+    it('returns an empty string for non-recurring tasks', () => {
+      expect(formatRecurrenceDisplay({ recurrence: null })).toBe('');
+    });
+  });
+
+  describe('getNextDueDateAfterCompletion', () => {
+    it('offsets the interval from the completion date', () => {
+      expect(getNextDueDateAfterCompletion('2025-03-10', {
+        recurrence: 'custom',
+        recurrenceMultiplier: 3,
+        customFrequency: 'daily',
+      })).toBe('2025-03-13');
+      expect(getNextDueDateAfterCompletion('2025-01-31', { recurrence: 'monthly' })).toBe('2025-02-28');
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatDuration,
+  formatTaskTime,
+  formatTimeOfDay,
+  getTimelineHours,
+  layoutTimedTasks,
+  parseTimeOfDay,
+  toTimeOfDay,
+} from '../daySchedule';
+import { Task } from '../../types';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Test Task',
+  dueDate: '2025-03-05',
+  completed: false,
+  subtasks: [],
+  tags: [],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  lastModified: '2025-01-01T00:00:00.000Z',
+  recurrence: null,
+  recurrenceGroupId: null,
+  ...overrides,
+});
+
+describe('times of day', () => {
+  it('converts between HH:mm and minutes since midnight', () => {
+    expect(parseTimeOfDay('09:30')).toBe(570);
+    expect(parseTimeOfDay('24:00')).toBeNull();
+    expect(parseTimeOfDay('9:30')).toBeNull();
+    expect(toTimeOfDay(570)).toBe('09:30');
+    expect(toTimeOfDay(24 * 60)).toBe('23:59');
+  });
+
+  it('formats times, task times and durations for display', () => {
+    expect(formatTimeOfDay('00:15')).toBe('12:15 AM');
+    expect(formatTimeOfDay('13:05')).toBe('1:05 PM');
+    expect(formatTaskTime(createTask())).toBeNull();
+    expect(formatTaskTime(createTask({ dueTime: '09:30' }))).toBe('9:30 AM');
+    expect(formatTaskTime(createTask({ dueTime: '11:30', durationMinutes: 90 }))).toBe('11:30 AM - 1:00 PM');
+    expect(formatDuration(45)).toBe('45 min');
+    expect(formatDuration(60)).toBe('1 hr');
+    expect(formatDuration(90)).toBe('1 hr 30 min');
+  });
+});
+
+describe('layoutTimedTasks', () => {
+  it('places overlapping tasks side by side and leaves out all-day tasks', () => {
+    const entries = layoutTimedTasks([
+      createTask({ id: 'all-day' }),
+      createTask({ id: 'standup', dueTime: '09:00', durationMinutes: 15 }),
+      createTask({ id: 'workshop', dueTime: '09:00', durationMinutes: 120 }),
+      createTask({ id: 'call', dueTime: '10:00' }),
+      createTask({ id: 'review', dueTime: '09:30', durationMinutes: 30 }),
+      createTask({ id: 'lunch', dueTime: '12:00', durationMinutes: 60 }),
+    ]);
+
+    expect(entries.map(({ task, start, end, lane, laneCount }) => [task.id, start, end, lane, laneCount])).toEqual([
+      ['workshop', 540, 660, 0, 2],
+      ['standup', 540, 555, 1, 2],
+      ['review', 570, 600, 1, 2],
+      ['call', 600, 630, 1, 2],
+      ['lunch', 720, 780, 0, 1],
+    ]);
+  });
+
+  it('extends the timeline to fit early and late tasks', () => {
+    expect(getTimelineHours([])).toEqual([7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21]);
+
+    const hours = getTimelineHours(layoutTimedTasks([
+      createTask({ dueTime: '05:30' }),
+      createTask({ dueTime: '22:30', durationMinutes: 60 }),
+    ]));
+    expect(hours[0]).toBe(5);
+    expect(hours[hours.length - 1]).toBe(23);
+  });
+});
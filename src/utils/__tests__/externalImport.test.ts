@@ -0,0 +1,209 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createTasksFromImportReport, readExternalImportFile } from '../externalImport';
+import { parseTodoistRecurrence } from '../todoistImport';
+import { parseToDoRecurrence } from '../microsoftToDoImport';
+
+vi.mock('../supabase', () => ({
+  supabase: {},
+}));
+
+const TODAY = '2025-03-01';
+
+const readFile = (fileName: string, content: string | object) => {
+  const result = readExternalImportFile(
+    fileName,
+    typeof content === 'string' ? content : JSON.stringify(content),
+    { today: TODAY }
+  );
+  if (!result.ok) throw new Error(result.errors.join('; '));
+  return result.value;
+};
+
+describe('parseTodoistRecurrence', () => {
+  it('maps the repeat rules we can express', () => {
+    expect(parseTodoistRecurrence('every day')).toEqual({ recurrence: 'daily' });
+    expect(parseTodoistRecurrence('every other week')).toEqual({ recurrence: 'custom', customFrequency: 'weekly', recurrenceMultiplier: 2 });
+    expect(parseTodoistRecurrence('every! 3 months')).toEqual({
+      recurrence: 'custom',
+      customFrequency: 'monthly',
+      recurrenceMultiplier: 3,
+      recurrenceFromCompletion: true,
+    });
+    expect(parseTodoistRecurrence('every mon, fri at 9am')).toEqual({ recurrence: 'weekly', byWeekday: [1, 5] });
+    expect(parseTodoistRecurrence('every workday')).toEqual({ recurrence: 'weekly', byWeekday: [1, 2, 3, 4, 5] });
+    expect(parseTodoistRecurrence('every 2nd tuesday')).toEqual({
+      recurrence: 'monthly',
+      monthlyRule: { type: 'nthWeekday', ordinal: 2, weekday: 2 },
+    });
+    expect(parseTodoistRecurrence('every last day')).toEqual({ recurrence: 'monthly', monthlyRule: { type: 'lastDay' } });
+  });
+
+  it('rejects rules we cannot express', () => {
+    expect(parseTodoistRecurrence('every 15th and 30th')).toBeNull();
+    expect(parseTodoistRecurrence('every 3 hours')).toBeNull();
+    expect(parseTodoistRecurrence('tomorrow')).toBeNull();
+  });
+});
+
+describe('readExternalImportFile', () => {
+  it('reads a Todoist CSV export with labels, sub-tasks and a report of what is lost', () => {
+    const report = readFile('Home.csv', [
+      'TYPE,CONTENT,DESCRIPTION,PRIORITY,INDENT,AUTHOR,RESPONSIBLE,DATE,DATE_LANG,TIMEZONE',
+      'section,Chores,,,,,,,,',
+      'task,Water plants @garden,,4,1,Riley,,every mon,en,Europe/Berlin',
+      'task,Fill the can,,4,2,Riley,,,en,Europe/Berlin',
+      'task,Pay rent,Bank transfer,1,1,Riley,,2025-03-05 10:00,en,Europe/Berlin',
+      'task,Call the landlord,,4,1,Riley,,Mar 6 2025 at 4:30pm,en,Europe/Berlin',
+      'note,Remember the new IBAN,,,,Riley,,,,',
+    ].join('\n'));
+
+    expect(report.format).toBe('todoist-csv');
+    expect(report.items.map(item => item.taskData)).toMatchObject([
+      {
+        title: 'Water plants',
+        dueDate: TODAY,
+        tags: ['home', 'garden'],
+        recurrence: 'weekly',
+        byWeekday: [1],
+        subtasks: [{ text: 'Fill the can', completed: false }],
+      },
+      { title: 'Pay rent', dueDate: '2025-03-05', dueTime: '10:00', tags: ['home'], priority: 'urgent', notes: 'Bank transfer' },
+      { title: 'Call the landlord', dueDate: '2025-03-06', dueTime: '16:30' },
+    ]);
+    expect(report.items[0].taskData.priority).toBeUndefined();
+    expect(report.items[0].unmapped).toEqual(['The export has no next due date; it starts today']);
+    expect(report.items[1].unmapped).toEqual([]);
+    expect(report.skipped.map(skip => skip.reason)).toEqual(['Sections are not imported', 'Comments are not imported']);
+  });
+
+  it('reads Todoist JSON with projects, nested tasks and unsupported repeat rules', () => {
+    const report = readFile('todoist.json', {
+      projects: [{ id: 'p1', name: 'Inbox', inbox_project: true }, { id: 'p2', name: 'Work' }],
+      items: [
+        { id: '1', content: 'Quarterly report', project_id: 'p2', labels: ['Finance'], priority: 4, due: { date: '2025-03-31', string: 'every 3 months', is_recurring: true } },
+        { id: '2', content: 'Collect numbers', project_id: 'p2', parent_id: '1', checked: true },
+        { id: '3', content: 'Ask Sam', project_id: 'p2', parent_id: '2' },
+        { id: '4', content: 'Payday', project_id: 'p1', due: { date: '2025-03-15', string: 'every 15th and 30th', is_recurring: true } },
+        { id: '6', content: 'Dentist', project_id: 'p1', due: { date: '2025-03-12T08:15:00' }, duration: { amount: 45, unit: 'minute' } },
+        { id: '7', content: 'Conference', project_id: 'p2', due: { date: '2025-04-01' }, duration: { amount: 2, unit: 'day' } },
+        { id: '5', content: 'Old', project_id: 'p1', is_deleted: true },
+      ],
+    });
+
+    expect(report.format).toBe('todoist-json');
+    expect(report.items.map(item => item.taskData)).toMatchObject([
+      {
+        title: 'Quarterly report',
+        dueDate: '2025-03-31',
+        tags: ['work', 'finance'],
+        priority: 'urgent',
+        recurrence: 'custom',
+        customFrequency: 'monthly',
+        recurrenceMultiplier: 3,
+        subtasks: [{ text: 'Collect numbers', completed: true }, { text: 'Ask Sam', completed: false }],
+      },
+      { title: 'Payday', dueDate: '2025-03-15', tags: [] },
+      { title: 'Dentist', dueDate: '2025-03-12', dueTime: '08:15', durationMinutes: 45 },
+      { title: 'Conference', dueDate: '2025-04-01' },
+    ]);
+    expect(report.items[2].unmapped).toEqual([]);
+    expect(report.items[3].unmapped).toEqual(['Duration not imported']);
+    expect(report.items[0].unmapped).toEqual(['Sub-task "Ask Sam" is nested deeper; imported as a plain subtask']);
+    expect(report.items[1].taskData.recurrence).toBeUndefined();
+    expect(report.items[1].unmapped).toEqual(['Repeat rule "every 15th and 30th" isn\'t supported; imported as a one-off task']);
+    expect(report.skipped).toEqual([{ label: 'Old', reason: 'Deleted in Todoist' }]);
+  });
+
+  it('reads Microsoft To Do lists', () => {
+    const report = readFile('todo.json', {
+      value: [
+        { displayName: 'Tasks', wellknownListName: 'defaultList', tasks: [] },
+        {
+          displayName: 'Errands',
+          tasks: {
+            value: [
+              {
+                title: 'Car service',
+                status: 'notStarted',
+                importance: 'high',
+                dueDateTime: { dateTime: '2025-03-10T00:00:00.0000000', timeZone: 'UTC' },
+                isReminderOn: true,
+                reminderDateTime: { dateTime: '2025-03-10T09:30:00.0000000', timeZone: 'Pacific Standard Time' },
+                recurrence: {
+                  pattern: { type: 'relativeMonthly', interval: 1, daysOfWeek: ['saturday'], index: 'first' },
+                  range: { type: 'numbered', numberOfOccurrences: 6 },
+                },
+                checklistItems: [{ displayName: 'Book slot', isChecked: true }],
+              },
+              {
+                title: 'Return parcel',
+                status: 'completed',
+                body: { content: 'Label is in the drawer', contentType: 'text' },
+                completedDateTime: { dateTime: '2025-02-20T09:00:00.0000000', timeZone: 'UTC' },
+              },
+              { title: '  ' },
+            ],
+          },
+        },
+      ],
+    });
+
+    expect(report.format).toBe('microsoft-to-do');
+    expect(report.items.map(item => item.taskData)).toMatchObject([
+      {
+        title: 'Car service',
+        dueDate: '2025-03-10',
+        dueTime: '09:30',
+        tags: ['errands'],
+        priority: 'high',
+        recurrence: 'monthly',
+        monthlyRule: { type: 'nthWeekday', ordinal: 1, weekday: 6 },
+        recurrenceCount: 6,
+        subtasks: [{ text: 'Book slot', completed: true }],
+      },
+      { title: 'Return parcel', completed: true, notes: 'Label is in the drawer', lastModified: '2025-02-20T12:00:00.000Z' },
+    ]);
+    expect(report.items[0].unmapped).toEqual([]);
+    expect(report.skipped).toEqual([{ label: 'Errands / task 3', reason: 'The task has no title' }]);
+  });
+
+  it('rejects files from other apps', () => {
+    expect(readExternalImportFile('tasks.json', '{"foo": []}')).toEqual({
+      ok: false,
+      errors: ['The file is not a Todoist or Microsoft To Do export'],
+    });
+    expect(readExternalImportFile('tasks.csv', 'Title,Due\nA,2025-03-01')).toEqual({
+      ok: false,
+      errors: ['The file is not a Todoist CSV export (it needs TYPE and CONTENT columns)'],
+    });
+  });
+});
+
+describe('parseToDoRecurrence', () => {
+  it('maps weekly patterns with days and an end date', () => {
+    expect(parseToDoRecurrence({
+      pattern: { type: 'weekly', interval: 2, daysOfWeek: ['monday', 'thursday'] },
+      range: { type: 'endDate', endDate: '2025-06-30' },
+    })).toEqual({
+      recurrence: 'custom',
+      customFrequency: 'weekly',
+      recurrenceMultiplier: 2,
+      byWeekday: [1, 4],
+      recurrenceEndDate: '2025-06-30',
+    });
+    expect(parseToDoRecurrence({ pattern: { type: 'relativeYearly' } })).toBeNull();
+  });
+});
+
+describe('createTasksFromImportReport', () => {
+  it('creates recurring instances for open repeating tasks', () => {
+    const report = readFile('Home.csv', 'TYPE,CONTENT,INDENT,DATE\ntask,Water plants,1,every mon\ntask,Call mom,1,\n');
+
+    const tasks = createTasksFromImportReport(report, new Date('2025-03-01T00:00:00.000Z'));
+
+    const plants = tasks.filter(task => task.title === 'Water plants');
+    expect(plants.length).toBeGreaterThan(1);
+    expect(plants[0]).toMatchObject({ dueDate: '2025-03-03', recurrence: 'weekly', tags: ['home'] });
+    expect(tasks.find(task => task.title === 'Call mom')).toMatchObject({ dueDate: null, recurrence: null });
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+import { Task } from '../../types';
+import { createIcsCalendar, escapeIcsText, foldIcsLine } from '../ics';
+
+const NOW = new Date('2025-03-01T12:00:00.000Z');
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Task',
+  dueDate: null,
+  completed: false,
+  subtasks: [],
+  tags: [],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  lastModified: '2025-01-01T00:00:00.000Z',
+  recurrence: null,
+  recurrenceGroupId: null,
+  ...overrides,
+});
+
+// Unfolds the calendar and splits it into its components' property lists
+const getComponents = (calendar: string): string[][] => {
+  const lines = calendar.replace(/\r\n /g, '').split('\r\n');
+  const components: string[][] = [];
+  let current: string[] | null = null;
+  lines.forEach(line => {
+    if (line === 'BEGIN:VEVENT' || line === 'BEGIN:VTODO') {
+      current = [];
+    } else if (line === 'END:VEVENT' || line === 'END:VTODO') {
+      components.push(current!);
+      current = null;
+    } else if (current) {
+      current.push(line);
+    }
+  });
+  return components;
+};
+
+describe('escapeIcsText and foldIcsLine', () => {
+  it('escapes special characters', () => {
+    expect(escapeIcsText('a, b; c\\d\ne')).toBe('a\\, b\\; c\\\\d\\ne');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const folded = foldIcsLine(`SUMMARY:${'é'.repeat(60)}`);
+    const lines = folded.split('\r\n');
+
+    expect(lines.length).toBe(2);
+    expect(lines.every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(lines[1].startsWith(' ')).toBe(true);
+    expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'é'.repeat(60)}`);
+  });
+});
+
+describe('createIcsCalendar', () => {
+  it('writes all-day events with categories and subtasks, leaving out undated, completed and trashed tasks', () => {
+    const calendar = createIcsCalendar([
+      createTask({
+        id: 'report',
+        title: 'Send report, v2',
+        dueDate: '2025-03-03',
+        tags: ['work'],
+        subtasks: [{ id: 's1', text: 'Draft', completed: true }],
+      }),
+      createTask({ id: 'undated' }),
+      createTask({ id: 'done', dueDate: '2025-03-03', completed: true }),
+      createTask({ id: 'trashed', dueDate: '2025-03-03', deletedAt: '2025-02-01T00:00:00.000Z' }),
+    ], { calendarName: 'Riley Tasks', now: NOW });
+
+    expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(calendar).toContain('X-WR-CALNAME:Riley Tasks\r\n');
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(getComponents(calendar)).toEqual([[
+      'UID:report@riley-task-app',
+      'DTSTAMP:20250301T120000Z',
+      'CREATED:20250101T000000Z',
+      'LAST-MODIFIED:20250101T000000Z',
+      'SUMMARY:Send report\\, v2',
+      'DTSTART;VALUE=DATE:20250303',
+      'DTEND;VALUE=DATE:20250304',
+      'TRANSP:TRANSPARENT',
+      'CATEGORIES:work',
+      'DESCRIPTION:[x] Draft',
+    ]]);
+  });
+
+  it('writes a series once with its RRULE and its exception rows as overrides', () => {
+    const series = createTask({
+      id: 'series',
+      title: 'Standup',
+      dueDate: '2025-03-03',
+      recurrence: 'weekly',
+      byWeekday: [1],
+      recurrenceGroupId: 'group',
+      isSeries: true,
+    });
+    const calendar = createIcsCalendar([
+      series,
+      createTask({ id: 'moved', title: 'Standup', dueDate: '2025-03-11', recurrence: 'weekly', recurrenceGroupId: 'group', occurrenceDate: '2025-03-10' }),
+      createTask({ id: 'skipped', title: 'Standup', dueDate: '2025-03-17', completed: true, skipped: true, recurrence: 'weekly', recurrenceGroupId: 'group', occurrenceDate: '2025-03-17' }),
+      createTask({ id: 'group::2025-03-24', dueDate: '2025-03-24', recurrenceGroupId: 'group' }),
+    ], { now: NOW });
+
+    const [rule, moved, skipped, ...rest] = getComponents(calendar);
+    expect(rest).toEqual([]);
+    expect(rule).toContain('UID:group@riley-task-app');
+    expect(rule).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO');
+    expect(moved).toContain('UID:group@riley-task-app');
+    expect(moved).toContain('RECURRENCE-ID;VALUE=DATE:20250310');
+    expect(moved).toContain('DTSTART;VALUE=DATE:20250311');
+    expect(skipped).toContain('STATUS:CANCELLED');
+  });
+
+  it('writes timed tasks at their local time for their duration', () => {
+    const calendar = createIcsCalendar([
+      createTask({ id: 'dentist', dueDate: '2025-03-03', dueTime: '23:30', durationMinutes: 45 }),
+      createTask({ id: 'call', dueDate: '2025-03-04', dueTime: '09:00' }),
+    ], { now: NOW });
+
+    const [dentist, call] = getComponents(calendar);
+    expect(dentist).toContain('DTSTART:20250303T233000');
+    expect(dentist).toContain('DTEND:20250304T001500');
+    expect(dentist).not.toContain('TRANSP:TRANSPARENT');
+    expect(call).toContain('DTEND:20250304T093000');
+
+    const [todo] = getComponents(createIcsCalendar([createTask({ dueDate: '2025-03-03', dueTime: '09:00', durationMinutes: 60 })], { component: 'VTODO', now: NOW }));
+    expect(todo).toContain('DTSTART:20250303T090000');
+    expect(todo).toContain('DUE:20250303T100000');
+  });
+
+  it('writes timed series with date-time end and overrides', () => {
+    const calendar = createIcsCalendar([
+      createTask({ id: 'series', dueDate: '2025-03-03', dueTime: '08:30', recurrence: 'daily', recurrenceGroupId: 'group', isSeries: true, recurrenceEndDate: '2025-03-20' }),
+      createTask({ id: 'moved', dueDate: '2025-03-05', dueTime: '10:00', recurrence: 'daily', recurrenceGroupId: 'group', occurrenceDate: '2025-03-05' }),
+    ], { now: NOW });
+
+    const [rule, moved] = getComponents(calendar);
+    expect(rule).toContain('RRULE:FREQ=DAILY;UNTIL=20250320T235959');
+    expect(moved).toContain('RECURRENCE-ID:20250305T083000');
+    expect(moved).toContain('DTSTART:20250305T100000');
+  });
+
+  it('ends a paused series before its pause', () => {
+    const calendar = createIcsCalendar([
+      createTask({ id: 'series', dueDate: '2025-03-03', recurrence: 'daily', recurrenceGroupId: 'group', isSeries: true, pausedFrom: '2025-03-10' }),
+    ], { now: NOW });
+
+    expect(getComponents(calendar)[0]).toContain('RRULE:FREQ=DAILY;UNTIL=20250309');
+  });
+
+  it('writes only the open occurrence of a series that repeats after completion', () => {
+    const calendar = createIcsCalendar([
+      createTask({
+        id: 'series',
+        dueDate: '2025-03-03',
+        seriesOpenFrom: '2025-03-20',
+        recurrence: 'weekly',
+        recurrenceFromCompletion: true,
+        recurrenceGroupId: 'group',
+        isSeries: true,
+      }),
+    ], { now: NOW });
+
+    const [occurrence] = getComponents(calendar);
+    expect(occurrence).toContain('DTSTART;VALUE=DATE:20250320');
+    expect(occurrence.some(line => line.startsWith('RRULE'))).toBe(false);
+  });
+
+  it('writes to-dos with a due date and status', () => {
+    const calendar = createIcsCalendar([
+      createTask({ id: 'open', dueDate: '2025-03-03' }),
+      createTask({ id: 'done', dueDate: '2025-03-03', completed: true, lastModified: '2025-03-04T08:30:00.000Z' }),
+    ], { component: 'VTODO', includeCompleted: true, now: NOW });
+
+    const [open, done] = getComponents(calendar);
+    expect(calendar).toContain('BEGIN:VTODO');
+    expect(open).toContain('DUE;VALUE=DATE:20250303');
+    expect(open).toContain('STATUS:NEEDS-ACTION');
+    expect(done).toEqual(expect.arrayContaining(['STATUS:COMPLETED', 'COMPLETED:20250304T083000Z']));
+  });
+});
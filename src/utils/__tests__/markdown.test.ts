@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from 'vitest';
+import { formatMarkdownTask, parseMarkdownChecklist, tasksToMarkdown } from '../markdown';
+import { Task } from '../../types';
+
+vi.mock('../supabase', () => ({
+  supabase: {},
+}));
+
+const makeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Water plants',
+  dueDate: '2025-03-03',
+  completed: false,
+  subtasks: [],
+  tags: [],
+  createdAt: '2025-03-01T00:00:00.000Z',
+  lastModified: '2025-03-01T00:00:00.000Z',
+  recurrence: null,
+  recurrenceGroupId: null,
+  ...overrides,
+});
+
+describe('formatMarkdownTask', () => {
+  it('writes a checklist item with tags and subtasks', () => {
+    const task = makeTask({
+      tags: ['home', 'weekend chores'],
+      subtasks: [
+        { id: 's1', text: 'Fill the can', completed: true },
+        { id: 's2', text: 'Balcony', completed: false },
+      ],
+    });
+
+    expect(formatMarkdownTask(task)).toBe([
+      '- [ ] Water plants #home #weekend-chores',
+      '  - [x] Fill the can',
+      '  - [ ] Balcony',
+    ].join('\n'));
+  });
+
+  it('writes the due date when asked', () => {
+    expect(formatMarkdownTask(makeTask({ completed: true }), true)).toBe('- [x] Water plants 📅 2025-03-03');
+  });
+});
+
+describe('tasksToMarkdown', () => {
+  it('writes headed sections and leaves out empty ones', () => {
+    const markdown = tasksToMarkdown('Today', [
+      { tasks: [makeTask()] },
+      { heading: 'Overdue', tasks: [] },
+      { heading: 'Later', tasks: [makeTask({ title: 'Pay rent', dueDate: '2025-03-05' })], showDueDates: true },
+    ]);
+
+    expect(markdown).toBe([
+      '## Today',
+      '',
+      '- [ ] Water plants',
+      '',
+      '### Later',
+      '',
+      '- [ ] Pay rent 📅 2025-03-05',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('parseMarkdownChecklist', () => {
+  it('reads tasks with nested subtasks, tags and due dates', () => {
+    const tasks = parseMarkdownChecklist([
+      '# Trip',
+      'Some notes about the trip.',
+      '- [ ] Plan the trip #Travel #travel',
+      '  - [x] Book flights #not-a-tag',
+      '\t- [ ] Find a hotel',
+      '- plain list item',
+      '* [X] Renew passport 📅 2025-06-01 #admin',
+      '1. [ ] Pack',
+    ].join('\n'));
+
+    expect(tasks).toMatchObject([
+      {
+        title: 'Plan the trip',
+        dueDate: null,
+        completed: false,
+        tags: ['travel'],
+        subtasks: [
+          { text: 'Book flights #not-a-tag', completed: true },
+          { text: 'Find a hotel', completed: false },
+        ],
+      },
+      { title: 'Renew passport', dueDate: '2025-06-01', completed: true, tags: ['admin'], subtasks: [] },
+      { title: 'Pack', completed: false, tags: [] },
+    ]);
+  });
+
+  it('reads back what the export writes', () => {
+    const task = makeTask({
+      tags: ['home'],
+      subtasks: [{ id: 's1', text: 'Fill the can', completed: true }],
+    });
+
+    const [parsed] = parseMarkdownChecklist(tasksToMarkdown('Week', [{ heading: 'Monday', tasks: [task], showDueDates: true }]));
+
+    expect(parsed).toMatchObject({
+      title: 'Water plants',
+      dueDate: '2025-03-03',
+      tags: ['home'],
+      subtasks: [{ text: 'Fill the can', completed: true }],
+    });
+  });
+
+  it('skips items with nothing but tags', () => {
+    expect(parseMarkdownChecklist('- [ ] #home\n  - [ ] First')).toMatchObject([
+      { title: 'First', subtasks: [] },
+    ]);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryTaskRepository } from '../memoryTaskRepository';
+import { expandRecurringTasks } from '../recurrenceExpansion';
+import { Task } from '../../types';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Test Task',
+  dueDate: null,
+  completed: false,
+  subtasks: [],
+  tags: [],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  lastModified: '2025-01-01T00:00:00.000Z',
+  recurrence: null,
+  recurrenceGroupId: null,
+  ...overrides,
+});
+
+describe('createMemoryTaskRepository', () => {
+  it('saves, updates and deletes tasks', async () => {
+    const repository = createMemoryTaskRepository();
+
+    await repository.saveTasks([createTask({ id: 'a' }), createTask({ id: 'b' })]);
+    await repository.saveTasks([createTask({ id: 'a', title: 'Renamed' })]);
+    await repository.deleteTasks(['b']);
+
+    expect(await repository.loadIncompleteTasks()).toEqual([createTask({ id: 'a', title: 'Renamed' })]);
+  });
+
+  it('pages completed tasks, most recently modified first', async () => {
+    const repository = createMemoryTaskRepository();
+    await repository.saveTasks([
+      createTask({ id: 'old', completed: true, lastModified: '2025-01-01T00:00:00.000Z' }),
+      createTask({ id: 'new', completed: true, lastModified: '2025-01-03T00:00:00.000Z' }),
+      createTask({ id: 'middle', completed: true, lastModified: '2025-01-02T00:00:00.000Z' }),
+      createTask({ id: 'open' }),
+    ]);
+
+    const firstPage = await repository.loadCompletedTasks(2, 0);
+    const secondPage = await repository.loadCompletedTasks(2, 2);
+
+    expect(firstPage.tasks.map(t => t.id)).toEqual(['new', 'middle']);
+    expect(firstPage.total).toBe(3);
+    expect(secondPage.tasks.map(t => t.id)).toEqual(['old']);
+  });
+
+  it('loads completed occurrences of series in full, outside the completed pages', async () => {
+    const repository = createMemoryTaskRepository();
+    const series = createTask({
+      id: 'series',
+      dueDate: '2025-01-01',
+      recurrence: 'daily',
+      recurrenceGroupId: 'group',
+      isSeries: true,
+      seriesOpenFrom: '2025-01-01',
+    });
+    const doneOccurrence = createTask({
+      id: 'done-occurrence',
+      dueDate: '2025-01-02',
+      completed: true,
+      recurrenceGroupId: 'group',
+      occurrenceDate: '2025-01-02',
+      lastModified: '2025-01-02T00:00:00.000Z',
+    });
+    await repository.saveTasks([
+      series,
+      doneOccurrence,
+      createTask({ id: 'newer-1', completed: true, lastModified: '2025-01-05T00:00:00.000Z' }),
+      createTask({ id: 'newer-2', completed: true, lastModified: '2025-01-06T00:00:00.000Z' }),
+    ]);
+
+    // A reload loads the first page of completed tasks, which no longer holds the occurrence
+    const firstPage = await repository.loadCompletedTasks(2, 0);
+    const reloaded = [
+      ...await repository.loadIncompleteTasks(),
+      ...await repository.loadCompletedOccurrences(),
+      ...firstPage.tasks,
+    ];
+
+    expect(firstPage.tasks.map(t => t.id)).toEqual(['newer-2', 'newer-1']);
+    expect(firstPage.total).toBe(2);
+    const shown = expandRecurringTasks(reloaded, { start: '2025-01-02', end: '2025-01-02' });
+    expect(shown.filter(task => task.dueDate === '2025-01-02')).toEqual([doneOccurrence]);
+  });
+
+  it('keeps trashed tasks out of everything but the trash', async () => {
+    const repository = createMemoryTaskRepository();
+    await repository.saveTasks([
+      createTask({ id: 'open' }),
+      createTask({ id: 'trashed-open', deletedAt: '2025-01-02T00:00:00.000Z' }),
+      createTask({ id: 'trashed-done', completed: true, deletedAt: '2025-01-03T00:00:00.000Z' }),
+    ]);
+
+    expect((await repository.loadIncompleteTasks()).map(t => t.id)).toEqual(['open']);
+    expect((await repository.loadCompletedTasks(10, 0)).total).toBe(0);
+    expect(await repository.loadTasksByIds(['trashed-open'])).toEqual([]);
+    expect((await repository.loadDeletedTasks()).map(t => t.id)).toEqual(['trashed-done', 'trashed-open']);
+  });
+
+  it('does not let callers change stored tasks', async () => {
+    const repository = createMemoryTaskRepository();
+    const task = createTask({ tags: ['work'] });
+    await repository.saveTasks([task]);
+
+    task.tags.push('home');
+    const [loaded] = await repository.loadTasksByIds([task.id]);
+    loaded.title = 'Changed';
+
+    expect(await repository.loadTasksByIds([task.id])).toEqual([createTask({ tags: ['work'] })]);
+  });
+
+  it('lists tags from tasks and tag colors', async () => {
+    const repository = createMemoryTaskRepository();
+    await repository.saveTasks([createTask({ tags: ['Work'] })]);
+    await repository.saveTagColors({ Home: '#ff0000' });
+
+    expect((await repository.loadTags()).sort()).toEqual(['home', 'work']);
+
+    await repository.deleteTagColor('HOME');
+    expect(await repository.loadTagColors()).toEqual({});
+  });
+
+  it('keeps its data in the given storage across instances', async () => {
+    const first = createMemoryTaskRepository(localStorage);
+    await first.saveTasks([createTask()]);
+    await first.saveUserSettings({ timeZone: 'Asia/Tokyo', trashRetentionDays: 7, calendarFeedToken: null });
+
+    const second = createMemoryTaskRepository(localStorage);
+
+    expect(await second.loadIncompleteTasks()).toEqual([createTask()]);
+    expect(await second.loadUserSettings()).toEqual({ timeZone: 'Asia/Tokyo', trashRetentionDays: 7, calendarFeedToken: null });
+    localStorage.clear();
+  });
+});
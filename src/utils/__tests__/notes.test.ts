@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { getNotesPreview, parseNoteBlocks, parseNoteInline, toSafeHref } from '../notes';
+
+describe('toSafeHref', () => {
+  it('allows web, mail and phone addresses', () => {
+    expect(toSafeHref('https://example.com/a')).toBe('https://example.com/a');
+    expect(toSafeHref('www.example.com')).toBe('https://www.example.com');
+    expect(toSafeHref('mailto:sam@example.com')).toBe('mailto:sam@example.com');
+  });
+
+  it('rejects scripts and relative addresses', () => {
+    expect(toSafeHref('javascript:alert(1)')).toBeNull();
+    expect(toSafeHref('data:text/html,hi')).toBeNull();
+    expect(toSafeHref('/settings')).toBeNull();
+  });
+});
+
+describe('parseNoteInline', () => {
+  it('reads bold, italic, links and bare URLs', () => {
+    expect(parseNoteInline('Call **Sam *today* first** via [chat](https://chat.example.com), see https://example.com.')).toEqual([
+      { type: 'text', text: 'Call ' },
+      {
+        type: 'bold',
+        children: [
+          { type: 'text', text: 'Sam ' },
+          { type: 'italic', children: [{ type: 'text', text: 'today' }] },
+          { type: 'text', text: ' first' },
+        ],
+      },
+      { type: 'text', text: ' via ' },
+      { type: 'link', text: 'chat', href: 'https://chat.example.com' },
+      { type: 'text', text: ', see ' },
+      { type: 'link', text: 'https://example.com', href: 'https://example.com' },
+      { type: 'text', text: '.' },
+    ]);
+  });
+
+  it('keeps unsafe links and stray asterisks as text', () => {
+    expect(parseNoteInline('[click](javascript:alert(1)) 2 * 3 = 6')).toEqual([
+      { type: 'text', text: '[click](javascript:alert(1)) 2 * 3 = 6' },
+    ]);
+  });
+});
+
+describe('parseNoteBlocks', () => {
+  it('splits paragraphs and lists', () => {
+    const blocks = parseNoteBlocks([
+      'Packing list',
+      'for the weekend',
+      '- Tent',
+      '* Stove',
+      '1. Leave at 8',
+      '',
+      'Done.',
+    ].join('\n'));
+
+    expect(blocks).toEqual([
+      {
+        type: 'paragraph',
+        lines: [[{ type: 'text', text: 'Packing list' }], [{ type: 'text', text: 'for the weekend' }]],
+      },
+      { type: 'list', ordered: false, items: [[{ type: 'text', text: 'Tent' }], [{ type: 'text', text: 'Stove' }]] },
+      { type: 'list', ordered: true, items: [[{ type: 'text', text: 'Leave at 8' }]] },
+      { type: 'paragraph', lines: [[{ type: 'text', text: 'Done.' }]] },
+    ]);
+  });
+});
+
+describe('getNotesPreview', () => {
+  it('shows the first line without formatting', () => {
+    expect(getNotesPreview('\n- **Bring** the [form](https://example.com)\nSecond line')).toBe('Bring the form');
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { Task } from '../../types';
+import {
+  expandRecurringTasks,
+  getNextOpenOccurrenceDate,
+  getOccurrenceId,
+  getVirtualOccurrences,
+  parseOccurrenceId,
+  resolveTask,
+} from '../recurrenceExpansion';
+
+const createSeries = (overrides: Partial<Task> = {}): Task => ({
+  id: 'series-row',
+  title: 'Water plants',
+  dueDate: '2025-01-06',
+  completed: false,
+  subtasks: [{ id: 's1', text: 'Ferns', completed: false }],
+  tags: ['home'],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  lastModified: '2025-01-01T00:00:00.000Z',
+  recurrence: 'weekly',
+  recurrenceGroupId: 'plants',
+  isLastInstance: false,
+  autoRenew: false,
+  isSeries: true,
+  seriesOpenFrom: '2025-01-06',
+  ...overrides,
+});
+
+const createException = (date: string, overrides: Partial<Task> = {}): Task => ({
+  ...createSeries(),
+  id: `exception-${date}`,
+  dueDate: date,
+  isSeries: undefined,
+  seriesOpenFrom: undefined,
+  occurrenceDate: date,
+  ...overrides,
+});
+
+describe('recurrenceExpansion', () => {
+  describe('getVirtualOccurrences', () => {
+    it('expands only the occurrences within the range', () => {
+      const occurrences = getVirtualOccurrences([createSeries()], { start: '2025-01-10', end: '2025-01-31' });
+
+      expect(occurrences.map(t => t.dueDate)).toEqual(['2025-01-13', '2025-01-20', '2025-01-27']);
+      expect(occurrences[0].id).toBe(getOccurrenceId('plants', '2025-01-13'));
+      expect(occurrences[0].occurrenceDate).toBe('2025-01-13');
+      expect(occurrences[0].isSeries).toBeUndefined();
+    });
+
+    it('leaves out dates that have an exception row and dates before the open date', () => {
+      const tasks = [
+        createSeries({ seriesOpenFrom: '2025-01-13' }),
+        createException('2025-01-20', { dueDate: '2025-01-22' }),
+      ];
+
+      const occurrences = getVirtualOccurrences(tasks, { start: '2025-01-01', end: '2025-01-27' });
+
+      expect(occurrences.map(t => t.dueDate)).toEqual(['2025-01-13', '2025-01-27']);
+    });
+
+    it('stops at the end date and marks the final occurrence', () => {
+      const occurrences = getVirtualOccurrences(
+        [createSeries({ recurrenceEndDate: '2025-01-20' })],
+        { start: '2025-01-01', end: '2025-12-31' }
+      );
+
+      expect(occurrences.map(t => t.dueDate)).toEqual(['2025-01-06', '2025-01-13', '2025-01-20']);
+      expect(occurrences.map(t => t.isLastInstance)).toEqual([false, false, true]);
+    });
+
+    it('does not mark the last occurrence of a range as final while the series continues', () => {
+      const occurrences = getVirtualOccurrences(
+        [createSeries({ recurrenceEndDate: '2025-01-27' })],
+        { start: '2025-01-01', end: '2025-01-20' }
+      );
+
+      expect(occurrences.map(t => t.isLastInstance)).toEqual([false, false, false]);
+    });
+
+    it('expands ranges far from the series start', () => {
+      const occurrences = getVirtualOccurrences(
+        [createSeries({ recurrence: 'daily' })],
+        { start: '2027-03-01', end: '2027-03-03' }
+      );
+
+      expect(occurrences.map(t => t.dueDate)).toEqual(['2027-03-01', '2027-03-02', '2027-03-03']);
+    });
+
+    it('limits open-ended expansion', () => {
+      const occurrences = getVirtualOccurrences([createSeries({ recurrence: 'daily' })], { limit: 4 });
+
+      expect(occurrences.map(t => t.dueDate)).toEqual(['2025-01-06', '2025-01-07', '2025-01-08', '2025-01-09']);
+    });
+
+    it('has a single open occurrence for completion-based series', () => {
+      const tasks = [createSeries({ recurrenceFromCompletion: true, seriesOpenFrom: '2025-02-03' })];
+
+      expect(getVirtualOccurrences(tasks, { limit: 10 }).map(t => t.dueDate)).toEqual(['2025-02-03']);
+      expect(getVirtualOccurrences(tasks, { start: '2025-02-04', end: '2025-02-28' })).toEqual([]);
+    });
+  });
+
+  describe('expandRecurringTasks', () => {
+    it('replaces series rows with their occurrences and keeps stored tasks', () => {
+      const exception = createException('2025-01-06', { completed: true });
+      const expanded = expandRecurringTasks([createSeries(), exception], { start: '2025-01-06', end: '2025-01-13' });
+
+      expect(expanded.some(t => t.isSeries)).toBe(false);
+      expect(expanded.map(t => t.dueDate)).toEqual(['2025-01-06', '2025-01-13']);
+      expect(expanded[0]).toBe(exception);
+    });
+
+    it('hides every open occurrence of a paused series', () => {
+      const completed = createException('2025-01-06', { completed: true });
+      const open = createException('2025-01-13');
+      const expanded = expandRecurringTasks(
+        [createSeries({ pausedFrom: '2025-01-10' }), completed, open],
+        { start: '2025-01-01', end: '2025-01-31' }
+      );
+
+      expect(expanded).toEqual([completed]);
+    });
+  });
+
+  describe('resolveTask', () => {
+    it('resolves virtual occurrence IDs to a virtual task', () => {
+      const task = resolveTask([createSeries()], getOccurrenceId('plants', '2025-01-20'));
+
+      expect(task?.dueDate).toBe('2025-01-20');
+      expect(task?.subtasks[0].completed).toBe(false);
+    });
+
+    it('resolves a virtual ID to its exception row once stored', () => {
+      const exception = createException('2025-01-20');
+
+      expect(resolveTask([createSeries(), exception], getOccurrenceId('plants', '2025-01-20'))).toBe(exception);
+    });
+
+    it('does not resolve dates that are not in the series', () => {
+      expect(resolveTask([createSeries()], getOccurrenceId('plants', '2025-01-21'))).toBeUndefined();
+      expect(resolveTask([createSeries()], 'unknown-id')).toBeUndefined();
+    });
+  });
+
+  describe('parseOccurrenceId', () => {
+    it('splits virtual IDs and ignores stored IDs', () => {
+      expect(parseOccurrenceId(getOccurrenceId('plants', '2025-01-20'))).toEqual({
+        recurrenceGroupId: 'plants',
+        date: '2025-01-20',
+      });
+      expect(parseOccurrenceId('series-row')).toBeNull();
+    });
+  });
+
+  describe('getNextOpenOccurrenceDate', () => {
+    it('skips occurrences that are stored as exception rows', () => {
+      const series = createSeries();
+      const tasks = [series, createException('2025-01-06'), createException('2025-01-13')];
+
+      expect(getNextOpenOccurrenceDate(series, tasks)).toBe('2025-01-20');
+    });
+
+    it('returns null once the series has no open occurrence left', () => {
+      const series = createSeries({ recurrenceEndDate: '2025-01-06' });
+
+      expect(getNextOpenOccurrenceDate(series, [series, createException('2025-01-06')])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  copySeriesFrom,
+  createNextCompletionInstance,
+  createRecurringSeries,
+  createRecurringTaskInstances,
+  endSeriesBefore,
+  extendRecurringTaskInstances,
+  isFirstOccurrence,
+  isSeriesEnd,
+  materializeOccurrence,
+  resolveRecurrenceEndDate,
+  resumeSeries,
+} from '../recurringTaskHelpers';
+import { getOccurrenceId, getVirtualOccurrences, resolveTask } from '../recurrenceExpansion';
+
+vi.mock('../supabase', () => ({
+  supabase: {},
+}));
+
+describe('recurringTaskHelpers', () => {
+  describe('createRecurringTaskInstances', () => {
+    it('keeps auto-renewal on the last instance of an open-ended series', () => {
+      const instances = createRecurringTaskInstances({ title: 'Open', recurrence: 'daily' }, '2025-01-01', 'daily', 3);
+
+      expect(instances).toHaveLength(3);
+      expect(instances[2].isLastInstance).toBe(true);
+      expect(instances[2].autoRenew).toBe(true);
+      expect(isSeriesEnd(instances[2])).toBe(false);
+    });
+
+    it('stops at the end date and marks the final instance as the series end', () => {
+      const instances = createRecurringTaskInstances(
+        { title: 'Ends', recurrence: 'weekly', recurrenceEndDate: '2025-01-20' },
+        '2025-01-06',
+        'weekly'
+      );
+
+      expect(instances.map(t => t.dueDate)).toEqual(['2025-01-06', '2025-01-13', '2025-01-20']);
+      expect(isSeriesEnd(instances[2])).toBe(true);
+    });
+
+    it('detects a series that ends exactly at the batch boundary', () => {
+      const instances = createRecurringTaskInstances(
+        { title: 'Boundary', recurrence: 'daily', recurrenceEndDate: '2025-01-03' },
+        '2025-01-01',
+        'daily',
+        3
+      );
+
+      expect(instances).toHaveLength(3);
+      expect(isSeriesEnd(instances[2])).toBe(true);
+    });
+
+    it('does not mark a batch end as the series end when the series continues', () => {
+      const instances = createRecurringTaskInstances(
+        { title: 'Long', recurrence: 'daily', recurrenceEndDate: '2025-12-31' },
+        '2025-01-01',
+        'daily',
+        3
+      );
+
+      expect(instances[2].isLastInstance).toBe(true);
+      expect(isSeriesEnd(instances[2])).toBe(false);
+    });
+  });
+
+  describe('createRecurringSeries', () => {
+    it('creates a single rule row that starts open on the start date', () => {
+      const series = createRecurringSeries(
+        { title: 'Standup', recurrence: 'weekly', byWeekday: [3, 1], tags: ['Work'], recurrenceGroupId: 'standup' },
+        '2025-01-06',
+        'weekly'
+      );
+
+      expect(series?.isSeries).toBe(true);
+      expect(series?.seriesOpenFrom).toBe('2025-01-06');
+      expect(series?.byWeekday).toEqual([1, 3]);
+      expect(series?.tags).toEqual(['work']);
+      expect(getVirtualOccurrences([series!], { start: '2025-01-06', end: '2025-01-12' }).map(t => t.dueDate))
+        .toEqual(['2025-01-06', '2025-01-08']);
+    });
+
+    it('returns null without a recurrence', () => {
+      expect(createRecurringSeries({ title: 'One-off' }, '2025-01-06', null)).toBeNull();
+    });
+  });
+
+  describe('materializeOccurrence', () => {
+    const series = createRecurringSeries({ title: 'Daily', recurrence: 'daily', recurrenceGroupId: 'daily' }, '2025-01-01', 'daily')!;
+
+    it('stores the first open occurrence and moves the open date past it', () => {
+      const occurrence = resolveTask([series], getOccurrenceId('daily', '2025-01-01'))!;
+      const { tasks, task } = materializeOccurrence([series], occurrence);
+
+      expect(task.id).not.toBe(occurrence.id);
+      expect(task.occurrenceDate).toBe('2025-01-01');
+      expect(tasks.find(t => t.isSeries)?.seriesOpenFrom).toBe('2025-01-02');
+      expect(resolveTask(tasks, occurrence.id)).toBe(task);
+    });
+
+    it('keeps the open date when a later occurrence is stored', () => {
+      const occurrence = resolveTask([series], getOccurrenceId('daily', '2025-01-03'))!;
+      const { tasks } = materializeOccurrence([series], occurrence);
+
+      expect(tasks.find(t => t.isSeries)?.seriesOpenFrom).toBe('2025-01-01');
+    });
+
+    it('recognizes the first occurrence of a series', () => {
+      expect(isFirstOccurrence([series], resolveTask([series], getOccurrenceId('daily', '2025-01-01'))!)).toBe(true);
+      expect(isFirstOccurrence([series], resolveTask([series], getOccurrenceId('daily', '2025-01-02'))!)).toBe(false);
+    });
+  });
+
+  describe('endSeriesBefore', () => {
+    it('ends the series the day before and drops the occurrence count', () => {
+      const series = createRecurringSeries(
+        { title: 'Count', recurrence: 'daily', recurrenceCount: 10, recurrenceEndDate: '2025-03-10' },
+        '2025-03-01',
+        'daily'
+      )!;
+
+      const ended = endSeriesBefore(series, '2025-03-01');
+
+      expect(ended.recurrenceEndDate).toBe('2025-02-28');
+      expect(ended.recurrenceCount).toBeUndefined();
+      expect(getVirtualOccurrences([ended], { limit: 10 })).toEqual([]);
+    });
+  });
+
+  describe('copySeriesFrom', () => {
+    it('copies the ended part of a series into a group of its own, with its exception rows', () => {
+      const series = createRecurringSeries(
+        { title: 'Count', recurrence: 'daily', recurrenceCount: 10, recurrenceEndDate: '2025-03-10' },
+        '2025-03-01',
+        'daily'
+      )!;
+      const exceptionRow = { ...series, id: 'moved', isSeries: undefined, occurrenceDate: '2025-03-06', dueDate: '2025-03-07' };
+
+      const [copy, movedRow] = copySeriesFrom(series, '2025-03-05', [exceptionRow]);
+
+      expect(copy.id).not.toBe(series.id);
+      expect(copy.recurrenceGroupId).not.toBe(series.recurrenceGroupId);
+      expect(copy.recurrenceCount).toBeUndefined();
+      expect(movedRow).toMatchObject({ id: 'moved', recurrenceGroupId: copy.recurrenceGroupId, occurrenceDate: '2025-03-06' });
+      expect(getVirtualOccurrences([copy, movedRow], { limit: 10 }).map(t => t.dueDate))
+        .toEqual(['2025-03-05', '2025-03-07', '2025-03-08', '2025-03-09', '2025-03-10']);
+    });
+  });
+
+  describe('resumeSeries', () => {
+    it('picks a fixed schedule up at its first date on or after the resume date', () => {
+      const series = createRecurringSeries({ title: 'Paused', recurrence: 'weekly' }, '2025-01-06', 'weekly')!;
+
+      const resumed = resumeSeries({ ...series, pausedFrom: '2025-01-08' }, '2025-02-05');
+
+      expect(resumed.pausedFrom).toBeUndefined();
+      expect(resumed.recurrenceGroupId).toBe(series.recurrenceGroupId);
+      expect(getVirtualOccurrences([resumed], { limit: 2 }).map(t => t.dueDate)).toEqual(['2025-02-10', '2025-02-17']);
+    });
+
+    it('makes completion-based series due on the resume date', () => {
+      const series = createRecurringSeries(
+        { title: 'Paused', recurrence: 'daily', recurrenceFromCompletion: true },
+        '2025-01-06',
+        'daily'
+      )!;
+
+      const resumed = resumeSeries({ ...series, pausedFrom: '2025-01-06' }, '2025-02-05');
+
+      expect(resumed.seriesOpenFrom).toBe('2025-02-05');
+    });
+  });
+
+  describe('resolveRecurrenceEndDate', () => {
+    it('converts an occurrence count into the date of the last occurrence', () => {
+      const resolved = resolveRecurrenceEndDate(
+        { recurrence: 'weekly', byWeekday: [1, 3], recurrenceCount: 3 },
+        '2025-01-06'
+      );
+
+      expect(resolved.recurrenceEndDate).toBe('2025-01-13');
+    });
+
+    it('drops an occurrence count from a completion-based series instead of keeping an end it never reaches', () => {
+      const resolved = resolveRecurrenceEndDate(
+        { recurrence: 'daily', recurrenceFromCompletion: true, recurrenceCount: 5 },
+        '2025-01-06'
+      );
+
+      expect(resolved.recurrenceCount).toBeUndefined();
+      expect(resolved.recurrenceEndDate).toBeUndefined();
+      expect(resolved.recurrenceFromCompletion).toBe(true);
+    });
+  });
+
+  describe('extendRecurringTaskInstances', () => {
+    it('continues a series up to its end date', () => {
+      const firstBatch = createRecurringTaskInstances(
+        { title: 'Short', recurrence: 'daily', recurrenceGroupId: 'group-1', recurrenceEndDate: '2025-01-05' },
+        '2025-01-01',
+        'daily',
+        3
+      );
+
+      const nextBatch = extendRecurringTaskInstances(firstBatch[0], firstBatch);
+
+      expect(nextBatch.map(t => t.dueDate)).toEqual(['2025-01-04', '2025-01-05']);
+      expect(isSeriesEnd(nextBatch[1])).toBe(true);
+      expect(extendRecurringTaskInstances(nextBatch[0], [...firstBatch, ...nextBatch])).toEqual([]);
+    });
+  });
+
+  describe('completion-based series', () => {
+    it('creates a single open instance without a renewal warning', () => {
+      const instances = createRecurringTaskInstances(
+        { title: 'Water plants', recurrence: 'daily', recurrenceFromCompletion: true },
+        '2025-03-01',
+        'daily'
+      );
+
+      expect(instances).toHaveLength(1);
+      expect(instances[0].isLastInstance).toBe(false);
+      expect(instances[0].recurrenceFromCompletion).toBe(true);
+    });
+
+    it('creates the next instance one interval after completion', () => {
+      const [instance] = createRecurringTaskInstances(
+        {
+          title: 'Water plants',
+          recurrence: 'custom',
+          recurrenceMultiplier: 3,
+          customFrequency: 'daily',
+          recurrenceFromCompletion: true,
+          recurrenceGroupId: 'plants',
+          subtasks: [{ id: 's1', text: 'Ferns', completed: true }],
+        },
+        '2025-03-01',
+        'custom'
+      );
+
+      const next = createNextCompletionInstance({ ...instance, completed: true }, '2025-03-04');
+
+      expect(next?.dueDate).toBe('2025-03-07');
+      expect(next?.recurrenceGroupId).toBe('plants');
+      expect(next?.completed).toBe(false);
+      expect(next?.subtasks[0].completed).toBe(false);
+    });
+
+    it('stops creating instances after the end date', () => {
+      const [instance] = createRecurringTaskInstances(
+        { title: 'Short', recurrence: 'weekly', recurrenceFromCompletion: true, recurrenceEndDate: '2025-03-05' },
+        '2025-03-01',
+        'weekly'
+      );
+
+      expect(createNextCompletionInstance(instance, '2025-03-01')).toBeNull();
+    });
+  });
+});
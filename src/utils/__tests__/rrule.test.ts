@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { formatRRule, parseRRule } from '../rrule';
+import { RecurrenceSettings } from '../../types';
+
+const parseSettings = (text: string, startDate?: string): RecurrenceSettings => {
+  const result = parseRRule(text, startDate);
+  if (!result.ok) {
+    throw new Error(result.errors.join('; '));
+  }
+  return result.value.settings;
+};
+
+describe('rrule', () => {
+  describe('formatRRule', () => {
+    it('formats simple frequencies', () => {
+      expect(formatRRule({ recurrence: 'daily' })).toEqual({ ok: true, value: 'RRULE:FREQ=DAILY' });
+      expect(formatRRule({ recurrence: 'quarterly' })).toEqual({ ok: true, value: 'RRULE:FREQ=MONTHLY;INTERVAL=3' });
+    });
+
+    it('formats custom intervals with weekdays', () => {
+      const result = formatRRule({ recurrence: 'custom', recurrenceMultiplier: 2, customFrequency: 'weekly', byWeekday: [4, 1] });
+
+      expect(result).toEqual({ ok: true, value: 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;WKST=SU' });
+    });
+
+    it('formats monthly rules', () => {
+      expect(formatRRule({ recurrence: 'monthly', monthlyRule: { type: 'nthWeekday', ordinal: -1, weekday: 5 } }))
+        .toEqual({ ok: true, value: 'RRULE:FREQ=MONTHLY;BYDAY=-1FR' });
+      expect(formatRRule({ recurrence: 'monthly', monthlyRule: { type: 'lastDay' } }))
+        .toEqual({ ok: true, value: 'RRULE:FREQ=MONTHLY;BYMONTHDAY=-1' });
+      expect(formatRRule({ recurrence: 'monthly', monthlyRule: { type: 'lastBusinessDay' } }))
+        .toEqual({ ok: true, value: 'RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1' });
+    });
+
+    it('exports the end date, with a DTSTART line when given a start date', () => {
+      const result = formatRRule({ recurrence: 'weekly', recurrenceCount: 3, recurrenceEndDate: '2025-01-20' }, '2025-01-06');
+
+      expect(result).toEqual({
+        ok: true,
+        value: 'DTSTART;VALUE=DATE:20250106\nRRULE:FREQ=WEEKLY;UNTIL=20250120',
+      });
+    });
+
+    it('reports series that repeat after completion', () => {
+      const result = formatRRule({ recurrence: 'daily', recurrenceFromCompletion: true });
+
+      expect(result.ok).toBe(false);
+    });
+  });
+
+  describe('parseRRule', () => {
+    it('parses rules with or without the RRULE prefix', () => {
+      expect(parseSettings('RRULE:FREQ=DAILY')).toEqual(expect.objectContaining({ recurrence: 'daily' }));
+      expect(parseSettings('freq=yearly')).toEqual(expect.objectContaining({ recurrence: 'yearly' }));
+    });
+
+    it('maps intervals onto custom recurrence', () => {
+      expect(parseSettings('FREQ=DAILY;INTERVAL=3')).toEqual(expect.objectContaining({
+        recurrence: 'custom',
+        recurrenceMultiplier: 3,
+        customFrequency: 'daily',
+      }));
+      expect(parseSettings('FREQ=MONTHLY;INTERVAL=3')).toEqual(expect.objectContaining({ recurrence: 'quarterly' }));
+    });
+
+    it('reads weekdays, monthly rules and end conditions', () => {
+      expect(parseSettings('FREQ=WEEKLY;BYDAY=FR,MO,WE;COUNT=10')).toEqual(expect.objectContaining({
+        recurrence: 'weekly',
+        byWeekday: [1, 3, 5],
+        recurrenceCount: 10,
+      }));
+      expect(parseSettings('FREQ=MONTHLY;BYDAY=2TU;UNTIL=20251231T235959Z')).toEqual(expect.objectContaining({
+        monthlyRule: { type: 'nthWeekday', ordinal: 2, weekday: 2 },
+        recurrenceEndDate: '2025-12-31',
+      }));
+      expect(parseSettings('FREQ=MONTHLY;BYSETPOS=-1;BYDAY=FR,TH,WE,TU,MO').monthlyRule)
+        .toEqual({ type: 'lastBusinessDay' });
+      expect(parseSettings('FREQ=MONTHLY;BYMONTHDAY=-1').monthlyRule).toEqual({ type: 'lastDay' });
+    });
+
+    it('reads the start date from a DTSTART line', () => {
+      const result = parseRRule('DTSTART;TZID=Europe/Berlin:20250106T090000\nRRULE:FREQ=MONTHLY;BYMONTHDAY=6');
+
+      expect(result).toEqual({
+        ok: true,
+        value: { settings: expect.objectContaining({ recurrence: 'monthly' }), startDate: '2025-01-06' },
+      });
+    });
+
+    it('round-trips formatted rules', () => {
+      const settings: RecurrenceSettings = {
+        recurrence: 'custom',
+        recurrenceMultiplier: 2,
+        customFrequency: 'monthly',
+        monthlyRule: { type: 'nthWeekday', ordinal: 1, weekday: 1 },
+        recurrenceEndDate: '2026-06-30',
+      };
+      const formatted = formatRRule(settings);
+
+      expect(formatted.ok && parseSettings(formatted.value)).toEqual(expect.objectContaining(settings));
+    });
+
+    it('reports each unsupported rule part', () => {
+      const result = parseRRule('RRULE:FREQ=HOURLY;BYHOUR=9;BYWEEKNO=20\nEXDATE:20250107');
+
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.errors).toEqual(expect.arrayContaining([
+        'EXDATE is not supported',
+        'BYHOUR=9 is not supported',
+        'BYWEEKNO=20 is not supported',
+        'FREQ=HOURLY is not supported (use DAILY, WEEKLY, MONTHLY or YEARLY)',
+      ]));
+    });
+
+    it('rejects rule parts that would change the schedule', () => {
+      expect(parseRRule('FREQ=MONTHLY;BYMONTHDAY=15', '2025-01-06').ok).toBe(false);
+      expect(parseRRule('FREQ=MONTHLY;BYDAY=MO,WE').ok).toBe(false);
+      expect(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,MO;WKST=MO').ok).toBe(false);
+      expect(parseRRule('FREQ=DAILY;COUNT=5;UNTIL=20250110').ok).toBe(false);
+      expect(parseRRule('FREQ=DAILY;INTERVAL=90').ok).toBe(false);
+    });
+
+    it('reports text without a rule', () => {
+      expect(parseRRule('')).toEqual({ ok: false, errors: ['No RRULE found'] });
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { calculateTaskStats, getCompletionHistory } from '../statsUtils';
+import { calculateSeriesAdherence, calculateTaskStats, getCompletionHistory } from '../statsUtils';
 import { Task } from '../../types';
 
 // Helper to create a task with defaults
@@ -125,6 +125,58 @@ describe('statsUtils', () => {
       expect(stats.completionRate).toBe(100);
     });
 
+    it('tells skipped occurrences apart from completed ones', () => {
+      const tasks: Task[] = [
+        createTask({ recurrenceGroupId: 'group-1', completed: true }),
+        createTask({ recurrenceGroupId: 'group-1', completed: true, skipped: true }),
+        createTask({ recurrenceGroupId: 'group-2', completed: true, skipped: true }),
+      ];
+
+      const stats = calculateTaskStats(tasks);
+
+      expect(stats.completedToday).toBe(1);
+      expect(stats.totalSkipped).toBe(2);
+    });
+
+    it('counts open series occurrences before today as overdue', () => {
+      const threeDaysAgo = new Date();
+      threeDaysAgo.setDate(threeDaysAgo.getDate() - 3);
+      const series = createTask({
+        recurrence: 'daily',
+        recurrenceGroupId: 'series-1',
+        dueDate: formatDate(threeDaysAgo),
+        isSeries: true,
+        seriesOpenFrom: formatDate(threeDaysAgo),
+      });
+
+      const stats = calculateTaskStats([series]);
+
+      expect(stats.totalActive).toBe(1);
+      expect(stats.overdueCount).toBe(1);
+    });
+
+    it('counts a series without open occurrences as completed', () => {
+      const series = createTask({
+        recurrence: 'daily',
+        recurrenceGroupId: 'series-1',
+        dueDate: '2025-01-01',
+        recurrenceEndDate: '2025-01-01',
+        isSeries: true,
+      });
+      const exception = createTask({
+        recurrence: 'daily',
+        recurrenceGroupId: 'series-1',
+        dueDate: '2025-01-01',
+        occurrenceDate: '2025-01-01',
+        completed: true,
+      });
+
+      const stats = calculateTaskStats([series, exception]);
+
+      expect(stats.totalActive).toBe(0);
+      expect(stats.totalCompleted).toBe(1);
+    });
+
     it('counts tasks completed this week', () => {
       const now = new Date();
       const todayStr = now.toISOString();
@@ -219,6 +271,80 @@ describe('statsUtils', () => {
     });
   });
 
+  describe('calculateSeriesAdherence', () => {
+    const occurrence = (dueDate: string, overrides: Partial<Task> = {}): Task => createTask({
+      recurrence: 'daily',
+      recurrenceGroupId: 'habit',
+      dueDate,
+      occurrenceDate: dueDate,
+      ...overrides,
+    });
+
+    it('counts completed, missed and skipped occurrences', () => {
+      const tasks: Task[] = [
+        occurrence('2025-01-01', { completed: true, lastModified: '2025-01-01T12:00:00' }),
+        occurrence('2025-01-02'),
+        occurrence('2025-01-03', { completed: true, skipped: true }),
+        occurrence('2999-01-01'), // Not due yet
+        createTask({ completed: true }), // Other task
+      ];
+
+      const adherence = calculateSeriesAdherence(tasks, 'habit');
+
+      expect(adherence.completed).toBe(1);
+      expect(adherence.missed).toBe(1);
+      expect(adherence.skipped).toBe(1);
+      expect(adherence.occurrences.map(o => o.date)).toEqual(['2025-01-03', '2025-01-02', '2025-01-01']);
+    });
+
+    it('tracks streaks, with skipped occurrences not breaking them', () => {
+      const tasks: Task[] = [
+        occurrence('2025-01-01', { completed: true, lastModified: '2025-01-01T12:00:00' }),
+        occurrence('2025-01-02', { completed: true, lastModified: '2025-01-02T12:00:00' }),
+        occurrence('2025-01-03', { completed: true, lastModified: '2025-01-03T12:00:00' }),
+        occurrence('2025-01-04'),
+        occurrence('2025-01-05', { completed: true, lastModified: '2025-01-05T12:00:00' }),
+        occurrence('2025-01-06', { completed: true, skipped: true }),
+        occurrence('2025-01-07', { completed: true, lastModified: '2025-01-07T12:00:00' }),
+      ];
+
+      const adherence = calculateSeriesAdherence(tasks, 'habit');
+
+      expect(adherence.longestStreak).toBe(3);
+      expect(adherence.currentStreak).toBe(2);
+    });
+
+    it('averages lateness over completed occurrences, counting early completions as on time', () => {
+      const tasks: Task[] = [
+        occurrence('2025-01-10', { completed: true, lastModified: '2025-01-13T12:00:00' }),
+        occurrence('2025-01-20', { completed: true, lastModified: '2025-01-18T12:00:00' }),
+        occurrence('2025-01-25', { completed: true, lastModified: '2025-01-26T12:00:00' }),
+      ];
+
+      const adherence = calculateSeriesAdherence(tasks, 'habit');
+
+      expect(adherence.averageLatenessDays).toBeCloseTo(4 / 3);
+      expect(calculateSeriesAdherence([occurrence('2025-01-01')], 'habit').averageLatenessDays).toBeNull();
+    });
+
+    it('counts past open occurrences of a series rule as missed', () => {
+      const threeDaysAgo = new Date();
+      threeDaysAgo.setDate(threeDaysAgo.getDate() - 3);
+      const series = createTask({
+        recurrence: 'daily',
+        recurrenceGroupId: 'habit',
+        dueDate: formatDate(threeDaysAgo),
+        isSeries: true,
+        seriesOpenFrom: formatDate(threeDaysAgo),
+      });
+
+      const adherence = calculateSeriesAdherence([series], 'habit');
+
+      expect(adherence.missed).toBe(3);
+      expect(adherence.currentStreak).toBe(0);
+    });
+  });
+
   describe('getCompletionHistory', () => {
     it('returns correct number of days', () => {
       const history = getCompletionHistory([], 7);
@@ -250,6 +376,12 @@ describe('statsUtils', () => {
       expect(todayEntry.count).toBe(2);
     });
 
+    it('does not count skipped occurrences as completions', () => {
+      const history = getCompletionHistory([createTask({ completed: true, skipped: true })], 1);
+
+      expect(history[0].count).toBe(0);
+    });
+
     it('includes dates in YYYY-MM-DD format', () => {
       const history = getCompletionHistory([], 3);
 
@@ -1,11 +1,12 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { loadTasks, loadIncompleteTasks, loadCompletedTasks } from '../supabaseStorage';
+import { loadTasks, loadIncompleteTasks, loadCompletedTasks, subscribeToTaskChanges } from '../supabaseStorage';
 import { logger } from '../logger';
 
-const { mockGetUser, mockGetSession, mockFrom } = vi.hoisted(() => ({
+const { mockGetUser, mockGetSession, mockFrom, mockChannel } = vi.hoisted(() => ({
   mockGetUser: vi.fn(),
   mockGetSession: vi.fn(),
   mockFrom: vi.fn(),
+  mockChannel: vi.fn(),
 }));
 
 vi.mock('../supabase', () => ({
@@ -15,6 +16,8 @@ vi.mock('../supabase', () => ({
       getSession: mockGetSession,
     },
     from: mockFrom,
+    channel: mockChannel,
+    removeChannel: vi.fn(),
   },
 }));
 
@@ -135,13 +138,14 @@ const setupIncompleteTasksMocks = (batches: DbTask[][]) => {
     return Promise.resolve({ data: batch, error: null });
   });
   const mockOrder = vi.fn().mockReturnValue({ range: mockRange });
-  const mockEqCompleted = vi.fn().mockReturnValue({ order: mockOrder });
+  const mockIsDeleted = vi.fn().mockReturnValue({ order: mockOrder });
+  const mockEqCompleted = vi.fn().mockReturnValue({ is: mockIsDeleted });
   const mockEqUserId = vi.fn().mockReturnValue({ eq: mockEqCompleted });
   const mockSelect = vi.fn().mockReturnValue({ eq: mockEqUserId });
 
   mockFrom.mockReturnValue({ select: mockSelect });
 
-  return { mockSelect, mockEqCompleted, mockRange };
+  return { mockSelect, mockEqCompleted, mockIsDeleted, mockRange };
 };
 
 // Helper to setup mocks for loadCompletedTasks
@@ -154,13 +158,15 @@ const setupCompletedTasksMocks = (data: DbTask[], total: number) => {
   const mockRange = vi.fn().mockResolvedValue({ data, error: null, count: total });
   const mockOrderId = vi.fn().mockReturnValue({ range: mockRange });
   const mockOrderLastModified = vi.fn().mockReturnValue({ order: mockOrderId });
-  const mockEqCompleted = vi.fn().mockReturnValue({ order: mockOrderLastModified });
+  const mockIsOccurrence = vi.fn().mockReturnValue({ order: mockOrderLastModified });
+  const mockIsDeleted = vi.fn().mockReturnValue({ is: mockIsOccurrence });
+  const mockEqCompleted = vi.fn().mockReturnValue({ is: mockIsDeleted });
   const mockEqUserId = vi.fn().mockReturnValue({ eq: mockEqCompleted });
   const mockSelect = vi.fn().mockReturnValue({ eq: mockEqUserId });
 
   mockFrom.mockReturnValue({ select: mockSelect });
 
-  return { mockSelect, mockEqCompleted, mockOrderLastModified, mockOrderId, mockRange };
+  return { mockSelect, mockEqCompleted, mockIsDeleted, mockIsOccurrence, mockOrderLastModified, mockOrderId, mockRange };
 };
 
 describe('loadIncompleteTasks', () => {
@@ -173,12 +179,13 @@ describe('loadIncompleteTasks', () => {
       makeDbTask({ id: 'task-1', completed: false }),
       makeDbTask({ id: 'task-2', completed: false }),
     ];
-    const { mockEqCompleted } = setupIncompleteTasksMocks([incompleteTasks, []]);
+    const { mockEqCompleted, mockIsDeleted } = setupIncompleteTasksMocks([incompleteTasks, []]);
 
     const tasks = await loadIncompleteTasks();
 
     expect(tasks).toHaveLength(2);
     expect(mockEqCompleted).toHaveBeenCalledWith('completed', false);
+    expect(mockIsDeleted).toHaveBeenCalledWith('deleted_at', null);
   });
 
   it('returns empty array when no incomplete tasks exist', async () => {
@@ -251,6 +258,14 @@ describe('loadCompletedTasks', () => {
     expect(result.total).toBe(100);
   });
 
+  it('leaves out completed occurrences of series', async () => {
+    const { mockIsOccurrence } = setupCompletedTasksMocks([], 0);
+
+    await loadCompletedTasks(25, 0);
+
+    expect(mockIsOccurrence).toHaveBeenCalledWith('occurrence_date', null);
+  });
+
   it('handles offset beyond available tasks', async () => {
     setupCompletedTasksMocks([], 50);
 
@@ -282,3 +297,79 @@ describe('loadCompletedTasks', () => {
     expect(result.total).toBe(0);
   });
 });
+
+// Helper to capture the callbacks of a realtime subscription
+const setupChannelMocks = () => {
+  const callbacks: {
+    onPayload?: (payload: Record<string, unknown>) => void;
+    onStatus?: (status: string) => void;
+  } = {};
+  const channel = {
+    on: vi.fn((_type: string, _filter: unknown, callback: (payload: Record<string, unknown>) => void) => {
+      callbacks.onPayload = callback;
+      return channel;
+    }),
+    subscribe: vi.fn((callback: (status: string) => void) => {
+      callbacks.onStatus = callback;
+      return channel;
+    }),
+  };
+  mockChannel.mockReturnValue(channel);
+  return callbacks;
+};
+
+describe('subscribeToTaskChanges', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('passes on inserts, updates and deletes as task changes', () => {
+    const callbacks = setupChannelMocks();
+    const onChange = vi.fn();
+    subscribeToTaskChanges('user-1', { onChange, onResync: vi.fn() });
+
+    const dbTask = makeDbTask({ title: 'Renamed', last_modified: '2024-01-02T00:00:00.000Z' });
+    callbacks.onPayload?.({ eventType: 'UPDATE', table: 'tasks', new: dbTask, old: { id: 'task-1' } });
+    callbacks.onPayload?.({ eventType: 'DELETE', table: 'tasks', new: {}, old: { id: 'task-2' } });
+
+    expect(onChange).toHaveBeenNthCalledWith(1, {
+      type: 'upsert',
+      task: expect.objectContaining({ id: 'task-1', title: 'Renamed', lastModified: '2024-01-02T00:00:00.000Z' }),
+    });
+    expect(onChange).toHaveBeenNthCalledWith(2, { type: 'delete', taskId: 'task-2' });
+  });
+
+  it('passes on moving a task to the trash as a delete', () => {
+    const callbacks = setupChannelMocks();
+    const onChange = vi.fn();
+    subscribeToTaskChanges('user-1', { onChange, onResync: vi.fn() });
+
+    const dbTask = { ...makeDbTask(), deleted_at: '2024-01-02T00:00:00.000Z' };
+    callbacks.onPayload?.({ eventType: 'UPDATE', table: 'tasks', new: dbTask, old: { id: 'task-1' } });
+
+    expect(onChange).toHaveBeenCalledWith({ type: 'delete', taskId: 'task-1' });
+  });
+
+  it('ignores changes for other users', () => {
+    const callbacks = setupChannelMocks();
+    const onChange = vi.fn();
+    subscribeToTaskChanges('user-1', { onChange, onResync: vi.fn() });
+
+    callbacks.onPayload?.({ eventType: 'INSERT', table: 'tasks', new: makeDbTask({ user_id: 'user-2' }), old: {} });
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('asks for a reload after a channel error or a reconnect, but not on first subscribe', () => {
+    const callbacks = setupChannelMocks();
+    const onResync = vi.fn();
+    subscribeToTaskChanges('user-1', { onChange: vi.fn(), onResync });
+
+    callbacks.onStatus?.('SUBSCRIBED');
+    expect(onResync).not.toHaveBeenCalled();
+
+    callbacks.onStatus?.('CHANNEL_ERROR');
+    callbacks.onStatus?.('SUBSCRIBED');
+    expect(onResync).toHaveBeenCalledTimes(2);
+  });
+});
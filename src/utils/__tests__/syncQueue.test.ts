@@ -0,0 +1,285 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Task } from '../../types';
+import type { PendingMutation } from '../localTaskStore';
+import type { TaskRepository } from '../taskRepository';
+
+const { mockLoadPendingMutations, mockSavePendingMutations, mockLoadSyncConflicts, mockSaveSyncConflicts } = vi.hoisted(() => ({
+  mockLoadPendingMutations: vi.fn(),
+  mockSavePendingMutations: vi.fn(),
+  mockLoadSyncConflicts: vi.fn(),
+  mockSaveSyncConflicts: vi.fn(),
+}));
+
+vi.mock('../supabase', () => ({
+  supabase: {},
+}));
+
+vi.mock('../localTaskStore', () => ({
+  loadPendingMutations: mockLoadPendingMutations,
+  savePendingMutations: mockSavePendingMutations,
+  loadSyncConflicts: mockLoadSyncConflicts,
+  saveSyncConflicts: mockSaveSyncConflicts,
+}));
+
+vi.mock('../logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const createTask = (id: string, title = 'Task'): Task => ({
+  id,
+  title,
+  dueDate: null,
+  completed: false,
+  subtasks: [],
+  tags: [],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  lastModified: '2025-01-01T00:00:00.000Z',
+  recurrence: null,
+  recurrenceGroupId: null,
+});
+
+let repository: TaskRepository;
+
+// The queue keeps module-level state, so every test gets a fresh copy
+const importSyncQueue = async () => {
+  vi.resetModules();
+  const { setTaskRepository } = await import('../taskRepository');
+  const { createMemoryTaskRepository } = await import('../memoryTaskRepository');
+  // A network backend, so the queue holds changes while offline
+  repository = { ...createMemoryTaskRepository(), requiresNetwork: true };
+  setTaskRepository(repository);
+  return import('../syncQueue');
+};
+
+describe('appendMutation', () => {
+  it('merges consecutive saves by task ID, keeping the latest version', async () => {
+    const { appendMutation } = await importSyncQueue();
+    const queue = appendMutation(
+      [{ type: 'upsert', tasks: [createTask('a', 'Old'), createTask('b')], changeCount: 1 }],
+      { type: 'upsert', tasks: [createTask('a', 'New')], changeCount: 1 },
+      false
+    );
+
+    expect(queue).toHaveLength(1);
+    const [merged] = queue as Array<Extract<PendingMutation, { type: 'upsert' }>>;
+    expect(merged.tasks.map(t => `${t.id}:${t.title}`)).toEqual(['a:New', 'b:Task']);
+    expect(merged.changeCount).toBe(2);
+  });
+
+  it('merges consecutive deletes', async () => {
+    const { appendMutation } = await importSyncQueue();
+    const queue = appendMutation(
+      [{ type: 'delete', taskIds: ['a', 'b'], changeCount: 1 }],
+      { type: 'delete', taskIds: ['b', 'c'], changeCount: 1 },
+      false
+    );
+
+    expect(queue).toEqual([{ type: 'delete', taskIds: ['a', 'b', 'c'], changeCount: 2 }]);
+  });
+
+  it('drops deleted tasks from a preceding save', async () => {
+    const { appendMutation } = await importSyncQueue();
+    const queue = appendMutation(
+      [{ type: 'upsert', tasks: [createTask('a'), createTask('b')], changeCount: 1 }],
+      { type: 'delete', taskIds: ['a'], changeCount: 1 },
+      false
+    );
+
+    expect(queue).toEqual([
+      { type: 'upsert', tasks: [createTask('b')], changeCount: 1 },
+      { type: 'delete', taskIds: ['a'], changeCount: 1 },
+    ]);
+  });
+
+  it('keeps a save after a delete in order, so restoring a task still works', async () => {
+    const { appendMutation } = await importSyncQueue();
+    const queue = appendMutation(
+      [{ type: 'delete', taskIds: ['a'], changeCount: 1 }],
+      { type: 'upsert', tasks: [createTask('a')], changeCount: 1 },
+      false
+    );
+
+    expect(queue.map(m => m.type)).toEqual(['delete', 'upsert']);
+  });
+
+  it('never merges into the change being sent', async () => {
+    const { appendMutation } = await importSyncQueue();
+    const queue = appendMutation(
+      [{ type: 'upsert', tasks: [createTask('a')], changeCount: 1 }],
+      { type: 'upsert', tasks: [createTask('b')], changeCount: 1 },
+      true
+    );
+
+    expect(queue).toHaveLength(2);
+  });
+});
+
+describe('sync queue', () => {
+  let isOnline: boolean;
+
+  beforeEach(() => {
+    isOnline = true;
+    vi.spyOn(navigator, 'onLine', 'get').mockImplementation(() => isOnline);
+    mockLoadPendingMutations.mockReset().mockResolvedValue([]);
+    mockSavePendingMutations.mockReset().mockResolvedValue(undefined);
+    mockLoadSyncConflicts.mockReset().mockResolvedValue([]);
+    mockSaveSyncConflicts.mockReset().mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('sends changes straight away when online', async () => {
+    const { setSyncUser, queueTaskSaves, getSyncStatus } = await importSyncQueue();
+    await setSyncUser('user-1');
+
+    await queueTaskSaves([createTask('a')]);
+
+    expect(await repository.loadIncompleteTasks()).toEqual([createTask('a')]);
+    expect(getSyncStatus()).toEqual({ isOnline: true, pendingCount: 0, conflicts: [] });
+    expect(mockSavePendingMutations).toHaveBeenLastCalledWith('user-1', []);
+  });
+
+  it('keeps changes made offline and replays them in order once online', async () => {
+    const { setSyncUser, queueTaskSaves, queueTaskDeletes, flushSyncQueue, getSyncStatus } = await importSyncQueue();
+    await setSyncUser('user-1');
+    await queueTaskSaves([createTask('a', 'Original')]);
+    isOnline = false;
+
+    // Deleting and then restoring only works if the delete is sent first
+    await queueTaskDeletes(['a']);
+    await queueTaskSaves([createTask('a', 'Restored')]);
+
+    expect(await repository.loadIncompleteTasks()).toEqual([createTask('a', 'Original')]);
+    expect(getSyncStatus()).toMatchObject({ isOnline: false, pendingCount: 2 });
+
+    isOnline = true;
+
+    expect(await flushSyncQueue()).toBe(true);
+    expect(await repository.loadIncompleteTasks()).toEqual([createTask('a', 'Restored')]);
+    expect(getSyncStatus().pendingCount).toBe(0);
+  });
+
+  it('stops at a failed change and keeps it and everything after it', async () => {
+    const { setSyncUser, queueTaskSaves, queueTaskDeletes, flushSyncQueue, getSyncStatus } = await importSyncQueue();
+    await setSyncUser('user-1');
+    isOnline = false;
+    await queueTaskSaves([createTask('a')]);
+    await queueTaskDeletes(['b']);
+    isOnline = true;
+
+    vi.spyOn(repository, 'saveTasks').mockRejectedValueOnce(new Error('Network error'));
+    const deleteTasks = vi.spyOn(repository, 'deleteTasks');
+
+    expect(await flushSyncQueue()).toBe(false);
+    expect(deleteTasks).not.toHaveBeenCalled();
+    expect(getSyncStatus().pendingCount).toBe(2);
+
+    expect(await flushSyncQueue()).toBe(true);
+    expect(deleteTasks).toHaveBeenCalledWith(['b']);
+  });
+
+  it('merges in edits made elsewhere since the version a change was made from', async () => {
+    const { setSyncUser, queueTaskSaves, subscribeMergedTasks } = await importSyncQueue();
+    await setSyncUser('user-1');
+    const base = createTask('a', 'Original');
+    await repository.saveTasks([{ ...base, title: 'Renamed elsewhere', lastModified: '2025-01-02T00:00:00.000Z' }]);
+    const onMerged = vi.fn();
+    subscribeMergedTasks(onMerged);
+
+    const local = { ...base, completed: true, lastModified: '2025-01-03T00:00:00.000Z' };
+    await queueTaskSaves([local], { a: base });
+
+    const [stored] = await repository.loadTasksByIds(['a']);
+    expect(stored.title).toBe('Renamed elsewhere');
+    expect(stored.completed).toBe(true);
+    expect(onMerged).toHaveBeenCalledWith([{ local, merged: stored }]);
+  });
+
+  it('merges again when an edit elsewhere lands while a change is being saved', async () => {
+    const { setSyncUser, queueTaskSaves } = await importSyncQueue();
+    await setSyncUser('user-1');
+    const base = createTask('a', 'Original');
+    await repository.saveTasks([{ ...base, title: 'Renamed elsewhere', lastModified: '2025-01-02T00:00:00.000Z' }]);
+    // The first check still sees the version the change was made from
+    const loadTasksByIds = vi.spyOn(repository, 'loadTasksByIds').mockResolvedValueOnce([base]);
+
+    await queueTaskSaves([{ ...base, completed: true, lastModified: '2025-01-03T00:00:00.000Z' }], { a: base });
+
+    expect(loadTasksByIds).toHaveBeenCalledTimes(2);
+    const [stored] = await repository.loadTasksByIds(['a']);
+    expect(stored.title).toBe('Renamed elsewhere');
+    expect(stored.completed).toBe(true);
+  });
+
+  it('holds back a change that conflicts with an edit made elsewhere', async () => {
+    const { setSyncUser, queueTaskSaves, getSyncStatus, dismissSyncConflict } = await importSyncQueue();
+    await setSyncUser('user-1');
+    const base = createTask('a', 'Original');
+    await repository.saveTasks([{ ...base, title: 'Theirs', lastModified: '2025-01-02T00:00:00.000Z' }]);
+
+    await queueTaskSaves([{ ...base, title: 'Mine' }], { a: base });
+
+    const [stored] = await repository.loadTasksByIds(['a']);
+    expect(stored.title).toBe('Theirs');
+    expect(getSyncStatus().pendingCount).toBe(0);
+    expect(getSyncStatus().conflicts).toHaveLength(1);
+    expect(getSyncStatus().conflicts[0].fields).toEqual(['title']);
+
+    dismissSyncConflict('a');
+    expect(getSyncStatus().conflicts).toEqual([]);
+    expect(mockSaveSyncConflicts).toHaveBeenLastCalledWith('user-1', []);
+  });
+
+  it('keeps a held-back change across a reload until it is resolved', async () => {
+    const first = await importSyncQueue();
+    await first.setSyncUser('user-1');
+    const base = createTask('a', 'Original');
+    await repository.saveTasks([{ ...base, title: 'Theirs', lastModified: '2025-01-02T00:00:00.000Z' }]);
+    await first.queueTaskSaves([{ ...base, title: 'Mine' }], { a: base });
+
+    // The change has left the queue, but the conflict holding it is stored
+    expect(mockSavePendingMutations).toHaveBeenLastCalledWith('user-1', []);
+    const [userId, storedConflicts] = mockSaveSyncConflicts.mock.lastCall!;
+    expect(userId).toBe('user-1');
+
+    // A new page load restores the conflict with the edit that was held back
+    mockLoadSyncConflicts.mockResolvedValue(storedConflicts);
+    const second = await importSyncQueue();
+    await second.setSyncUser('user-1');
+
+    expect(second.getSyncStatus().conflicts.map(conflict => conflict.local.title)).toEqual(['Mine']);
+  });
+
+  it('records what a save changed in the task history', async () => {
+    const { setSyncUser, queueTaskSaves } = await importSyncQueue();
+    await setSyncUser('user-1');
+    const base = createTask('a', 'Original');
+    await repository.saveTasks([base]);
+
+    await queueTaskSaves([{ ...base, title: 'Renamed', lastModified: '2025-01-02T00:00:00.000Z' }], { a: base });
+
+    const history = await repository.loadTaskHistory('a');
+    expect(history).toHaveLength(1);
+    expect(history[0].changes).toEqual({ title: { from: 'Original', to: 'Renamed' } });
+  });
+
+  it('restores the changes a user left pending', async () => {
+    mockLoadPendingMutations.mockResolvedValue([
+      { type: 'upsert', tasks: [createTask('a')], changeCount: 3 },
+    ]);
+    isOnline = false;
+    const { setSyncUser, getSyncStatus } = await importSyncQueue();
+
+    await setSyncUser('user-1');
+
+    expect(mockLoadPendingMutations).toHaveBeenCalledWith('user-1');
+    expect(getSyncStatus()).toMatchObject({ isOnline: false, pendingCount: 3 });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { createHistoryEntries, diffTaskVersions, getDeviceName, getTaskVersionAt } from '../taskHistory';
+import { Task, TaskHistoryEntry } from '../../types';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Pay rent',
+  dueDate: '2025-03-01',
+  completed: false,
+  subtasks: [],
+  tags: ['home'],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  lastModified: '2025-01-01T00:00:00.000Z',
+  recurrence: null,
+  recurrenceGroupId: null,
+  ...overrides,
+});
+
+const createEntry = (changes: TaskHistoryEntry['changes'], changedAt: string): TaskHistoryEntry => ({
+  id: changedAt,
+  taskId: 'task-1',
+  changedAt,
+  deviceId: 'device-1',
+  deviceName: 'Chrome on macOS',
+  changes,
+});
+
+describe('getDeviceName', () => {
+  it('names the browser and operating system', () => {
+    expect(getDeviceName('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'))
+      .toBe('Chrome on macOS');
+    expect(getDeviceName('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'))
+      .toBe('Safari on iOS');
+    expect(getDeviceName('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0'))
+      .toBe('Edge on Windows');
+    expect(getDeviceName('')).toBe('Browser');
+  });
+});
+
+describe('diffTaskVersions', () => {
+  it('records only the tracked fields that changed', () => {
+    const before = createTask();
+    const after = createTask({ dueDate: '2025-03-04', lastModified: '2025-01-02T00:00:00.000Z', recurrence: 'weekly' });
+
+    expect(diffTaskVersions(before, after)).toEqual({ dueDate: { from: '2025-03-01', to: '2025-03-04' } });
+  });
+});
+
+describe('createHistoryEntries', () => {
+  it('creates entries only for changed tasks that replaced a stored version', () => {
+    const moved = createTask({ dueDate: '2025-03-04', lastModified: '2025-01-02T00:00:00.000Z' });
+    const untouched = createTask({ id: 'task-2' });
+    const added = createTask({ id: 'task-3' });
+    const previousVersions = new Map([[moved.id, createTask()], [untouched.id, untouched]]);
+
+    const entries = createHistoryEntries([moved, untouched, added], previousVersions);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      taskId: 'task-1',
+      changedAt: '2025-01-02T00:00:00.000Z',
+      changes: { dueDate: { from: '2025-03-01', to: '2025-03-04' } },
+    });
+    expect(entries[0].deviceId).toBeTruthy();
+  });
+});
+
+describe('getTaskVersionAt', () => {
+  const current = createTask({ title: 'Pay rent today', dueDate: '2025-03-04', completed: true });
+  const entries = [
+    createEntry({ dueDate: { from: '2025-03-01', to: '2025-03-04' } }, '2025-01-02T00:00:00.000Z'),
+    createEntry({ title: { from: 'Pay rent', to: 'Pay rent today' } }, '2025-01-03T00:00:00.000Z'),
+    createEntry({ completed: { from: false, to: true } }, '2025-01-04T00:00:00.000Z'),
+  ];
+
+  it('rebuilds the state right after an entry', () => {
+    expect(getTaskVersionAt(entries, 1, current)).toEqual({
+      title: 'Pay rent today',
+      dueDate: '2025-03-04',
+      completed: false,
+      subtasks: [],
+      tags: ['home'],
+    });
+  });
+
+  it('rebuilds the state before the first entry', () => {
+    expect(getTaskVersionAt(entries, -1, current)).toMatchObject({
+      title: 'Pay rent',
+      dueDate: '2025-03-01',
+      completed: false,
+    });
+  });
+});
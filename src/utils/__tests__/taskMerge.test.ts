@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { hasVersionChanged, mergeTaskVersions, resolveTaskConflict } from '../taskMerge';
+import { Task } from '../../types';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Buy groceries',
+  dueDate: '2025-01-15',
+  completed: false,
+  subtasks: [
+    { id: 'st-1', text: 'Milk', completed: false },
+    { id: 'st-2', text: 'Bread', completed: false },
+  ],
+  tags: ['home'],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  lastModified: '2025-01-01T00:00:00.000Z',
+  recurrence: null,
+  recurrenceGroupId: null,
+  ...overrides,
+});
+
+describe('hasVersionChanged', () => {
+  it('compares timestamps as instants', () => {
+    const base = createTask({ lastModified: '2025-01-01T00:00:00.000Z' });
+
+    expect(hasVersionChanged(base, createTask({ lastModified: '2025-01-01T00:00:00+00:00' }))).toBe(false);
+    expect(hasVersionChanged(base, createTask({ lastModified: '2025-01-01T00:00:01.000Z' }))).toBe(true);
+  });
+});
+
+describe('mergeTaskVersions', () => {
+  it('keeps a rename on one device and a ticked subtask on the other', () => {
+    const base = createTask();
+    const local = createTask({
+      subtasks: [
+        { id: 'st-1', text: 'Milk', completed: true },
+        { id: 'st-2', text: 'Bread', completed: false },
+      ],
+      lastModified: '2025-01-02T00:00:00.000Z',
+    });
+    const remote = createTask({ title: 'Buy groceries for the week', lastModified: '2025-01-02T00:00:05.000Z' });
+
+    const { merged, conflictingFields } = mergeTaskVersions(base, local, remote);
+
+    expect(conflictingFields).toEqual([]);
+    expect(merged.title).toBe('Buy groceries for the week');
+    expect(merged.subtasks[0].completed).toBe(true);
+    expect(merged.lastModified).not.toBe(remote.lastModified);
+  });
+
+  it('reports fields changed differently on both sides, keeping this device\'s value', () => {
+    const base = createTask();
+    const local = createTask({ title: 'Local title', tags: ['home', 'errands'] });
+    const remote = createTask({ title: 'Remote title', dueDate: '2025-01-20' });
+
+    const { merged, conflictingFields } = mergeTaskVersions(base, local, remote);
+
+    expect(conflictingFields).toEqual(['title']);
+    expect(merged.title).toBe('Local title');
+    expect(merged.tags).toEqual(['home', 'errands']);
+    expect(merged.dueDate).toBe('2025-01-20');
+  });
+
+  it('does not report a field both sides changed the same way', () => {
+    const base = createTask();
+    const local = createTask({ completed: true });
+    const remote = createTask({ completed: true });
+
+    expect(mergeTaskVersions(base, local, remote).conflictingFields).toEqual([]);
+  });
+});
+
+describe('resolveTaskConflict', () => {
+  it('applies the chosen side per field, defaulting to this device', () => {
+    const base = createTask();
+    const local = createTask({ title: 'Local title', dueDate: '2025-01-16' });
+    const remote = createTask({ title: 'Remote title', dueDate: '2025-01-17' });
+    const { merged, conflictingFields } = mergeTaskVersions(base, local, remote);
+
+    const resolved = resolveTaskConflict({ merged, local, remote, fields: conflictingFields }, { dueDate: 'remote' });
+
+    expect(resolved.title).toBe('Local title');
+    expect(resolved.dueDate).toBe('2025-01-17');
+  });
+});
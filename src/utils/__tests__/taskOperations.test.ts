@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import { format, subDays } from 'date-fns';
+import { getCalendarTodayDate } from '../calendarDay';
+import {
+  applyRemoteTaskChange,
+  getChangedTasks,
+  getDaysUntilPurge,
+  getExpiredTrashTasks,
+  getTodayTasks,
+  groupTrashedTasks,
+  moveTasksToTrash,
+  restoreTasksFromTrash,
+} from '../taskOperations';
+import { Task } from '../../types';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Test Task',
+  dueDate: null,
+  completed: false,
+  subtasks: [],
+  tags: [],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  lastModified: '2025-01-01T00:00:00.000Z',
+  recurrence: null,
+  recurrenceGroupId: null,
+  ...overrides,
+});
+
+describe('getChangedTasks', () => {
+  it('returns only updated and new tasks', () => {
+    const unchanged = createTask({ id: 'unchanged' });
+    const original = createTask({ id: 'updated' });
+    const persisted = new Map([[unchanged.id, unchanged], [original.id, original]]);
+
+    const updated = { ...original, completed: true };
+    const added = createTask({ id: 'added' });
+
+    expect(getChangedTasks([unchanged, updated, added], persisted)).toEqual([updated, added]);
+  });
+
+  it('returns nothing when the list is as persisted', () => {
+    const tasks = [createTask({ id: 'a' }), createTask({ id: 'b' })];
+    const persisted = new Map(tasks.map(task => [task.id, task]));
+
+    expect(getChangedTasks(tasks, persisted)).toEqual([]);
+  });
+});
+
+describe('getTodayTasks', () => {
+  it('lists tasks due on the day by priority, highest first', () => {
+    const tasks = [
+      createTask({ id: 'a', title: 'No priority', dueDate: '2025-03-05' }),
+      createTask({ id: 'b', title: 'Low', dueDate: '2025-03-05', priority: 'low' }),
+      createTask({ id: 'c', title: 'Urgent', dueDate: '2025-03-05', priority: 'urgent' }),
+      createTask({ id: 'd', title: 'Other day', dueDate: '2025-03-06', priority: 'urgent' }),
+      createTask({ id: 'e', title: 'Also no priority', dueDate: '2025-03-05', priority: 'none' }),
+    ];
+
+    const todayTasks = getTodayTasks(
+      tasks,
+      new Date(2025, 2, 5),
+      () => false,
+      () => false,
+      date => format(date, 'yyyy-MM-dd')
+    );
+
+    expect(todayTasks.map(task => task.title)).toEqual(['Urgent', 'Low', 'No priority', 'Also no priority']);
+  });
+
+  it('shows only the earliest missed occurrence of a series', () => {
+    const today = getCalendarTodayDate();
+    const tenDaysAgo = format(subDays(today, 10), 'yyyy-MM-dd');
+    const series = createTask({
+      id: 'series',
+      title: 'Water plants',
+      dueDate: tenDaysAgo,
+      recurrence: 'daily',
+      recurrenceGroupId: 'group',
+      isSeries: true,
+      seriesOpenFrom: tenDaysAgo,
+    });
+    const todayStr = format(today, 'yyyy-MM-dd');
+
+    const todayTasks = getTodayTasks(
+      [series],
+      today,
+      date => date === todayStr,
+      date => date < todayStr,
+      date => format(date, 'yyyy-MM-dd')
+    );
+
+    expect(todayTasks.map(task => task.dueDate)).toEqual([todayStr, tenDaysAgo]);
+  });
+});
+
+describe('applyRemoteTaskChange', () => {
+  it('adds new tasks and replaces updated ones', () => {
+    const tasks = [createTask({ id: 'a' }), createTask({ id: 'b' })];
+    const updated = createTask({ id: 'b', title: 'Renamed', lastModified: '2025-01-02T00:00:00.000Z' });
+    const added = createTask({ id: 'c' });
+
+    const withUpdate = applyRemoteTaskChange(tasks, { type: 'upsert', task: updated });
+    expect(withUpdate).toEqual([tasks[0], updated]);
+    expect(applyRemoteTaskChange(withUpdate, { type: 'upsert', task: added })).toEqual([tasks[0], updated, added]);
+  });
+
+  it('ignores an update older than the local task', () => {
+    const tasks = [createTask({ lastModified: '2025-01-02T00:00:00.000Z' })];
+    const stale = createTask({ title: 'Old title', lastModified: '2025-01-01T00:00:00.000Z' });
+
+    expect(applyRemoteTaskChange(tasks, { type: 'upsert', task: stale })).toBe(tasks);
+  });
+
+  it('removes deleted tasks, leaving the list alone for unknown IDs', () => {
+    const tasks = [createTask({ id: 'a' }), createTask({ id: 'b' })];
+
+    expect(applyRemoteTaskChange(tasks, { type: 'delete', taskId: 'a' })).toEqual([tasks[1]]);
+    expect(applyRemoteTaskChange(tasks, { type: 'delete', taskId: 'missing' })).toBe(tasks);
+  });
+});
+
+describe('trash', () => {
+  const now = new Date('2025-02-01T12:00:00.000Z');
+
+  it('moves tasks to the trash and back', () => {
+    const [trashed] = moveTasksToTrash([createTask()], '2025-01-20T00:00:00.000Z');
+    expect(trashed.deletedAt).toBe('2025-01-20T00:00:00.000Z');
+    expect(trashed.lastModified).toBe('2025-01-20T00:00:00.000Z');
+
+    const [restored] = restoreTasksFromTrash([trashed], '2025-01-21T00:00:00.000Z');
+    expect(restored.deletedAt).toBeUndefined();
+    expect(restored.lastModified).toBe('2025-01-21T00:00:00.000Z');
+  });
+
+  it('finds tasks kept in the trash past the retention period', () => {
+    const recent = createTask({ id: 'recent', deletedAt: '2025-01-20T00:00:00.000Z' });
+    const expired = createTask({ id: 'expired', deletedAt: '2024-12-31T00:00:00.000Z' });
+
+    expect(getExpiredTrashTasks([recent, expired], 30, now)).toEqual([expired]);
+    expect(getExpiredTrashTasks([recent, expired], 7, now)).toEqual([recent, expired]);
+  });
+
+  it('counts the days left before a trashed task is removed', () => {
+    expect(getDaysUntilPurge('2025-01-31T12:00:00.000Z', 30, now)).toBe(29);
+    expect(getDaysUntilPurge('2024-12-01T00:00:00.000Z', 30, now)).toBe(0);
+  });
+
+  it('groups the rows of a deleted recurring series, named after the series row', () => {
+    const single = createTask({ id: 'single', deletedAt: '2025-01-10T00:00:00.000Z' });
+    const exception = createTask({
+      id: 'exception',
+      title: 'Renamed occurrence',
+      recurrence: 'weekly',
+      recurrenceGroupId: 'group-1',
+      deletedAt: '2025-01-20T00:00:00.000Z',
+    });
+    const series = createTask({
+      id: 'series',
+      title: 'Water plants',
+      recurrence: 'weekly',
+      recurrenceGroupId: 'group-1',
+      isSeries: true,
+      deletedAt: '2025-01-20T00:00:00.000Z',
+    });
+
+    const entries = groupTrashedTasks([single, exception, series]);
+
+    expect(entries.map(e => [e.id, e.title, e.tasks.length, e.isRecurring])).toEqual([
+      ['group-1', 'Water plants', 2, true],
+      ['single', 'Test Task', 1, false],
+    ]);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { compareByPriority, groupTasksByTag } from '../taskUtils';
+import { Task } from '../../types';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Test Task',
+  dueDate: null,
+  completed: false,
+  subtasks: [],
+  tags: [],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  lastModified: '2025-01-01T00:00:00.000Z',
+  recurrence: null,
+  recurrenceGroupId: null,
+  ...overrides,
+});
+
+describe('compareByPriority', () => {
+  it('puts higher priorities first and treats a missing priority as none', () => {
+    const tasks = [
+      createTask({ id: 'none' }),
+      createTask({ id: 'medium', priority: 'medium' }),
+      createTask({ id: 'urgent', priority: 'urgent' }),
+      createTask({ id: 'low', priority: 'low' }),
+      createTask({ id: 'high', priority: 'high' }),
+    ];
+
+    expect([...tasks].sort(compareByPriority).map(task => task.id)).toEqual(['urgent', 'high', 'medium', 'low', 'none']);
+    expect(compareByPriority(createTask(), createTask({ priority: 'none' }))).toBe(0);
+  });
+});
+
+describe('groupTasksByTag', () => {
+  it('groups by first tag, untagged last, with tasks by priority', () => {
+    const { grouped, sortedTags } = groupTasksByTag([
+      createTask({ id: '1', tags: ['work'] }),
+      createTask({ id: '2' }),
+      createTask({ id: '3', tags: ['Home'] }),
+      createTask({ id: '4', tags: ['work'], priority: 'high' }),
+      createTask({ id: '5', tags: ['work'] }),
+    ]);
+
+    expect(sortedTags).toEqual(['home', 'work', 'untagged']);
+    expect(grouped.work.map(task => task.id)).toEqual(['4', '1', '5']);
+  });
+});
@@ -0,0 +1,387 @@
+/**
+ * @fileoverview Backups of all of a user's data.
+ *
+ * A backup is a versioned JSON file with every task (open, completed and in the trash), the tag
+ * colors and the settings. Importing one validates it first, gives its tasks UUIDs where needed,
+ * and either merges it into the existing data or replaces the existing data with it.
+ */
+
+import { MonthlyRule, RecurrenceType, Subtask, Task, TASK_PRIORITIES, TaskPriority, UserSettings } from '../types';
+import { getTaskRepository, TaskRepository } from './taskRepository';
+import { remapTaskIds } from './supabaseStorage';
+import { isTimeOfDay } from './daySchedule';
+import { BaseFrequency, isObject, MAX_MULTIPLIER } from './importUtils';
+import { queueTaskDeletes, queueTaskSaves } from './syncQueue';
+import { logger } from './logger';
+
+export const BACKUP_FORMAT = 'riley-task-app-backup';
+export const BACKUP_VERSION = 1;
+
+const COMPLETED_TASKS_PAGE_SIZE = 500;
+const MAX_REPORTED_ERRORS = 10;
+const RECURRENCE_TYPES: RecurrenceType[] = ['daily', 'weekly', 'monthly', 'quarterly', 'yearly', 'custom', null];
+const BASE_FREQUENCIES: BaseFrequency[] = ['daily', 'weekly', 'monthly', 'quarterly', 'yearly'];
+
+/**
+ * Settings kept in a backup. The calendar feed token stays out: it's a secret, and restoring it
+ * elsewhere would open the same feed twice.
+ */
+export type BackupSettings = Omit<UserSettings, 'calendarFeedToken'>;
+
+export interface UserDataBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  tasks: Task[];
+  tagColors: Record<string, string>;
+  settings: BackupSettings;
+}
+
+export type BackupResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+/**
+ * How an import treats existing data:
+ * - "merge": keeps existing tasks and tag colors; imported tasks are added, or replace the same task if newer
+ * - "replace": deletes all existing tasks and tag colors first, and takes the backup's settings (except the calendar feed)
+ */
+export type ImportMode = 'merge' | 'replace';
+
+export interface TaskImportPlan {
+  tasksToSave: Task[];
+  taskIdsToDelete: string[];
+}
+
+export interface ImportSummary {
+  savedCount: number;
+  deletedCount: number;
+}
+
+/**
+ * Loads all of the user's completed tasks, page by page, along with the completed occurrences of series
+ */
+export const loadAllCompletedTasks = async (repository: TaskRepository = getTaskRepository()): Promise<Task[]> => {
+  const completedOccurrences = await repository.loadCompletedOccurrences();
+  const completedTasks: Task[] = [];
+  let total = Infinity;
+  while (completedTasks.length < total) {
+    const page = await repository.loadCompletedTasks(COMPLETED_TASKS_PAGE_SIZE, completedTasks.length);
+    if (page.tasks.length === 0) break;
+    completedTasks.push(...page.tasks);
+    total = page.total;
+  }
+  return [...completedTasks, ...completedOccurrences];
+};
+
+/**
+ * Loads every task of the user, including all completed tasks and those in the trash
+ */
+export const loadAllTasks = async (repository: TaskRepository = getTaskRepository()): Promise<Task[]> => {
+  const incompleteTasks = await repository.loadIncompleteTasks();
+  const completedTasks = await loadAllCompletedTasks(repository);
+  const deletedTasks = await repository.loadDeletedTasks();
+  return [...incompleteTasks, ...completedTasks, ...deletedTasks];
+};
+
+/**
+ * Creates a backup of all of the user's data
+ */
+export const createBackup = async (
+  repository: TaskRepository = getTaskRepository(),
+  now: Date = new Date()
+): Promise<UserDataBackup> => {
+  const [tasks, tagColors, settings] = await Promise.all([
+    loadAllTasks(repository),
+    repository.loadTagColors(),
+    repository.loadUserSettings(),
+  ]);
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: now.toISOString(),
+    tasks,
+    tagColors,
+    settings: {
+      timeZone: settings.timeZone,
+      trashRetentionDays: settings.trashRetentionDays,
+    },
+  };
+};
+
+/**
+ * Gets the file name for a backup, e.g. "riley-tasks-backup-2025-03-01.json"
+ */
+export const getBackupFileName = (backup: UserDataBackup): string => {
+  return `riley-tasks-backup-${backup.exportedAt.split('T')[0]}.json`;
+};
+
+type Guard<T> = (value: unknown) => value is T;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isDateTime = (value: unknown): value is string => {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+};
+
+const isDateString = (value: unknown): value is string => {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value);
+};
+
+// A date without a time (YYYY-MM-DD), as series and their occurrences use
+const isCalendarDay = (value: unknown): value is string => {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+};
+
+const isIntegerBetween = (min: number, max: number) => (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+};
+
+const orNull = <T>(isValid: Guard<T>) => (value: unknown): value is T | null => value === null || isValid(value);
+
+const isWeekday = isIntegerBetween(0, 6);
+
+const isTimeZoneSetting = orNull(isString);
+
+const isSubtaskList = (value: unknown): value is Subtask[] => {
+  return Array.isArray(value) && value.every(subtask => (
+    isObject(subtask)
+    && typeof subtask.id === 'string'
+    && typeof subtask.text === 'string'
+    && typeof subtask.completed === 'boolean'
+  ));
+};
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+const isPriority = (value: unknown): value is TaskPriority => TASK_PRIORITIES.includes(value as TaskPriority);
+
+const isRecurrenceType = (value: unknown): value is RecurrenceType => RECURRENCE_TYPES.includes(value as RecurrenceType);
+
+const isBaseFrequency = (value: unknown): value is BaseFrequency => BASE_FREQUENCIES.includes(value as BaseFrequency);
+
+const isWeekdayList = (value: unknown): value is number[] => Array.isArray(value) && value.every(isWeekday);
+
+const isMonthlyRule = (value: unknown): value is MonthlyRule => {
+  if (!isObject(value)) return false;
+  if (value.type === 'lastDay' || value.type === 'lastBusinessDay') return true;
+  return value.type === 'nthWeekday'
+    && (value.ordinal === -1 || isIntegerBetween(1, 4)(value.ordinal))
+    && isWeekday(value.weekday);
+};
+
+/**
+ * Reads one task of a backup, field by field, noting what's wrong with it
+ */
+const readTask = (value: unknown): BackupResult<Task> => {
+  if (!isObject(value)) return { ok: false, errors: ['is not a task'] };
+
+  const errors: string[] = [];
+  // A required field; the fallback stands in for an invalid value, and the task is dropped then
+  const required = <T>(fieldValue: unknown, isValid: Guard<T>, error: string, fallback: T): T => {
+    if (isValid(fieldValue)) return fieldValue;
+    errors.push(error);
+    return fallback;
+  };
+  const optional = <T>(fieldValue: unknown, isValid: Guard<T>, error: string): T | undefined => {
+    if (fieldValue === undefined) return undefined;
+    if (isValid(fieldValue)) return fieldValue;
+    errors.push(error);
+    return undefined;
+  };
+
+  const task: Task = {
+    id: required(value.id, (id): id is string => isString(id) && id !== '', 'has no ID', ''),
+    title: required(value.title, isString, 'has no title', ''),
+    dueDate: required(value.dueDate, orNull(isDateString), 'has an invalid due date', null),
+    dueTime: optional(value.dueTime, isTimeOfDay, 'has an invalid due time'),
+    durationMinutes: optional(value.durationMinutes, isIntegerBetween(1, Infinity), 'has an invalid duration'),
+    completed: required(value.completed, isBoolean, 'has an invalid completed flag', false),
+    skipped: optional(value.skipped, isBoolean, 'has an invalid skipped flag'),
+    subtasks: required(value.subtasks, isSubtaskList, 'has invalid subtasks', []),
+    notes: optional(value.notes, isString, 'has invalid notes'),
+    tags: required(value.tags, isStringList, 'has invalid tags', []),
+    priority: optional(value.priority, isPriority, 'has an unknown priority'),
+    createdAt: required(value.createdAt, isDateTime, 'has an invalid creation time', ''),
+    lastModified: required(value.lastModified, isDateTime, 'has an invalid modification time', ''),
+    recurrence: required(value.recurrence, isRecurrenceType, 'has an unknown recurrence', null),
+    recurrenceGroupId: required(value.recurrenceGroupId, orNull(isString), 'has an invalid recurrence group', null),
+    recurrenceMultiplier: optional(value.recurrenceMultiplier, isIntegerBetween(1, MAX_MULTIPLIER), 'has an invalid recurrence multiplier'),
+    customFrequency: optional(value.customFrequency, isBaseFrequency, 'has an unknown custom frequency'),
+    byWeekday: optional(value.byWeekday, isWeekdayList, 'has invalid weekdays'),
+    monthlyRule: optional(value.monthlyRule, isMonthlyRule, 'has an invalid monthly rule'),
+    recurrenceFromCompletion: optional(value.recurrenceFromCompletion, isBoolean, 'has an invalid repeat-after-completion flag'),
+    recurrenceEndDate: optional(value.recurrenceEndDate, isCalendarDay, 'has an invalid recurrence end date'),
+    recurrenceCount: optional(value.recurrenceCount, isIntegerBetween(1, Infinity), 'has an invalid occurrence count'),
+    isLastInstance: optional(value.isLastInstance, isBoolean, 'has an invalid last-instance flag'),
+    autoRenew: optional(value.autoRenew, isBoolean, 'has an invalid auto-renew flag'),
+    isSeries: optional(value.isSeries, isBoolean, 'has an invalid series flag'),
+    seriesOpenFrom: optional(value.seriesOpenFrom, isCalendarDay, 'has an invalid series open date'),
+    pausedFrom: optional(value.pausedFrom, isCalendarDay, 'has an invalid pause date'),
+    occurrenceDate: optional(value.occurrenceDate, isCalendarDay, 'has an invalid occurrence date'),
+    deletedAt: optional(value.deletedAt, isDateTime, 'has an invalid deletion time'),
+  };
+
+  // Series rows are expanded into occurrences from their rule, which needs all of these
+  if (task.isSeries && (!task.recurrence || !task.dueDate || !task.recurrenceGroupId)) {
+    errors.push('is a series without a repeat rule, due date or group');
+  }
+  if (task.recurrence === 'custom' && !task.customFrequency) errors.push('has a custom recurrence without a frequency');
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: task };
+};
+
+/**
+ * Reads and validates a backup file's contents.
+ * Problems are reported as errors (at most a handful, for long lists of broken tasks).
+ */
+export const parseBackup = (text: string): BackupResult<UserDataBackup> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ['The file is not valid JSON'] };
+  }
+
+  if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+    return { ok: false, errors: ['The file is not a backup from this app'] };
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    return { ok: false, errors: ['The backup has no valid version'] };
+  }
+  if (data.version > BACKUP_VERSION) {
+    return { ok: false, errors: [`The backup is from a newer version of the app (format ${data.version}); update the app to import it`] };
+  }
+
+  const errors: string[] = [];
+  const tasks: Task[] = [];
+  const exportedAt = isDateTime(data.exportedAt) ? data.exportedAt : '';
+  if (!exportedAt) errors.push('The export time is invalid');
+
+  if (!Array.isArray(data.tasks)) {
+    errors.push('The backup has no task list');
+  } else {
+    const seenIds = new Set<unknown>();
+    data.tasks.forEach((value, index) => {
+      const task = readTask(value);
+      if (task.ok) {
+        tasks.push(task.value);
+      } else {
+        task.errors.forEach(error => errors.push(`Task ${index + 1} ${error}`));
+      }
+      if (isObject(value)) {
+        if (seenIds.has(value.id)) errors.push(`Task ${index + 1} has the same ID as an earlier task`);
+        seenIds.add(value.id);
+      }
+    });
+  }
+
+  const tagColors: Record<string, string> = {};
+  if (!isObject(data.tagColors) || !Object.values(data.tagColors).every(isString)) {
+    errors.push('The tag colors are invalid');
+  } else {
+    Object.entries(data.tagColors).forEach(([tag, color]) => {
+      if (isString(color)) tagColors[tag.toLowerCase()] = color;
+    });
+  }
+
+  const settings: BackupSettings = { timeZone: null, trashRetentionDays: 0 };
+  if (!isObject(data.settings)) {
+    errors.push('The backup has no settings');
+  } else {
+    const { timeZone, trashRetentionDays } = data.settings;
+    if (isTimeZoneSetting(timeZone)) {
+      settings.timeZone = timeZone;
+    } else {
+      errors.push('The time zone setting is invalid');
+    }
+    if (isIntegerBetween(1, Infinity)(trashRetentionDays)) {
+      settings.trashRetentionDays = trashRetentionDays;
+    } else {
+      errors.push('The trash retention setting is invalid');
+    }
+  }
+
+  if (errors.length > 0) {
+    const extraCount = errors.length - MAX_REPORTED_ERRORS;
+    return {
+      ok: false,
+      errors: extraCount > 0
+        ? [...errors.slice(0, MAX_REPORTED_ERRORS), `…and ${extraCount} more problem${extraCount !== 1 ? 's' : ''}`]
+        : errors,
+    };
+  }
+
+  return {
+    ok: true,
+    value: {
+      format: BACKUP_FORMAT,
+      version: data.version,
+      exportedAt,
+      tasks,
+      tagColors,
+      settings,
+    },
+  };
+};
+
+/**
+ * Works out which tasks an import saves and deletes.
+ * Merging keeps an existing task over an imported one with the same ID unless the imported one is newer.
+ */
+export const planTaskImport = (existingTasks: Task[], importedTasks: Task[], mode: ImportMode): TaskImportPlan => {
+  if (mode === 'replace') {
+    const importedIds = new Set(importedTasks.map(task => task.id));
+    return {
+      tasksToSave: importedTasks,
+      taskIdsToDelete: existingTasks.filter(task => !importedIds.has(task.id)).map(task => task.id),
+    };
+  }
+
+  const existingById = new Map(existingTasks.map(task => [task.id, task]));
+  return {
+    tasksToSave: importedTasks.filter(task => {
+      const existing = existingById.get(task.id);
+      return !existing || Date.parse(task.lastModified) > Date.parse(existing.lastModified);
+    }),
+    taskIdsToDelete: [],
+  };
+};
+
+/**
+ * Imports a backup. Tasks go through the sync queue; tag colors and settings are saved directly.
+ */
+export const importBackup = async (backup: UserDataBackup, mode: ImportMode): Promise<ImportSummary> => {
+  const repository = getTaskRepository();
+  if (repository.requiresNetwork && !navigator.onLine) {
+    throw new Error('Backups can only be imported while online');
+  }
+
+  const existingTasks = await loadAllTasks(repository);
+  const { tasksToSave, taskIdsToDelete } = planTaskImport(existingTasks, remapTaskIds(backup.tasks), mode);
+  logger.debug(`[importBackup] ${mode}: saving ${tasksToSave.length} and deleting ${taskIdsToDelete.length} task(s)`);
+
+  if (taskIdsToDelete.length > 0) {
+    await queueTaskDeletes(taskIdsToDelete);
+  }
+  if (tasksToSave.length > 0) {
+    await queueTaskSaves(tasksToSave);
+  }
+
+  const existingColors = await repository.loadTagColors();
+  if (mode === 'replace') {
+    const removedTags = Object.keys(existingColors).filter(tag => !(tag in backup.tagColors));
+    for (const tag of removedTags) {
+      await repository.deleteTagColor(tag);
+    }
+    await repository.saveTagColors(backup.tagColors);
+    // The existing calendar feed keeps working
+    const existingSettings = await repository.loadUserSettings();
+    await repository.saveUserSettings({ ...existingSettings, ...backup.settings });
+  } else {
+    // Colors already set here win over the backup's
+    await repository.saveTagColors({ ...backup.tagColors, ...existingColors });
+  }
+
+  return { savedCount: tasksToSave.length, deletedCount: taskIdsToDelete.length };
+};
@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Calendar day utilities.
+ *
+ * A calendar day is a YYYY-MM-DD string in the user's time zone. "Today", overdue checks and
+ * completion dates are all worked out as calendar days, so they agree with each other no matter
+ * how far the user is from UTC. The time zone defaults to the device's and can be overridden
+ * in the user settings.
+ *
+ * Views hold days as Date objects at local midnight; use calendarDayToDate to get one.
+ */
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// null means the device's time zone
+let configuredTimeZone: string | null = null;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const timeFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const getTimeFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = timeFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+    timeFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Gets the time zone of the device (IANA name, e.g. "America/Los_Angeles")
+ */
+export const getDeviceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Lists the time zones the browser knows, for picking one in the settings.
+ * Older browsers can't list them, so they only offer the device's.
+ */
+export const getSupportedTimeZones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  return intl.supportedValuesOf?.('timeZone') ?? [getDeviceTimeZone()];
+};
+
+/**
+ * Checks whether a string is a time zone name the browser knows
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Sets the time zone calendar days are worked out in
+ * @param timeZone IANA time zone name, or null for the device's time zone. Unknown names fall back to the device's.
+ */
+export const setCalendarTimeZone = (timeZone: string | null): void => {
+  configuredTimeZone = timeZone && isValidTimeZone(timeZone) ? timeZone : null;
+};
+
+/**
+ * Gets the time zone calendar days are worked out in
+ */
+export const getCalendarTimeZone = (): string => configuredTimeZone ?? getDeviceTimeZone();
+
+/**
+ * Gets the calendar day of a moment in time (e.g. a lastModified timestamp).
+ * Date-only strings are already calendar days and are returned unchanged.
+ */
+export const toCalendarDay = (instant: Date | string): string => {
+  if (typeof instant === 'string' && DATE_ONLY_PATTERN.test(instant)) {
+    return instant;
+  }
+  const date = typeof instant === 'string' ? new Date(instant) : instant;
+
+  if (!configuredTimeZone) {
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  const parts = getFormatter(configuredTimeZone).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '';
+  return `${part('year')}-${part('month')}-${part('day')}`;
+};
+
+/**
+ * Gets the time of day ("HH:mm") of a moment in time, in the user's time zone
+ */
+export const toCalendarTime = (instant: Date | string): string => {
+  const date = typeof instant === 'string' ? new Date(instant) : instant;
+
+  if (!configuredTimeZone) {
+    return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  }
+
+  const parts = getTimeFormatter(configuredTimeZone).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '';
+  return `${part('hour')}:${part('minute')}`;
+};
+
+/**
+ * Gets today's calendar day
+ */
+export const getCalendarToday = (now: Date = new Date()): string => toCalendarDay(now);
+
+/**
+ * Adds a number of days to a calendar day (negative to subtract)
+ */
+export const addCalendarDays = (day: string, amount: number): string => {
+  const [year, month, date] = day.split('-').map(Number);
+  // UTC arithmetic never skips or repeats a day around DST changes
+  const result = new Date(Date.UTC(year, month - 1, date + amount));
+  return `${result.getUTCFullYear()}-${pad(result.getUTCMonth() + 1)}-${pad(result.getUTCDate())}`;
+};
+
+/**
+ * Converts a calendar day into a Date at local midnight, as used by the views
+ */
+export const calendarDayToDate = (day: string): Date => {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date);
+};
+
+/**
+ * Gets today's calendar day as a Date at local midnight
+ */
+export const getCalendarTodayDate = (): Date => calendarDayToDate(getCalendarToday());
@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Subscribable calendar feed of a user's due tasks.
+ *
+ * The feed is an iCalendar file at a secret URL: anyone with the URL can read it, so the URL
+ * carries a random token that the user can reset or turn off. This module holds the app's side
+ * of the feed; the server's request handler is in calendarFeedHandler.
+ */
+
+import { loadAllTasks } from './backup';
+import type { CalendarFeedTaskLoader } from './calendarFeedHandler';
+import { TaskRepository } from './taskRepository';
+
+const FEED_TOKEN_BYTES = 24;
+
+/**
+ * Generates a new random feed token (48 hex characters)
+ */
+export const generateFeedToken = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(FEED_TOKEN_BYTES));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Gets the URL calendar apps subscribe to
+ * @returns null if no feed server is configured (VITE_CALENDAR_FEED_URL)
+ */
+export const getCalendarFeedUrl = (
+  token: string,
+  baseUrl: string | undefined = import.meta.env.VITE_CALENDAR_FEED_URL
+): string | null => {
+  if (!baseUrl) return null;
+  const url = new URL(baseUrl);
+  url.searchParams.set('token', token);
+  return url.toString();
+};
+
+/**
+ * Creates a feed loader backed by a task repository, for single-user servers
+ * (e.g. a local stand-in for the edge function)
+ */
+export const createRepositoryFeedLoader = (repository: TaskRepository): CalendarFeedTaskLoader => {
+  return async (token) => {
+    const { calendarFeedToken } = await repository.loadUserSettings();
+    if (!calendarFeedToken || calendarFeedToken !== token) return null;
+    return loadAllTasks(repository);
+  };
+};
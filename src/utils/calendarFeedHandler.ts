@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Server side of the calendar feed.
+ *
+ * The handler is a plain fetch-style function (Request in, Response out), so a Supabase edge function
+ * or a local HTTP server can serve it with a loader that looks up the token's tasks. It runs outside
+ * the app (the edge function runs on Deno), so this module only depends on the iCalendar writer, the
+ * task row mapping and a Supabase client passed in by the server, never on browser or Vite code.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Task } from '../types';
+import { createIcsCalendar, IcsComponent } from './ics';
+import { DatabaseTask, dbTaskToTask } from './taskRows';
+
+/**
+ * Loads the tasks of the user a feed token belongs to
+ * @returns null if no user has the token
+ */
+export type CalendarFeedTaskLoader = (token: string) => Promise<Task[] | null>;
+
+const FEED_TOKEN_PATTERN = /^[0-9a-f]{48}$/;
+const FEED_CALENDAR_NAME = 'Riley Tasks';
+const FEED_PAGE_SIZE = 1000;
+
+const textResponse = (status: number, body: string): Response => {
+  return new Response(body, { status, headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+};
+
+/**
+ * Creates the request handler of the feed. Requests pass the token as "?token=…", and
+ * "&type=todo" to get to-dos instead of events.
+ */
+export const createCalendarFeedHandler = (
+  loadTasksForToken: CalendarFeedTaskLoader,
+  now: () => Date = () => new Date()
+) => async (request: Request): Promise<Response> => {
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    return textResponse(405, 'Method not allowed');
+  }
+
+  const url = new URL(request.url);
+  const token = url.searchParams.get('token');
+  // Malformed tokens can't belong to anyone, so they don't need a lookup
+  if (!token || !FEED_TOKEN_PATTERN.test(token)) {
+    return textResponse(404, 'Calendar feed not found');
+  }
+
+  let tasks: Task[] | null;
+  try {
+    tasks = await loadTasksForToken(token);
+  } catch (error) {
+    // The app's logger reads Vite's environment, which the feed server doesn't have
+    console.error('[calendarFeed] Failed to load feed tasks:', error);
+    return textResponse(500, 'Failed to load the calendar feed');
+  }
+  if (!tasks) {
+    return textResponse(404, 'Calendar feed not found');
+  }
+
+  const component: IcsComponent = url.searchParams.get('type') === 'todo' ? 'VTODO' : 'VEVENT';
+  const calendar = createIcsCalendar(tasks, { component, calendarName: FEED_CALENDAR_NAME, now: now() });
+  return new Response(request.method === 'HEAD' ? null : calendar, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="riley-tasks.ics"',
+      'Cache-Control': 'private, max-age=300',
+    },
+  });
+};
+
+/**
+ * Creates a feed loader that reads the tasks of the token's user from Supabase: open tasks, series
+ * and the exception rows of series. The feed's request has no signed-in user, so the client needs
+ * the service-role key.
+ */
+export const createSupabaseFeedLoader = (client: SupabaseClient): CalendarFeedTaskLoader => {
+  return async (token) => {
+    const { data: settings, error: settingsError } = await client
+      .from('user_settings')
+      .select('user_id')
+      .eq('calendar_feed_token', token)
+      .maybeSingle();
+
+    if (settingsError) throw settingsError;
+    if (!settings) return null;
+
+    const tasks: Task[] = [];
+    let offset = 0;
+    while (true) {
+      const { data, error } = await client
+        .from('tasks')
+        .select('*')
+        .eq('user_id', settings.user_id)
+        .is('deleted_at', null)
+        .or('completed.eq.false,occurrence_date.not.is.null')
+        .order('created_at', { ascending: true })
+        .range(offset, offset + FEED_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      if (!data || data.length === 0) break;
+      tasks.push(...data.map((task: DatabaseTask) => dbTaskToTask(task)));
+      offset += data.length;
+    }
+    return tasks;
+  };
+};
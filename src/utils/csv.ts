@@ -0,0 +1,340 @@
+/**
+ * @fileoverview CSV export and import of tasks, for spreadsheets.
+ *
+ * Exports have one row per task with a fixed set of columns. Imports map the file's columns onto
+ * those fields (guessed from the header row, adjustable by the user), check every row, and turn
+ * the valid rows into tasks; open recurring rows become a batch of recurring instances.
+ */
+
+import { RecurrenceSettings, RecurrenceType, Subtask, Task } from '../types';
+import { formatRecurrenceDisplay } from './dateUtils';
+import { toCalendarDay } from './calendarDay';
+import { formatRRule, parseRRule } from './rrule';
+import { createImportedTasks } from './recurringTaskHelpers';
+import { isSeriesRow } from './recurrenceExpansion';
+import { generateId } from './supabaseStorage';
+
+export type CsvField = 'title' | 'dueDate' | 'completed' | 'completionDate' | 'tags' | 'recurrence' | 'subtasks';
+
+export const CSV_FIELDS: CsvField[] = ['title', 'dueDate', 'completed', 'completionDate', 'tags', 'recurrence', 'subtasks'];
+
+export const CSV_FIELD_LABELS: Record<CsvField, string> = {
+  title: 'Title',
+  dueDate: 'Due Date',
+  completed: 'Completed',
+  completionDate: 'Completion Date',
+  tags: 'Tags',
+  recurrence: 'Recurrence',
+  subtasks: 'Subtasks',
+};
+
+// Other header names each field is recognized by, lowercased
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  title: ['task', 'name', 'subject'],
+  dueDate: ['due', 'deadline', 'date'],
+  completed: ['done', 'complete', 'status'],
+  completionDate: ['completed on', 'completed date', 'date completed', 'done date'],
+  tags: ['tag', 'labels', 'categories', 'category'],
+  recurrence: ['repeat', 'repeats', 'rrule'],
+  subtasks: ['checklist', 'steps'],
+};
+
+const SIMPLE_RECURRENCES: Exclude<RecurrenceType, 'custom' | null>[] = ['daily', 'weekly', 'monthly', 'quarterly', 'yearly'];
+const TRUE_VALUES = ['yes', 'y', 'true', '1', 'x', 'done', 'completed', 'complete'];
+const FALSE_VALUES = ['', 'no', 'n', 'false', '0', 'open', 'not completed'];
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const ESCAPED_FORMULA_PREFIX = /^'(?=[=+\-@\t\r])/;
+
+/**
+ * Which column (by index) each field is read from; unmapped fields are left empty
+ */
+export type CsvColumnMapping = Partial<Record<CsvField, number>>;
+
+/**
+ * One data row of an import, with the task it describes or what's wrong with it
+ */
+export interface CsvImportRow {
+  rowNumber: number; // Line in the file, counting the header as 1
+  taskData: Partial<Task>;
+  errors: string[];
+}
+
+const quoteCell = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Formats rows of cells as CSV (RFC 4180: quoted where needed, CRLF line endings)
+ */
+export const formatCsv = (rows: string[][]): string => {
+  return rows.map(row => row.map(quoteCell).join(',')).join('\r\n') + '\r\n';
+};
+
+/**
+ * Parses CSV text into rows of cells. Quoted cells may contain commas, quotes ("") and line breaks.
+ * Blank lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, ''); // Spreadsheet apps often start files with a byte order mark
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+
+  return rows;
+};
+
+/**
+ * Keeps a cell from running as a formula in a spreadsheet by starting it with an apostrophe,
+ * which spreadsheet apps hide. The import takes the apostrophe off again.
+ */
+const escapeFormula = (value: string): string => (FORMULA_PREFIX.test(value) ? `'${value}` : value);
+
+/**
+ * Formats a task's recurrence so the import reads it back: the recurrence type when that's all
+ * there is to it ("weekly"), an RRULE otherwise
+ */
+const formatRecurrenceCell = (task: Task): string => {
+  if (!task.recurrence) return '';
+  const isPlain = task.recurrence !== 'custom'
+    && !task.byWeekday?.length
+    && !task.monthlyRule
+    && !task.recurrenceEndDate
+    && !task.recurrenceCount;
+  if (isPlain && !task.recurrenceFromCompletion) return task.recurrence;
+  const rrule = formatRRule(task);
+  // Series that repeat after completion have no RRULE; describe them instead
+  return rrule.ok ? rrule.value : formatRecurrenceDisplay(task);
+};
+
+const formatSubtasks = (subtasks: Subtask[]): string => {
+  return subtasks.map(st => `${st.completed ? '[x]' : '[ ]'} ${st.text}`).join('\n');
+};
+
+/**
+ * Formats tasks as CSV with one row per task, under a header row
+ */
+export const tasksToCsv = (tasks: Task[]): string => {
+  const rows = tasks.map(task => [
+    task.title,
+    task.dueDate ? task.dueDate.split('T')[0] : '',
+    task.completed ? 'Yes' : 'No',
+    task.completed ? toCalendarDay(task.lastModified) : '',
+    task.tags.join(', '),
+    formatRecurrenceCell(task),
+    formatSubtasks(task.subtasks),
+  ].map(escapeFormula));
+  return formatCsv([CSV_FIELDS.map(field => CSV_FIELD_LABELS[field]), ...rows]);
+};
+
+/**
+ * Keeps one row per recurring series (its earliest occurrence), so an exported list of open
+ * tasks doesn't repeat a series for every upcoming occurrence
+ */
+export const keepFirstOccurrences = (tasks: Task[]): Task[] => {
+  const firstByGroup = new Map<string, Task>();
+  tasks.forEach(task => {
+    if (!task.recurrenceGroupId) return;
+    const first = firstByGroup.get(task.recurrenceGroupId);
+    if (!first || (task.dueDate ?? '') < (first.dueDate ?? '')) {
+      firstByGroup.set(task.recurrenceGroupId, task);
+    }
+  });
+  return tasks.filter(task => !task.recurrenceGroupId || firstByGroup.get(task.recurrenceGroupId) === task);
+};
+
+/**
+ * Gets the completed tasks to export, most recently completed first, from the tasks in memory
+ * and those loaded from storage. The in-memory version of a task wins, as it may have changes not saved yet.
+ */
+export const mergeCompletedTasksForExport = (loadedTasks: Task[], localTasks: Task[]): Task[] => {
+  const localIds = new Set(localTasks.map(task => task.id));
+  return [...localTasks, ...loadedTasks.filter(task => !localIds.has(task.id))]
+    .filter(task => task.completed && !isSeriesRow(task))
+    .sort((a, b) => new Date(b.lastModified).getTime() - new Date(a.lastModified).getTime());
+};
+
+/**
+ * Guesses which column holds each field from the header row
+ */
+export const guessColumnMapping = (headers: string[]): CsvColumnMapping => {
+  const normalizedHeaders = headers.map(header => header.trim().toLowerCase());
+  const mapping: CsvColumnMapping = {};
+  const usedColumns = new Set<number>();
+
+  // Exact label matches first, so e.g. "Completion Date" isn't taken as the due date
+  const passes: Array<(field: CsvField) => string[]> = [
+    field => [CSV_FIELD_LABELS[field].toLowerCase()],
+    field => HEADER_ALIASES[field],
+  ];
+  passes.forEach(namesFor => {
+    CSV_FIELDS.forEach(field => {
+      if (mapping[field] !== undefined) return;
+      const index = normalizedHeaders.findIndex((header, i) => !usedColumns.has(i) && namesFor(field).includes(header));
+      if (index !== -1) {
+        mapping[field] = index;
+        usedColumns.add(index);
+      }
+    });
+  });
+
+  return mapping;
+};
+
+/**
+ * Reads a date as YYYY-MM-DD from YYYY-MM-DD (optionally with a time) or MM/DD/YYYY
+ */
+export const parseCsvDate = (value: string): string | null => {
+  const isoMatch = /^(\d{4})-(\d{1,2})-(\d{1,2})(T.*)?$/.exec(value);
+  const usMatch = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value);
+  const [year, month, day] = isoMatch
+    ? [isoMatch[1], isoMatch[2], isoMatch[3]].map(Number)
+    : usMatch
+      ? [usMatch[3], usMatch[1], usMatch[2]].map(Number)
+      : [NaN, NaN, NaN];
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (Number.isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Reads a recurrence cell: a recurrence type ("weekly") or an RRULE ("FREQ=WEEKLY;BYDAY=MO,WE")
+ */
+const parseRecurrence = (value: string, startDate: string | null): RecurrenceSettings | string => {
+  const lowerValue = value.toLowerCase();
+  const simpleRecurrence = SIMPLE_RECURRENCES.find(recurrence => recurrence === lowerValue);
+  if (simpleRecurrence) {
+    return { recurrence: simpleRecurrence };
+  }
+  if (/FREQ=/i.test(value)) {
+    const result = parseRRule(value, startDate ?? undefined);
+    return result.ok ? result.value.settings : `Recurrence: ${result.errors.join('; ')}`;
+  }
+  return `Recurrence "${value}" is not supported (use daily, weekly, monthly, quarterly, yearly or an RRULE)`;
+};
+
+/**
+ * Reads subtasks, one per line, optionally ticked with "[x]"
+ */
+const parseSubtasks = (value: string): Subtask[] => {
+  return value.split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line !== '')
+    .map(line => {
+      const match = /^\[( |x|X)\]\s*(.*)$/.exec(line);
+      return {
+        id: generateId(),
+        text: match ? match[2] : line,
+        completed: match ? match[1] !== ' ' : false,
+      };
+    });
+};
+
+/**
+ * Reads the data rows (all rows after the header) through a column mapping, checking each one
+ */
+export const readCsvRows = (rows: string[][], mapping: CsvColumnMapping): CsvImportRow[] => {
+  return rows.slice(1).map((cells, index) => {
+    const cell = (field: CsvField): string => {
+      const column = mapping[field];
+      return column === undefined ? '' : (cells[column] ?? '').trim().replace(ESCAPED_FORMULA_PREFIX, '');
+    };
+    const errors: string[] = [];
+    const taskData: Partial<Task> = {};
+
+    taskData.title = cell('title');
+    if (!taskData.title) errors.push('Title is empty');
+
+    const dueDateValue = cell('dueDate');
+    taskData.dueDate = dueDateValue ? parseCsvDate(dueDateValue) : null;
+    if (dueDateValue && !taskData.dueDate) errors.push(`Due date "${dueDateValue}" is not a date`);
+
+    const completedValue = cell('completed').toLowerCase();
+    if (TRUE_VALUES.includes(completedValue)) {
+      taskData.completed = true;
+    } else if (FALSE_VALUES.includes(completedValue)) {
+      taskData.completed = false;
+    } else {
+      errors.push(`Completed "${cell('completed')}" is not yes or no`);
+    }
+
+    const completionDateValue = cell('completionDate');
+    if (completionDateValue) {
+      const completionDate = parseCsvDate(completionDateValue);
+      if (!completionDate) {
+        errors.push(`Completion date "${completionDateValue}" is not a date`);
+      } else if (taskData.completed) {
+        // Midday UTC falls on the same calendar day in nearly every time zone
+        taskData.lastModified = `${completionDate}T12:00:00.000Z`;
+      }
+    }
+
+    taskData.tags = cell('tags').split(/[,;]/).map(tag => tag.trim().toLowerCase()).filter(tag => tag !== '');
+    taskData.subtasks = parseSubtasks(cell('subtasks'));
+
+    // Completed rows are records of what got done, so only open rows start a series
+    const recurrenceValue = cell('recurrence');
+    if (recurrenceValue && !taskData.completed) {
+      const recurrence = parseRecurrence(recurrenceValue, taskData.dueDate);
+      if (typeof recurrence === 'string') {
+        errors.push(recurrence);
+      } else if (!taskData.dueDate) {
+        errors.push('Recurring tasks need a due date');
+      } else {
+        Object.assign(taskData, recurrence);
+      }
+    }
+
+    return { rowNumber: index + 2, taskData, errors };
+  });
+};
+
+/**
+ * Creates the tasks for the valid rows of an import
+ */
+export const createTasksFromCsvRows = (rows: CsvImportRow[], now: Date = new Date()): Task[] => {
+  return createImportedTasks(rows.filter(row => row.errors.length === 0).map(row => row.taskData), now);
+};
+
+/**
+ * Gets the file name for a CSV export, e.g. "riley-tasks-completed-2025-03-01.csv"
+ */
+export const getCsvFileName = (name: string, now: Date = new Date()): string => {
+  return `riley-tasks-${name}-${toCalendarDay(now)}.csv`;
+};
@@ -1,4 +1,6 @@
-import { isSameDay, startOfWeek, endOfWeek, eachDayOfInterval, addWeeks as addWeeksFns, subWeeks as subWeeksFns, addDays as addDaysFns, subDays as subDaysFns, startOfDay } from 'date-fns';
+import { MonthlyRule, RecurrenceSettings } from '../types';
+import { isSameDay, startOfWeek, endOfWeek, eachDayOfInterval, addWeeks as addWeeksFns, subWeeks as subWeeksFns, addDays as addDaysFns, subDays as subDaysFns, startOfDay, startOfMonth, endOfMonth, addMonths, addYears } from 'date-fns';
+import { addCalendarDays, calendarDayToDate, getCalendarToday, getCalendarTodayDate, toCalendarDay } from './calendarDay';
 
 /**
  * Parses a date string (YYYY-MM-DD) as a local date at midnight local time.
@@ -20,9 +22,8 @@ const toLocalDate = (date: Date | string): Date => {
     if (/^\d{4}-\d{2}-\d{2}$/.test(date)) {
       return parseLocalDate(date);
     }
-    // Otherwise, parse normally and normalize to local midnight
-    const d = new Date(date);
-    return startOfDay(d);
+    // Otherwise it's a timestamp; take its calendar day in the user's time zone
+    return calendarDayToDate(toCalendarDay(date));
   }
   // For Date objects, normalize to start of day in local timezone
   // This ensures consistent date comparisons regardless of how the Date was created
@@ -40,21 +41,12 @@ export const formatDate = (date: Date | string): string => {
 
 export const isDateToday = (date: Date | string | null): boolean => {
   if (!date) return false;
-  const d = toLocalDate(date);
-  // Normalize to start of day for accurate comparison
-  const normalizedDate = startOfDay(d);
-  const today = startOfDay(new Date());
-  return isSameDay(normalizedDate, today);
+  return formatDate(date) === getCalendarToday();
 };
 
 export const isDateTomorrow = (date: Date | string | null): boolean => {
   if (!date) return false;
-  const d = toLocalDate(date);
-  // Normalize to start of day for accurate comparison
-  const normalizedDate = startOfDay(d);
-  const tomorrow = startOfDay(new Date());
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  return isSameDay(normalizedDate, tomorrow);
+  return formatDate(date) === addCalendarDays(getCalendarToday(), 1);
 };
 
 export const isSameDate = (date1: Date | string | null, date2: Date | string | null): boolean => {
@@ -64,7 +56,7 @@ export const isSameDate = (date1: Date | string | null, date2: Date | string | n
   return isSameDay(startOfDay(d1), startOfDay(d2));
 };
 
-export const getWeekDates = (date: Date = new Date()): Date[] => {
+export const getWeekDates = (date: Date = getCalendarTodayDate()): Date[] => {
   // Normalize to start of day in local timezone
   const d = startOfDay(date);
   const weekStart = startOfWeek(d, { weekStartsOn: 0 }); // Sunday
@@ -74,7 +66,7 @@ export const getWeekDates = (date: Date = new Date()): Date[] => {
   return dates.map(dt => startOfDay(dt));
 };
 
-export const getNext5Days = (date: Date = new Date()): Date[] => {
+export const getNext5Days = (date: Date = getCalendarTodayDate()): Date[] => {
   // Normalize to start of day in local timezone
   const d = startOfDay(date);
   const dates: Date[] = [];
@@ -129,12 +121,8 @@ export const formatDateLong = (date: Date | string): string => {
 
 export const isDateOverdue = (date: Date | string | null): boolean => {
   if (!date) return false;
-  const d = toLocalDate(date);
-  // Normalize both dates to start of day for accurate comparison
-  const normalizedDate = startOfDay(d);
-  const today = startOfDay(new Date());
   // Only overdue if it's before today (not today itself)
-  return normalizedDate < today;
+  return formatDate(date) < getCalendarToday();
 };
 
 export const addWeeks = (date: Date, amount: number): Date => {
@@ -154,71 +142,311 @@ export const subDays = (date: Date, amount: number): Date => {
 };
 
 /**
- * Formats recurrence display text for UI
+ * Short weekday labels indexed by Date#getDay() (0 = Sunday)
+ */
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Normalizes a weekday selection: removes duplicates and out-of-range values, sorts Sunday first
+ */
+export const normalizeWeekdays = (weekdays: number[] | undefined): number[] => {
+  if (!weekdays) return [];
+  return Array.from(new Set(weekdays))
+    .filter(day => Number.isInteger(day) && day >= 0 && day <= 6)
+    .sort((a, b) => a - b);
+};
+
+const FREQUENCY_UNIT_LABELS: Record<'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly', string> = {
+  daily: 'days',
+  weekly: 'weeks',
+  monthly: 'months',
+  quarterly: 'quarters',
+  yearly: 'years',
+};
+
+/**
+ * Formats a number as an English ordinal (1st, 2nd, 3rd, 4th...)
+ */
+export const formatOrdinal = (n: number): string => {
+  const lastTwo = n % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) return `${n}th`;
+  switch (n % 10) {
+    case 1: return `${n}st`;
+    case 2: return `${n}nd`;
+    case 3: return `${n}rd`;
+    default: return `${n}th`;
+  }
+};
+
+/**
+ * Formats the day-of-month part of a monthly rule (e.g. "2nd Tue", "last day")
+ */
+export const formatMonthlyRule = (rule: MonthlyRule): string => {
+  switch (rule.type) {
+    case 'lastDay':
+      return 'last day';
+    case 'lastBusinessDay':
+      return 'last business day';
+    case 'nthWeekday':
+      return `${rule.ordinal === -1 ? 'last' : formatOrdinal(rule.ordinal)} ${WEEKDAY_LABELS[rule.weekday]}`;
+  }
+};
+
+/**
+ * Formats the end condition of a series: ", 10 times" or ", until 03/31/25"
+ */
+const formatRecurrenceEnd = (settings: RecurrenceSettings): string => {
+  if (settings.recurrenceCount) {
+    return settings.recurrenceCount === 1 ? ', once' : `, ${settings.recurrenceCount} times`;
+  }
+  if (settings.recurrenceEndDate) {
+    return `, until ${formatFullDate(settings.recurrenceEndDate)}`;
+  }
+  return '';
+};
+
+const FREQUENCY_SINGLE_UNIT_LABELS: Record<'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly', string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  quarterly: 'quarter',
+  yearly: 'year',
+};
+
+/**
+ * Formats the repeat rule of a series, without its end condition
  */
-export const formatRecurrenceDisplay = (
-  recurrence: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly' | 'custom' | null,
-  multiplier?: number,
-  customFrequency?: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly'
-): string => {
+const formatRecurrenceRule = (settings: RecurrenceSettings): string => {
+  const { recurrence, recurrenceMultiplier: multiplier, customFrequency } = settings;
   if (!recurrence) return '';
-  
-  if (recurrence === 'custom' && multiplier && customFrequency) {
-    const frequencyLabel = customFrequency === 'daily' ? 'days' :
-                           customFrequency === 'weekly' ? 'weeks' :
-                           customFrequency === 'monthly' ? 'months' :
-                           customFrequency === 'quarterly' ? 'quarters' : 'years';
-    return `Every ${multiplier} ${frequencyLabel}`;
+
+  const effectiveFrequency = recurrence === 'custom' ? customFrequency : recurrence;
+
+  // Completion-based series have no calendar rule, only an interval
+  if (settings.recurrenceFromCompletion && effectiveFrequency) {
+    const interval = recurrence === 'custom' && multiplier && multiplier > 1
+      ? `${multiplier} ${FREQUENCY_UNIT_LABELS[effectiveFrequency]}`
+      : FREQUENCY_SINGLE_UNIT_LABELS[effectiveFrequency];
+    return `Every ${interval} after completion`;
+  }
+  const weekdays = normalizeWeekdays(settings.byWeekday);
+
+  if (effectiveFrequency === 'weekly' && weekdays.length > 0) {
+    const dayList = weekdays.map(day => WEEKDAY_LABELS[day]).join(', ');
+    if (recurrence === 'custom' && multiplier && multiplier > 1) {
+      return `Every ${multiplier} weeks on ${dayList}`;
+    }
+    return `Every ${dayList}`;
   }
   
-  return recurrence.charAt(0).toUpperCase() + recurrence.slice(1);
+  const baseDisplay = recurrence === 'custom' && multiplier && customFrequency
+    ? `Every ${multiplier} ${FREQUENCY_UNIT_LABELS[customFrequency]}`
+    : recurrence.charAt(0).toUpperCase() + recurrence.slice(1);
+
+  if (settings.monthlyRule && (effectiveFrequency === 'monthly' || effectiveFrequency === 'quarterly')) {
+    return `${baseDisplay} on the ${formatMonthlyRule(settings.monthlyRule)}`;
+  }
+
+  return baseDisplay;
 };
 
 /**
- * Generates all recurring dates for a task
- * @param startDate The starting date for the recurrence
- * @param recurrence The recurrence type
- * @param multiplier For custom recurrence, the multiplier (1-50) with frequency
- * @param customFrequency For custom recurrence, the base frequency to multiply
- * @param count Number of instances to generate
+ * Formats recurrence display text for UI
  */
-export const generateRecurringDates = (
+export const formatRecurrenceDisplay = (settings: RecurrenceSettings): string => {
+  if (!settings.recurrence) return '';
+  return formatRecurrenceRule(settings) + formatRecurrenceEnd(settings);
+};
+
+/**
+ * Optional rule parts that refine the basic frequency of a recurrence
+ */
+export interface RecurrenceRuleOptions {
+  /** For weekly recurrence: the days of the week to repeat on (0 = Sunday) */
+  byWeekday?: number[];
+  /** For monthly/quarterly recurrence: a day-of-month rule other than "same date" */
+  monthlyRule?: MonthlyRule;
+  /** Last date (YYYY-MM-DD) a series may have an instance on; later dates are dropped */
+  until?: string;
+}
+
+/**
+ * Generates dates on specific weekdays, stepping `intervalWeeks` weeks at a time.
+ * Days before the start date in the first week are skipped.
+ */
+const generateWeekdayDates = (
+  start: Date,
+  weekdays: number[],
+  count: number,
+  intervalWeeks: number
+): string[] => {
+  const dates: string[] = [];
+  let weekStart = startOfWeek(start, { weekStartsOn: 0 });
+
+  while (dates.length < count) {
+    for (const weekday of weekdays) {
+      const candidate = addDaysFns(weekStart, weekday);
+      if (candidate < start) continue;
+      dates.push(formatDate(candidate));
+      if (dates.length >= count) break;
+    }
+    weekStart = addWeeksFns(weekStart, intervalWeeks);
+  }
+
+  return dates;
+};
+
+/**
+ * Resolves a monthly rule to a concrete day within the month containing `monthDate`
+ */
+export const resolveMonthlyRuleDate = (monthDate: Date, rule: MonthlyRule): Date => {
+  const monthStart = startOfMonth(monthDate);
+  const monthEnd = startOfDay(endOfMonth(monthDate));
+
+  switch (rule.type) {
+    case 'lastDay':
+      return monthEnd;
+    case 'lastBusinessDay': {
+      let day = monthEnd;
+      while (day.getDay() === 0 || day.getDay() === 6) {
+        day = subDaysFns(day, 1);
+      }
+      return day;
+    }
+    case 'nthWeekday': {
+      if (rule.ordinal === -1) {
+        const offset = (monthEnd.getDay() - rule.weekday + 7) % 7;
+        return subDaysFns(monthEnd, offset);
+      }
+      const offset = (rule.weekday - monthStart.getDay() + 7) % 7;
+      return addDaysFns(monthStart, offset + (rule.ordinal - 1) * 7);
+    }
+  }
+};
+
+/**
+ * Describes where a date falls as a weekday within its month
+ * (e.g. the 2nd Tuesday, and whether it is also the last Tuesday)
+ */
+export const getWeekdayOrdinalInMonth = (date: Date | string): { weekday: number; ordinal: number; isLast: boolean } => {
+  const d = toLocalDate(date);
+  const ordinal = Math.ceil(d.getDate() / 7);
+  const isLast = addDaysFns(d, 7).getMonth() !== d.getMonth();
+  return { weekday: d.getDay(), ordinal, isLast };
+};
+
+/**
+ * Generates dates for a monthly rule, stepping `intervalMonths` months at a time.
+ * Occurrences before the start date in the first month are skipped.
+ */
+const generateMonthlyRuleDates = (
+  start: Date,
+  rule: MonthlyRule,
+  count: number,
+  intervalMonths: number
+): string[] => {
+  const dates: string[] = [];
+  const firstMonth = startOfMonth(start);
+
+  for (let i = 0; dates.length < count; i++) {
+    const candidate = resolveMonthlyRuleDate(addMonths(firstMonth, i * intervalMonths), rule);
+    if (candidate < start) continue;
+    dates.push(formatDate(candidate));
+  }
+
+  return dates;
+};
+
+/**
+ * Generates `count` recurring dates, ignoring any end date
+ */
+const generateUnboundedDates = (
   startDate: Date | string,
   recurrence: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly' | 'custom',
-  count: number = 10,
-  multiplier: number = 1,
-  customFrequency?: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly'
+  count: number,
+  multiplier: number,
+  customFrequency: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly' | undefined,
+  options: RecurrenceRuleOptions
 ): string[] => {
   const dates: string[] = [];
-  let currentDate = toLocalDate(startDate);
+  const start = toLocalDate(startDate);
   
   // For custom recurrence, use the customFrequency with multiplier
   const effectiveRecurrence = recurrence === 'custom' && customFrequency ? customFrequency : recurrence;
   const effectiveMultiplier = recurrence === 'custom' ? multiplier : 1;
+
+  const weekdays = normalizeWeekdays(options.byWeekday);
+  if (effectiveRecurrence === 'weekly' && weekdays.length > 0) {
+    return generateWeekdayDates(start, weekdays, count, effectiveMultiplier);
+  }
+
+  if (options.monthlyRule && (effectiveRecurrence === 'monthly' || effectiveRecurrence === 'quarterly')) {
+    const monthsPerStep = effectiveRecurrence === 'quarterly' ? 3 : 1;
+    return generateMonthlyRuleDates(start, options.monthlyRule, count, monthsPerStep * effectiveMultiplier);
+  }
   
+  // Each date is computed from the start date rather than the previous occurrence,
+  // so month-end dates clamp (Jan 31 -> Feb 28 -> Mar 31) instead of drifting or rolling over
   for (let i = 0; i < count; i++) {
-    dates.push(formatDate(currentDate));
-    
-    const nextDate = new Date(currentDate);
+    const step = i * effectiveMultiplier;
     switch (effectiveRecurrence) {
       case 'daily':
-        nextDate.setDate(nextDate.getDate() + (1 * effectiveMultiplier));
+        dates.push(formatDate(addDaysFns(start, step)));
         break;
       case 'weekly':
-        nextDate.setDate(nextDate.getDate() + (7 * effectiveMultiplier));
+        dates.push(formatDate(addWeeksFns(start, step)));
         break;
       case 'monthly':
-        nextDate.setMonth(nextDate.getMonth() + (1 * effectiveMultiplier));
+        dates.push(formatDate(addMonths(start, step)));
         break;
       case 'quarterly':
-        nextDate.setMonth(nextDate.getMonth() + (3 * effectiveMultiplier));
+        dates.push(formatDate(addMonths(start, step * 3)));
         break;
       case 'yearly':
-        nextDate.setFullYear(nextDate.getFullYear() + (1 * effectiveMultiplier));
+        dates.push(formatDate(addYears(start, step)));
         break;
+      default:
+        dates.push(formatDate(start));
     }
-    currentDate = nextDate;
   }
   
   return dates;
 };
+
+/**
+ * Generates all recurring dates for a task
+ * @param startDate The starting date for the recurrence
+ * @param recurrence The recurrence type
+ * @param multiplier For custom recurrence, the multiplier (1-50) with frequency
+ * @param customFrequency For custom recurrence, the base frequency to multiply
+ * @param count Number of instances to generate
+ * @param options Additional rule parts (specific weekdays, monthly rules, end date)
+ * @returns Up to `count` dates; fewer when the series ends on `options.until`
+ */
+export const generateRecurringDates = (
+  startDate: Date | string,
+  recurrence: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly' | 'custom',
+  count: number = 10,
+  multiplier: number = 1,
+  customFrequency?: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly',
+  options: RecurrenceRuleOptions = {}
+): string[] => {
+  const dates = generateUnboundedDates(startDate, recurrence, count, multiplier, customFrequency, options);
+  const { until } = options;
+  return until ? dates.filter(date => date <= until) : dates;
+};
+
+/**
+ * Gets the next due date of a completion-based series: one interval after the completion date
+ */
+export const getNextDueDateAfterCompletion = (
+  completionDate: Date | string,
+  settings: RecurrenceSettings
+): string | null => {
+  if (!settings.recurrence) return null;
+
+  const multiplier = settings.recurrence === 'custom' ? (settings.recurrenceMultiplier ?? 1) : 1;
+  const customFrequency = settings.recurrence === 'custom' ? settings.customFrequency : undefined;
+  const [, nextDate] = generateRecurringDates(completionDate, settings.recurrence, 2, multiplier, customFrequency);
+  return nextDate ?? null;
+};
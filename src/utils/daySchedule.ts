@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Times of day on tasks, and laying out a day's timed tasks on the Day view's timeline.
+ *
+ * A due time is a local time of day ("HH:mm") on the task's due date; tasks without one are all-day
+ * tasks. Timed tasks take up their duration on the timeline, or a default slot without one, and
+ * tasks that overlap are placed side by side in lanes.
+ */
+
+import { Task } from '../types';
+
+/** Length of a drop slot on the timeline */
+export const SLOT_MINUTES = 30;
+
+/** Length timed tasks without a duration take up on the timeline */
+export const DEFAULT_DURATION_MINUTES = 30;
+
+/** Hours the timeline shows at least, extended to fit earlier or later tasks */
+export const TIMELINE_START_HOUR = 7;
+export const TIMELINE_END_HOUR = 22;
+
+const DAY_MINUTES = 24 * 60;
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * A timed task placed on the timeline, in minutes since midnight
+ */
+export interface TimelineEntry {
+  task: Task;
+  start: number;
+  end: number;
+  lane: number; // Column among the tasks it overlaps, from 0
+  laneCount: number; // Number of columns of its group of overlapping tasks
+}
+
+/**
+ * Checks whether a value is a time of day in "HH:mm" format
+ */
+export const isTimeOfDay = (value: unknown): value is string => {
+  return typeof value === 'string' && TIME_OF_DAY_PATTERN.test(value);
+};
+
+/**
+ * Converts a time of day ("HH:mm") to minutes since midnight
+ * @returns null if it isn't a valid time of day
+ */
+export const parseTimeOfDay = (time: string): number | null => {
+  const match = TIME_OF_DAY_PATTERN.exec(time);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+/**
+ * Converts minutes since midnight to a time of day ("HH:mm")
+ */
+export const toTimeOfDay = (minutes: number): string => {
+  const clamped = Math.min(Math.max(Math.round(minutes), 0), DAY_MINUTES - 1);
+  return `${String(Math.floor(clamped / 60)).padStart(2, '0')}:${String(clamped % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Formats a time of day for display, e.g. "9:30 AM"
+ */
+export const formatTimeOfDay = (time: string): string => {
+  const minutes = parseTimeOfDay(time);
+  if (minutes === null) return time;
+  const hours = Math.floor(minutes / 60);
+  const period = hours < 12 ? 'AM' : 'PM';
+  return `${hours % 12 === 0 ? 12 : hours % 12}:${String(minutes % 60).padStart(2, '0')} ${period}`;
+};
+
+/**
+ * Formats a task's time for display, e.g. "9:30 AM - 10:15 AM", or "9:30 AM" without a duration
+ * @returns null for all-day tasks
+ */
+export const formatTaskTime = (task: Pick<Task, 'dueTime' | 'durationMinutes'>): string | null => {
+  if (!task.dueTime) return null;
+  const start = parseTimeOfDay(task.dueTime);
+  if (start === null || !task.durationMinutes) return formatTimeOfDay(task.dueTime);
+  return `${formatTimeOfDay(task.dueTime)} - ${formatTimeOfDay(toTimeOfDay(start + task.durationMinutes))}`;
+};
+
+/**
+ * Formats a duration for display, e.g. "45 min", "1 hr" or "1 hr 30 min"
+ */
+export const formatDuration = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} hr` : `${hours} hr ${rest} min`;
+};
+
+/**
+ * Places a day's timed tasks on the timeline, in order of their start. Tasks without a valid due time are left out.
+ */
+export const layoutTimedTasks = (tasks: Task[]): TimelineEntry[] => {
+  const entries = tasks
+    .map(task => {
+      const start = task.dueTime ? parseTimeOfDay(task.dueTime) : null;
+      if (start === null) return null;
+      const end = Math.min(start + (task.durationMinutes || DEFAULT_DURATION_MINUTES), DAY_MINUTES);
+      return { task, start, end, lane: 0, laneCount: 1 };
+    })
+    .filter((entry): entry is TimelineEntry => entry !== null)
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  // Tasks overlapping each other, directly or through others, share their lanes
+  let group: TimelineEntry[] = [];
+  let groupEnd = -1;
+  const closeGroup = () => {
+    const laneCount = Math.max(...group.map(entry => entry.lane)) + 1;
+    group.forEach(entry => { entry.laneCount = laneCount; });
+    group = [];
+  };
+
+  entries.forEach(entry => {
+    if (group.length > 0 && entry.start >= groupEnd) closeGroup();
+    const laneEnds = new Map<number, number>();
+    group.forEach(other => laneEnds.set(other.lane, Math.max(laneEnds.get(other.lane) ?? 0, other.end)));
+    let lane = 0;
+    while ((laneEnds.get(lane) ?? 0) > entry.start) lane++;
+    entry.lane = lane;
+    group.push(entry);
+    groupEnd = Math.max(groupEnd, entry.end);
+  });
+  if (group.length > 0) closeGroup();
+
+  return entries;
+};
+
+/**
+ * Gets the hours the timeline shows: the default range, extended to fit every entry
+ */
+export const getTimelineHours = (entries: TimelineEntry[]): number[] => {
+  const firstHour = Math.min(TIMELINE_START_HOUR, ...entries.map(entry => Math.floor(entry.start / 60)));
+  const lastHour = Math.max(TIMELINE_END_HOUR, ...entries.map(entry => Math.ceil(entry.end / 60)));
+  return Array.from({ length: lastHour - firstHour }, (_, index) => firstHour + index);
+};
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Imports from other task apps' export files (Todoist and Microsoft To Do).
+ *
+ * Reading a file is a dry run: it produces a report of the tasks the file would create, with
+ * everything that couldn't be carried over (priorities, times, unsupported repeat rules, …), and
+ * of the entries that are skipped altogether. Nothing is saved until the report's tasks are created.
+ */
+
+import { Task } from '../types';
+import { getCalendarToday } from './calendarDay';
+import { createImportedTasks } from './recurringTaskHelpers';
+import { readTodoistCsv, readTodoistJson } from './todoistImport';
+import { readMicrosoftToDoJson } from './microsoftToDoImport';
+
+export type ExternalImportFormat = 'todoist-csv' | 'todoist-json' | 'microsoft-to-do';
+
+export const EXTERNAL_IMPORT_FORMAT_LABELS: Record<ExternalImportFormat, string> = {
+  'todoist-csv': 'Todoist (CSV)',
+  'todoist-json': 'Todoist (JSON)',
+  'microsoft-to-do': 'Microsoft To Do',
+};
+
+/**
+ * One task the import would create
+ */
+export interface ExternalImportItem {
+  label: string; // Where the task comes from, e.g. "Groceries / Buy milk"
+  taskData: Partial<Task>;
+  unmapped: string[]; // What of the original task isn't carried over
+}
+
+/**
+ * An entry of the file that doesn't become a task
+ */
+export interface ExternalImportSkip {
+  label: string;
+  reason: string;
+}
+
+export interface ExternalImportReport {
+  format: ExternalImportFormat;
+  items: ExternalImportItem[];
+  skipped: ExternalImportSkip[];
+}
+
+export type ExternalImportResult = { ok: true; value: ExternalImportReport } | { ok: false; errors: string[] };
+
+export interface ExternalImportOptions {
+  today?: string; // Start date (YYYY-MM-DD) for repeating tasks whose export has no next due date
+}
+
+/**
+ * Reads an export file of Todoist (a project's CSV export, or JSON from its API) or Microsoft To Do
+ * (JSON lists with their tasks, as the Graph API returns them), detecting which one it is.
+ * A Todoist CSV export holds one project, named after the file.
+ */
+export const readExternalImportFile = (
+  fileName: string,
+  text: string,
+  { today = getCalendarToday() }: ExternalImportOptions = {}
+): ExternalImportResult => {
+  const trimmedText = text.trim();
+  if (!trimmedText.startsWith('{') && !trimmedText.startsWith('[')) {
+    const projectName = fileName.replace(/\.[^.]*$/, '');
+    return readTodoistCsv(text, projectName, today);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(trimmedText);
+  } catch {
+    return { ok: false, errors: ['The file is not valid JSON'] };
+  }
+
+  return readTodoistJson(data, today)
+    ?? readMicrosoftToDoJson(data)
+    ?? { ok: false, errors: ['The file is not a Todoist or Microsoft To Do export'] };
+};
+
+/**
+ * Creates the tasks of an import report
+ */
+export const createTasksFromImportReport = (report: ExternalImportReport, now: Date = new Date()): Task[] => {
+  return createImportedTasks(report.items.map(item => item.taskData), now);
+};
@@ -0,0 +1,238 @@
+/**
+ * @fileoverview iCalendar (RFC 5545) export of due tasks.
+ *
+ * Every task with a due date becomes an event (VEVENT) or to-do (VTODO): all-day, or at its due time
+ * for as long as its duration, in floating local time (the same wall-clock time wherever the
+ * calendar is opened). Series are
+ * exported once, with their RRULE; exception rows override single occurrences of them through a
+ * RECURRENCE-ID. Tags become categories, and subtasks are listed in the description.
+ */
+
+import { Task } from '../types';
+import { addCalendarDays, toCalendarDay } from './calendarDay';
+import { isSeriesRow, isVirtualOccurrence } from './recurrenceExpansion';
+import { formatRRule } from './rrule';
+import { DEFAULT_DURATION_MINUTES, parseTimeOfDay, toTimeOfDay } from './daySchedule';
+
+export type IcsComponent = 'VEVENT' | 'VTODO';
+
+export interface IcsOptions {
+  component?: IcsComponent; // Defaults to VEVENT, which every calendar app can show
+  calendarName?: string;
+  includeCompleted?: boolean; // Also export completed one-off tasks (completed occurrences of series always are)
+  now?: Date;
+}
+
+const PRODUCT_ID = '-//Riley Task App//Tasks//EN';
+const UID_DOMAIN = 'riley-task-app';
+const MAX_LINE_OCTETS = 75;
+const DAY_MINUTES = 24 * 60;
+
+/**
+ * Escapes a TEXT value (backslashes, semicolons, commas and line breaks)
+ */
+export const escapeIcsText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+/**
+ * Folds a content line into lines of at most 75 octets, without splitting characters.
+ * Continuation lines start with a space.
+ */
+export const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines lose one octet to their leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toIcsDate = (date: string): string => date.split('T')[0].replace(/-/g, '');
+
+/**
+ * Formats a floating local date-time, in minutes from the start of a day (later days carry over)
+ */
+const toIcsLocalDateTime = (date: string, minutes: number): string => {
+  const day = addCalendarDays(date.split('T')[0], Math.floor(minutes / DAY_MINUTES));
+  return `${toIcsDate(day)}T${toTimeOfDay(minutes % DAY_MINUTES).replace(':', '')}00`;
+};
+
+/**
+ * Gets the start of a timed task in minutes since midnight
+ * @returns null for all-day tasks
+ */
+const getStartMinutes = (task: Task): number | null => (task.dueTime ? parseTimeOfDay(task.dueTime) : null);
+
+const toIcsDateTime = (instant: string | Date): string => {
+  return new Date(instant).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+const getTaskUid = (task: Task): string => {
+  // Series and their exception rows share a UID, which is how calendars pair them up
+  const id = task.recurrenceGroupId && (isSeriesRow(task) || task.occurrenceDate) ? task.recurrenceGroupId : task.id;
+  return `${id}@${UID_DOMAIN}`;
+};
+
+const getDescription = (task: Task): string | null => {
+  if (task.subtasks.length === 0) return null;
+  return task.subtasks.map(subtask => `${subtask.completed ? '[x]' : '[ ]'} ${subtask.text}`).join('\n');
+};
+
+/**
+ * Gets the RRULE line of a series, if it repeats on a fixed schedule.
+ * A paused series ends the day before its pause.
+ */
+const getSeriesRRule = (series: Task, startDate: string): string | null => {
+  const startMinutes = getStartMinutes(series);
+  let recurrenceEndDate = series.recurrenceEndDate;
+  if (series.pausedFrom) {
+    const lastDate = addCalendarDays(series.pausedFrom, -1);
+    if (lastDate < startDate) return null;
+    if (!recurrenceEndDate || lastDate < recurrenceEndDate) recurrenceEndDate = lastDate;
+  }
+  const result = formatRRule({ ...series, recurrenceEndDate });
+  if (!result.ok) return null;
+  // UNTIL takes the form of DTSTART, so a timed series ends at the end of its last day
+  return startMinutes === null ? result.value : result.value.replace(/UNTIL=(\d{8})/, 'UNTIL=$1T235959');
+};
+
+/**
+ * Builds the content lines of one event or to-do
+ */
+const createComponentLines = (
+  task: Task,
+  date: string,
+  component: IcsComponent,
+  dtstamp: string,
+  extraLines: string[]
+): string[] => {
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:${getTaskUid(task)}`,
+    `DTSTAMP:${dtstamp}`,
+    `CREATED:${toIcsDateTime(task.createdAt)}`,
+    `LAST-MODIFIED:${toIcsDateTime(task.lastModified)}`,
+    `SUMMARY:${escapeIcsText(task.title)}`,
+  ];
+
+  const startMinutes = getStartMinutes(task);
+  if (startMinutes !== null) {
+    const endMinutes = startMinutes + (task.durationMinutes ?? DEFAULT_DURATION_MINUTES);
+    lines.push(
+      `DTSTART:${toIcsLocalDateTime(date, startMinutes)}`,
+      `${component === 'VEVENT' ? 'DTEND' : 'DUE'}:${toIcsLocalDateTime(date, endMinutes)}`
+    );
+  } else if (component === 'VEVENT') {
+    lines.push(`DTSTART;VALUE=DATE:${toIcsDate(date)}`, `DTEND;VALUE=DATE:${toIcsDate(addCalendarDays(date, 1))}`);
+  } else {
+    lines.push(`DTSTART;VALUE=DATE:${toIcsDate(date)}`, `DUE;VALUE=DATE:${toIcsDate(date)}`);
+  }
+
+  if (component === 'VEVENT') {
+    // All-day tasks don't block time; appointments do
+    if (startMinutes === null) lines.push('TRANSP:TRANSPARENT');
+    if (task.skipped) lines.push('STATUS:CANCELLED');
+  } else {
+    if (task.skipped) {
+      lines.push('STATUS:CANCELLED');
+    } else if (task.completed) {
+      lines.push('STATUS:COMPLETED', `COMPLETED:${toIcsDateTime(task.lastModified)}`);
+    } else {
+      lines.push('STATUS:NEEDS-ACTION');
+    }
+  }
+
+  lines.push(...extraLines);
+  if (task.tags.length > 0) {
+    lines.push(`CATEGORIES:${task.tags.map(escapeIcsText).join(',')}`);
+  }
+  const description = getDescription(task);
+  if (description) {
+    lines.push(`DESCRIPTION:${escapeIcsText(description)}`);
+  }
+  lines.push(`END:${component}`);
+  return lines;
+};
+
+/**
+ * Creates an iCalendar file of the due tasks in a task list.
+ * Tasks without a due date, tasks in the trash and virtual occurrences are left out.
+ * Series that repeat after completion can't be described by an RRULE, so only their next occurrence is exported.
+ */
+export const createIcsCalendar = (tasks: Task[], options: IcsOptions = {}): string => {
+  const component = options.component ?? 'VEVENT';
+  const dtstamp = toIcsDateTime(options.now ?? new Date());
+  const storedTasks = tasks.filter(task => !task.deletedAt && !isVirtualOccurrence(task));
+
+  // Series exported with an RRULE, by group
+  const ruleSeries = new Map<string, Task>();
+  const lines: string[] = [];
+
+  storedTasks.filter(isSeriesRow).forEach(series => {
+    if (!series.dueDate || !series.recurrenceGroupId || series.completed) return;
+    const rrule = getSeriesRRule(series, series.dueDate);
+    if (rrule) {
+      ruleSeries.set(series.recurrenceGroupId, series);
+      lines.push(...createComponentLines(series, series.dueDate, component, dtstamp, [rrule]));
+    } else if (series.recurrenceFromCompletion && !series.pausedFrom) {
+      lines.push(...createComponentLines(series, series.seriesOpenFrom ?? series.dueDate, component, dtstamp, []));
+    }
+  });
+
+  storedTasks.filter(task => !isSeriesRow(task)).forEach(task => {
+    const series = task.recurrenceGroupId ? ruleSeries.get(task.recurrenceGroupId) : undefined;
+    if (task.occurrenceDate && series?.dueDate) {
+      // Occurrences before the rule starts aren't part of it
+      if (task.occurrenceDate < series.dueDate) return;
+      // The occurrence is identified by its original start, in the form of the series' DTSTART
+      const seriesStartMinutes = getStartMinutes(series);
+      const recurrenceId = seriesStartMinutes === null
+        ? `RECURRENCE-ID;VALUE=DATE:${toIcsDate(task.occurrenceDate)}`
+        : `RECURRENCE-ID:${toIcsLocalDateTime(task.occurrenceDate, seriesStartMinutes)}`;
+      lines.push(...createComponentLines(task, task.dueDate ?? task.occurrenceDate, component, dtstamp, [recurrenceId]));
+      return;
+    }
+
+    if (!task.dueDate || (task.completed && !task.occurrenceDate && !options.includeCompleted)) return;
+    // A standalone copy of an occurrence must not share its series' UID
+    lines.push(...createComponentLines({ ...task, recurrenceGroupId: null }, task.dueDate, component, dtstamp, []));
+  });
+
+  const header = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+  if (options.calendarName) {
+    header.push(`X-WR-CALNAME:${escapeIcsText(options.calendarName)}`);
+  }
+
+  return [...header, ...lines, 'END:VCALENDAR'].map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Gets the file name for a calendar download, e.g. "riley-tasks-2025-03-01.ics"
+ */
+export const getIcsFileName = (now: Date = new Date()): string => {
+  return `riley-tasks-${toCalendarDay(now)}.ics`;
+};
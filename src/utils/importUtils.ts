@@ -0,0 +1,34 @@
+/**
+ * @fileoverview Helpers shared by the readers of imported files: backups and other task apps' exports.
+ */
+
+import { RecurrenceSettings, Task } from '../types';
+
+export type BaseFrequency = NonNullable<Task['customFrequency']>;
+
+// The largest custom recurrence multiplier the task form accepts
+export const MAX_MULTIPLIER = 50;
+
+export const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Turns a project, list or label name into a tag
+ */
+export const toTag = (name: string): string => name.trim().toLowerCase();
+
+/**
+ * Maps a base frequency and interval onto recurrence settings
+ * @returns null if the interval is out of range
+ */
+export const toRecurrenceSettings = (
+  frequency: BaseFrequency,
+  interval: number,
+  extra: Partial<RecurrenceSettings> = {}
+): RecurrenceSettings | null => {
+  if (interval < 1 || interval > MAX_MULTIPLIER) return null;
+  return interval === 1
+    ? { recurrence: frequency, ...extra }
+    : { recurrence: 'custom', customFrequency: frequency, recurrenceMultiplier: interval, ...extra };
+};
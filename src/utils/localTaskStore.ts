@@ -0,0 +1,182 @@
+/**
+ * @fileoverview IndexedDB-backed local task store.
+ *
+ * Keeps a copy of the user's tasks, the queue of changes that have not reached Supabase yet and the
+ * conflicting edits still waiting for the user, so the app can start and keep working without a
+ * network connection. Each user gets their own
+ * database. Every function degrades to a no-op when IndexedDB is unavailable (e.g. private mode).
+ */
+
+import { Task } from '../types';
+import type { TaskConflict } from './taskMerge';
+import { logger } from './logger';
+
+const DB_NAME_PREFIX = 'riley-tasks-';
+const DB_VERSION = 1;
+const TASKS_STORE = 'tasks';
+const META_STORE = 'meta';
+const PENDING_MUTATIONS_KEY = 'pendingMutations';
+const SYNC_CONFLICTS_KEY = 'syncConflicts';
+const HAS_SNAPSHOT_KEY = 'hasSnapshot';
+
+/**
+ * A change that still has to be sent to Supabase
+ */
+export type PendingMutation =
+  | {
+      type: 'upsert';
+      tasks: Task[];
+      /** The version each task was edited from, by task ID, to detect edits made elsewhere meanwhile */
+      bases?: Record<string, Task>;
+      changeCount: number;
+    }
+  | { type: 'delete'; taskIds: string[]; changeCount: number };
+
+const databases = new Map<string, Promise<IDBDatabase>>();
+
+export const isLocalStoreAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+/**
+ * Wraps an IndexedDB request in a promise
+ */
+const promisifyRequest = <T,>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Resolves once a transaction has been committed
+ */
+const promisifyTransaction = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const openDatabase = (userId: string): Promise<IDBDatabase> => {
+  let database = databases.get(userId);
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(`${DB_NAME_PREFIX}${userId}`, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TASKS_STORE)) {
+          db.createObjectStore(TASKS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if opening failed
+    database.catch(() => databases.delete(userId));
+    databases.set(userId, database);
+  }
+  return database;
+};
+
+/**
+ * Loads the locally stored tasks
+ * @returns null if nothing has been stored for this user yet (or IndexedDB is unavailable)
+ */
+export const loadLocalTasks = async (userId: string): Promise<Task[] | null> => {
+  if (!isLocalStoreAvailable()) return null;
+  try {
+    const db = await openDatabase(userId);
+    const transaction = db.transaction([TASKS_STORE, META_STORE], 'readonly');
+    const [hasSnapshot, tasks] = await Promise.all([
+      promisifyRequest(transaction.objectStore(META_STORE).get(HAS_SNAPSHOT_KEY)),
+      promisifyRequest(transaction.objectStore(TASKS_STORE).getAll()),
+    ]);
+    return hasSnapshot ? tasks as Task[] : null;
+  } catch (error) {
+    logger.error('[loadLocalTasks] Failed to load local tasks:', error);
+    return null;
+  }
+};
+
+/**
+ * Replaces the locally stored tasks with the given list
+ */
+export const saveLocalTasks = async (userId: string, tasks: Task[]): Promise<void> => {
+  if (!isLocalStoreAvailable()) return;
+  try {
+    const db = await openDatabase(userId);
+    const transaction = db.transaction([TASKS_STORE, META_STORE], 'readwrite');
+    const taskStore = transaction.objectStore(TASKS_STORE);
+    taskStore.clear();
+    tasks.forEach(task => taskStore.put(task));
+    transaction.objectStore(META_STORE).put(true, HAS_SNAPSHOT_KEY);
+    await promisifyTransaction(transaction);
+  } catch (error) {
+    logger.error('[saveLocalTasks] Failed to save local tasks:', error);
+  }
+};
+
+/**
+ * Loads the queue of changes not yet sent to Supabase, oldest first
+ */
+export const loadPendingMutations = async (userId: string): Promise<PendingMutation[]> => {
+  if (!isLocalStoreAvailable()) return [];
+  try {
+    const db = await openDatabase(userId);
+    const transaction = db.transaction(META_STORE, 'readonly');
+    const mutations = await promisifyRequest(transaction.objectStore(META_STORE).get(PENDING_MUTATIONS_KEY));
+    return (mutations as PendingMutation[] | undefined) ?? [];
+  } catch (error) {
+    logger.error('[loadPendingMutations] Failed to load pending changes:', error);
+    return [];
+  }
+};
+
+/**
+ * Replaces the queue of changes not yet sent to Supabase
+ */
+export const savePendingMutations = async (userId: string, mutations: PendingMutation[]): Promise<void> => {
+  if (!isLocalStoreAvailable()) return;
+  try {
+    const db = await openDatabase(userId);
+    const transaction = db.transaction(META_STORE, 'readwrite');
+    transaction.objectStore(META_STORE).put(mutations, PENDING_MUTATIONS_KEY);
+    await promisifyTransaction(transaction);
+  } catch (error) {
+    logger.error('[savePendingMutations] Failed to save pending changes:', error);
+  }
+};
+
+/**
+ * Loads the edits that conflicted with edits made elsewhere and haven't been resolved yet
+ */
+export const loadSyncConflicts = async (userId: string): Promise<TaskConflict[]> => {
+  if (!isLocalStoreAvailable()) return [];
+  try {
+    const db = await openDatabase(userId);
+    const transaction = db.transaction(META_STORE, 'readonly');
+    const conflicts = await promisifyRequest(transaction.objectStore(META_STORE).get(SYNC_CONFLICTS_KEY));
+    return (conflicts as TaskConflict[] | undefined) ?? [];
+  } catch (error) {
+    logger.error('[loadSyncConflicts] Failed to load sync conflicts:', error);
+    return [];
+  }
+};
+
+/**
+ * Replaces the stored unresolved conflicts
+ */
+export const saveSyncConflicts = async (userId: string, conflicts: TaskConflict[]): Promise<void> => {
+  if (!isLocalStoreAvailable()) return;
+  try {
+    const db = await openDatabase(userId);
+    const transaction = db.transaction(META_STORE, 'readwrite');
+    transaction.objectStore(META_STORE).put(conflicts, SYNC_CONFLICTS_KEY);
+    await promisifyTransaction(transaction);
+  } catch (error) {
+    logger.error('[saveSyncConflicts] Failed to save sync conflicts:', error);
+  }
+};
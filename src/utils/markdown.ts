@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Markdown checklists: exporting what a view shows, and creating tasks from pasted notes.
+ *
+ * A task is a checklist item ("- [ ] Title #tag"), with its subtasks as checklist items indented
+ * under it. Due dates are written as "📅 YYYY-MM-DD" (the convention of Markdown task plugins),
+ * which the import reads back.
+ */
+
+import { Subtask, Task } from '../types';
+import { parseCsvDate } from './csv';
+import { generateId } from './supabaseStorage';
+
+/**
+ * A headed list of tasks in an export
+ */
+export interface MarkdownSection {
+  heading?: string;
+  tasks: Task[];
+  showDueDates?: boolean; // For sections spanning several days
+}
+
+const DUE_DATE_MARKER = '📅';
+const LIST_ITEM_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[( |x|X)\]\s+)?(.*)$/;
+const TAG_PATTERN = /(^|\s)#([\p{L}\p{N}_-]+)/gu;
+const DUE_DATE_PATTERN = new RegExp(`(^|\\s)${DUE_DATE_MARKER}\\s*(\\d{4}-\\d{2}-\\d{2})`, 'u');
+
+// Tags can hold spaces, which would end a "#tag" word
+const formatTag = (tag: string): string => `#${tag.trim().replace(/\s+/g, '-')}`;
+
+/**
+ * Formats one task as a checklist item, with its subtasks indented under it
+ */
+export const formatMarkdownTask = (task: Task, showDueDate = false): string => {
+  const parts = [`- [${task.completed ? 'x' : ' '}] ${task.title}`];
+  if (showDueDate && task.dueDate) {
+    parts.push(`${DUE_DATE_MARKER} ${task.dueDate.split('T')[0]}`);
+  }
+  parts.push(...task.tags.map(formatTag));
+  const subtaskLines = task.subtasks.map(subtask => `  - [${subtask.completed ? 'x' : ' '}] ${subtask.text}`);
+  return [parts.join(' '), ...subtaskLines].join('\n');
+};
+
+/**
+ * Formats a view's tasks as a Markdown document: a title, then each non-empty section under its heading
+ */
+export const tasksToMarkdown = (title: string, sections: MarkdownSection[]): string => {
+  const blocks = [`## ${title}`];
+  sections.filter(section => section.tasks.length > 0).forEach(section => {
+    if (section.heading) {
+      blocks.push(`### ${section.heading}`);
+    }
+    blocks.push(section.tasks.map(task => formatMarkdownTask(task, section.showDueDates)).join('\n'));
+  });
+  return blocks.join('\n\n') + '\n';
+};
+
+/**
+ * Reads the checklist items of a Markdown text into task data. Top-level checklist items become
+ * tasks, with "#tag" words as tags and "📅 YYYY-MM-DD" as the due date; checklist items indented
+ * under one become its subtasks. Everything else (headings, text, plain list items) is ignored.
+ */
+export const parseMarkdownChecklist = (text: string): Partial<Task>[] => {
+  const tasks: Partial<Task>[] = [];
+  let taskIndent = -1;
+
+  text.split(/\r?\n/).forEach(line => {
+    const match = LIST_ITEM_PATTERN.exec(line.replace(/\t/g, '    '));
+    if (!match || match[2] === undefined) return;
+    const indent = match[1].length;
+    const completed = match[2] !== ' ';
+    const content = match[3].trim();
+    if (!content) return;
+
+    const currentTask = tasks[tasks.length - 1];
+    if (currentTask && indent > taskIndent) {
+      const subtask: Subtask = { id: generateId(), text: content, completed };
+      currentTask.subtasks!.push(subtask);
+      return;
+    }
+
+    const tags = Array.from(content.matchAll(TAG_PATTERN), tagMatch => tagMatch[2].toLowerCase());
+    const dueDateMatch = DUE_DATE_PATTERN.exec(content);
+    const title = content.replace(TAG_PATTERN, '$1').replace(DUE_DATE_PATTERN, '$1').replace(/\s+/g, ' ').trim();
+    if (!title) return;
+
+    taskIndent = indent;
+    tasks.push({
+      title,
+      dueDate: dueDateMatch ? parseCsvDate(dueDateMatch[2]) : null,
+      completed,
+      subtasks: [],
+      tags: [...new Set(tags)],
+    });
+  });
+
+  return tasks;
+};
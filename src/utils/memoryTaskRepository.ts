@@ -0,0 +1,170 @@
+/**
+ * @fileoverview In-memory task repository.
+ *
+ * Backs the "memory" and "local" storage backends, which need no Supabase project. Given a
+ * Storage (e.g. localStorage), every change is written through to it and read back on startup;
+ * without one, the data lives only as long as the page.
+ */
+
+import { Task, TaskHistoryEntry, UserSettings, DEFAULT_USER_SETTINGS } from '../types';
+import type { TaskRepository } from './taskRepository';
+import { logger } from './logger';
+
+const LOCAL_REPOSITORY_KEY = 'riley-local-repository';
+
+interface RepositoryData {
+  tasks: Task[];
+  history: TaskHistoryEntry[];
+  tagColors: Record<string, string>;
+  settings: UserSettings;
+}
+
+const emptyData = (): RepositoryData => ({
+  tasks: [],
+  history: [],
+  tagColors: {},
+  settings: DEFAULT_USER_SETTINGS,
+});
+
+const readData = (storage: Storage | undefined): RepositoryData => {
+  if (!storage) return emptyData();
+  try {
+    const stored = storage.getItem(LOCAL_REPOSITORY_KEY);
+    return stored ? { ...emptyData(), ...JSON.parse(stored) } : emptyData();
+  } catch (error) {
+    logger.error('[memoryTaskRepository] Failed to read stored data:', error);
+    return emptyData();
+  }
+};
+
+// Callers may keep and mutate what they get back, so never hand out stored objects
+const copy = <T,>(value: T): T => structuredClone(value);
+
+/**
+ * Creates a repository that keeps everything in memory
+ * @param storage Where to persist the data between page loads; omit to keep it in memory only
+ */
+export const createMemoryTaskRepository = (storage?: Storage): TaskRepository => {
+  let data = readData(storage);
+
+  // Everything but the Trash view works with the tasks that aren't in the trash
+  const liveTasks = () => data.tasks.filter(task => !task.deletedAt);
+
+  const commit = (update: Partial<RepositoryData>) => {
+    data = { ...data, ...update };
+    if (!storage) return;
+    try {
+      storage.setItem(LOCAL_REPOSITORY_KEY, JSON.stringify(data));
+    } catch (error) {
+      logger.error('[memoryTaskRepository] Failed to persist data:', error);
+      throw error;
+    }
+  };
+
+  return {
+    requiresNetwork: false,
+
+    async loadIncompleteTasks() {
+      return copy(liveTasks().filter(task => !task.completed));
+    },
+
+    async loadCompletedTasks(limit, offset) {
+      // Same order as Supabase: most recently modified first, ties broken by ID
+      const completedTasks = liveTasks()
+        .filter(task => task.completed && !task.occurrenceDate)
+        .sort((a, b) => b.lastModified.localeCompare(a.lastModified) || b.id.localeCompare(a.id));
+      return {
+        tasks: copy(completedTasks.slice(offset, offset + limit)),
+        total: completedTasks.length,
+      };
+    },
+
+    async loadCompletedOccurrences() {
+      return copy(liveTasks().filter(task => task.completed && task.occurrenceDate));
+    },
+
+    async loadTasksByIds(taskIds) {
+      const ids = new Set(taskIds);
+      return copy(liveTasks().filter(task => ids.has(task.id)));
+    },
+
+    async loadDeletedTasks() {
+      const deletedTasks = data.tasks
+        .filter(task => task.deletedAt)
+        .sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!));
+      return copy(deletedTasks);
+    },
+
+    async saveTasks(tasks) {
+      if (tasks.length === 0) return;
+      const savedTasks = new Map(data.tasks.map(task => [task.id, task]));
+      tasks.forEach(task => savedTasks.set(task.id, copy(task)));
+      commit({ tasks: Array.from(savedTasks.values()) });
+    },
+
+    async saveTaskIfUnchanged(task, expectedLastModified) {
+      const stored = data.tasks.find(storedTask => storedTask.id === task.id);
+      if (!stored || Date.parse(stored.lastModified) !== Date.parse(expectedLastModified)) {
+        return false;
+      }
+      commit({ tasks: data.tasks.map(storedTask => (storedTask.id === task.id ? copy(task) : storedTask)) });
+      return true;
+    },
+
+    async deleteTasks(taskIds) {
+      if (taskIds.length === 0) return;
+      const ids = new Set(taskIds);
+      commit({ tasks: data.tasks.filter(task => !ids.has(task.id)) });
+    },
+
+    async loadTaskHistory(taskId) {
+      return copy(data.history
+        .filter(entry => entry.taskId === taskId)
+        .sort((a, b) => a.changedAt.localeCompare(b.changedAt)));
+    },
+
+    async appendTaskHistory(entries) {
+      if (entries.length === 0) return;
+      commit({ history: [...data.history, ...copy(entries)] });
+    },
+
+    async loadTags() {
+      const tags = new Set<string>();
+      data.tasks.forEach(task => task.tags.forEach(tag => tags.add(tag.toLowerCase())));
+      Object.keys(data.tagColors).forEach(tag => tags.add(tag.toLowerCase()));
+      return Array.from(tags);
+    },
+
+    async loadTagColors() {
+      return { ...data.tagColors };
+    },
+
+    async saveTagColors(colors) {
+      const tagColors = { ...data.tagColors };
+      Object.entries(colors).forEach(([tag, color]) => {
+        tagColors[tag.toLowerCase()] = color;
+      });
+      commit({ tagColors });
+    },
+
+    async deleteTagColor(tag) {
+      const tagColors = { ...data.tagColors };
+      delete tagColors[tag.toLowerCase()];
+      commit({ tagColors });
+    },
+
+    async loadUserSettings() {
+      // Data stored before a setting existed gets its default
+      return { ...DEFAULT_USER_SETTINGS, ...data.settings };
+    },
+
+    async saveUserSettings(settings) {
+      commit({ settings: { ...settings } });
+    },
+
+    subscribeToChanges() {
+      // Nothing else writes to this data
+      return () => {};
+    },
+  };
+};
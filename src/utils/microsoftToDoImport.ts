@@ -0,0 +1,212 @@
+/**
+ * @fileoverview Reading Microsoft To Do exports: lists with their tasks as JSON, in the shape of the
+ * Microsoft Graph API (todoTaskList and todoTask). Lists become tags, checklist items become
+ * subtasks, and recurrence patterns become recurrence settings where we can express them.
+ */
+
+import { MonthlyRule, RecurrenceSettings, Subtask, Task } from '../types';
+import type { ExternalImportItem, ExternalImportResult, ExternalImportSkip } from './externalImport';
+import { generateId } from './supabaseStorage';
+import { isObject, toRecurrenceSettings, toTag } from './importUtils';
+import { toCalendarDay, toCalendarTime } from './calendarDay';
+
+interface GraphDateTime {
+  dateTime: string;
+  timeZone?: string;
+}
+
+interface ToDoRecurrence {
+  pattern?: {
+    type?: string;
+    interval?: number;
+    daysOfWeek?: string[];
+    index?: string;
+  };
+  range?: {
+    type?: string;
+    endDate?: string;
+    numberOfOccurrences?: number;
+  };
+}
+
+interface ToDoTask {
+  title?: string;
+  status?: string;
+  importance?: string;
+  body?: { content?: string; contentType?: string };
+  dueDateTime?: GraphDateTime | null;
+  reminderDateTime?: GraphDateTime | null;
+  isReminderOn?: boolean;
+  completedDateTime?: GraphDateTime | null;
+  recurrence?: ToDoRecurrence | null;
+  checklistItems?: { displayName?: string; isChecked?: boolean }[];
+  categories?: string[];
+}
+
+interface ToDoList {
+  displayName?: string;
+  name?: string;
+  wellknownListName?: string;
+  tasks?: ToDoTask[] | { value?: ToDoTask[] };
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const ORDINALS: Record<string, number> = { first: 1, second: 2, third: 3, fourth: 4, last: -1 };
+const DEFAULT_LIST_NAME = 'defaultList';
+
+// Graph date-times look like "2025-03-03T00:00:00.0000000"; To Do due dates are whole days
+const toDateOnly = (value: GraphDateTime | null | undefined): string | null => {
+  const match = value?.dateTime ? /^(\d{4}-\d{2}-\d{2})/.exec(value.dateTime) : null;
+  return match ? match[1] : null;
+};
+
+/**
+ * Reads a Graph date-time as a calendar day and time of day. Times in UTC (Graph's default) are
+ * moved to the user's time zone; others are taken as the user's local time.
+ */
+const toDateAndTime = (value: GraphDateTime | null | undefined): { date: string; time: string } | null => {
+  const match = value?.dateTime ? /^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2}):\d{2}/.exec(value.dateTime) : null;
+  if (!match) return null;
+  if (value!.timeZone && value!.timeZone.toUpperCase() !== 'UTC') {
+    return { date: match[1], time: match[2] };
+  }
+  const instant = new Date(`${match[1]}T${match[2]}:00Z`);
+  return { date: toCalendarDay(instant), time: toCalendarTime(instant) };
+};
+
+/**
+ * Maps a To Do recurrence pattern and range onto recurrence settings
+ * @returns null if the pattern can't be expressed
+ */
+export const parseToDoRecurrence = (recurrence: ToDoRecurrence): RecurrenceSettings | null => {
+  const { pattern = {}, range = {} } = recurrence;
+  const interval = pattern.interval ?? 1;
+  const weekdays = (pattern.daysOfWeek ?? []).map(day => WEEKDAYS.indexOf(day.toLowerCase()));
+  if (weekdays.includes(-1)) return null;
+
+  const end: Partial<RecurrenceSettings> = {};
+  if (range.type === 'endDate' && range.endDate) {
+    end.recurrenceEndDate = range.endDate;
+  } else if (range.type === 'numbered' && range.numberOfOccurrences) {
+    end.recurrenceCount = range.numberOfOccurrences;
+  }
+
+  switch (pattern.type) {
+    case 'daily':
+      return toRecurrenceSettings('daily', interval, end);
+    case 'weekly':
+      return toRecurrenceSettings('weekly', interval, weekdays.length > 0 ? { ...end, byWeekday: weekdays } : end);
+    case 'absoluteMonthly':
+      return toRecurrenceSettings('monthly', interval, end);
+    case 'relativeMonthly': {
+      const ordinal = ORDINALS[pattern.index ?? 'first'];
+      if (weekdays.length !== 1 || ordinal === undefined) return null;
+      const monthlyRule: MonthlyRule = { type: 'nthWeekday', ordinal, weekday: weekdays[0] };
+      return toRecurrenceSettings('monthly', interval, { ...end, monthlyRule });
+    }
+    case 'absoluteYearly':
+      return toRecurrenceSettings('yearly', interval, end);
+    default:
+      return null;
+  }
+};
+
+const getListTasks = (list: ToDoList): ToDoTask[] | null => {
+  if (Array.isArray(list.tasks)) return list.tasks;
+  if (isObject(list.tasks) && Array.isArray(list.tasks.value)) return list.tasks.value;
+  return null;
+};
+
+const isToDoList = (value: unknown): value is ToDoList => {
+  return isObject(value)
+    && (typeof value.displayName === 'string' || typeof value.name === 'string')
+    && getListTasks(value as ToDoList) !== null;
+};
+
+/**
+ * Reads a task of a list, noting what's lost
+ */
+const readToDoTask = (task: ToDoTask, listName: string, listTag: string | null): ExternalImportItem => {
+  const title = (task.title ?? '').trim();
+  const completed = task.status === 'completed';
+  const unmapped: string[] = [];
+  const subtasks: Subtask[] = (task.checklistItems ?? [])
+    .filter(item => (item.displayName ?? '').trim() !== '')
+    .map(item => ({ id: generateId(), text: item.displayName!.trim(), completed: !!item.isChecked }));
+
+  const taskData: Partial<Task> = {
+    title,
+    dueDate: toDateOnly(task.dueDateTime),
+    completed,
+    subtasks,
+    tags: [...new Set([...(listTag ? [listTag] : []), ...(task.categories ?? []).map(toTag)])],
+  };
+  if (task.importance === 'high' || task.importance === 'low') {
+    taskData.priority = task.importance;
+  }
+
+  const completionDate = toDateOnly(task.completedDateTime);
+  if (completed && completionDate) {
+    // Midday UTC falls on the same calendar day in nearly every time zone
+    taskData.lastModified = `${completionDate}T12:00:00.000Z`;
+  }
+
+  if (task.recurrence) {
+    const settings = parseToDoRecurrence(task.recurrence);
+    if (!settings) {
+      unmapped.push(`Repeat pattern "${task.recurrence.pattern?.type ?? 'unknown'}" isn't supported; imported as a one-off task`);
+    } else if (completed) {
+      unmapped.push('Repeat pattern isn\'t imported for a completed task');
+    } else if (!taskData.dueDate) {
+      unmapped.push('Repeating tasks need a due date; imported as a one-off task');
+    } else {
+      Object.assign(taskData, settings);
+    }
+  }
+
+  const note = task.body?.content?.trim();
+  if (note && task.body?.contentType === 'html') {
+    unmapped.push('Formatted note not imported');
+  } else if (note) {
+    taskData.notes = note;
+  }
+  // To Do due dates have no time; a reminder on the due date is the closest thing to one
+  const reminder = task.isReminderOn !== false ? toDateAndTime(task.reminderDateTime) : null;
+  if (reminder && reminder.date === taskData.dueDate) {
+    taskData.dueTime = reminder.time;
+  } else if (task.isReminderOn || task.reminderDateTime) {
+    unmapped.push('Reminder not imported');
+  }
+
+  return { label: `${listName} / ${title}`, taskData, unmapped };
+};
+
+/**
+ * Reads Microsoft To Do lists as JSON: an array of lists, { lists: [...] }, or a Graph response
+ * ({ value: [...] }), each list with its tasks in "tasks" (an array, or a Graph response)
+ * @returns null if the data isn't from Microsoft To Do
+ */
+export const readMicrosoftToDoJson = (data: unknown): ExternalImportResult | null => {
+  const rawLists = Array.isArray(data) ? data : isObject(data) ? (data.lists ?? data.value) : null;
+  if (!Array.isArray(rawLists) || rawLists.length === 0 || !rawLists.every(isToDoList)) {
+    return null;
+  }
+
+  const items: ExternalImportItem[] = [];
+  const skipped: ExternalImportSkip[] = [];
+  rawLists.forEach(list => {
+    const listName = (list.displayName ?? list.name ?? '').trim();
+    // The default "Tasks" list is where everything without a list goes, so it gets no tag
+    const listTag = list.wellknownListName === DEFAULT_LIST_NAME || !listName ? null : toTag(listName);
+    getListTasks(list)!.forEach((task, index) => {
+      const item = readToDoTask(task, listName, listTag);
+      if (!item.taskData.title) {
+        skipped.push({ label: `${listName} / task ${index + 1}`, reason: 'The task has no title' });
+        return;
+      }
+      items.push(item);
+    });
+  });
+
+  return { ok: true, value: { format: 'microsoft-to-do', items, skipped } };
+};
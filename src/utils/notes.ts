@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Task notes: a lightweight Markdown subset for the context around a task.
+ *
+ * Notes are split into paragraphs and lists ("- item", "1. item"); within them, **bold**,
+ * *italic*, [links](https://example.com) and bare URLs are recognized. Anything else is kept as
+ * written. Links only ever point to web, mail or phone addresses, so notes can't run scripts.
+ */
+
+export type NoteInline =
+  | { type: 'text'; text: string }
+  | { type: 'bold'; children: NoteInline[] }
+  | { type: 'italic'; children: NoteInline[] }
+  | { type: 'link'; text: string; href: string };
+
+export type NoteBlock =
+  | { type: 'paragraph'; lines: NoteInline[][] }
+  | { type: 'list'; ordered: boolean; items: NoteInline[][] };
+
+const LIST_ITEM_PATTERN = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+// Alternatives in order of precedence: [text](url), **bold**, *italic*, bare URL
+const INLINE_PATTERN = /\[([^\]\n]+)\]\(([^)\s]+)\)|\*\*(.+?)\*\*|\*([^*\s](?:[^*]*[^*\s])?)\*|((?:https?:\/\/|www\.)[^\s<]*[^\s<.,:;"')\]!?])/g;
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+/**
+ * Gets the address a link may point to
+ * @returns null for anything but web, mail and phone addresses
+ */
+export const toSafeHref = (url: string): string | null => {
+  const href = url.startsWith('www.') ? `https://${url}` : url;
+  try {
+    return SAFE_PROTOCOLS.includes(new URL(href).protocol) ? href : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Parses the inline formatting of a line of notes
+ */
+export const parseNoteInline = (text: string): NoteInline[] => {
+  const nodes: NoteInline[] = [];
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text') {
+      last.text += value;
+    } else {
+      nodes.push({ type: 'text', text: value });
+    }
+  };
+
+  let position = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const [whole, linkText, linkUrl, bold, italic, bareUrl] = match;
+    pushText(text.slice(position, match.index));
+    position = match.index! + whole.length;
+
+    if (linkText !== undefined) {
+      const href = toSafeHref(linkUrl);
+      if (href) {
+        nodes.push({ type: 'link', text: linkText, href });
+      } else {
+        pushText(whole);
+      }
+    } else if (bold !== undefined) {
+      nodes.push({ type: 'bold', children: parseNoteInline(bold) });
+    } else if (italic !== undefined) {
+      nodes.push({ type: 'italic', children: parseNoteInline(italic) });
+    } else {
+      const href = toSafeHref(bareUrl);
+      if (href) {
+        nodes.push({ type: 'link', text: bareUrl, href });
+      } else {
+        pushText(whole);
+      }
+    }
+  }
+  pushText(text.slice(position));
+
+  return nodes;
+};
+
+/**
+ * Parses notes into paragraphs and lists. Blank lines separate paragraphs; consecutive list items form a list.
+ */
+export const parseNoteBlocks = (text: string): NoteBlock[] => {
+  const blocks: NoteBlock[] = [];
+  let current: NoteBlock | null = null;
+
+  text.split(/\r?\n/).forEach(line => {
+    if (!line.trim()) {
+      current = null;
+      return;
+    }
+
+    const listMatch = LIST_ITEM_PATTERN.exec(line);
+    if (listMatch) {
+      const ordered = /^\d/.test(listMatch[1]);
+      if (current?.type !== 'list' || current.ordered !== ordered) {
+        current = { type: 'list', ordered, items: [] };
+        blocks.push(current);
+      }
+      current.items.push(parseNoteInline(listMatch[2].trim()));
+      return;
+    }
+
+    if (current?.type !== 'paragraph') {
+      current = { type: 'paragraph', lines: [] };
+      blocks.push(current);
+    }
+    current.lines.push(parseNoteInline(line.trim()));
+  });
+
+  return blocks;
+};
+
+const toPlainText = (nodes: NoteInline[]): string => nodes.map(node => {
+  if (node.type === 'text' || node.type === 'link') return node.text;
+  return toPlainText(node.children);
+}).join('');
+
+/**
+ * Gets the first line of notes as plain text, for showing them collapsed
+ */
+export const getNotesPreview = (text: string): string => {
+  const firstLine = text.split(/\r?\n/).find(line => line.trim()) ?? '';
+  const listMatch = LIST_ITEM_PATTERN.exec(firstLine);
+  return toPlainText(parseNoteInline((listMatch ? listMatch[2] : firstLine).trim()));
+};
@@ -0,0 +1,222 @@
+import { Task } from '../types';
+import { generateRecurringDates } from './dateUtils';
+
+/** Number of upcoming occurrences listed per series in views without a date range (All Tasks, search) */
+export const UPCOMING_OCCURRENCE_COUNT = 10;
+
+// Hard cap on the rule dates generated for one series, so an open-ended window always terminates
+const MAX_RULE_DATES = 8192;
+const INITIAL_BATCH_SIZE = 32;
+
+const OCCURRENCE_ID_SEPARATOR = '::';
+
+/**
+ * Date window to expand series occurrences for
+ */
+export interface OccurrenceRange {
+  /** First date (YYYY-MM-DD) to include; occurrences before the series' open date are never included */
+  start?: string;
+  /** Last date (YYYY-MM-DD) to include */
+  end?: string;
+  /** Maximum number of occurrences per series */
+  limit?: number;
+}
+
+/**
+ * Checks whether a task is the stored rule row of a series (never displayed itself)
+ */
+export const isSeriesRow = (task: Task): boolean => task.isSeries === true;
+
+/**
+ * Builds the ID of a virtual occurrence. Virtual IDs are stable, so a view can re-render
+ * an occurrence and still find it after it has been persisted as an exception row.
+ */
+export const getOccurrenceId = (recurrenceGroupId: string, date: string): string => {
+  return `${recurrenceGroupId}${OCCURRENCE_ID_SEPARATOR}${date}`;
+};
+
+/**
+ * Parses a virtual occurrence ID back into its series group and date
+ * @returns null for the IDs of stored tasks
+ */
+export const parseOccurrenceId = (id: string): { recurrenceGroupId: string; date: string } | null => {
+  const index = id.lastIndexOf(OCCURRENCE_ID_SEPARATOR);
+  if (index === -1) return null;
+  return {
+    recurrenceGroupId: id.slice(0, index),
+    date: id.slice(index + OCCURRENCE_ID_SEPARATOR.length),
+  };
+};
+
+/**
+ * Checks whether a task is an expanded occurrence that has not been stored yet
+ */
+export const isVirtualOccurrence = (task: Task): boolean => parseOccurrenceId(task.id) !== null;
+
+/**
+ * Checks whether a task is the rule row of a paused series
+ */
+export const isPausedSeries = (task: Task): boolean => isSeriesRow(task) && !!task.pausedFrom;
+
+/**
+ * Finds the rule row of a series
+ */
+export const findSeriesRow = (tasks: Task[], recurrenceGroupId: string | null): Task | null => {
+  if (!recurrenceGroupId) return null;
+  return tasks.find(t => isSeriesRow(t) && t.recurrenceGroupId === recurrenceGroupId) ?? null;
+};
+
+/**
+ * Collects the scheduled dates of a series rule within a window, generating dates
+ * from the series start in growing batches until the window is covered.
+ * @param accept Dates failing this check are left out and don't count towards the limit
+ * @returns The dates, plus the final date of the series if it ends before the window does
+ */
+const collectRuleDates = (
+  series: Task,
+  from: string,
+  to: string | undefined,
+  limit: number | undefined,
+  accept: (date: string) => boolean
+): { dates: string[]; finalDate: string | null } => {
+  if (!series.recurrence || !series.dueDate) {
+    return { dates: [], finalDate: null };
+  }
+
+  const multiplier = series.recurrence === 'custom' ? (series.recurrenceMultiplier ?? 1) : 1;
+  const customFrequency = series.recurrence === 'custom' ? series.customFrequency : undefined;
+  const options = { byWeekday: series.byWeekday, monthlyRule: series.monthlyRule, until: series.recurrenceEndDate };
+
+  for (let batchSize = INITIAL_BATCH_SIZE; ; batchSize *= 2) {
+    const ruleDates = generateRecurringDates(series.dueDate, series.recurrence, batchSize, multiplier, customFrequency, options);
+    const lastDate = ruleDates[ruleDates.length - 1];
+    // The until date cuts generation short once the series has ended
+    const hasEnded = ruleDates.length < batchSize;
+    const dates = ruleDates.filter(date => date >= from && (!to || date <= to) && accept(date));
+
+    // Generate past the window (or limit) so we know whether its last date is also the final one
+    const isCovered = (to !== undefined && lastDate !== undefined && lastDate > to) ||
+      (limit !== undefined && dates.length > limit);
+    if (hasEnded || isCovered || batchSize >= MAX_RULE_DATES) {
+      return {
+        dates: limit !== undefined ? dates.slice(0, limit) : dates,
+        finalDate: hasEnded ? lastDate ?? null : null,
+      };
+    }
+  }
+};
+
+/**
+ * Builds the virtual occurrence of a series on a given date
+ */
+const buildOccurrence = (series: Task, date: string, isFinal: boolean): Task => ({
+  ...series,
+  id: getOccurrenceId(series.recurrenceGroupId!, date),
+  dueDate: date,
+  completed: false,
+  skipped: undefined,
+  subtasks: series.subtasks.map(st => ({ ...st, completed: false })),
+  isSeries: undefined,
+  seriesOpenFrom: undefined,
+  occurrenceDate: date,
+  isLastInstance: isFinal,
+  autoRenew: false,
+});
+
+/**
+ * Expands the open occurrences of one series within a date range.
+ * Occurrences before the series' open date and dates that already have an exception row are left out.
+ * Completion-based series only ever have one open occurrence, due on the open date. Paused series have none.
+ */
+export const expandSeriesOccurrences = (
+  series: Task,
+  exceptionDates: Set<string>,
+  range: OccurrenceRange
+): Task[] => {
+  if (!isSeriesRow(series) || !series.recurrenceGroupId || !series.dueDate || series.completed || series.pausedFrom) {
+    return [];
+  }
+
+  const openFrom = series.seriesOpenFrom ?? series.dueDate;
+  const from = range.start && range.start > openFrom ? range.start : openFrom;
+
+  if (series.recurrenceFromCompletion) {
+    const isInRange = openFrom >= from && (!range.end || openFrom <= range.end);
+    const isBeforeEnd = !series.recurrenceEndDate || openFrom <= series.recurrenceEndDate;
+    return isInRange && isBeforeEnd && !exceptionDates.has(openFrom) && range.limit !== 0
+      ? [buildOccurrence(series, openFrom, false)]
+      : [];
+  }
+
+  // Without an end or limit, the window would be unbounded
+  const limit = range.end === undefined && range.limit === undefined ? UPCOMING_OCCURRENCE_COUNT : range.limit;
+  const { dates, finalDate } = collectRuleDates(series, from, range.end, limit, date => !exceptionDates.has(date));
+  return dates.map(date => buildOccurrence(series, date, date === finalDate));
+};
+
+/**
+ * Expands the open occurrences of every series in a task list within a date range
+ */
+export const getVirtualOccurrences = (tasks: Task[], range: OccurrenceRange): Task[] => {
+  const exceptionDates = new Map<string, Set<string>>();
+  tasks.forEach(task => {
+    if (isSeriesRow(task) || !task.recurrenceGroupId || !task.occurrenceDate) return;
+    const dates = exceptionDates.get(task.recurrenceGroupId) || new Set<string>();
+    dates.add(task.occurrenceDate);
+    exceptionDates.set(task.recurrenceGroupId, dates);
+  });
+
+  return tasks
+    .filter(isSeriesRow)
+    .flatMap(series => expandSeriesOccurrences(series, exceptionDates.get(series.recurrenceGroupId!) || new Set(), range));
+};
+
+/**
+ * Replaces series rule rows with their occurrences in a date range.
+ * Stored tasks are kept as-is (callers still filter them by date), except open occurrences of paused series.
+ */
+export const expandRecurringTasks = (tasks: Task[], range: OccurrenceRange): Task[] => {
+  const pausedGroupIds = new Set(tasks.filter(isPausedSeries).map(series => series.recurrenceGroupId));
+  const storedTasks = tasks.filter(task =>
+    !isSeriesRow(task) && !(task.recurrenceGroupId && pausedGroupIds.has(task.recurrenceGroupId) && !task.completed)
+  );
+  return [...storedTasks, ...getVirtualOccurrences(tasks, range)];
+};
+
+/**
+ * Finds a task by ID, including virtual occurrences.
+ * A virtual ID resolves to its exception row once the occurrence has been stored.
+ */
+export const resolveTask = (tasks: Task[], id: string): Task | undefined => {
+  const storedTask = tasks.find(t => t.id === id);
+  if (storedTask) return storedTask;
+
+  const occurrence = parseOccurrenceId(id);
+  if (!occurrence) return undefined;
+
+  const exceptionRow = tasks.find(t =>
+    !isSeriesRow(t) &&
+    t.recurrenceGroupId === occurrence.recurrenceGroupId &&
+    t.occurrenceDate === occurrence.date
+  );
+  if (exceptionRow) return exceptionRow;
+
+  const series = findSeriesRow(tasks, occurrence.recurrenceGroupId);
+  if (!series) return undefined;
+  const [virtualTask] = expandSeriesOccurrences(series, new Set(), { start: occurrence.date, end: occurrence.date });
+  return virtualTask?.dueDate === occurrence.date ? virtualTask : undefined;
+};
+
+/**
+ * Finds the next open date of a fixed-schedule series, skipping dates that have exception rows
+ * @returns null if no open occurrence is left
+ */
+export const getNextOpenOccurrenceDate = (series: Task, tasks: Task[]): string | null => {
+  const exceptionDates = new Set(
+    tasks
+      .filter(t => !isSeriesRow(t) && t.recurrenceGroupId === series.recurrenceGroupId && t.occurrenceDate)
+      .map(t => t.occurrenceDate!)
+  );
+  const [nextOccurrence] = expandSeriesOccurrences(series, exceptionDates, { limit: 1 });
+  return nextOccurrence?.dueDate ?? null;
+};
@@ -1,6 +1,8 @@
 import { Task, RecurrenceType } from '../types';
-import { generateRecurringDates, formatDate } from './dateUtils';
+import { generateRecurringDates, formatDate, normalizeWeekdays, getNextDueDateAfterCompletion } from './dateUtils';
 import { generateId } from './supabaseStorage';
+import { getCalendarToday } from './calendarDay';
+import { expandSeriesOccurrences, findSeriesRow, getNextOpenOccurrenceDate, isSeriesRow } from './recurrenceExpansion';
 
 const RECURRING_INSTANCE_COUNT = 10;
 
@@ -17,7 +19,9 @@ const normalizeTags = (tags: string[]): string[] => {
  * @param startDate Starting date for the recurrence
  * @param recurrence Recurrence type
  * @param count Number of instances to create (default: 10)
- * @returns Array of Task instances
+ * @returns Array of Task instances, fewer than `count` when the series ends on `recurrenceEndDate`.
+ * When the series ends within this batch, the last instance has `autoRenew` turned off.
+ * Completion-based series get a single instance; the next one is created when it is completed.
  */
 export const createRecurringTaskInstances = (
   taskData: Partial<Task>,
@@ -32,39 +36,318 @@ export const createRecurringTaskInstances = (
   const recurrenceGroupId = taskData.recurrenceGroupId || generateId();
   const multiplier = taskData.recurrence === 'custom' ? (taskData.recurrenceMultiplier ?? 1) : 1;
   const customFreq = taskData.recurrence === 'custom' ? taskData.customFrequency : undefined;
-  const recurringDates = generateRecurringDates(
+  const fromCompletion = taskData.recurrenceFromCompletion === true;
+  const batchSize = fromCompletion ? 1 : count;
+  const byWeekday = normalizeWeekdays(taskData.byWeekday);
+  // Generate one date past the batch to find out whether the series continues after it
+  const candidateDates = generateRecurringDates(
     startDate,
     recurrence,
-    count,
+    batchSize + 1,
     multiplier,
-    customFreq
+    customFreq,
+    { byWeekday, monthlyRule: taskData.monthlyRule, until: taskData.recurrenceEndDate }
   );
+  const reachesSeriesEnd = candidateDates.length <= batchSize;
+  const recurringDates = candidateDates.slice(0, batchSize);
 
   const normalizedTags = normalizeTags(taskData.tags || []);
   
   return recurringDates.map((date, index) => {
-    const isLastInstance = index === recurringDates.length - 1;
+    const isLastInstance = !fromCompletion && index === recurringDates.length - 1;
     return {
       id: generateId(),
       title: taskData.title || '',
       dueDate: date,
+      dueTime: taskData.dueTime,
+      durationMinutes: taskData.durationMinutes,
       completed: false,
       subtasks: index === 0 
         ? (taskData.subtasks || []) 
         : (taskData.subtasks || []).map(st => ({ ...st, completed: false })),
+      notes: taskData.notes,
       tags: normalizedTags,
+      priority: taskData.priority,
       createdAt: taskData.createdAt || new Date().toISOString(),
       lastModified: new Date().toISOString(),
       recurrence: recurrence,
       recurrenceGroupId,
       recurrenceMultiplier: taskData.recurrence === 'custom' ? multiplier : undefined,
       customFrequency: taskData.recurrence === 'custom' ? customFreq : undefined,
+      byWeekday: byWeekday.length > 0 ? byWeekday : undefined,
+      monthlyRule: taskData.monthlyRule,
+      recurrenceFromCompletion: fromCompletion || undefined,
+      recurrenceEndDate: taskData.recurrenceEndDate,
+      recurrenceCount: taskData.recurrenceCount,
       isLastInstance,
-      autoRenew: true, // Always enable auto-renewal for recurring tasks
+      autoRenew: !fromCompletion && !(isLastInstance && reachesSeriesEnd), // Keep renewing until the series end is reached
     };
   });
 };
 
+/**
+ * Creates the stored rule row of a recurring series. Its occurrences are expanded on the fly
+ * (see recurrenceExpansion), and only occurrences that get touched are stored as exception rows.
+ * @param taskData Partial task data to use as template
+ * @param startDate Starting date for the recurrence
+ * @param recurrence Recurrence type
+ * @returns The series row, or null if there is no recurrence or start date
+ */
+export const createRecurringSeries = (
+  taskData: Partial<Task>,
+  startDate: string,
+  recurrence: RecurrenceType
+): Task | null => {
+  if (!recurrence || !startDate) {
+    return null;
+  }
+
+  const multiplier = taskData.recurrence === 'custom' ? (taskData.recurrenceMultiplier ?? 1) : 1;
+  const byWeekday = normalizeWeekdays(taskData.byWeekday);
+
+  return {
+    id: generateId(),
+    title: taskData.title || '',
+    dueDate: startDate,
+    dueTime: taskData.dueTime,
+    durationMinutes: taskData.durationMinutes,
+    completed: false,
+    subtasks: (taskData.subtasks || []).map(st => ({ ...st, completed: false })),
+    notes: taskData.notes,
+    tags: normalizeTags(taskData.tags || []),
+    priority: taskData.priority,
+    createdAt: taskData.createdAt || new Date().toISOString(),
+    lastModified: new Date().toISOString(),
+    recurrence,
+    recurrenceGroupId: taskData.recurrenceGroupId || generateId(),
+    recurrenceMultiplier: taskData.recurrence === 'custom' ? multiplier : undefined,
+    customFrequency: taskData.recurrence === 'custom' ? taskData.customFrequency : undefined,
+    byWeekday: byWeekday.length > 0 ? byWeekday : undefined,
+    monthlyRule: taskData.monthlyRule,
+    recurrenceFromCompletion: taskData.recurrenceFromCompletion || undefined,
+    recurrenceEndDate: taskData.recurrenceEndDate,
+    recurrenceCount: taskData.recurrenceCount,
+    isLastInstance: false,
+    autoRenew: false,
+    isSeries: true,
+    seriesOpenFrom: startDate,
+  };
+};
+
+/**
+ * Stores a virtual occurrence as an exception row so it can be completed, edited or moved.
+ * For fixed schedules, the series' open date moves past occurrences that are now stored.
+ * @returns The task list with the exception row added, and the exception row itself
+ */
+export const materializeOccurrence = (tasks: Task[], occurrence: Task): { tasks: Task[]; task: Task } => {
+  const exceptionRow: Task = {
+    ...occurrence,
+    id: generateId(),
+    lastModified: new Date().toISOString(),
+  };
+  const tasksWithException = [...tasks, exceptionRow];
+
+  const series = findSeriesRow(tasks, occurrence.recurrenceGroupId);
+  // Completion-based series move their open date when the occurrence is completed instead
+  if (!series || series.recurrenceFromCompletion) {
+    return { tasks: tasksWithException, task: exceptionRow };
+  }
+
+  const nextOpenDate = getNextOpenOccurrenceDate(series, tasksWithException);
+  if (!nextOpenDate || nextOpenDate === series.seriesOpenFrom) {
+    return { tasks: tasksWithException, task: exceptionRow };
+  }
+
+  return {
+    tasks: tasksWithException.map(t =>
+      t.id === series.id ? { ...t, seriesOpenFrom: nextOpenDate, lastModified: new Date().toISOString() } : t
+    ),
+    task: exceptionRow,
+  };
+};
+
+/**
+ * Moves the open date of a completion-based series back to an occurrence that is reopened. Completing
+ * the occurrence moved the open date on, so without this, un-completing it (or undoing the completion)
+ * would leave the next occurrence open as well.
+ * @returns The task list with the series updated, or unchanged if there's nothing to move back
+ */
+export const reopenCompletionOccurrence = (tasks: Task[], occurrence: Task): Task[] => {
+  const series = findSeriesRow(tasks, occurrence.recurrenceGroupId);
+  const occurrenceDate = occurrence.occurrenceDate;
+  if (!series || !series.recurrenceFromCompletion || !occurrenceDate) return tasks;
+  if (!series.seriesOpenFrom || series.seriesOpenFrom <= occurrenceDate) return tasks;
+
+  return tasks.map(t =>
+    t.id === series.id ? { ...t, seriesOpenFrom: occurrenceDate, lastModified: new Date().toISOString() } : t
+  );
+};
+
+/**
+ * Ends a series on the day before a date, so that occurrence and all following ones are gone
+ */
+export const endSeriesBefore = (series: Task, date: string): Task => {
+  const [year, month, day] = date.split('-').map(Number);
+  const dayBefore = formatDate(new Date(year, month - 1, day - 1));
+  return {
+    ...series,
+    recurrenceEndDate: dayBefore,
+    recurrenceCount: undefined, // The count no longer describes the series
+    lastModified: new Date().toISOString(),
+  };
+};
+
+/**
+ * Copies the part of a series from a date on into a series of its own, taking along the exception
+ * rows of that part. Ending a series early puts this copy in the trash, so the part can be restored.
+ * @returns The copied series row followed by the moved exception rows
+ */
+export const copySeriesFrom = (series: Task, date: string, exceptionRows: Task[]): Task[] => {
+  const timestamp = new Date().toISOString();
+  const recurrenceGroupId = generateId();
+  const openFrom = series.seriesOpenFrom ?? date;
+  const copy: Task = {
+    ...series,
+    id: generateId(),
+    recurrenceGroupId,
+    dueDate: date,
+    seriesOpenFrom: openFrom > date ? openFrom : date,
+    recurrenceCount: undefined, // The end date still bounds the copy; the count was for the whole series
+    lastModified: timestamp,
+  };
+  return [copy, ...exceptionRows.map(row => ({ ...row, recurrenceGroupId, lastModified: timestamp }))];
+};
+
+/**
+ * Resumes a paused series. Occurrences scheduled while it was paused are dropped, so the series
+ * picks up at its first scheduled date on or after the resume date.
+ */
+export const resumeSeries = (series: Task, resumeDate: string): Task => {
+  const resumed: Task = { ...series, pausedFrom: undefined, lastModified: new Date().toISOString() };
+  const openFrom = series.seriesOpenFrom ?? series.dueDate ?? resumeDate;
+
+  if (series.recurrenceFromCompletion) {
+    return { ...resumed, seriesOpenFrom: openFrom > resumeDate ? openFrom : resumeDate };
+  }
+
+  const [nextOccurrence] = expandSeriesOccurrences(resumed, new Set(), { start: resumeDate, limit: 1 });
+  return { ...resumed, seriesOpenFrom: nextOccurrence?.dueDate ?? resumeDate };
+};
+
+/**
+ * Resolves an "ends after N occurrences" setting into the date of the Nth occurrence,
+ * counted from the start date. Later batches (extension, auto-renewal) then only compare dates.
+ * Completion-based due dates are not known in advance, so those series can't end after a count:
+ * the count is removed rather than kept on a series that never reaches it.
+ */
+export const resolveRecurrenceEndDate = (taskData: Partial<Task>, startDate: string): Partial<Task> => {
+  if (taskData.recurrenceFromCompletion && taskData.recurrenceCount) {
+    return { ...taskData, recurrenceCount: undefined };
+  }
+  if (!taskData.recurrenceCount || !taskData.recurrence) {
+    return taskData;
+  }
+
+  const dates = generateRecurringDates(
+    startDate,
+    taskData.recurrence,
+    taskData.recurrenceCount,
+    taskData.recurrence === 'custom' ? (taskData.recurrenceMultiplier ?? 1) : 1,
+    taskData.recurrence === 'custom' ? taskData.customFrequency : undefined,
+    { byWeekday: taskData.byWeekday, monthlyRule: taskData.monthlyRule }
+  );
+  return { ...taskData, recurrenceEndDate: dates[dates.length - 1] };
+};
+
+/**
+ * Creates the tasks for imported task data. Open recurring tasks become a batch of recurring instances;
+ * everything else becomes a single task (completed ones keep their lastModified as the completion time).
+ */
+export const createImportedTasks = (taskDataList: Partial<Task>[], now: Date = new Date()): Task[] => {
+  const timestamp = now.toISOString();
+  return taskDataList.flatMap(taskData => {
+    if (taskData.recurrence && taskData.dueDate && !taskData.completed) {
+      return createRecurringTaskInstances(
+        { ...resolveRecurrenceEndDate(taskData, taskData.dueDate), createdAt: timestamp },
+        taskData.dueDate,
+        taskData.recurrence
+      );
+    }
+    return [{
+      id: generateId(),
+      title: taskData.title ?? '',
+      dueDate: taskData.dueDate ?? null,
+      dueTime: taskData.dueTime,
+      durationMinutes: taskData.durationMinutes,
+      completed: taskData.completed ?? false,
+      subtasks: taskData.subtasks ?? [],
+      notes: taskData.notes,
+      tags: normalizeTags(taskData.tags ?? []),
+      priority: taskData.priority,
+      createdAt: timestamp,
+      lastModified: taskData.lastModified ?? timestamp,
+      recurrence: null,
+      recurrenceGroupId: null,
+    }];
+  });
+};
+
+/**
+ * Creates the next instance of a completion-based series, due one interval after the completion date
+ * @returns The next instance, or null if the task is not completion-based or the series has ended
+ */
+export const createNextCompletionInstance = (task: Task, completionDate: string): Task | null => {
+  if (!task.recurrence || !task.recurrenceFromCompletion) {
+    return null;
+  }
+
+  const nextDueDate = getNextDueDateAfterCompletion(completionDate, task);
+  if (!nextDueDate) {
+    return null;
+  }
+
+  const [nextInstance] = createRecurringTaskInstances(
+    {
+      ...task,
+      subtasks: task.subtasks.map(st => ({ ...st, completed: false })),
+    },
+    nextDueDate,
+    task.recurrence
+  );
+  return nextInstance ?? null;
+};
+
+/**
+ * Checks whether a task is the final instance of a series with an end condition,
+ * i.e. no further instances will be created for it
+ */
+export const isSeriesEnd = (task: Task): boolean => {
+  return !!task.isLastInstance &&
+    task.autoRenew === false &&
+    !!(task.recurrenceEndDate || task.recurrenceCount);
+};
+
+/**
+ * Checks whether an update changes the recurrence rule of a task
+ * (recurrence type, custom multiplier/frequency, weekday selection, monthly rule, completion basis or end condition)
+ */
+export const hasRecurrenceSettingsChanged = (existingTask: Task, updates: Partial<Task>): boolean => {
+  const recurrenceChanged = updates.recurrence !== undefined && updates.recurrence !== existingTask.recurrence;
+  const multiplierChanged = updates.recurrenceMultiplier !== undefined && updates.recurrenceMultiplier !== existingTask.recurrenceMultiplier;
+  const customFreqChanged = updates.customFrequency !== undefined && updates.customFrequency !== existingTask.customFrequency;
+  // Rule parts can be cleared with an explicit undefined, so check for the key instead of the value
+  const weekdaysChanged = 'byWeekday' in updates &&
+    normalizeWeekdays(updates.byWeekday).join(',') !== normalizeWeekdays(existingTask.byWeekday).join(',');
+  const monthlyRuleChanged = 'monthlyRule' in updates &&
+    JSON.stringify(updates.monthlyRule ?? null) !== JSON.stringify(existingTask.monthlyRule ?? null);
+  const endDateChanged = 'recurrenceEndDate' in updates && updates.recurrenceEndDate !== existingTask.recurrenceEndDate;
+  const fromCompletionChanged = 'recurrenceFromCompletion' in updates &&
+    !!updates.recurrenceFromCompletion !== !!existingTask.recurrenceFromCompletion;
+  const countChanged = 'recurrenceCount' in updates && updates.recurrenceCount !== existingTask.recurrenceCount;
+  return recurrenceChanged || multiplierChanged || customFreqChanged || weekdaysChanged || monthlyRuleChanged ||
+    fromCompletionChanged || endDateChanged || countChanged;
+};
+
 /**
  * Finds the first instance in a recurrence group (earliest due date)
  */
@@ -79,6 +362,17 @@ export const findFirstInstance = (tasks: Task[], recurrenceGroupId: string): Tas
   });
 };
 
+/**
+ * Checks whether a task is the first occurrence of its recurrence group
+ */
+export const isFirstOccurrence = (tasks: Task[], task: Task): boolean => {
+  if (!task.recurrenceGroupId) return true;
+  const firstInstance = findFirstInstance(tasks, task.recurrenceGroupId);
+  if (!firstInstance || firstInstance.id === task.id) return true;
+  // A series starts on its rule row's due date
+  return isSeriesRow(firstInstance) && task.occurrenceDate === firstInstance.dueDate;
+};
+
 /**
  * Finds the last instance in a recurrence group (latest due date)
  */
@@ -101,9 +395,7 @@ export const getTasksToRemoveForRegeneration = (
   tasks: Task[],
   recurrenceGroupId: string
 ): Task[] => {
-  const today = new Date();
-  today.setUTCHours(0, 0, 0, 0);
-  const todayStr = today.toISOString().split('T')[0];
+  const todayStr = getCalendarToday();
   
   return tasks.filter(task => {
     if (task.recurrenceGroupId !== recurrenceGroupId) return false;
@@ -130,13 +422,19 @@ export const extendRecurringTaskInstances = (
   task: Task,
   tasks: Task[]
 ): Task[] => {
-  if (!task.recurrence || !task.dueDate || !task.recurrenceGroupId) {
+  // Completion-based series only ever have one open instance
+  if (!task.recurrence || !task.dueDate || !task.recurrenceGroupId || task.recurrenceFromCompletion) {
+    return [];
+  }
+
+  // Series expand their occurrences on the fly, so there is nothing to extend
+  if (findSeriesRow(tasks, task.recurrenceGroupId)) {
     return [];
   }
 
   // Find the last instance in the recurrence group
   const lastInstance = findLastInstance(tasks, task.recurrenceGroupId);
-  if (!lastInstance || !lastInstance.dueDate) {
+  if (!lastInstance || !lastInstance.dueDate || isSeriesEnd(lastInstance)) {
     return [];
   }
 
@@ -0,0 +1,294 @@
+/**
+ * @fileoverview RRULE import and export.
+ *
+ * Converts between our recurrence fields and RFC 5545 recurrence rules (RRULE), for moving series
+ * to and from calendar apps.
+ */
+
+import { MonthlyRule, RecurrenceSettings } from '../types';
+import { normalizeWeekdays } from './dateUtils';
+
+type BaseFrequency = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+/**
+ * Result of an RRULE conversion; rules we can't represent faithfully fail with a list of reasons
+ */
+export type RRuleResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+export interface ParsedRRule {
+  settings: RecurrenceSettings;
+  startDate?: string; // YYYY-MM-DD from a DTSTART line, when the text has one
+}
+
+// RFC 5545 weekday codes indexed by Date#getDay() (0 = Sunday)
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const BUSINESS_DAYS = ['MO', 'TU', 'WE', 'TH', 'FR'];
+
+const RRULE_FREQUENCIES: Record<string, Exclude<BaseFrequency, 'quarterly'>> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+  YEARLY: 'yearly',
+};
+
+// Same limit as the custom recurrence multiplier in the task form
+const MAX_INTERVAL = 50;
+
+const SUPPORTED_PARTS = new Set(['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'BYSETPOS', 'COUNT', 'UNTIL', 'WKST']);
+
+/**
+ * Converts YYYY-MM-DD to the compact RFC 5545 date form (YYYYMMDD)
+ */
+const toRRuleDate = (date: string): string => date.replace(/-/g, '');
+
+/**
+ * Reads an RFC 5545 date or date-time (YYYYMMDD or YYYYMMDDTHHMMSS[Z]) as YYYY-MM-DD
+ */
+const fromRRuleDate = (value: string): string | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+/**
+ * Formats recurrence settings as an RRULE, preceded by a DTSTART line when a start date is given
+ */
+export const formatRRule = (settings: RecurrenceSettings, startDate?: string | null): RRuleResult<string> => {
+  if (!settings.recurrence) {
+    return { ok: false, errors: ['This task does not repeat'] };
+  }
+  if (settings.recurrenceFromCompletion) {
+    return { ok: false, errors: ['Series that repeat after completion have no RRULE equivalent'] };
+  }
+
+  const isCustom = settings.recurrence === 'custom';
+  const frequency: BaseFrequency = settings.recurrence === 'custom'
+    ? (settings.customFrequency ?? 'weekly')
+    : settings.recurrence;
+  const multiplier = isCustom ? (settings.recurrenceMultiplier ?? 1) : 1;
+  const interval = frequency === 'quarterly' ? multiplier * 3 : multiplier;
+  const byWeekday = frequency === 'weekly' ? normalizeWeekdays(settings.byWeekday) : [];
+
+  const parts = [`FREQ=${frequency === 'quarterly' ? 'MONTHLY' : frequency.toUpperCase()}`];
+  if (interval > 1) {
+    parts.push(`INTERVAL=${interval}`);
+  }
+  if (byWeekday.length > 0) {
+    parts.push(`BYDAY=${byWeekday.map(day => RRULE_WEEKDAYS[day]).join(',')}`);
+    // Multi-week rules count weeks from Sunday, like generateRecurringDates
+    if (interval > 1) {
+      parts.push('WKST=SU');
+    }
+  }
+
+  const monthlyRule = frequency === 'monthly' || frequency === 'quarterly' ? settings.monthlyRule : undefined;
+  if (monthlyRule?.type === 'nthWeekday') {
+    parts.push(`BYDAY=${monthlyRule.ordinal}${RRULE_WEEKDAYS[monthlyRule.weekday]}`);
+  } else if (monthlyRule?.type === 'lastDay') {
+    parts.push('BYMONTHDAY=-1');
+  } else if (monthlyRule?.type === 'lastBusinessDay') {
+    parts.push(`BYDAY=${BUSINESS_DAYS.join(',')}`, 'BYSETPOS=-1');
+  }
+
+  // An occurrence count is stored with the date of its last occurrence, which stays correct
+  // even when the exported start date is later than the original one
+  if (settings.recurrenceEndDate) {
+    parts.push(`UNTIL=${toRRuleDate(settings.recurrenceEndDate)}`);
+  } else if (settings.recurrenceCount) {
+    parts.push(`COUNT=${settings.recurrenceCount}`);
+  }
+
+  const rrule = `RRULE:${parts.join(';')}`;
+  return { ok: true, value: startDate ? `DTSTART;VALUE=DATE:${toRRuleDate(startDate)}\n${rrule}` : rrule };
+};
+
+/**
+ * Maps an RRULE frequency and interval onto our recurrence type, multiplier and custom frequency
+ */
+const toRecurrence = (
+  frequency: Exclude<BaseFrequency, 'quarterly'>,
+  interval: number
+): Pick<RecurrenceSettings, 'recurrence' | 'recurrenceMultiplier' | 'customFrequency'> | null => {
+  if (interval === 1) {
+    return { recurrence: frequency };
+  }
+  if (frequency === 'monthly' && interval === 3) {
+    return { recurrence: 'quarterly' };
+  }
+  if (interval <= MAX_INTERVAL) {
+    return { recurrence: 'custom', recurrenceMultiplier: interval, customFrequency: frequency };
+  }
+  if (frequency === 'monthly' && interval % 3 === 0 && interval / 3 <= MAX_INTERVAL) {
+    return { recurrence: 'custom', recurrenceMultiplier: interval / 3, customFrequency: 'quarterly' };
+  }
+  return null;
+};
+
+/**
+ * Parses an RRULE (optionally with an "RRULE:" prefix and a DTSTART line) into recurrence settings.
+ * Rule parts without an equivalent are reported as errors instead of being dropped.
+ * @param fallbackStartDate Start date (YYYY-MM-DD) to check BYMONTHDAY/BYMONTH against when there is no DTSTART
+ */
+export const parseRRule = (text: string, fallbackStartDate?: string): RRuleResult<ParsedRRule> => {
+  const errors: string[] = [];
+  let startDate: string | undefined;
+  let ruleText: string | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const property = /^([A-Za-z-]+)[:;]/.exec(line)?.[1].toUpperCase();
+    if (property === 'DTSTART') {
+      const value = line.slice(line.lastIndexOf(':') + 1).trim();
+      const date = fromRRuleDate(value);
+      if (date) {
+        startDate = date;
+      } else {
+        errors.push(`Could not read the start date "${value}"`);
+      }
+    } else if (property && property !== 'RRULE') {
+      errors.push(`${property} is not supported`);
+    } else if (ruleText !== null) {
+      errors.push('Only one RRULE is supported');
+    } else {
+      ruleText = property === 'RRULE' ? line.slice('RRULE:'.length) : line;
+    }
+  }
+
+  if (ruleText === null) {
+    return { ok: false, errors: errors.length > 0 ? errors : ['No RRULE found'] };
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of ruleText.split(';')) {
+    if (!part.trim()) continue;
+    const [rawName, ...rawValue] = part.split('=');
+    const name = rawName.trim().toUpperCase();
+    if (parts.has(name)) {
+      errors.push(`${name} appears more than once`);
+    }
+    parts.set(name, rawValue.join('=').trim().toUpperCase());
+  }
+
+  parts.forEach((value, name) => {
+    if (!SUPPORTED_PARTS.has(name)) {
+      errors.push(`${name}=${value} is not supported`);
+    }
+  });
+
+  const frequencyValue = parts.get('FREQ');
+  const frequency = frequencyValue ? RRULE_FREQUENCIES[frequencyValue] : undefined;
+  if (!frequencyValue) {
+    errors.push('FREQ is required');
+  } else if (!frequency) {
+    errors.push(`FREQ=${frequencyValue} is not supported (use DAILY, WEEKLY, MONTHLY or YEARLY)`);
+  }
+
+  const intervalValue = parts.get('INTERVAL');
+  const interval = intervalValue === undefined ? 1 : Number(intervalValue);
+  if (!Number.isInteger(interval) || interval < 1) {
+    errors.push(`INTERVAL=${intervalValue} is not a positive whole number`);
+  }
+  const recurrenceFields = frequency && Number.isInteger(interval) && interval >= 1
+    ? toRecurrence(frequency, interval)
+    : null;
+  if (frequency && Number.isInteger(interval) && interval >= 1 && !recurrenceFields) {
+    errors.push(`INTERVAL=${interval} is too large (at most ${MAX_INTERVAL})`);
+  }
+
+  // BYDAY: plain weekdays for weekly rules; one ordinal weekday, or Mon-Fri with BYSETPOS=-1, for monthly rules
+  let byWeekday: number[] | undefined;
+  let monthlyRule: MonthlyRule | undefined;
+  const byDayValue = parts.get('BYDAY');
+  const bySetPos = parts.get('BYSETPOS');
+  let bySetPosUsed = false;
+  if (byDayValue !== undefined) {
+    const tokens = byDayValue.split(',').map(token => /^([+-]?\d{1,2})?([A-Z]{2})$/.exec(token.trim()));
+    const days = tokens.map(token => (token ? RRULE_WEEKDAYS.indexOf(token[2]) : -1));
+    const ordinals = tokens.map(token => (token?.[1] ? Number(token[1]) : null));
+
+    if (days.some(day => day === -1)) {
+      errors.push(`BYDAY=${byDayValue} is not a list of weekdays`);
+    } else if (frequency === 'weekly' && ordinals.every(ordinal => ordinal === null)) {
+      byWeekday = normalizeWeekdays(days);
+    } else if (
+      frequency === 'monthly' && bySetPos === '-1' && ordinals.every(ordinal => ordinal === null) &&
+      tokens.map(token => token![2]).sort().join(',') === [...BUSINESS_DAYS].sort().join(',')
+    ) {
+      monthlyRule = { type: 'lastBusinessDay' };
+      bySetPosUsed = true;
+    } else if (
+      frequency === 'monthly' && tokens.length === 1 && ordinals[0] !== null &&
+      ((ordinals[0] >= 1 && ordinals[0] <= 4) || ordinals[0] === -1)
+    ) {
+      monthlyRule = { type: 'nthWeekday', ordinal: ordinals[0], weekday: days[0] };
+    } else {
+      errors.push(`BYDAY=${byDayValue} is not supported for ${frequencyValue ?? 'this'} rules`);
+    }
+  }
+  if (bySetPos !== undefined && !bySetPosUsed) {
+    errors.push(`BYSETPOS=${bySetPos} is only supported for the last business day of the month`);
+  }
+
+  // BYMONTHDAY=-1 is the last day of the month; other BYMONTHDAY/BYMONTH values must repeat what the start date implies
+  const anchorDate = startDate ?? fallbackStartDate;
+  const byMonthDay = parts.get('BYMONTHDAY');
+  if (byMonthDay !== undefined) {
+    if (byMonthDay === '-1' && frequency === 'monthly' && !monthlyRule) {
+      monthlyRule = { type: 'lastDay' };
+    } else if (
+      (frequency === 'monthly' || frequency === 'yearly') && /^\d{1,2}$/.test(byMonthDay) &&
+      (!anchorDate || Number(anchorDate.split('-')[2]) === Number(byMonthDay))
+    ) {
+      // Monthly and yearly rules already repeat on the start date's day of month
+    } else {
+      errors.push(`BYMONTHDAY=${byMonthDay} is not supported unless it matches the start date's day of month`);
+    }
+  }
+  const byMonth = parts.get('BYMONTH');
+  if (byMonth !== undefined) {
+    const matchesStartMonth = frequency === 'yearly' && /^\d{1,2}$/.test(byMonth) &&
+      (!anchorDate || Number(anchorDate.split('-')[1]) === Number(byMonth));
+    if (!matchesStartMonth) {
+      errors.push(`BYMONTH=${byMonth} is not supported unless it matches the start date's month in a yearly rule`);
+    }
+  }
+
+  const weekStart = parts.get('WKST');
+  if (weekStart !== undefined && weekStart !== 'SU' && byWeekday && byWeekday.length > 1 && interval > 1) {
+    errors.push(`WKST=${weekStart} is not supported (multi-week rules count weeks from Sunday)`);
+  }
+
+  const countValue = parts.get('COUNT');
+  const untilValue = parts.get('UNTIL');
+  let recurrenceCount: number | undefined;
+  let recurrenceEndDate: string | undefined;
+  if (countValue !== undefined && untilValue !== undefined) {
+    errors.push('COUNT and UNTIL cannot be combined');
+  }
+  if (countValue !== undefined) {
+    recurrenceCount = Number(countValue);
+    if (!Number.isInteger(recurrenceCount) || recurrenceCount < 1) {
+      errors.push(`COUNT=${countValue} is not a positive whole number`);
+    }
+  }
+  if (untilValue !== undefined) {
+    recurrenceEndDate = fromRRuleDate(untilValue) ?? undefined;
+    if (!recurrenceEndDate) {
+      errors.push(`Could not read UNTIL=${untilValue}`);
+    }
+  }
+
+  if (errors.length > 0 || !recurrenceFields) {
+    return { ok: false, errors };
+  }
+
+  const settings: RecurrenceSettings = {
+    ...recurrenceFields,
+    byWeekday: byWeekday && byWeekday.length > 0 ? byWeekday : undefined,
+    monthlyRule,
+    recurrenceEndDate,
+    recurrenceCount,
+  };
+  return { ok: true, value: { settings, startDate } };
+};
@@ -1,6 +1,8 @@
 import { Task } from '../types';
-import { startOfDay, subDays, startOfWeek, startOfMonth, isAfter, isBefore, isEqual } from 'date-fns';
+import { startOfDay, subDays, startOfWeek, startOfMonth, isAfter, isBefore, isEqual, differenceInCalendarDays } from 'date-fns';
 import { formatDate } from './dateUtils';
+import { getCalendarTodayDate, toCalendarDay } from './calendarDay';
+import { getNextOpenOccurrenceDate, getVirtualOccurrences, isSeriesRow } from './recurrenceExpansion';
 
 /**
  * Statistics about task completion
@@ -12,6 +14,7 @@ export interface TaskStats {
   overdueCount: number;
   totalActive: number;
   totalCompleted: number;
+  totalSkipped: number; // Skipped occurrences, counted per occurrence rather than per series
   completionRate: number;
   tagDistribution: TagDistribution[];
 }
@@ -22,6 +25,28 @@ export interface TagDistribution {
   percentage: number;
 }
 
+/**
+ * How reliably the occurrences of one recurring series were kept
+ */
+export interface SeriesAdherence {
+  completed: number;
+  missed: number; // Occurrences before today that are still open
+  skipped: number;
+  currentStreak: number; // Completed occurrences in a row, counting back from the latest resolved one
+  longestStreak: number;
+  averageLatenessDays: number | null; // Days between due date and completion; early completions count as 0
+  occurrences: SeriesOccurrence[]; // Resolved occurrences, most recent first
+}
+
+export type OccurrenceStatus = 'completed' | 'missed' | 'skipped';
+
+export interface SeriesOccurrence {
+  task: Task;
+  date: string; // Scheduled date (YYYY-MM-DD)
+  status: OccurrenceStatus;
+  latenessDays: number | null; // Only set for completed occurrences
+}
+
 /**
  * Parses a YYYY-MM-DD date string as local midnight
  */
@@ -51,10 +76,15 @@ const isBeforeToday = (dateStr: string | null): boolean => {
   if (!dateStr) return false;
   // Parse as local date to avoid timezone issues
   const date = startOfDay(parseLocalDate(dateStr));
-  const today = startOfDay(new Date());
+  const today = getCalendarTodayDate();
   return isBefore(date, today);
 };
 
+/**
+ * Checks if a task was actually done (completed, not skipped)
+ */
+const isDone = (task: Task): boolean => task.completed && !task.skipped;
+
 /**
  * Groups tasks by recurrenceGroupId. Tasks without a recurrenceGroupId are treated individually.
  * Returns an array of task groups, where each group is an array of tasks.
@@ -80,53 +110,59 @@ const groupTasksByRecurrence = (tasks: Task[]): Task[][] => {
   return result;
 };
 
+/**
+ * Gets the tasks that statistics are calculated from. A series row keeps its group active until
+ * no open occurrence is left (or while it is paused), and its past open occurrences are expanded
+ * so they count as overdue.
+ */
+const getStatTasks = (tasks: Task[], today: Date): Task[] => [
+  ...tasks.filter(t => !isSeriesRow(t) || t.pausedFrom || getNextOpenOccurrenceDate(t, tasks) !== null),
+  ...getVirtualOccurrences(tasks, { end: formatDate(subDays(today, 1)) }),
+];
+
 /**
  * Calculates comprehensive task statistics.
  * Recurring tasks with the same recurrenceGroupId are counted as a single task.
  */
 export const calculateTaskStats = (tasks: Task[]): TaskStats => {
-  const now = new Date();
-  const today = startOfDay(now);
-  const weekStart = startOfWeek(now, { weekStartsOn: 0 });
-  const monthStart = startOfMonth(now);
+  const today = getCalendarTodayDate();
+  const weekStart = startOfWeek(today, { weekStartsOn: 0 });
+  const monthStart = startOfMonth(today);
 
   // Group tasks by recurrence (each group counts as 1 task)
-  const taskGroups = groupTasksByRecurrence(tasks);
+  const taskGroups = groupTasksByRecurrence(getStatTasks(tasks, today));
 
-  // A group is "completed" if all its instances are completed
+  // A group is "completed" if all its instances are completed (skipped occurrences count as resolved)
   const completedGroups = taskGroups.filter(group => group.every(t => t.completed));
   const activeGroups = taskGroups.filter(group => group.some(t => !t.completed));
 
-  // Groups with at least one task completed today
+  // Groups with at least one task completed today (skipped occurrences don't count)
   const completedToday = taskGroups.filter(group =>
     group.some(t => {
-      if (!t.completed) return false;
-      const lastModified = new Date(t.lastModified);
-      return isDateInRange(formatDate(lastModified), today, today);
+      if (!isDone(t)) return false;
+      return isDateInRange(toCalendarDay(t.lastModified), today, today);
     })
   ).length;
 
   // Groups with at least one task completed this week
   const completedThisWeek = taskGroups.filter(group =>
     group.some(t => {
-      if (!t.completed) return false;
-      const lastModified = new Date(t.lastModified);
-      return isDateInRange(formatDate(lastModified), weekStart, today);
+      if (!isDone(t)) return false;
+      return isDateInRange(toCalendarDay(t.lastModified), weekStart, today);
     })
   ).length;
 
   // Groups with at least one task completed this month
   const completedThisMonth = taskGroups.filter(group =>
     group.some(t => {
-      if (!t.completed) return false;
-      const lastModified = new Date(t.lastModified);
-      return isDateInRange(formatDate(lastModified), monthStart, today);
+      if (!isDone(t)) return false;
+      return isDateInRange(toCalendarDay(t.lastModified), monthStart, today);
     })
   ).length;
 
   // Overdue groups (has at least one active task that's overdue)
   const overdueCount = activeGroups.filter(group =>
-    group.some(t => !t.completed && isBeforeToday(t.dueDate))
+    group.some(t => !t.completed && !isSeriesRow(t) && isBeforeToday(t.dueDate))
   ).length;
 
   // Completion rate (fully completed groups / total groups)
@@ -159,6 +195,7 @@ export const calculateTaskStats = (tasks: Task[]): TaskStats => {
     overdueCount,
     totalActive: activeGroups.length,
     totalCompleted: completedGroups.length,
+    totalSkipped: tasks.filter(t => t.skipped).length,
     completionRate,
     tagDistribution,
   };
@@ -170,7 +207,7 @@ export const calculateTaskStats = (tasks: Task[]): TaskStats => {
  */
 export const getCompletionHistory = (tasks: Task[], days: number = 7): { date: string; count: number }[] => {
   const history: { date: string; count: number }[] = [];
-  const now = new Date();
+  const now = getCalendarTodayDate();
   const taskGroups = groupTasksByRecurrence(tasks);
 
   for (let i = days - 1; i >= 0; i--) {
@@ -180,9 +217,8 @@ export const getCompletionHistory = (tasks: Task[], days: number = 7): { date: s
     // Count groups that had at least one task completed on this date
     const count = taskGroups.filter(group =>
       group.some(t => {
-        if (!t.completed) return false;
-        const lastModified = formatDate(new Date(t.lastModified));
-        return lastModified === dateStr;
+        if (!isDone(t)) return false;
+        return toCalendarDay(t.lastModified) === dateStr;
       })
     ).length;
 
@@ -194,3 +230,65 @@ export const getCompletionHistory = (tasks: Task[], days: number = 7): { date: s
 
   return history;
 };
+
+/**
+ * Classifies an occurrence of a series
+ * @returns null for occurrences that are still open and not yet due
+ */
+const getOccurrenceStatus = (task: Task): OccurrenceStatus | null => {
+  if (task.skipped) return 'skipped';
+  if (task.completed) return 'completed';
+  return isBeforeToday(task.dueDate) ? 'missed' : null;
+};
+
+/**
+ * Calculates the adherence of one recurring series: completed, missed and skipped occurrences,
+ * streaks and average lateness. Skipped occurrences neither extend nor break a streak.
+ * Completion dates come from lastModified, so only the loaded history is taken into account.
+ */
+export const calculateSeriesAdherence = (tasks: Task[], recurrenceGroupId: string): SeriesAdherence => {
+  const today = getCalendarTodayDate();
+  const group = groupTasksByRecurrence(getStatTasks(tasks, today))
+    .find(g => g[0].recurrenceGroupId === recurrenceGroupId) || [];
+
+  const occurrences: SeriesOccurrence[] = group
+    .filter(t => !isSeriesRow(t) && t.dueDate)
+    .flatMap(task => {
+      const status = getOccurrenceStatus(task);
+      if (!status) return [];
+      const dueDate = task.dueDate!.split('T')[0];
+      const latenessDays = status === 'completed'
+        ? Math.max(0, differenceInCalendarDays(parseLocalDate(toCalendarDay(task.lastModified)), parseLocalDate(dueDate)))
+        : null;
+      return [{ task, date: task.occurrenceDate || dueDate, status, latenessDays }];
+    })
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  // Walk from oldest to newest so the run still going at the end is the current streak
+  let currentStreak = 0;
+  let longestStreak = 0;
+  [...occurrences].reverse().forEach(occurrence => {
+    if (occurrence.status === 'completed') {
+      currentStreak++;
+      longestStreak = Math.max(longestStreak, currentStreak);
+    } else if (occurrence.status === 'missed') {
+      currentStreak = 0;
+    }
+  });
+
+  const latenesses = occurrences
+    .map(o => o.latenessDays)
+    .filter((days): days is number => days !== null);
+
+  return {
+    completed: occurrences.filter(o => o.status === 'completed').length,
+    missed: occurrences.filter(o => o.status === 'missed').length,
+    skipped: occurrences.filter(o => o.status === 'skipped').length,
+    currentStreak,
+    longestStreak,
+    averageLatenessDays: latenesses.length > 0
+      ? latenesses.reduce((sum, days) => sum + days, 0) / latenesses.length
+      : null,
+    occurrences,
+  };
+};
@@ -7,6 +7,7 @@
 
 import { ViewType } from '../types';
 import { logger } from './logger';
+import { getCalendarToday } from './calendarDay';
 
 const VIEW_STATE_KEY = 'riley-view-state';
 export interface ViewState {
@@ -38,11 +39,8 @@ export const saveViewState = (state: ViewState): void => {
 // Love message storage - tracks when daily message was last shown
 const LOVE_MESSAGE_KEY = 'riley-love-message-last-shown';
 
-// Returns YYYY-MM-DD format in local time
-export const getTodayDateString = (): string => {
-  const now = new Date();
-  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
-};
+// Returns YYYY-MM-DD format in the user's time zone
+export const getTodayDateString = (): string => getCalendarToday();
 
 export const getLastLoveMessageDate = (): string | null => {
   try {
@@ -59,3 +57,26 @@ export const setLastLoveMessageDate = (date: string): void => {
     logger.error('[storage] Failed to save love message date:', error);
   }
 };
+
+// Device ID - identifies this browser in task history
+const DEVICE_ID_KEY = 'riley-device-id';
+let fallbackDeviceId: string | null = null;
+
+const createDeviceId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Gets this browser's device ID, creating it on first use
+ */
+export const getDeviceId = (): string => {
+  try {
+    const stored = localStorage.getItem(DEVICE_ID_KEY);
+    if (stored) return stored;
+    const deviceId = createDeviceId();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    return deviceId;
+  } catch {
+    // Without localStorage the ID lasts for this page load
+    fallbackDeviceId ??= createDeviceId();
+    return fallbackDeviceId;
+  }
+};
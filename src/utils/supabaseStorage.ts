@@ -1,46 +1,21 @@
-import { Task, Subtask } from '../types';
+import { Task, TaskHistoryEntry, UserSettings, DEFAULT_USER_SETTINGS } from '../types';
+import { isAuthRetryableFetchError, type RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { supabase } from './supabase';
 import { logger } from './logger';
+import { DatabaseTask, dbTaskToTask } from './taskRows';
+import type { RemoteTaskChange, TaskChangeHandlers, TaskRepository } from './taskRepository';
 
-// Database task type (snake_case for Supabase)
-interface DatabaseTask {
+// Database task history entry type (snake_case for Supabase)
+interface DatabaseTaskHistoryEntry {
   id: string;
   user_id: string;
-  title: string;
-  due_date: string | null;
-  completed: boolean;
-  subtasks: Subtask[]; // JSONB
-  tags: string[];
-  created_at: string;
-  last_modified: string;
-  recurrence: string | null;
-  recurrence_group_id: string | null;
-  recurrence_multiplier: number | null;
-  custom_frequency: string | null;
-  is_last_instance: boolean;
-  auto_renew: boolean;
+  task_id: string;
+  changed_at: string;
+  device_id: string;
+  device_name: string;
+  changes: TaskHistoryEntry['changes']; // JSONB
 }
 
-// Convert database task to app task format
-const dbTaskToTask = (dbTask: DatabaseTask): Task => {
-  return {
-    id: dbTask.id,
-    title: dbTask.title,
-    dueDate: dbTask.due_date,
-    completed: dbTask.completed,
-    subtasks: dbTask.subtasks || [],
-    tags: dbTask.tags || [],
-    createdAt: dbTask.created_at,
-    lastModified: dbTask.last_modified,
-    recurrence: dbTask.recurrence as Task['recurrence'],
-    recurrenceGroupId: dbTask.recurrence_group_id,
-    recurrenceMultiplier: dbTask.recurrence_multiplier || undefined,
-    customFrequency: dbTask.custom_frequency as Task['customFrequency'],
-    isLastInstance: dbTask.is_last_instance || false,
-    autoRenew: dbTask.auto_renew || false,
-  };
-};
-
 // Helper function to generate a UUID
 const generateUUID = (): string => {
   if (typeof crypto !== 'undefined' && crypto.randomUUID) {
@@ -76,6 +51,28 @@ const toUUID = (id: string | null | undefined, idMap?: Map<string, string>): str
   return generateUUID();
 };
 
+/**
+ * Gives tasks with non-UUID IDs (e.g. from an imported backup) UUIDs, as Supabase requires.
+ * Every task and recurrence group ID is mapped once, so series stay linked to their instances.
+ */
+export const remapTaskIds = (tasks: Task[]): Task[] => {
+  const idMap = new Map<string, string>();
+  tasks.forEach(task => {
+    [task.id, task.recurrenceGroupId].forEach(id => {
+      if (id && !isUUID(id) && !idMap.has(id)) {
+        idMap.set(id, generateUUID());
+      }
+    });
+  });
+  if (idMap.size === 0) return tasks;
+
+  return tasks.map(task => ({
+    ...task,
+    id: toUUID(task.id, idMap)!,
+    recurrenceGroupId: toUUID(task.recurrenceGroupId, idMap),
+  }));
+};
+
 // Helper function to convert ISO datetime string to DATE format (YYYY-MM-DD)
 const toDateOnly = (dateString: string | null | undefined): string | null => {
   if (!dateString) return null;
@@ -84,21 +81,36 @@ const toDateOnly = (dateString: string | null | undefined): string | null => {
 };
 
 // Convert app task to database format
-const taskToDbTask = (task: Task, userId: string, idMap?: Map<string, string>): Omit<DatabaseTask, 'created_at'> => {
+const taskToDbTask = (task: Task, userId: string): Omit<DatabaseTask, 'created_at'> => {
   return {
-    id: toUUID(task.id, idMap)!,
+    id: toUUID(task.id)!,
     user_id: userId,
     title: task.title,
     due_date: toDateOnly(task.dueDate),
+    due_time: task.dueTime || null,
+    duration_minutes: task.durationMinutes || null,
     completed: task.completed,
+    skipped: task.skipped || false,
     subtasks: task.subtasks || [],
+    notes: task.notes || null,
     tags: task.tags || [],
+    priority: task.priority || 'none',
     recurrence: task.recurrence,
-    recurrence_group_id: toUUID(task.recurrenceGroupId, idMap),
+    recurrence_group_id: toUUID(task.recurrenceGroupId),
     recurrence_multiplier: task.recurrenceMultiplier || null,
     custom_frequency: task.customFrequency || null,
+    by_weekday: task.byWeekday && task.byWeekday.length > 0 ? task.byWeekday : null,
+    monthly_rule: task.monthlyRule || null,
+    recurrence_from_completion: task.recurrenceFromCompletion || false,
+    recurrence_end_date: task.recurrenceEndDate || null,
+    recurrence_count: task.recurrenceCount ?? null,
     is_last_instance: task.isLastInstance || false,
     auto_renew: task.autoRenew || false,
+    is_series: task.isSeries || false,
+    series_open_from: task.seriesOpenFrom || null,
+    paused_from: task.pausedFrom || null,
+    occurrence_date: task.occurrenceDate || null,
+    deleted_at: task.deletedAt || null,
     last_modified: task.lastModified, // Include lastModified so database trigger doesn't override it
   };
 };
@@ -135,6 +147,7 @@ export const loadIncompleteTasks = async (): Promise<Task[]> => {
         .select('*')
         .eq('user_id', user.id)
         .eq('completed', false)
+        .is('deleted_at', null)
         .order('created_at', { ascending: true })
         .range(offset, offset + INTERNAL_PAGE_SIZE - 1);
 
@@ -167,7 +180,55 @@ export const loadIncompleteTasks = async (): Promise<Task[]> => {
 };
 
 /**
- * Load completed tasks with pagination.
+ * Load the completed occurrences of series (completed tasks with an occurrence date), all of them
+ * via internal pagination. Views need every one to tell handled occurrences from open ones, so
+ * they're loaded in full rather than paged with the other completed tasks.
+ */
+export const loadCompletedOccurrences = async (): Promise<Task[]> => {
+  try {
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError) {
+      logger.error('[loadCompletedOccurrences] Auth error:', authError);
+      return [];
+    }
+    if (!user) {
+      logger.debug('[loadCompletedOccurrences] No user authenticated');
+      return [];
+    }
+
+    const occurrences: Task[] = [];
+    let offset = 0;
+    while (true) {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('completed', true)
+        .is('deleted_at', null)
+        .not('occurrence_date', 'is', null)
+        .order('created_at', { ascending: true })
+        .range(offset, offset + INTERNAL_PAGE_SIZE - 1);
+
+      if (error) {
+        logger.error('[loadCompletedOccurrences] Failed to load tasks:', error);
+        throw error;
+      }
+      if (!data || data.length === 0) break;
+      occurrences.push(...data.map((task: DatabaseTask) => dbTaskToTask(task)));
+      offset += data.length;
+    }
+
+    logger.debug(`[loadCompletedOccurrences] Loaded ${occurrences.length} completed occurrences`);
+    return occurrences;
+  } catch (error) {
+    logger.error('[loadCompletedOccurrences] Exception:', error);
+    throw error;
+  }
+};
+
+/**
+ * Load completed tasks with pagination, leaving out completed occurrences of series
+ * (see loadCompletedOccurrences).
  * Returns tasks and total count for progress display.
  * Uses stable sort order (last_modified desc, id desc) for consistent pagination.
  */
@@ -193,6 +254,8 @@ export const loadCompletedTasks = async (
       .select('*', { count: 'exact' })
       .eq('user_id', user.id)
       .eq('completed', true)
+      .is('deleted_at', null)
+      .is('occurrence_date', null)
       .order('last_modified', { ascending: false })
       .order('id', { ascending: false })
       .range(offset, offset + limit - 1);
@@ -336,8 +399,18 @@ export const loadTasks = async (): Promise<Task[]> => {
         recurrenceGroupId: converted.recurrenceGroupId || null,
         recurrenceMultiplier: converted.recurrenceMultiplier,
         customFrequency: converted.customFrequency,
+        byWeekday: converted.byWeekday,
+        monthlyRule: converted.monthlyRule,
+        recurrenceFromCompletion: converted.recurrenceFromCompletion,
+        recurrenceEndDate: converted.recurrenceEndDate,
+        recurrenceCount: converted.recurrenceCount,
         isLastInstance: converted.isLastInstance || false,
         autoRenew: converted.autoRenew || false,
+        isSeries: converted.isSeries,
+        seriesOpenFrom: converted.seriesOpenFrom,
+        pausedFrom: converted.pausedFrom,
+        occurrenceDate: converted.occurrenceDate,
+        deletedAt: converted.deletedAt,
       };
     });
 
@@ -351,7 +424,11 @@ export const loadTasks = async (): Promise<Task[]> => {
 
 export const saveTasks = async (tasks: Task[]): Promise<void> => {
   try {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    // Without a connection the user can't be looked up; fail so the caller can retry later
+    if (authError && isAuthRetryableFetchError(authError)) {
+      throw authError;
+    }
     if (!user) {
       logger.error('[saveTasks] Cannot save tasks: user not authenticated');
       return;
@@ -370,33 +447,8 @@ export const saveTasks = async (tasks: Task[]): Promise<void> => {
       return;
     }
 
-    // Create ID mapping for non-UUID IDs to ensure consistency
-    // This is important for migration from localStorage where IDs might not be UUIDs
-    // Only create mapping if we have non-UUID IDs (for migration scenarios)
-    const idMap = new Map<string, string>();
-    const hasNonUUIDIds = tasks.some(task => 
-      (task.id && !isUUID(task.id)) || 
-      (task.recurrenceGroupId && !isUUID(task.recurrenceGroupId))
-    );
-    
-    if (hasNonUUIDIds) {
-      tasks.forEach(task => {
-        if (task.id && !isUUID(task.id)) {
-          if (!idMap.has(task.id)) {
-            idMap.set(task.id, generateUUID());
-          }
-        }
-        // Also map recurrence_group_id if it's not a UUID
-        if (task.recurrenceGroupId && !isUUID(task.recurrenceGroupId)) {
-          if (!idMap.has(task.recurrenceGroupId)) {
-            idMap.set(task.recurrenceGroupId, generateUUID());
-          }
-        }
-      });
-    }
-
-    // Convert tasks to database format using the ID mapping (if needed)
-    const dbTasks = tasks.map(task => taskToDbTask(task, user.id, hasNonUUIDIds ? idMap : undefined));
+    // Convert tasks to database format (IDs are UUIDs; imports remap theirs with remapTaskIds)
+    const dbTasks = tasks.map(task => taskToDbTask(task, user.id));
 
     // Use upsert to handle both inserts and updates
     // Supabase will update if id exists, insert if not
@@ -426,6 +478,40 @@ export const saveTasks = async (tasks: Task[]): Promise<void> => {
   }
 };
 
+/**
+ * Update a stored task only if its last_modified still matches the version it was read at. The check
+ * and the write are one UPDATE, so an edit saved elsewhere in between is never overwritten.
+ * @returns Whether the task was updated; false if it was changed or deleted since that version
+ */
+export const saveTaskIfUnchanged = async (task: Task, expectedLastModified: string): Promise<boolean> => {
+  try {
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError && isAuthRetryableFetchError(authError)) {
+      throw authError;
+    }
+    if (!user) {
+      throw new Error('Cannot save task: user not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .update(taskToDbTask(task, user.id))
+      .eq('id', task.id)
+      .eq('user_id', user.id)
+      .eq('last_modified', expectedLastModified)
+      .select('id');
+
+    if (error) {
+      logger.error('[saveTaskIfUnchanged] Failed to save task:', error);
+      throw error;
+    }
+    return (data?.length ?? 0) > 0;
+  } catch (error) {
+    logger.error('[saveTaskIfUnchanged] Failed to save task:', error);
+    throw error;
+  }
+};
+
 export const loadTags = async (): Promise<string[]> => {
   try {
     const tasks = await loadTasks();
@@ -572,8 +658,66 @@ export const deleteTagColor = async (tag: string): Promise<void> => {
   }
 };
 
+export const loadUserSettings = async (): Promise<UserSettings> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return DEFAULT_USER_SETTINGS;
+    }
+
+    const { data, error } = await supabase
+      .from('user_settings')
+      .select('time_zone, trash_retention_days, calendar_feed_token')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('[loadUserSettings] Failed to load user settings:', error);
+      return DEFAULT_USER_SETTINGS;
+    }
+
+    return {
+      timeZone: data?.time_zone || null,
+      trashRetentionDays: data?.trash_retention_days ?? DEFAULT_USER_SETTINGS.trashRetentionDays,
+      calendarFeedToken: data?.calendar_feed_token || null,
+    };
+  } catch (error) {
+    logger.error('[loadUserSettings] Failed to load user settings:', error);
+    return DEFAULT_USER_SETTINGS;
+  }
+};
+
+export const saveUserSettings = async (settings: UserSettings): Promise<void> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      logger.error('[saveUserSettings] Cannot save user settings: user not authenticated');
+      return;
+    }
+
+    const { error } = await supabase
+      .from('user_settings')
+      .upsert({
+        user_id: user.id,
+        time_zone: settings.timeZone,
+        trash_retention_days: settings.trashRetentionDays,
+        calendar_feed_token: settings.calendarFeedToken,
+      }, {
+        onConflict: 'user_id',
+      });
+
+    if (error) {
+      logger.error('[saveUserSettings] Failed to save user settings:', error);
+      throw error;
+    }
+  } catch (error) {
+    logger.error('[saveUserSettings] Failed to save user settings:', error);
+    throw error;
+  }
+};
+
 /**
- * Load specific tasks by their IDs.
+ * Load specific tasks by their IDs, leaving out tasks in the trash.
  * Used to fetch the current state of tasks that may have been modified on another device.
  */
 export const loadTasksByIds = async (taskIds: string[]): Promise<Task[]> => {
@@ -596,7 +740,8 @@ export const loadTasksByIds = async (taskIds: string[]): Promise<Task[]> => {
       .from('tasks')
       .select('*')
       .eq('user_id', user.id)
-      .in('id', taskIds);
+      .in('id', taskIds)
+      .is('deleted_at', null);
 
     if (error) {
       logger.error('[loadTasksByIds] Failed to load tasks:', error);
@@ -612,6 +757,42 @@ export const loadTasksByIds = async (taskIds: string[]): Promise<Task[]> => {
   }
 };
 
+/**
+ * Load the tasks in the trash, most recently deleted first
+ */
+export const loadDeletedTasks = async (): Promise<Task[]> => {
+  try {
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError) {
+      logger.error('[loadDeletedTasks] Auth error:', authError);
+      return [];
+    }
+    if (!user) {
+      logger.debug('[loadDeletedTasks] No user authenticated');
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('user_id', user.id)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false });
+
+    if (error) {
+      logger.error('[loadDeletedTasks] Failed to load tasks:', error);
+      throw error;
+    }
+
+    const tasks = data ? data.map((task: DatabaseTask) => dbTaskToTask(task)) : [];
+    logger.debug(`[loadDeletedTasks] Loaded ${tasks.length} tasks in the trash`);
+    return tasks;
+  } catch (error) {
+    logger.error('[loadDeletedTasks] Exception:', error);
+    throw error;
+  }
+};
+
 // Helper function to delete a task
 export const deleteTask = async (taskId: string): Promise<void> => {
   try {
@@ -640,7 +821,11 @@ export const deleteTask = async (taskId: string): Promise<void> => {
 // Helper function to delete multiple tasks
 export const deleteTasks = async (taskIds: string[]): Promise<void> => {
   try {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    // Without a connection the user can't be looked up; fail so the caller can retry later
+    if (authError && isAuthRetryableFetchError(authError)) {
+      throw authError;
+    }
     if (!user) {
       logger.error('[deleteTasks] Cannot delete tasks: user not authenticated');
       return;
@@ -663,3 +848,189 @@ export const deleteTasks = async (taskIds: string[]): Promise<void> => {
     throw error;
   }
 };
+
+/**
+ * Load a task's change history, oldest first
+ */
+export const loadTaskHistory = async (taskId: string): Promise<TaskHistoryEntry[]> => {
+  try {
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError) {
+      logger.error('[loadTaskHistory] Auth error:', authError);
+      return [];
+    }
+    if (!user) {
+      logger.debug('[loadTaskHistory] No user authenticated');
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('task_history')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('task_id', taskId)
+      .order('changed_at', { ascending: true });
+
+    if (error) {
+      logger.error('[loadTaskHistory] Failed to load task history:', error);
+      throw error;
+    }
+
+    return (data || []).map((entry: DatabaseTaskHistoryEntry) => ({
+      id: entry.id,
+      taskId: entry.task_id,
+      changedAt: entry.changed_at,
+      deviceId: entry.device_id,
+      deviceName: entry.device_name,
+      changes: entry.changes || {},
+    }));
+  } catch (error) {
+    logger.error('[loadTaskHistory] Exception:', error);
+    throw error;
+  }
+};
+
+/**
+ * Add entries to task histories. Entries are only ever inserted, never updated.
+ */
+export const appendTaskHistory = async (entries: TaskHistoryEntry[]): Promise<void> => {
+  if (entries.length === 0) return;
+
+  try {
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError && isAuthRetryableFetchError(authError)) {
+      throw authError;
+    }
+    if (!user) {
+      logger.error('[appendTaskHistory] Cannot save task history: user not authenticated');
+      return;
+    }
+
+    const rows: DatabaseTaskHistoryEntry[] = entries.map(entry => ({
+      id: entry.id,
+      user_id: user.id,
+      task_id: entry.taskId,
+      changed_at: entry.changedAt,
+      device_id: entry.deviceId,
+      device_name: entry.deviceName,
+      changes: entry.changes,
+    }));
+
+    const { error } = await supabase.from('task_history').insert(rows);
+    if (error) {
+      logger.error('[appendTaskHistory] Failed to save task history:', error);
+      throw error;
+    }
+  } catch (error) {
+    logger.error('[appendTaskHistory] Failed to save task history:', error);
+    throw error;
+  }
+};
+
+/**
+ * Converts a realtime payload into a change to apply locally
+ * @returns The change, or null if it isn't for this user
+ */
+export const toRemoteTaskChange = (
+  payload: RealtimePostgresChangesPayload<DatabaseTask>,
+  userId: string
+): RemoteTaskChange | null => {
+  if (payload.eventType === 'DELETE') {
+    // Deletes carry only the primary key unless the table's replica identity is full
+    const oldRecord = payload.old;
+    if (!oldRecord.id || (oldRecord.user_id && oldRecord.user_id !== userId)) {
+      return null;
+    }
+    return { type: 'delete', taskId: oldRecord.id };
+  }
+
+  if (payload.new.user_id !== userId) {
+    return null;
+  }
+  // Moving a task to the trash is an update, but it leaves the task list like a delete
+  if (payload.new.deleted_at) {
+    return { type: 'delete', taskId: payload.new.id };
+  }
+  return { type: 'upsert', task: dbTaskToTask(payload.new) };
+};
+
+/**
+ * Subscribes to changes of a user's tasks made elsewhere, via Supabase Realtime
+ * @returns A function that unsubscribes
+ */
+export const subscribeToTaskChanges = (userId: string, handlers: TaskChangeHandlers): (() => void) => {
+  logger.debug('[Real-time] Setting up subscription for user:', userId);
+
+  // Changes made while the channel was down aren't replayed, so a reconnect calls for a reload
+  let hasSubscribed = false;
+
+  const channel = supabase
+    .channel('tasks-changes')
+    .on<DatabaseTask>(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'tasks',
+        filter: `user_id=eq.${userId}`,
+      },
+      (payload) => {
+        logger.debug('[Real-time] Change detected:', {
+          eventType: payload.eventType,
+          table: payload.table,
+          id: payload.eventType === 'DELETE' ? payload.old.id : payload.new.id,
+        });
+
+        const change = toRemoteTaskChange(payload, userId);
+        if (!change) {
+          logger.warn(`[Real-time] Ignoring ${payload.eventType} for a different user`);
+          return;
+        }
+
+        handlers.onChange(change);
+      }
+    )
+    .subscribe((status) => {
+      logger.debug('[Real-time] Subscription status:', status);
+      if (status === 'SUBSCRIBED') {
+        logger.debug('[Real-time] Successfully subscribed to task changes');
+        if (hasSubscribed) {
+          logger.debug('[Real-time] Resubscribed after a gap, reloading tasks');
+          handlers.onResync();
+        }
+        hasSubscribed = true;
+      } else if (status === 'CHANNEL_ERROR') {
+        logger.error('[Real-time] Channel error - reloading tasks, then retrying the subscription');
+        handlers.onResync();
+      }
+    });
+
+  return () => {
+    logger.debug('[Real-time] Cleaning up subscription');
+    supabase.removeChannel(channel);
+  };
+};
+
+/**
+ * Task repository backed by the signed-in user's Supabase project
+ */
+export const supabaseTaskRepository: TaskRepository = {
+  requiresNetwork: true,
+  loadIncompleteTasks,
+  loadCompletedTasks,
+  loadCompletedOccurrences,
+  loadTasksByIds,
+  loadDeletedTasks,
+  saveTasks,
+  saveTaskIfUnchanged,
+  deleteTasks,
+  loadTaskHistory,
+  appendTaskHistory,
+  loadTags,
+  loadTagColors,
+  saveTagColors,
+  deleteTagColor,
+  loadUserSettings,
+  saveUserSettings,
+  subscribeToChanges: subscribeToTaskChanges,
+};
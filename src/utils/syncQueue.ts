@@ -0,0 +1,397 @@
+/**
+ * @fileoverview Outbound sync queue.
+ *
+ * Task changes are queued here instead of being sent to the task repository directly. The queue is kept in
+ * the local task store, so changes made offline survive a closed tab, and is replayed in order
+ * whenever the browser is online. A failed replay stops at the failing change and is retried
+ * when connectivity returns (or after a short delay).
+ *
+ * Before saving, each task's stored version is checked against the version it was edited from.
+ * Edits made elsewhere in between are merged in field by field; fields changed on both sides are
+ * held back as conflicts until the user resolves them; like the queue, they're kept in the local task
+ * store until then. The save itself only goes through if the stored version is still the one that
+ * was checked. Each save also appends what it changed to
+ * the tasks' histories.
+ */
+
+import { Task } from '../types';
+import { getTaskRepository } from './taskRepository';
+import { loadPendingMutations, loadSyncConflicts, savePendingMutations, saveSyncConflicts, PendingMutation } from './localTaskStore';
+import { hasVersionChanged, mergeTaskVersions, TaskConflict } from './taskMerge';
+import { createHistoryEntries } from './taskHistory';
+import { logger } from './logger';
+
+const RETRY_DELAY_MS = 30000;
+// Times a save is merged again because its task changed elsewhere while it was being written
+const MAX_SAVE_ATTEMPTS = 3;
+
+export interface SyncStatus {
+  isOnline: boolean;
+  /** Number of changes not yet sent to Supabase */
+  pendingCount: number;
+  /** Tasks waiting for the user to pick between this device's and another device's edits */
+  conflicts: TaskConflict[];
+}
+
+/**
+ * A task saved as a merge of this device's edit and another device's
+ */
+export interface MergedTask {
+  /** The version this device sent */
+  local: Task;
+  merged: Task;
+}
+
+let currentUserId: string | null = null;
+let userReady: Promise<void> = Promise.resolve();
+let queue: PendingMutation[] = [];
+let activeFlush: Promise<boolean> | null = null;
+let retryTimeoutId: number | null = null;
+let conflicts: TaskConflict[] = [];
+const listeners = new Set<() => void>();
+const mergeListeners = new Set<(mergedTasks: MergedTask[]) => void>();
+
+// Backends that don't need the network are always reachable
+const isBrowserOnline = (): boolean => {
+  return !getTaskRepository().requiresNetwork || typeof navigator === 'undefined' || navigator.onLine;
+};
+
+let status: SyncStatus | null = null;
+
+const countPendingChanges = (mutations: PendingMutation[]): number => {
+  return mutations.reduce((count, mutation) => count + mutation.changeCount, 0);
+};
+
+const notifyListeners = () => {
+  const isOnline = isBrowserOnline();
+  const pendingCount = countPendingChanges(queue);
+  if (status?.isOnline === isOnline && status.pendingCount === pendingCount && status.conflicts === conflicts) return;
+  status = { isOnline, pendingCount, conflicts };
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Adds a change to the end of a queue, merging it into the last queued change where the outcome is the same:
+ * saves merge by task ID, deletes merge their IDs, and a delete drops its tasks from a preceding save.
+ * @param isFirstInFlight Whether the first queued change is being sent right now (it is never merged into)
+ * @returns The new queue
+ */
+export const appendMutation = (
+  mutations: PendingMutation[],
+  mutation: PendingMutation,
+  isFirstInFlight: boolean
+): PendingMutation[] => {
+  const lastIndex = mutations.length - 1;
+  const last = mutations[lastIndex];
+  if (!last || (lastIndex === 0 && isFirstInFlight)) {
+    return [...mutations, mutation];
+  }
+  const previous = mutations.slice(0, lastIndex);
+
+  if (last.type === 'upsert' && mutation.type === 'upsert') {
+    const tasksById = new Map(last.tasks.map(task => [task.id, task]));
+    mutation.tasks.forEach(task => tasksById.set(task.id, task));
+    return [...previous, {
+      type: 'upsert',
+      tasks: Array.from(tasksById.values()),
+      // The earlier edit's base is the version that's still stored
+      bases: { ...mutation.bases, ...last.bases },
+      changeCount: last.changeCount + mutation.changeCount,
+    }];
+  }
+
+  if (last.type === 'delete' && mutation.type === 'delete') {
+    return [...previous, {
+      type: 'delete',
+      taskIds: Array.from(new Set([...last.taskIds, ...mutation.taskIds])),
+      changeCount: last.changeCount + mutation.changeCount,
+    }];
+  }
+
+  if (last.type === 'upsert' && mutation.type === 'delete') {
+    const deletedIds = new Set(mutation.taskIds);
+    const remainingTasks = last.tasks.filter(task => !deletedIds.has(task.id));
+    if (remainingTasks.length === 0) {
+      // Nothing of the save is left to send; fold it into the delete
+      return appendMutation(previous, { ...mutation, changeCount: last.changeCount + mutation.changeCount }, isFirstInFlight);
+    }
+    return [...previous, { ...last, tasks: remainingTasks }, mutation];
+  }
+
+  return [...mutations, mutation];
+};
+
+const persistQueue = async () => {
+  if (currentUserId) {
+    await savePendingMutations(currentUserId, queue);
+  }
+};
+
+const persistConflicts = async () => {
+  if (currentUserId) {
+    await saveSyncConflicts(currentUserId, conflicts);
+  }
+};
+
+const scheduleRetry = () => {
+  if (retryTimeoutId !== null || typeof window === 'undefined') return;
+  retryTimeoutId = window.setTimeout(() => {
+    retryTimeoutId = null;
+    flushSyncQueue();
+  }, RETRY_DELAY_MS);
+};
+
+/**
+ * Saves tasks, first merging in edits made elsewhere since the versions they were edited from.
+ * A task with a stored version is only written if it's still at the version the merge was based on;
+ * if it changed again in between, it's reloaded and merged again.
+ */
+const sendUpsert = async (tasks: Task[], bases: Record<string, Task>) => {
+  const repository = getTaskRepository();
+  const savedTasks: Task[] = [];
+  const mergedTasks: MergedTask[] = [];
+  const newConflicts: TaskConflict[] = [];
+  const previousVersions = new Map<string, Task>();
+
+  let pendingTasks = tasks;
+  for (let attempt = 1; pendingTasks.length > 0; attempt++) {
+    if (attempt > MAX_SAVE_ATTEMPTS) {
+      throw new Error(`Tasks kept changing elsewhere while being saved: ${pendingTasks.map(task => task.id).join(', ')}`);
+    }
+
+    const checkedIds = pendingTasks.filter(task => bases[task.id]).map(task => task.id);
+    const storedTasks = new Map(
+      (checkedIds.length > 0 ? await repository.loadTasksByIds(checkedIds) : []).map(task => [task.id, task])
+    );
+
+    const unconditionalSaves: Task[] = [];
+    const conditionalSaves: { local: Task; toSave: Task; stored: Task }[] = [];
+    pendingTasks.forEach(task => {
+      const base = bases[task.id];
+      const stored = storedTasks.get(task.id);
+      const previous = stored ?? base;
+      if (previous) previousVersions.set(task.id, previous);
+
+      if (!base || !stored) {
+        unconditionalSaves.push(task);
+        return;
+      }
+      if (!hasVersionChanged(base, stored)) {
+        conditionalSaves.push({ local: task, toSave: task, stored });
+        return;
+      }
+
+      const { merged, conflictingFields } = mergeTaskVersions(base, task, stored);
+      if (conflictingFields.length > 0) {
+        logger.debug(`[syncQueue] Task ${task.id} was changed elsewhere too: ${conflictingFields.join(', ')}`);
+        newConflicts.push({ merged, local: task, remote: stored, fields: conflictingFields });
+      } else {
+        logger.debug(`[syncQueue] Merged edits made elsewhere into task ${task.id}`);
+        conditionalSaves.push({ local: task, toSave: merged, stored });
+      }
+    });
+
+    await repository.saveTasks(unconditionalSaves);
+    savedTasks.push(...unconditionalSaves);
+
+    const staleTasks: Task[] = [];
+    for (const { local, toSave, stored } of conditionalSaves) {
+      if (!await repository.saveTaskIfUnchanged(toSave, stored.lastModified)) {
+        logger.debug(`[syncQueue] Task ${local.id} changed again while being saved, merging again`);
+        staleTasks.push(local);
+        continue;
+      }
+      savedTasks.push(toSave);
+      if (toSave !== local) mergedTasks.push({ local, merged: toSave });
+    }
+    pendingTasks = staleTasks;
+  }
+
+  // History is a record, not the data itself; failing to add to it doesn't fail the save
+  const historyEntries = createHistoryEntries(savedTasks, previousVersions);
+  if (historyEntries.length > 0) {
+    try {
+      await repository.appendTaskHistory(historyEntries);
+    } catch (error) {
+      logger.error('[syncQueue] Failed to record task history:', error);
+    }
+  }
+
+  if (newConflicts.length > 0) {
+    const conflictIds = new Set(newConflicts.map(conflict => conflict.local.id));
+    conflicts = [...conflicts.filter(conflict => !conflictIds.has(conflict.local.id)), ...newConflicts];
+    // Stored before the change leaves the queue, so the held-back edit survives a reload
+    await persistConflicts();
+  }
+  if (mergedTasks.length > 0) {
+    mergeListeners.forEach(listener => listener(mergedTasks));
+  }
+};
+
+const sendMutation = async (mutation: PendingMutation) => {
+  if (mutation.type === 'upsert') {
+    await sendUpsert(mutation.tasks, mutation.bases ?? {});
+  } else {
+    await getTaskRepository().deleteTasks(mutation.taskIds);
+  }
+};
+
+const runFlush = async (): Promise<boolean> => {
+  await userReady;
+
+  while (queue.length > 0) {
+    if (!currentUserId || !isBrowserOnline()) {
+      return false;
+    }
+
+    const userId = currentUserId;
+    const mutation = queue[0];
+    try {
+      await sendMutation(mutation);
+    } catch (error) {
+      logger.error(`[flushSyncQueue] Failed to sync ${mutation.type}, ${queue.length} change(s) still pending:`, error);
+      scheduleRetry();
+      return false;
+    }
+
+    // The user may have signed out while the change was being sent
+    if (currentUserId !== userId) {
+      return false;
+    }
+    queue = queue.slice(1);
+    await persistQueue();
+    notifyListeners();
+  }
+
+  return true;
+};
+
+/**
+ * Sends queued changes to Supabase in order. Only one flush runs at a time.
+ * @returns Whether every queued change has been sent
+ */
+export const flushSyncQueue = (): Promise<boolean> => {
+  if (!activeFlush) {
+    activeFlush = runFlush().finally(() => {
+      activeFlush = null;
+    });
+  }
+  return activeFlush;
+};
+
+const enqueue = async (mutation: PendingMutation): Promise<void> => {
+  await userReady;
+  if (!currentUserId) {
+    logger.warn(`[syncQueue] No signed-in user, dropping ${mutation.type}`);
+    return;
+  }
+
+  queue = appendMutation(queue, mutation, activeFlush !== null);
+  notifyListeners();
+  await persistQueue();
+
+  // Changes queued during a flush are picked up by the same flush
+  await flushSyncQueue();
+};
+
+/**
+ * Queues tasks to be saved (inserted or updated) in Supabase, then tries to send them
+ * @param bases The versions the tasks were edited from, by task ID; tasks without one overwrite the stored version
+ * @param changeCount Number of user-visible changes this save stands for
+ */
+export const queueTaskSaves = (tasks: Task[], bases: Record<string, Task> = {}, changeCount = 1): Promise<void> => {
+  return enqueue({ type: 'upsert', tasks, bases, changeCount });
+};
+
+/**
+ * Queues tasks to be deleted from Supabase, then tries to send the deletion
+ */
+export const queueTaskDeletes = (taskIds: string[], changeCount = 1): Promise<void> => {
+  if (taskIds.length === 0) return Promise.resolve();
+  return enqueue({ type: 'delete', taskIds, changeCount });
+};
+
+/**
+ * Switches the queue to a user, restoring the changes they left pending.
+ * Pass null on sign-out; the signed-out user's changes stay stored for their next sign-in.
+ */
+export const setSyncUser = (userId: string | null): Promise<void> => {
+  if (userId === currentUserId) return userReady;
+
+  currentUserId = userId;
+  queue = [];
+  conflicts = [];
+  if (retryTimeoutId !== null) {
+    clearTimeout(retryTimeoutId);
+    retryTimeoutId = null;
+  }
+
+  userReady = userId
+    ? Promise.all([loadPendingMutations(userId), loadSyncConflicts(userId)]).then(([mutations, storedConflicts]) => {
+        if (currentUserId === userId) {
+          queue = mutations;
+          conflicts = storedConflicts;
+        }
+      })
+    : Promise.resolve();
+  notifyListeners();
+  return userReady.then(notifyListeners);
+};
+
+/**
+ * Gets whether the browser is online and how many changes are waiting to be sent
+ */
+export const getSyncStatus = (): SyncStatus => {
+  if (!status) {
+    status = { isOnline: isBrowserOnline(), pendingCount: countPendingChanges(queue), conflicts };
+  }
+  return status;
+};
+
+/**
+ * Checks whether a change to a task is waiting to be sent
+ */
+export const hasPendingChange = (taskId: string): boolean => {
+  return queue.some(mutation => mutation.type === 'upsert'
+    ? mutation.tasks.some(task => task.id === taskId)
+    : mutation.taskIds.includes(taskId));
+};
+
+/**
+ * Subscribes to changes of the sync status
+ * @returns A function that unsubscribes
+ */
+export const subscribeSyncStatus = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Removes a conflict once the user has resolved it
+ */
+export const dismissSyncConflict = (taskId: string): void => {
+  conflicts = conflicts.filter(conflict => conflict.local.id !== taskId);
+  notifyListeners();
+  persistConflicts();
+};
+
+/**
+ * Subscribes to tasks that were saved merged with edits made elsewhere
+ * @returns A function that unsubscribes
+ */
+export const subscribeMergedTasks = (listener: (mergedTasks: MergedTask[]) => void): (() => void) => {
+  mergeListeners.add(listener);
+  return () => {
+    mergeListeners.delete(listener);
+  };
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    notifyListeners();
+    flushSyncQueue();
+  });
+  window.addEventListener('offline', notifyListeners);
+}
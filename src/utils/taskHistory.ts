@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Per-task change history.
+ *
+ * Every save of an existing task appends an entry with the recorded fields it changed (their
+ * values before and after) and the device that made it. Entries are never changed or removed,
+ * so a task's state at any point can be rebuilt from them, e.g. to revert to it.
+ */
+
+import { Task, TaskHistoryEntry, TaskHistoryField, TaskVersion } from '../types';
+import { generateId } from './supabaseStorage';
+import { getDeviceId } from './storage';
+
+export const HISTORY_FIELDS: TaskHistoryField[] = ['title', 'dueDate', 'completed', 'subtasks', 'tags'];
+
+const isSameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Describes a browser from its user agent, e.g. "Chrome on macOS"
+ */
+export const getDeviceName = (userAgent: string = typeof navigator !== 'undefined' ? navigator.userAgent : ''): string => {
+  // Order matters: Edge and Opera mention Chrome, and Chrome mentions Safari
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\//.test(userAgent) ? 'Opera'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\/|CriOS\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os = /iPhone|iPad|iPod/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac OS X|Macintosh/.test(userAgent) ? 'macOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+  return os ? `${browser} on ${os}` : browser;
+};
+
+/**
+ * Gets the recorded fields that differ between two versions of a task
+ */
+export const diffTaskVersions = (before: Task, after: Task): TaskHistoryEntry['changes'] => {
+  const changes: TaskHistoryEntry['changes'] = {};
+  HISTORY_FIELDS.forEach(field => {
+    if (!isSameValue(before[field], after[field])) {
+      (changes as Record<string, unknown>)[field] = { from: before[field], to: after[field] };
+    }
+  });
+  return changes;
+};
+
+/**
+ * Creates history entries for saved tasks, made on this device
+ * @param previousVersions The stored version each task replaced, by task ID; tasks without one (e.g. new tasks) get no entry
+ */
+export const createHistoryEntries = (savedTasks: Task[], previousVersions: Map<string, Task>): TaskHistoryEntry[] => {
+  const deviceId = getDeviceId();
+  const deviceName = getDeviceName();
+
+  return savedTasks.flatMap(task => {
+    const previous = previousVersions.get(task.id);
+    if (!previous) return [];
+    const changes = diffTaskVersions(previous, task);
+    if (Object.keys(changes).length === 0) return [];
+    return [{ id: generateId(), taskId: task.id, changedAt: task.lastModified, deviceId, deviceName, changes }];
+  });
+};
+
+/**
+ * Rebuilds a task's recorded fields as they were right after a history entry
+ * @param entries The task's history, oldest first
+ * @param index The entry to rebuild the state after; -1 for the state before the first entry
+ * @param current The task as it is now, for fields no entry changed
+ */
+export const getTaskVersionAt = (entries: TaskHistoryEntry[], index: number, current: Task): TaskVersion => {
+  const version = {} as Record<TaskHistoryField, unknown>;
+
+  HISTORY_FIELDS.forEach(field => {
+    // The field's value after the latest change to it up to the entry...
+    for (let i = index; i >= 0; i--) {
+      const change = entries[i].changes[field];
+      if (change) {
+        version[field] = change.to;
+        return;
+      }
+    }
+    // ...or, if it wasn't changed by then, its value before its next change
+    for (let i = index + 1; i < entries.length; i++) {
+      const change = entries[i].changes[field];
+      if (change) {
+        version[field] = change.from;
+        return;
+      }
+    }
+    version[field] = current[field];
+  });
+
+  return version as TaskVersion;
+};
@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Field-level merging of concurrent task edits.
+ *
+ * A task's lastModified timestamp is its version. When a save finds the stored task at a
+ * different version than the one the edit started from, another device changed it meanwhile.
+ * The two edits are then merged field by field against that starting version: fields changed
+ * on one side only are combined, and fields changed differently on both sides are conflicts
+ * for the user to resolve.
+ */
+
+import { Task } from '../types';
+
+/** Fields the user picks a side for when both devices changed them */
+export const CONFLICT_FIELDS = ['title', 'dueDate', 'completed', 'subtasks', 'tags'] as const;
+
+export type ConflictField = typeof CONFLICT_FIELDS[number];
+
+// Bookkeeping fields that differ between versions without being edits
+const IGNORED_FIELDS = new Set<keyof Task>(['id', 'createdAt', 'lastModified']);
+
+/**
+ * A task edited on this device and on another one since the version both started from
+ */
+export interface TaskConflict {
+  /** The edits of both devices merged, with this device's values for the conflicting fields */
+  merged: Task;
+  local: Task;
+  remote: Task;
+  fields: ConflictField[];
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+const isSameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// Copies a task with one field replaced
+const withField = <K extends keyof Task>(target: Task, key: K, value: Task[K]): Task => ({ ...target, [key]: value });
+
+/**
+ * Checks whether the stored task is at a different version than the given one
+ */
+export const hasVersionChanged = (base: Task, stored: Task): boolean => {
+  // Compare instants; the database may format the same timestamp differently
+  return Date.parse(base.lastModified) !== Date.parse(stored.lastModified);
+};
+
+/**
+ * Merges this device's and another device's edits of a task, field by field
+ * @param base The version both edits started from
+ * @returns The merged task (stamped as a new version), and the fields both sides changed differently.
+ * Conflicting fields hold this device's value until resolved.
+ */
+export const mergeTaskVersions = (
+  base: Task,
+  local: Task,
+  remote: Task
+): { merged: Task; conflictingFields: ConflictField[] } => {
+  let merged: Task = { ...remote };
+  const conflictingFields: ConflictField[] = [];
+  const fields = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)]) as Set<keyof Task>;
+
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.has(field)) return;
+    const localChanged = !isSameValue(local[field], base[field]);
+    const remoteChanged = !isSameValue(remote[field], base[field]);
+    if (!localChanged) return;
+
+    merged = withField(merged, field, local[field]);
+    if (remoteChanged && !isSameValue(local[field], remote[field]) && (CONFLICT_FIELDS as readonly string[]).includes(field)) {
+      conflictingFields.push(field as ConflictField);
+    }
+  });
+
+  return {
+    merged: { ...merged, lastModified: new Date().toISOString() },
+    conflictingFields,
+  };
+};
+
+/**
+ * Applies the user's choice of side for each conflicting field
+ */
+export const resolveTaskConflict = (
+  conflict: TaskConflict,
+  choices: Partial<Record<ConflictField, ConflictChoice>>
+): Task => {
+  return conflict.fields.reduce((resolved, field) => {
+    const source = choices[field] === 'remote' ? conflict.remote : conflict.local;
+    return withField(resolved, field, source[field]);
+  }, { ...conflict.merged, lastModified: new Date().toISOString() });
+};
@@ -1,4 +1,8 @@
 import { Task } from '../types';
+import type { RemoteTaskChange } from './taskRepository';
+import { getCalendarTodayDate } from './calendarDay';
+import { expandRecurringTasks, isPausedSeries, isSeriesRow, isVirtualOccurrence, UPCOMING_OCCURRENCE_COUNT } from './recurrenceExpansion';
+import { compareByPriority } from './taskUtils';
 
 /**
  * Normalizes tags to lowercase
@@ -30,10 +34,30 @@ export const filterTasksBySearch = (taskList: Task[], query: string): Task[] =>
     // Search in subtasks
     if (task.subtasks.some(subtask => subtask.text.toLowerCase().includes(lowerQuery))) return true;
     
+    // Search in notes
+    if (task.notes?.toLowerCase().includes(lowerQuery)) return true;
+    
     return false;
   });
 };
 
+/**
+ * Keeps one overdue occurrence per series, the earliest, so a neglected series doesn't fill Today
+ * with every occurrence it missed. Completing or skipping it brings up the next one.
+ * Stored occurrences (edited or moved ones) are always kept.
+ */
+const collapseMissedOccurrences = (tasks: Task[], isDateOverdue: (date: string) => boolean): Task[] => {
+  const shownGroupIds = new Set<string>();
+  return tasks.filter(task => {
+    if (!task.recurrenceGroupId || !task.dueDate || !isVirtualOccurrence(task) || !isDateOverdue(task.dueDate)) {
+      return true;
+    }
+    if (shownGroupIds.has(task.recurrenceGroupId)) return false;
+    shownGroupIds.add(task.recurrenceGroupId);
+    return true;
+  });
+};
+
 /**
  * Gets tasks for today (including overdue tasks)
  */
@@ -46,9 +70,11 @@ export const getTodayTasks = (
 ): Task[] => {
   const dateStr = formatDate(date);
   // Check if the passed view date is actual today (not always true like before)
-  const isActualToday = dateStr === formatDate(new Date());
+  const isActualToday = dateStr === formatDate(getCalendarTodayDate());
+  // Actual today also carries over every open occurrence a series has left behind
+  const viewTasks = expandRecurringTasks(tasks, isActualToday ? { end: dateStr } : { start: dateStr, end: dateStr });
   
-  return tasks.filter(task => {
+  return collapseMissedOccurrences(viewTasks, isDateOverdue).filter(task => {
     if (task.completed) return false;
     if (!task.dueDate) return false;
 
@@ -69,7 +95,7 @@ export const getTodayTasks = (
       if (aIsOverdue && !bIsOverdue) return 1; // a is overdue, b is today - put a after b
       if (!aIsOverdue && bIsOverdue) return -1; // a is today, b is overdue - put a before b
     }
-    return 0; // Both same status, keep original order
+    return compareByPriority(a, b); // Both same status, highest priority first
   });
 };
 
@@ -85,8 +111,9 @@ export const getTomorrowTasks = (
   const dateStr = formatDate(date);
   // Check if the passed view date is actual tomorrow (not always false like before)
   const isActualTomorrow = isDateTomorrow(dateStr);
+  const viewTasks = expandRecurringTasks(tasks, { start: dateStr, end: dateStr });
 
-  return tasks.filter(task => {
+  return viewTasks.filter(task => {
     if (task.completed) return false;
     if (!task.dueDate) return false;
 
@@ -110,7 +137,7 @@ export const getDayTasks = (
   formatDate: (date: Date) => string
 ): Task[] => {
   const dateStr = formatDate(date);
-  return tasks.filter(task => {
+  return expandRecurringTasks(tasks, { start: dateStr, end: dateStr }).filter(task => {
     if (task.completed) return false;
     if (!task.dueDate) return false;
     // Only include tasks due on this exact date, not overdue
@@ -120,19 +147,133 @@ export const getDayTasks = (
 };
 
 /**
- * Gets all incomplete tasks with due dates (for week view)
+ * Gets all incomplete tasks with due dates (for week view),
+ * with recurring series expanded for the displayed date range
  */
-export const getWeekTasks = (tasks: Task[]): Task[] => {
-  return tasks.filter(task => {
+export const getWeekTasks = (tasks: Task[], rangeStart: string, rangeEnd: string): Task[] => {
+  return expandRecurringTasks(tasks, { start: rangeStart, end: rangeEnd }).filter(task => {
     if (task.completed) return false;
     return task.dueDate !== null;
   });
 };
 
+/**
+ * Gets all incomplete tasks (for the all tasks view),
+ * with the next few occurrences of each recurring series
+ */
+export const getOpenTasks = (tasks: Task[]): Task[] => {
+  // Paused series have no occurrences, so their rule rows stand in for them (to be resumed)
+  const pausedSeries = tasks.filter(isPausedSeries);
+  return [...expandRecurringTasks(tasks, { limit: UPCOMING_OCCURRENCE_COUNT }), ...pausedSeries].filter(task => !task.completed);
+};
+
 /**
  * Gets all completed tasks
  */
 export const getCompletedTasks = (tasks: Task[]): Task[] => {
-  return tasks.filter(task => task.completed);
+  return tasks.filter(task => task.completed && !isSeriesRow(task));
+};
+
+
+/**
+ * Gets the tasks that changed since they were last persisted.
+ * Tasks are updated by replacing them, never in place, so a task has changed
+ * (or is new) exactly when it isn't the same object as its persisted version.
+ */
+export const getChangedTasks = (tasks: Task[], persistedTasks: Map<string, Task>): Task[] => {
+  return tasks.filter(task => persistedTasks.get(task.id) !== task);
+};
+
+/**
+ * Applies a change made elsewhere to the task list.
+ * An update older than the task it would replace is a late echo and is ignored.
+ * @returns The new task list, or the same list if the change doesn't alter it
+ */
+export const applyRemoteTaskChange = (tasks: Task[], change: RemoteTaskChange): Task[] => {
+  if (change.type === 'delete') {
+    return tasks.some(task => task.id === change.taskId)
+      ? tasks.filter(task => task.id !== change.taskId)
+      : tasks;
+  }
+
+  const index = tasks.findIndex(task => task.id === change.task.id);
+  if (index === -1) {
+    return [...tasks, change.task];
+  }
+  if (Date.parse(change.task.lastModified) < Date.parse(tasks[index].lastModified)) {
+    return tasks;
+  }
+  return tasks.map((task, i) => (i === index ? change.task : task));
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A row of the Trash view: a single task, or the rows of a recurring group deleted together
+ */
+export interface TrashEntry {
+  id: string;
+  title: string;
+  tasks: Task[];
+  deletedAt: string; // When the entry's most recent row was deleted
+  isRecurring: boolean;
+}
+
+/**
+ * Marks tasks as moved to the trash
+ */
+export const moveTasksToTrash = (tasks: Task[], deletedAt: string): Task[] => {
+  return tasks.map(task => ({ ...task, deletedAt, lastModified: deletedAt }));
 };
 
+/**
+ * Takes tasks out of the trash
+ */
+export const restoreTasksFromTrash = (tasks: Task[], restoredAt: string): Task[] => {
+  return tasks.map(task => ({ ...task, deletedAt: undefined, lastModified: restoredAt }));
+};
+
+/**
+ * Gets the tasks that have been in the trash longer than the retention period
+ */
+export const getExpiredTrashTasks = (deletedTasks: Task[], retentionDays: number, now: Date = new Date()): Task[] => {
+  const cutoff = now.getTime() - retentionDays * DAY_MS;
+  return deletedTasks.filter(task => task.deletedAt && Date.parse(task.deletedAt) < cutoff);
+};
+
+/**
+ * Gets the number of whole days until a trashed task is removed for good
+ */
+export const getDaysUntilPurge = (deletedAt: string, retentionDays: number, now: Date = new Date()): number => {
+  const purgeAt = Date.parse(deletedAt) + retentionDays * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - now.getTime()) / DAY_MS));
+};
+
+/**
+ * Groups trashed tasks into Trash view rows, one per task or recurring group, most recently deleted first
+ */
+export const groupTrashedTasks = (deletedTasks: Task[]): TrashEntry[] => {
+  const entries = new Map<string, TrashEntry>();
+
+  deletedTasks.forEach(task => {
+    const key = task.recurrenceGroupId ?? task.id;
+    const entry = entries.get(key);
+    if (!entry) {
+      entries.set(key, {
+        id: key,
+        title: task.title,
+        tasks: [task],
+        deletedAt: task.deletedAt ?? task.lastModified,
+        isRecurring: Boolean(task.recurrenceGroupId),
+      });
+      return;
+    }
+
+    entry.tasks.push(task);
+    // A series row names the group; its occurrences may have been renamed
+    if (task.isSeries) entry.title = task.title;
+    if (task.deletedAt && task.deletedAt > entry.deletedAt) entry.deletedAt = task.deletedAt;
+  });
+
+  return Array.from(entries.values()).sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+};
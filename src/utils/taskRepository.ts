@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Task storage backend selection.
+ *
+ * Hooks and components load and save through the TaskRepository returned by getTaskRepository,
+ * never through a backend directly. The backend is picked at startup from VITE_STORAGE_BACKEND:
+ * - "supabase" (default): the user's Supabase project, with sign-in and real-time sync
+ * - "local": a single local user whose data is kept in this browser's localStorage
+ * - "memory": a single local user whose data is lost on reload (demos, tests)
+ */
+
+import type { User } from '@supabase/supabase-js';
+import { Task, TaskHistoryEntry, UserSettings } from '../types';
+import { supabaseTaskRepository } from './supabaseStorage';
+import { createMemoryTaskRepository } from './memoryTaskRepository';
+import { logger } from './logger';
+
+export type StorageBackend = 'supabase' | 'local' | 'memory';
+
+const STORAGE_BACKENDS: StorageBackend[] = ['supabase', 'local', 'memory'];
+
+/**
+ * A page of completed tasks, with the total number of completed tasks
+ */
+export interface CompletedTasksPage {
+  tasks: Task[];
+  total: number;
+}
+
+/**
+ * A change to one of the user's tasks made elsewhere
+ */
+export type RemoteTaskChange =
+  | { type: 'upsert'; task: Task }
+  | { type: 'delete'; taskId: string };
+
+/**
+ * Callbacks for changes to the user's tasks made elsewhere
+ */
+export interface TaskChangeHandlers {
+  /** Called with each change as it arrives */
+  onChange(change: RemoteTaskChange): void;
+  /** Called when changes may have been missed (e.g. while the connection was down), so tasks should be reloaded */
+  onResync(): void;
+}
+
+/**
+ * Storage for a user's tasks, tag colors and settings
+ */
+export interface TaskRepository {
+  /** Whether the backend is reached over the network (and so unavailable offline) */
+  readonly requiresNetwork: boolean;
+  loadIncompleteTasks(): Promise<Task[]>;
+  /** Loads completed tasks other than occurrences of series, most recently completed first */
+  loadCompletedTasks(limit: number, offset: number): Promise<CompletedTasksPage>;
+  /** Loads every completed occurrence of a series (completed tasks with occurrenceDate set) */
+  loadCompletedOccurrences(): Promise<Task[]>;
+  /** Loads tasks by ID, leaving out tasks in the trash */
+  loadTasksByIds(taskIds: string[]): Promise<Task[]>;
+  /** Loads the tasks in the trash (those with deletedAt set), most recently deleted first */
+  loadDeletedTasks(): Promise<Task[]>;
+  /** Inserts or updates tasks */
+  saveTasks(tasks: Task[]): Promise<void>;
+  /**
+   * Updates a stored task only if it's still at the given version (its lastModified), in one step
+   * @returns Whether the task was updated; false if it was changed or deleted since that version
+   */
+  saveTaskIfUnchanged(task: Task, expectedLastModified: string): Promise<boolean>;
+  deleteTasks(taskIds: string[]): Promise<void>;
+  /** Loads a task's change history, oldest first */
+  loadTaskHistory(taskId: string): Promise<TaskHistoryEntry[]>;
+  /** Adds entries to task histories (entries are never changed once added) */
+  appendTaskHistory(entries: TaskHistoryEntry[]): Promise<void>;
+  /** Loads every tag in use or with a stored color, lowercased */
+  loadTags(): Promise<string[]>;
+  loadTagColors(): Promise<Record<string, string>>;
+  saveTagColors(colors: Record<string, string>): Promise<void>;
+  deleteTagColor(tag: string): Promise<void>;
+  loadUserSettings(): Promise<UserSettings>;
+  saveUserSettings(settings: UserSettings): Promise<void>;
+  /**
+   * Subscribes to changes to the user's tasks made elsewhere (e.g. on another device)
+   * @returns A function that unsubscribes
+   */
+  subscribeToChanges(userId: string, handlers: TaskChangeHandlers): () => void;
+}
+
+/**
+ * The user of the local backends, which have no sign-in
+ */
+export const LOCAL_USER: User = {
+  id: 'local-user',
+  email: 'Local tasks',
+  aud: 'local',
+  app_metadata: {},
+  user_metadata: {},
+  created_at: '1970-01-01T00:00:00.000Z',
+};
+
+let repository: TaskRepository | null = null;
+
+/**
+ * Gets the storage backend configured for this build
+ */
+export const getStorageBackend = (): StorageBackend => {
+  const backend = import.meta.env.VITE_STORAGE_BACKEND;
+  if (!backend) return 'supabase';
+  if (STORAGE_BACKENDS.includes(backend as StorageBackend)) {
+    return backend as StorageBackend;
+  }
+  logger.warn(`[getStorageBackend] Unknown storage backend "${backend}", using Supabase`);
+  return 'supabase';
+};
+
+const createRepository = (backend: StorageBackend): TaskRepository => {
+  switch (backend) {
+    case 'local':
+      return createMemoryTaskRepository(window.localStorage);
+    case 'memory':
+      return createMemoryTaskRepository();
+    default:
+      return supabaseTaskRepository;
+  }
+};
+
+/**
+ * Gets the repository of the configured storage backend
+ */
+export const getTaskRepository = (): TaskRepository => {
+  if (!repository) {
+    repository = createRepository(getStorageBackend());
+  }
+  return repository;
+};
+
+/**
+ * Replaces the repository (e.g. with an in-memory one in tests)
+ */
+export const setTaskRepository = (taskRepository: TaskRepository): void => {
+  repository = taskRepository;
+};
@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Rows of the Supabase tasks table and their conversion to app tasks.
+ *
+ * Kept apart from supabaseStorage, which needs the browser's Supabase client, so that code running
+ * outside the app (the calendar feed's edge function) can read task rows too.
+ */
+
+import { Task, Subtask, MonthlyRule, TaskPriority } from '../types';
+
+// Database task type (snake_case for Supabase)
+export interface DatabaseTask {
+  id: string;
+  user_id: string;
+  title: string;
+  due_date: string | null;
+  due_time: string | null; // TIME
+  duration_minutes: number | null;
+  completed: boolean;
+  skipped: boolean | null;
+  subtasks: Subtask[]; // JSONB
+  notes: string | null;
+  tags: string[];
+  priority: string | null;
+  created_at: string;
+  last_modified: string;
+  recurrence: string | null;
+  recurrence_group_id: string | null;
+  recurrence_multiplier: number | null;
+  custom_frequency: string | null;
+  by_weekday: number[] | null;
+  monthly_rule: MonthlyRule | null; // JSONB
+  recurrence_from_completion: boolean | null;
+  recurrence_end_date: string | null; // DATE
+  recurrence_count: number | null;
+  is_last_instance: boolean;
+  auto_renew: boolean;
+  is_series: boolean | null;
+  series_open_from: string | null; // DATE
+  paused_from: string | null; // DATE
+  occurrence_date: string | null; // DATE
+  deleted_at: string | null;
+}
+
+// TIME columns come back with seconds ("09:30:00"); the app keeps HH:mm
+const toTimeOnly = (time: string | null): string | undefined => {
+  return time ? time.slice(0, 5) : undefined;
+};
+
+// Convert database task to app task format
+export const dbTaskToTask = (dbTask: DatabaseTask): Task => {
+  return {
+    id: dbTask.id,
+    title: dbTask.title,
+    dueDate: dbTask.due_date,
+    dueTime: toTimeOnly(dbTask.due_time),
+    durationMinutes: dbTask.duration_minutes || undefined,
+    completed: dbTask.completed,
+    skipped: dbTask.skipped || undefined,
+    subtasks: dbTask.subtasks || [],
+    notes: dbTask.notes || undefined,
+    tags: dbTask.tags || [],
+    priority: (dbTask.priority as TaskPriority) || undefined,
+    createdAt: dbTask.created_at,
+    lastModified: dbTask.last_modified,
+    recurrence: dbTask.recurrence as Task['recurrence'],
+    recurrenceGroupId: dbTask.recurrence_group_id,
+    recurrenceMultiplier: dbTask.recurrence_multiplier || undefined,
+    customFrequency: dbTask.custom_frequency as Task['customFrequency'],
+    byWeekday: dbTask.by_weekday && dbTask.by_weekday.length > 0 ? dbTask.by_weekday : undefined,
+    monthlyRule: dbTask.monthly_rule || undefined,
+    recurrenceFromCompletion: dbTask.recurrence_from_completion || undefined,
+    recurrenceEndDate: dbTask.recurrence_end_date || undefined,
+    recurrenceCount: dbTask.recurrence_count ?? undefined,
+    isLastInstance: dbTask.is_last_instance || false,
+    autoRenew: dbTask.auto_renew || false,
+    isSeries: dbTask.is_series || undefined,
+    seriesOpenFrom: dbTask.series_open_from || undefined,
+    pausedFrom: dbTask.paused_from || undefined,
+    occurrenceDate: dbTask.occurrence_date || undefined,
+    deletedAt: dbTask.deleted_at || undefined,
+  };
+};
@@ -1,8 +1,22 @@
-import { Task } from '../types';
+import { Task, TASK_PRIORITIES } from '../types';
+
+/**
+ * Ranks a task's priority, from 0 for none to 4 for urgent
+ */
+export const getPriorityRank = (task: Task): number => {
+  return TASK_PRIORITIES.indexOf(task.priority ?? 'none');
+};
+
+/**
+ * Compares tasks by priority, highest first (for use with Array.prototype.sort)
+ */
+export const compareByPriority = (a: Task, b: Task): number => {
+  return getPriorityRank(b) - getPriorityRank(a);
+};
 
 /**
  * Groups tasks by their first tag (or 'untagged' if no tags)
- * Returns grouped tasks and sorted tag names
+ * Returns grouped tasks (highest priority first) and sorted tag names
  */
 export const groupTasksByTag = (tasks: Task[]): { grouped: { [key: string]: Task[] }; sortedTags: string[] } => {
   const grouped: { [key: string]: Task[] } = {};
@@ -15,6 +29,9 @@ export const groupTasksByTag = (tasks: Task[]): { grouped: { [key: string]: Task
     grouped[tag].push(task);
   });
 
+  // Highest priority first within each tag; the sort is stable, so equal priorities keep their order
+  Object.values(grouped).forEach(tagTasks => tagTasks.sort(compareByPriority));
+
   // Sort tags: untagged last, others alphabetically
   const sortedTags = Object.keys(grouped).sort((a, b) => {
     if (a === 'untagged') return 1;
@@ -0,0 +1,405 @@
+/**
+ * @fileoverview Reading Todoist exports: a project's CSV export, or tasks and projects as JSON
+ * (from the Sync or REST API). Projects become tags, labels become tags, sub-tasks become
+ * subtasks, and repeat rules ("every monday", "every! 2 weeks") become recurrence settings where
+ * we can express them.
+ */
+
+import { isValid, parse } from 'date-fns';
+import { RecurrenceSettings, Subtask, Task, TaskPriority } from '../types';
+import type { ExternalImportItem, ExternalImportResult, ExternalImportSkip } from './externalImport';
+import { parseCsv, parseCsvDate } from './csv';
+import { generateId } from './supabaseStorage';
+import { toCalendarDay, toCalendarTime } from './calendarDay';
+import { isTimeOfDay } from './daySchedule';
+import { BaseFrequency, isObject, toRecurrenceSettings, toTag } from './importUtils';
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6,
+};
+
+const UNIT_FREQUENCIES: Record<string, BaseFrequency> = {
+  day: 'daily', days: 'daily',
+  week: 'weekly', weeks: 'weekly',
+  month: 'monthly', months: 'monthly',
+  quarter: 'quarterly', quarters: 'quarterly',
+  year: 'yearly', years: 'yearly',
+};
+
+const ORDINALS: Record<string, number> = {
+  first: 1, '1st': 1,
+  second: 2, '2nd': 2,
+  third: 3, '3rd': 3,
+  fourth: 4, '4th': 4,
+  last: -1,
+};
+
+// p4 is Todoist's default, i.e. no priority
+const PRIORITIES: Record<string, TaskPriority> = { p1: 'urgent', p2: 'high', p3: 'medium' };
+
+const BUSINESS_DAYS = [1, 2, 3, 4, 5];
+const INBOX_PROJECT_NAME = 'inbox';
+const ENGLISH_DATE_FORMATS = ['MMM d yyyy', 'MMMM d yyyy', 'd MMM yyyy', 'd MMMM yyyy'];
+const TIME_SUFFIX_PATTERN = /(?:[ T]|\s+at\s+)(\d{1,2}:\d{2}(:\d{2})?(\.\d+)?Z?|\d{1,2}(:\d{2})?\s*(am|pm))$/i;
+const UTC_DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?Z$/;
+
+const parseWeekdayList = (text: string): number[] | null => {
+  const names = text.split(/\s*(?:,|\band\b)\s*/).filter(name => name !== '');
+  const weekdays = names.map(name => WEEKDAYS[name]);
+  return names.length > 0 && weekdays.every(day => day !== undefined) ? weekdays : null;
+};
+
+/**
+ * Reads a Todoist repeat rule ("every day", "every other week", "every mon, fri", "every! 3 months",
+ * "every last day", "every 2nd tuesday"). A time ("at 9am") is left out.
+ * @returns null if the text isn't a repeat rule we can express
+ */
+export const parseTodoistRecurrence = (text: string): RecurrenceSettings | null => {
+  const match = /^ev(?:ery)?(!?)\s+(.+)$/.exec(text.trim().toLowerCase());
+  if (!match) return null;
+  const extra: Partial<RecurrenceSettings> = match[1] === '!' ? { recurrenceFromCompletion: true } : {};
+  const rule = match[2].replace(/\s+at\s+\d{1,2}(:\d{2})?\s*(am|pm)?$/, '').trim();
+
+  const unitMatch = /^(?:(\d+|other)\s+)?([a-z]+)$/.exec(rule);
+  if (unitMatch && UNIT_FREQUENCIES[unitMatch[2]]) {
+    const interval = unitMatch[1] === 'other' ? 2 : Number(unitMatch[1] ?? 1);
+    return toRecurrenceSettings(UNIT_FREQUENCIES[unitMatch[2]], interval, extra);
+  }
+  if (['weekday', 'weekdays', 'workday', 'workdays'].includes(rule)) {
+    return toRecurrenceSettings('weekly', 1, { ...extra, byWeekday: BUSINESS_DAYS });
+  }
+  if (rule === 'last day') {
+    return toRecurrenceSettings('monthly', 1, { ...extra, monthlyRule: { type: 'lastDay' } });
+  }
+
+  const nthMatch = /^([a-z0-9]+)\s+([a-z]+)$/.exec(rule);
+  if (nthMatch && ORDINALS[nthMatch[1]] !== undefined && WEEKDAYS[nthMatch[2]] !== undefined) {
+    return toRecurrenceSettings('monthly', 1, {
+      ...extra,
+      monthlyRule: { type: 'nthWeekday', ordinal: ORDINALS[nthMatch[1]], weekday: WEEKDAYS[nthMatch[2]] },
+    });
+  }
+
+  const otherMatch = /^(other\s+)?(.+)$/.exec(rule)!;
+  const weekdays = parseWeekdayList(otherMatch[2]);
+  if (weekdays) {
+    return toRecurrenceSettings('weekly', otherMatch[1] ? 2 : 1, { ...extra, byWeekday: weekdays });
+  }
+  return null;
+};
+
+const isRecurrenceText = (text: string): boolean => /^ev(ery)?!?\s/i.test(text.trim());
+
+/**
+ * Reads a Todoist time of day ("14:30", "14:30:00", "9am", "9:30 pm") as "HH:mm"
+ * @returns null if it isn't a time of day
+ */
+const parseTodoistTime = (text: string): string | null => {
+  const match = /^(\d{1,2})(?::(\d{2}))?(?::\d{2}(?:\.\d+)?)?\s*(am|pm)?$/i.exec(text.trim());
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+  const time = `${String(hours).padStart(2, '0')}:${match[2] ?? '00'}`;
+  return isTimeOfDay(time) ? time : null;
+};
+
+/**
+ * Reads a one-off Todoist date (YYYY-MM-DD, MM/DD/YYYY or "Mar 3 2025", optionally with a time).
+ * Times in UTC ("…T14:00:00Z", from tasks with a fixed time zone) are moved to the user's time zone.
+ */
+const parseTodoistDate = (text: string): { date: string | null; time: string | null; hasTime: boolean } => {
+  const trimmedText = text.trim();
+  if (UTC_DATE_TIME_PATTERN.test(trimmedText) && !Number.isNaN(Date.parse(trimmedText))) {
+    return { date: toCalendarDay(trimmedText), time: toCalendarTime(trimmedText), hasTime: true };
+  }
+
+  const timeMatch = TIME_SUFFIX_PATTERN.exec(trimmedText);
+  const dateText = timeMatch ? trimmedText.slice(0, timeMatch.index).replace(/,/g, '').trim() : trimmedText.replace(/,/g, '');
+
+  let date = parseCsvDate(dateText);
+  if (!date) {
+    const englishDate = ENGLISH_DATE_FORMATS
+      .map(format => parse(dateText, format, new Date()))
+      .find(parsedDate => isValid(parsedDate));
+    date = englishDate ? parseCsvDate(`${englishDate.getFullYear()}-${englishDate.getMonth() + 1}-${englishDate.getDate()}`) : null;
+  }
+  return { date, time: timeMatch ? parseTodoistTime(timeMatch[1]) : null, hasTime: !!timeMatch };
+};
+
+/**
+ * Maps a Todoist due date onto our due date, due time and recurrence, noting what's lost
+ * @param nextDate The concrete next due date, when the export has one (JSON exports do, CSV exports don't)
+ */
+const applyTodoistDue = (
+  taskData: Partial<Task>,
+  unmapped: string[],
+  dueText: string,
+  nextDate: string | null,
+  today: string
+): void => {
+  if (!dueText && !nextDate) return;
+
+  if (dueText && isRecurrenceText(dueText)) {
+    const settings = parseTodoistRecurrence(dueText);
+    const next = nextDate ? parseTodoistDate(nextDate) : null;
+    if (!next?.date) {
+      unmapped.push('The export has no next due date; it starts today');
+    }
+    taskData.dueDate = next?.date ?? today;
+    if (!settings) {
+      unmapped.push(`Repeat rule "${dueText}" isn't supported; imported as a one-off task`);
+    } else if (taskData.completed) {
+      unmapped.push(`Repeat rule "${dueText}" isn't imported for a completed task`);
+    } else {
+      Object.assign(taskData, settings);
+    }
+    const ruleTime = /\sat\s+(.+)$/i.exec(dueText)?.[1];
+    const time = next?.time ?? (ruleTime ? parseTodoistTime(ruleTime) : null);
+    if (time) {
+      taskData.dueTime = time;
+    } else if (ruleTime || next?.hasTime) {
+      unmapped.push('Due time not imported');
+    }
+    return;
+  }
+
+  const { date, time, hasTime } = parseTodoistDate(nextDate ?? dueText);
+  if (!date) {
+    unmapped.push(`Due date "${dueText}" couldn't be read; imported without one`);
+    return;
+  }
+  taskData.dueDate = date;
+  if (time) {
+    taskData.dueTime = time;
+  } else if (hasTime) {
+    unmapped.push('Due time not imported');
+  }
+};
+
+/**
+ * Maps a Todoist duration onto our duration, noting what's lost. Only timed tasks take one,
+ * in minutes; durations in days have no equivalent.
+ */
+const applyTodoistDuration = (taskData: Partial<Task>, unmapped: string[], amount: number, unit: string): void => {
+  if (!(amount > 0)) return;
+  if (unit === 'minute' && Number.isInteger(amount) && taskData.dueTime) {
+    taskData.durationMinutes = amount;
+  } else {
+    unmapped.push('Duration not imported');
+  }
+};
+
+/**
+ * Builds the label of an imported entry, e.g. "Groceries / Buy milk"
+ */
+const getLabel = (projectName: string | null, title: string): string => {
+  return projectName ? `${projectName} / ${title}` : title;
+};
+
+/**
+ * Reads a project's CSV export (columns TYPE, CONTENT, DESCRIPTION, PRIORITY, INDENT, DATE, DURATION, …).
+ * Rows indented under a task are its subtasks; labels are "@label" words in the content.
+ */
+export const readTodoistCsv = (text: string, projectName: string, today: string): ExternalImportResult => {
+  const rows = parseCsv(text);
+  const header = (rows[0] ?? []).map(cell => cell.trim().toUpperCase());
+  const column = (name: string) => header.indexOf(name);
+  if (column('TYPE') === -1 || column('CONTENT') === -1) {
+    return { ok: false, errors: ['The file is not a Todoist CSV export (it needs TYPE and CONTENT columns)'] };
+  }
+
+  const items: ExternalImportItem[] = [];
+  const skipped: ExternalImportSkip[] = [];
+  const projectTag = toTag(projectName);
+  let currentItem: ExternalImportItem | null = null;
+
+  rows.slice(1).forEach((cells, index) => {
+    const cell = (name: string): string => (column(name) === -1 ? '' : (cells[column(name)] ?? '').trim());
+    const type = cell('TYPE').toLowerCase();
+    const content = cell('CONTENT');
+    const labels = Array.from(content.matchAll(/(?:^|\s)@([^\s@]+)/g), match => toTag(match[1]));
+    const title = content.replace(/(?:^|\s)@[^\s@]+/g, '').trim();
+    const rowLabel = `Row ${index + 2}`;
+
+    if (type === 'section') {
+      skipped.push({ label: `${rowLabel}: section "${content}"`, reason: 'Sections are not imported' });
+      return;
+    }
+    if (type === 'note') {
+      skipped.push({ label: `${rowLabel}: comment`, reason: 'Comments are not imported' });
+      return;
+    }
+    if (type !== 'task') {
+      skipped.push({ label: rowLabel, reason: `Unknown row type "${cell('TYPE')}"` });
+      return;
+    }
+    if (!title) {
+      skipped.push({ label: rowLabel, reason: 'The task has no title' });
+      return;
+    }
+
+    const indent = Number(cell('INDENT')) || 1;
+    if (indent > 1 && currentItem) {
+      currentItem.taskData.subtasks!.push({ id: generateId(), text: title, completed: false });
+      if (indent > 2) currentItem.unmapped.push(`Sub-task "${title}" is nested deeper; imported as a plain subtask`);
+      if (cell('DATE')) currentItem.unmapped.push(`Due date of subtask "${title}" not imported`);
+      return;
+    }
+
+    const taskData: Partial<Task> = {
+      title,
+      dueDate: null,
+      completed: false,
+      subtasks: [],
+      tags: [...new Set([...(projectTag && projectTag !== INBOX_PROJECT_NAME ? [projectTag] : []), ...labels])],
+    };
+    const unmapped: string[] = [];
+    applyTodoistDue(taskData, unmapped, cell('DATE'), null, today);
+    // The CSV export numbers priorities like Todoist's app does: 1 is the highest (p1), 4 is none
+    const priority = PRIORITIES[`p${cell('PRIORITY')}`];
+    if (priority) taskData.priority = priority;
+    if (cell('DESCRIPTION')) taskData.notes = cell('DESCRIPTION');
+    if (cell('RESPONSIBLE')) unmapped.push('Assignee not imported');
+    applyTodoistDuration(taskData, unmapped, Number(cell('DURATION')), cell('DURATION_UNIT').toLowerCase() || 'minute');
+
+    currentItem = { label: getLabel(projectName, title), taskData, unmapped };
+    items.push(currentItem);
+  });
+
+  return { ok: true, value: { format: 'todoist-csv', items, skipped } };
+};
+
+interface TodoistDue {
+  date?: string;
+  string?: string;
+  is_recurring?: boolean;
+}
+
+interface TodoistItem {
+  id: string | number;
+  content?: string;
+  description?: string;
+  project_id?: string | number | null;
+  parent_id?: string | number | null;
+  checked?: boolean | number;
+  is_completed?: boolean;
+  is_deleted?: boolean | number;
+  labels?: string[];
+  due?: TodoistDue | null;
+  priority?: number;
+  completed_at?: string | null;
+  duration?: { amount?: number; unit?: string } | null;
+}
+
+interface TodoistProject {
+  id: string | number;
+  name: string;
+  inbox_project?: boolean;
+}
+
+const isTodoistItem = (value: unknown): value is TodoistItem => {
+  return isObject(value) && 'content' in value && 'id' in value;
+};
+
+/**
+ * Reads Todoist tasks as JSON: a Sync API response ({ items, projects }), an object with
+ * { tasks, projects }, or the REST API's plain task array (which has no project names)
+ * @returns null if the data isn't from Todoist
+ */
+export const readTodoistJson = (data: unknown, today: string): ExternalImportResult | null => {
+  const rawItems = Array.isArray(data) ? data : isObject(data) ? (data.items ?? data.tasks) : null;
+  if (!Array.isArray(rawItems) || rawItems.length === 0 || !rawItems.every(isTodoistItem)) {
+    return null;
+  }
+
+  const rawProjects = isObject(data) && Array.isArray(data.projects) ? data.projects as TodoistProject[] : [];
+  const projectsById = new Map(rawProjects.map(project => [String(project.id), project]));
+  const itemsById = new Map(rawItems.map(item => [String(item.id), item]));
+  const items: ExternalImportItem[] = [];
+  const skipped: ExternalImportSkip[] = [];
+  const importItemsById = new Map<string, ExternalImportItem>();
+
+  // The top-level task an item belongs to, and how deep it's nested under it
+  const findRoot = (item: TodoistItem): { root: TodoistItem; depth: number } => {
+    let root = item;
+    let depth = 0;
+    while (root.parent_id != null && itemsById.has(String(root.parent_id))) {
+      root = itemsById.get(String(root.parent_id))!;
+      depth++;
+    }
+    return { root, depth };
+  };
+
+  const liveItems = rawItems.filter(item => {
+    if (!item.is_deleted) return true;
+    skipped.push({ label: item.content || String(item.id), reason: 'Deleted in Todoist' });
+    return false;
+  });
+
+  liveItems.filter(item => findRoot(item).depth === 0).forEach(item => {
+    const title = (item.content ?? '').trim();
+    const project = item.project_id != null ? projectsById.get(String(item.project_id)) : undefined;
+    const projectName = project?.name ?? null;
+    if (!title) {
+      skipped.push({ label: getLabel(projectName, String(item.id)), reason: 'The task has no title' });
+      return;
+    }
+
+    const isInbox = project?.inbox_project || (projectName && toTag(projectName) === INBOX_PROJECT_NAME);
+    const completed = !!item.checked || !!item.is_completed;
+    const taskData: Partial<Task> = {
+      title,
+      dueDate: null,
+      completed,
+      subtasks: [],
+      tags: [...new Set([...(projectName && !isInbox ? [toTag(projectName)] : []), ...(item.labels ?? []).map(toTag)])],
+    };
+    if (completed && item.completed_at && !Number.isNaN(Date.parse(item.completed_at))) {
+      taskData.lastModified = new Date(item.completed_at).toISOString();
+    }
+
+    const unmapped: string[] = [];
+    if (item.due) {
+      applyTodoistDue(taskData, unmapped, item.due.is_recurring ? (item.due.string ?? '') : '', item.due.date ?? null, today);
+    }
+    // The API numbers priorities the other way round: 4 is the highest (p1), 1 is none
+    const priority = item.priority ? PRIORITIES[`p${5 - item.priority}`] : undefined;
+    if (priority) taskData.priority = priority;
+    if (item.description?.trim()) taskData.notes = item.description.trim();
+    if (item.duration) applyTodoistDuration(taskData, unmapped, item.duration.amount ?? 0, item.duration.unit ?? '');
+    if (item.project_id != null && !project && rawProjects.length === 0) {
+      unmapped.push('Project not imported (the file has no project names)');
+    }
+
+    const importItem = { label: getLabel(projectName, title), taskData, unmapped };
+    importItemsById.set(String(item.id), importItem);
+    items.push(importItem);
+  });
+
+  liveItems.forEach(item => {
+    const { root, depth } = findRoot(item);
+    const parent = depth > 0 ? importItemsById.get(String(root.id)) : undefined;
+    if (depth === 0) return;
+    const text = (item.content ?? '').trim();
+    if (!parent || !text) {
+      skipped.push({ label: text || String(item.id), reason: 'Sub-task of a task that is not imported' });
+      return;
+    }
+    const subtask: Subtask = { id: generateId(), text, completed: !!item.checked || !!item.is_completed };
+    parent.taskData.subtasks!.push(subtask);
+    if (depth > 1) parent.unmapped.push(`Sub-task "${text}" is nested deeper; imported as a plain subtask`);
+    if (item.due) parent.unmapped.push(`Due date of subtask "${text}" not imported`);
+  });
+
+  return { ok: true, value: { format: 'todoist-json', items, skipped } };
+};
@@ -5,6 +5,8 @@ interface ImportMetaEnv {
   readonly VITE_SUPABASE_ANON_KEY: string
   readonly VITE_APP_VERSION: string
   readonly VITE_LOG_LEVEL?: string
+  readonly VITE_STORAGE_BACKEND?: string
+  readonly VITE_CALENDAR_FEED_URL?: string
 }
 
 interface ImportMeta {
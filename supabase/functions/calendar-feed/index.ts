@@ -0,0 +1,16 @@
+/**
+ * @fileoverview Supabase edge function serving users' calendar feeds.
+ *
+ * Deploy without JWT verification (the token in the URL is the only credential):
+ *   supabase functions deploy calendar-feed --no-verify-jwt
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { createCalendarFeedHandler, createSupabaseFeedLoader } from '../../../src/utils/calendarFeedHandler.ts';
+
+// The feed's requests have no signed-in user, so tasks are read with the service role
+const client = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+  auth: { persistSession: false },
+});
+
+Deno.serve(createCalendarFeedHandler(createSupabaseFeedLoader(client)));
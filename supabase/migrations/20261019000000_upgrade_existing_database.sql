@@ -0,0 +1,84 @@
+-- Brings a database created from an older supabase-schema.sql up to date.
+-- Safe to run more than once: every change is skipped if it's already there.
+
+-- Recurrence rules: weekdays, monthly rules, end conditions, completion-based series, skipping
+alter table public.tasks add column if not exists by_weekday integer[];
+alter table public.tasks add column if not exists monthly_rule jsonb;
+alter table public.tasks add column if not exists recurrence_end_date date;
+alter table public.tasks add column if not exists recurrence_count integer;
+alter table public.tasks add column if not exists recurrence_from_completion boolean;
+alter table public.tasks add column if not exists skipped boolean;
+
+-- Series rules: one row per series, plus exception rows for completed, skipped, edited or moved occurrences
+alter table public.tasks add column if not exists is_series boolean;
+alter table public.tasks add column if not exists series_open_from date;
+alter table public.tasks add column if not exists occurrence_date date;
+alter table public.tasks add column if not exists paused_from date;
+
+-- Trash
+alter table public.tasks add column if not exists deleted_at timestamptz;
+
+-- Priority, due times and durations, notes
+alter table public.tasks add column if not exists priority text;
+alter table public.tasks add column if not exists due_time time;
+alter table public.tasks add column if not exists duration_minutes integer;
+alter table public.tasks add column if not exists notes text;
+
+-- Completed occurrences are loaded in full on every sign-in
+create index if not exists tasks_user_occurrence_idx
+  on public.tasks (user_id, occurrence_date)
+  where occurrence_date is not null;
+
+create index if not exists tasks_user_deleted_at_idx
+  on public.tasks (user_id, deleted_at)
+  where deleted_at is not null;
+
+-- Per-user settings: time zone, trash retention, calendar feed
+create table if not exists public.user_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  time_zone text,
+  trash_retention_days integer not null default 30,
+  calendar_feed_token text unique
+);
+
+alter table public.user_settings add column if not exists time_zone text;
+alter table public.user_settings add column if not exists trash_retention_days integer not null default 30;
+alter table public.user_settings add column if not exists calendar_feed_token text unique;
+
+alter table public.user_settings enable row level security;
+
+drop policy if exists "Users can view their own settings" on public.user_settings;
+create policy "Users can view their own settings" on public.user_settings
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "Users can insert their own settings" on public.user_settings;
+create policy "Users can insert their own settings" on public.user_settings
+  for insert with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their own settings" on public.user_settings;
+create policy "Users can update their own settings" on public.user_settings
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Task change history. Entries are only ever added, so there are no update or delete policies.
+create table if not exists public.task_history (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  task_id uuid not null,
+  changed_at timestamptz not null,
+  device_id text not null,
+  device_name text not null,
+  changes jsonb not null default '{}'::jsonb
+);
+
+create index if not exists task_history_user_task_idx
+  on public.task_history (user_id, task_id, changed_at);
+
+alter table public.task_history enable row level security;
+
+drop policy if exists "Users can view their own task history" on public.task_history;
+create policy "Users can view their own task history" on public.task_history
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "Users can add to their own task history" on public.task_history;
+create policy "Users can add to their own task history" on public.task_history
+  for insert with check (auth.uid() = user_id);